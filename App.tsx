@@ -4,16 +4,39 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect } from 'react';
-import { HeroScene, HardwareScene } from './components/DynamicScene';
-import { SurfaceCodeDiagram, TransformerDecoderDiagram, PerformanceMetricDiagram } from './components/Diagrams';
+import React, { useState, useEffect, useRef } from 'react';
+import { SurfaceCodeDiagram } from './components/Diagrams';
+import { BenchmarkChart } from './components/BenchmarkChart';
+import { EquationsPanel } from './components/EquationsPanel';
 import { ConceptNetwork } from './components/GenericVisualizer';
+import { DiagramRenderer } from './components/DiagramRenderer';
 import { Navigation } from './components/Navigation';
 import { InputModal } from './components/InputModal';
-import { ArrowDown, Twitter, Linkedin, BookOpen } from 'lucide-react';
-import { GoogleGenAI, Type } from "@google/genai";
-import { PaperData } from './types';
-import { motion } from 'framer-motion';
+import { SettingsPanel } from './components/SettingsPanel';
+import { PaperHero, IntroductionSection, MethodologySection, AnalysisSection, ImpactSection, AuthorsSection } from './components/PaperSections';
+import { FigureGallery } from './components/FigureGallery';
+import { LibraryDrawer } from './components/LibraryDrawer';
+import { ChatPanel } from './components/ChatPanel';
+import { GlossarySection } from './components/Glossary';
+import { SourceViewer } from './components/SourceViewer';
+import { SourceClaim } from './components/SourceControl';
+import { Twitter, Linkedin, Link2, Check, Image as ImageIcon, MessageCircle, AlertCircle, X } from 'lucide-react';
+import { AudienceKey, ChatMessage, PaperData, PaperFigure } from './types';
+import { AnalysisProgress, ProviderConfig, ProviderError, getProvider, loadProviderConfig, saveProviderConfig } from './services/providers';
+import { analyzeDocument } from './services/analyzeDocument';
+import { diagramsFor } from './services/pipeline';
+import { explainFigure } from './services/figures';
+import { PaperValidationError } from './services/validatePaper';
+import { LibraryEntry, addPaper, saveConversation, saveSource, updatePaper } from './services/library';
+import { DocumentText } from './services/documentSections';
+import { askPaper } from './services/paperChat';
+import { applyVariant, audienceKeyOf, rewriteForAudience } from './services/audience';
+import { extractPdfText } from './services/pdf';
+import { createPermalink, isPermalink, readPermalink } from './services/permalink';
+import { downloadBlob, exportSite, slugify } from './services/exportSite';
+import { parsePaperDocument, serializePaper } from './services/paperFormat';
+import { translatePaper } from './services/translation';
+import { LocaleProvider, languageOf, stringsFor } from './i18n';
 
 // --- DEFAULT DATA (AlphaQubit) ---
 const ALPHA_QUBIT_DATA: PaperData = {
@@ -32,31 +55,81 @@ const ALPHA_QUBIT_DATA: PaperData = {
   theme: 'quantum',
   concepts: [], // Uses custom visualizations for demo
   impact: "AlphaQubit maintains its advantage even as the code distance increases. By learning from data directly, machine learning decoders can adapt to the unique quirks of each quantum processor, potentially reducing the hardware requirements for useful quantum computing.",
-  url: "https://doi.org/10.1038/s41586-024-08148-8"
-};
-
-const AuthorCard = ({ name, role, delay }: { name: string, role: string, delay: string }) => {
-  return (
-    <div className="flex flex-col group animate-fade-in-up items-center p-8 bg-white dark:bg-stone-800 rounded-xl border border-stone-200 dark:border-stone-700 shadow-sm hover:shadow-xl transition-all duration-300 w-full max-w-xs hover:-translate-y-1" style={{ animationDelay: delay }}>
-      <h3 className="font-serif text-2xl text-stone-900 dark:text-stone-100 text-center mb-3 group-hover:text-purple-600 dark:group-hover:text-purple-400 transition-colors">{name}</h3>
-      <div className="w-12 h-0.5 bg-stone-300 dark:bg-stone-600 mb-4 opacity-60 group-hover:bg-stone-900 dark:group-hover:bg-stone-100 transition-colors"></div>
-      <p className="text-xs text-stone-500 dark:text-stone-400 font-bold uppercase tracking-widest text-center leading-relaxed">{role}</p>
-    </div>
-  );
-};
-
-// Helper to convert File to Base64 for Gemini
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      const base64Data = result.split(',')[1];
-      resolve(base64Data);
-    };
-    reader.onerror = (error) => reject(error);
-  });
+  url: "https://doi.org/10.1038/s41586-024-08148-8",
+  citation: {
+    doi: "10.1038/s41586-024-08148-8",
+    year: 2024,
+    venue: "Nature",
+    volume: "635",
+    pages: "834-840"
+  },
+  diagrams: [
+    {
+      kind: 'pipeline',
+      title: "AlphaQubit Architecture",
+      caption: "The model processes syndrome history using a recurrent transformer, attending to spatial and temporal correlations.",
+      nodes: [
+        { id: "syndrome", label: "Syndrome", detail: "Each error-correction round measures every stabilizer, giving one parity bit per check.", shape: "rounds × stabilizers" },
+        { id: "embed", label: "Embedding", detail: "Each stabilizer's measurement and position are turned into a vector.", shape: "vector per stabilizer" },
+        { id: "transformer", label: "Recurrent Transformer", detail: "Stabilizer states attend to one another within a round and carry over from round to round.", shape: "decoder state" },
+        { id: "readout", label: "Correction", detail: "A readout network turns the final state into the probability that the logical qubit flipped.", shape: "P(logical flip)" }
+      ],
+      edges: [
+        { from: "syndrome", to: "embed" },
+        { from: "embed", to: "transformer" },
+        { from: "transformer", to: "readout" }
+      ]
+    }
+  ],
+  methodology: [
+    {
+      title: "Generate Training Data",
+      description: "Billions of syndrome samples are simulated from a noise model fitted to the Sycamore processor, covering code distances 3 to 11.",
+      inputs: ["Device noise model", "Surface code circuits"],
+      outputs: ["Simulated syndromes"]
+    },
+    {
+      title: "Pretrain the Decoder",
+      description: "The recurrent transformer learns to predict logical errors from the simulated syndromes alone.",
+      inputs: ["Simulated syndromes"],
+      outputs: ["Pretrained decoder"]
+    },
+    {
+      title: "Fine-tune on Experiment",
+      description: "A limited budget of real Sycamore samples adapts the model to noise the simulator does not capture, such as leakage and cross-talk.",
+      inputs: ["Pretrained decoder", "Experimental samples"],
+      outputs: ["Fine-tuned decoder"]
+    },
+    {
+      title: "Decode and Compare",
+      description: "The decoder processes each round of stabilizer measurements and its logical error rate is compared with matching-based decoders.",
+      inputs: ["Fine-tuned decoder", "Held-out experiments"],
+      outputs: ["Logical error rates"]
+    }
+  ],
+  results: [
+    {
+      title: "Performance vs Standard",
+      caption: "AlphaQubit consistently achieves lower logical error rates (LER) than the standard Minimum-Weight Perfect Matching (MWPM) decoder.",
+      metric: "Logical error rate",
+      unit: "%",
+      lowerIsBetter: true,
+      conditionName: "Distance",
+      conditions: ["3", "5", "11"],
+      series: [
+        { name: "Standard", values: [3.5, 3.6, 0.0041] },
+        { name: "Alpha", values: [2.9, 2.75, 0.0009], isProposed: true }
+      ]
+    }
+  ],
+  glossary: [
+    { term: "Surface Code", definition: "A way of storing one reliable logical qubit across a grid of noisy physical qubits, checked by repeated local measurements.", aliases: [] },
+    { term: "stabilizer", definition: "A measurement on a small group of neighbouring qubits that reveals whether an error has occurred nearby without disturbing the stored information.", aliases: [] },
+    { term: "code distance", definition: "The size of the surface code grid; a larger distance can correct more simultaneous errors.", aliases: [] },
+    { term: "decoder", definition: "The algorithm that reads stabilizer measurements and works out which correction to apply.", aliases: [] },
+    { term: "logical error rate", definition: "How often the decoder's correction leaves the logical qubit in the wrong state.", aliases: ["LER"] },
+    { term: "quantum processor", definition: "The chip of physical qubits on which the code runs, here Google's Sycamore.", aliases: [] }
+  ]
 };
 
 const App: React.FC = () => {
@@ -68,8 +141,47 @@ const App: React.FC = () => {
   const [paperData, setPaperData] = useState<PaperData>(ALPHA_QUBIT_DATA);
   const [isCustom, setIsCustom] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysisStep, setAnalysisStep] = useState<string>('uploading'); // uploading, reading, analyzing, generating
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress>({ step: 'uploading' });
   const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+
+  // Saved papers; libraryId is the entry backing the paper on screen
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryId, setLibraryId] = useState<string | null>(null);
+
+  // Questions about the open paper; the source text is what answers quote from
+  const [showChat, setShowChat] = useState(false);
+  const [conversation, setConversation] = useState<ChatMessage[]>([]);
+  const [documentText, setDocumentText] = useState<DocumentText | null>(null);
+  const [isLoadingSource, setIsLoadingSource] = useState(false);
+  const sourceRequestRef = useRef(0);
+
+  // The claim whose supporting quotes are open next to the page, and the PDF they are shown in
+  const [sourceClaim, setSourceClaim] = useState<SourceClaim | null>(null);
+  const [sourcePdf, setSourcePdf] = useState<Blob | null>(null);
+
+  // Reading level and language; the paper is read through a ref so a rewrite that finishes late sees the latest edits
+  const [rewritingFor, setRewritingFor] = useState<AudienceKey | null>(null);
+  const [translatingTo, setTranslatingTo] = useState<string | null>(null);
+  const [rewriteError, setRewriteError] = useState<string | null>(null);
+  const paperRef = useRef(paperData);
+  paperRef.current = paperData;
+  // Bumped whenever a different paper is opened, so late results can tell whether theirs is still on screen
+  const paperGenerationRef = useRef(0);
+
+  // Interface text follows the language of the paper on screen
+  const language = languageOf(paperData.language);
+  const t = stringsFor(language.code).app;
+  const demo = stringsFor(language.code).paper.demo;
+
+  // Sharing
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Model provider settings
+  const [showSettings, setShowSettings] = useState(false);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(loadProviderConfig);
 
   // Theme
   const [darkMode, setDarkMode] = useState(false);
@@ -88,6 +200,31 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Open shared papers from the URL fragment, on load and when a permalink is pasted into this tab
+  useEffect(() => {
+    const hydrate = () => {
+      const hash = window.location.hash;
+      if (!isPermalink(hash)) return;
+      readPermalink(hash)
+        .then(data => {
+          if (!data) return;
+          setPaperData(data);
+          setIsCustom(true);
+          setLibraryId(null);
+          loadChat(null);
+          setShareError(null);
+          window.scrollTo({ top: 0 });
+        })
+        .catch(e => {
+          console.error("Failed to open shared link", e);
+          setShareError(stringsFor(paperRef.current.language).app.sharedLinkFailed);
+        });
+    };
+    hydrate();
+    window.addEventListener('hashchange', hydrate);
+    return () => window.removeEventListener('hashchange', hydrate);
+  }, []);
+
   const toggleDarkMode = () => {
     const newMode = !darkMode;
     setDarkMode(newMode);
@@ -100,144 +237,319 @@ const App: React.FC = () => {
     }
   };
 
+  useEffect(() => {
+    document.documentElement.lang = language.code;
+    document.documentElement.dir = language.dir;
+  }, [language]);
+
   useEffect(() => {
     const handleScroll = () => setScrolled(window.scrollY > 20);
     window.addEventListener('scroll', handleScroll);
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
-  const scrollToSection = (id: string) => () => {
-    const element = document.getElementById(id);
-    if (element) {
-      const headerOffset = 100;
-      const elementPosition = element.getBoundingClientRect().top;
-      const offsetPosition = elementPosition + window.pageYOffset - headerOffset;
-      window.scrollTo({ top: offsetPosition, behavior: "smooth" });
+  // Swaps in the conversation, source text and PDF for the paper being opened, and starts a new paper
+  // generation; every open goes through here. A PDF saved before source text was kept is parsed in the
+  // background, unless another paper is opened first.
+  const loadChat = (source: DocumentText | null, messages: ChatMessage[] = [], entry?: LibraryEntry, pdf: Blob | null = entry?.pdf ?? null) => {
+    const request = ++sourceRequestRef.current;
+    paperGenerationRef.current++;
+    setConversation(messages);
+    setDocumentText(source);
+    setSourcePdf(pdf);
+    setSourceClaim(null);
+    setIsLoadingSource(false);
+    if (source || !entry?.pdf) return;
+
+    setIsLoadingSource(true);
+    extractPdfText(entry.pdf)
+      .then(pdf => {
+        if (sourceRequestRef.current !== request) return;
+        const extracted: DocumentText = { pages: pdf.pages, paginated: true };
+        setDocumentText(extracted);
+        saveSource(entry.id, extracted).catch(e => console.warn("Couldn't save the extracted text", e));
+      })
+      .catch(e => console.warn("Couldn't read the saved PDF", e))
+      .finally(() => {
+        if (sourceRequestRef.current === request) setIsLoadingSource(false);
+      });
+  };
+
+  // The source view and the chat share the right-hand side of the screen
+  const showSource = (claim: SourceClaim) => {
+    setShowChat(false);
+    setSourceClaim(claim);
+  };
+
+  const updateConversation = (messages: ChatMessage[]) => {
+    setConversation(messages);
+    if (libraryId) {
+      saveConversation(libraryId, messages).catch(e => console.warn("Couldn't save the conversation", e));
     }
   };
 
-  const shareContent = (platform: 'twitter' | 'linkedin') => {
-    const url = encodeURIComponent(window.location.href);
-    const text = encodeURIComponent(`Check out this interactive visualization of "${paperData.title}"! #Science #Research #Visualization`);
-    
-    if (platform === 'twitter') {
-      window.open(`https://twitter.com/intent/tweet?text=${text}&url=${url}`, '_blank');
-    } else if (platform === 'linkedin') {
-      window.open(`https://www.linkedin.com/sharing/share-offsite/?url=${url}`, '_blank');
+  const askAboutPaper = (messages: ChatMessage[], onDelta: (text: string) => void, signal: AbortSignal) =>
+    askPaper(getProvider(providerConfig), paperData, documentText, messages, {
+      model: providerConfig.model,
+      temperature: providerConfig.temperature,
+      maxTokens: providerConfig.maxTokens,
+      onDelta,
+      signal
+    });
+
+  // The demo lives at the bare URL; custom papers need a permalink to survive the trip.
+  const getShareUrl = () => isCustom ? createPermalink(paperData) : Promise.resolve(window.location.href.split('#')[0]);
+
+  const shareContent = async (platform: 'twitter' | 'linkedin') => {
+    // Open the window before awaiting the link so popup blockers still treat it as a click.
+    const shareWindow = window.open('', '_blank');
+    setShareError(null);
+    try {
+      const url = encodeURIComponent(await getShareUrl());
+      const text = encodeURIComponent(`${t.shareText(paperData.title)} #Science #Research #Visualization`);
+
+      if (platform === 'twitter') {
+        shareWindow?.location.assign(`https://twitter.com/intent/tweet?text=${text}&url=${url}`);
+      } else if (platform === 'linkedin') {
+        shareWindow?.location.assign(`https://www.linkedin.com/sharing/share-offsite/?url=${url}`);
+      }
+    } catch (e) {
+      shareWindow?.close();
+      console.error("Failed to create share link", e);
+      setShareError(t.createLinkFailed);
+    }
+  };
+
+  const copyLink = async () => {
+    setShareError(null);
+    try {
+      await navigator.clipboard.writeText(await getShareUrl());
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy link", e);
+      setShareError(t.copyLinkFailed);
     }
   };
 
-  const handleAnalyze = async (text: string, file: File | null) => {
+  const handleAnalyze = async (text: string, file: File | null, outputLanguage: string) => {
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsAnalyzing(true);
     setAnalysisError(null);
-    setAnalysisStep('uploading');
+    setAnalysisProgress({ step: 'uploading' });
+    const startedAt = Date.now();
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      let contentsPayload: any[] = [];
-      const promptInstructions = `
-        Analyze the provided research paper (text or PDF). 
-        Extract fields in JSON:
-        1. title (string)
-        2. subtitle (string, 5-7 words)
-        3. journal (string, optional)
-        4. introTitle (string, catchy)
-        5. summary (string, 2-3 paragraphs. IMPORTANT: Use \\n to separate paragraphs.)
-        6. authors (array of {name, role})
-        7. theme (enum: 'quantum', 'ai', 'biology', 'cosmos', 'material', 'general')
-        8. concepts (array of 3 objects {title, description, type: 'process'|'structure'|'abstract'})
-        9. impact (string, 1 paragraph)
-      `;
-
-      if (file) {
-        setAnalysisStep('reading');
-        const base64Data = await fileToBase64(file);
-        contentsPayload.push({
-          inlineData: { mimeType: 'application/pdf', data: base64Data }
-        });
-        contentsPayload.push({ text: promptInstructions + "\n\nUser Notes: " + text });
-      } else {
-        setAnalysisStep('reading');
-        contentsPayload.push({ text: promptInstructions + "\n\nPaper Text:\n" + text.substring(0, 30000) });
-      }
-
-      setAnalysisStep('analyzing');
-      // Artificial delay to make step visible if API is too fast (UX)
-      await new Promise(r => setTimeout(r, 800));
-
-      setAnalysisStep('generating');
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: contentsPayload,
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              title: { type: Type.STRING },
-              subtitle: { type: Type.STRING },
-              journal: { type: Type.STRING },
-              introTitle: { type: Type.STRING },
-              summary: { type: Type.STRING },
-              authors: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: { name: { type: Type.STRING }, role: { type: Type.STRING } }
-                }
-              },
-              theme: { type: Type.STRING, enum: ['quantum', 'ai', 'biology', 'cosmos', 'material', 'general'] },
-              concepts: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                     title: { type: Type.STRING },
-                     description: { type: Type.STRING },
-                     type: { type: Type.STRING, enum: ['process', 'structure', 'abstract'] }
-                  }
-                }
-              },
-              impact: { type: Type.STRING }
-            }
-          }
+      const provider = getProvider(providerConfig);
+      const { paper: data, source } = await analyzeDocument(provider, text, file, {
+        model: providerConfig.model,
+        temperature: providerConfig.temperature,
+        maxTokens: providerConfig.maxTokens,
+        maxRetries: providerConfig.maxRetries,
+        language: outputLanguage,
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (!controller.signal.aborted) setAnalysisProgress(progress);
         }
       });
+      // A late response after Cancel must not replace the paper the user went back to.
+      if (controller.signal.aborted) return;
 
-      const data = JSON.parse(response.text || "{}");
-      
-      if (!data.title) throw new Error("Incomplete data received from AI.");
-
-      // Ensure theme is valid
-      const validTheme = ['quantum', 'ai', 'biology', 'cosmos', 'material'].includes(data.theme) ? data.theme : 'general';
-
-      setPaperData({
-        ...data,
-        theme: validTheme,
-        url: file ? "#" : "#"
-      });
+      setPaperData(data);
       setIsCustom(true);
+      setLibraryId(null);
+      loadChat(source, [], undefined, file);
+      const generation = paperGenerationRef.current;
       setShowInputModal(false);
       window.scrollTo({ top: 0, behavior: 'smooth' });
 
+      // Saving is best-effort; a full or blocked IndexedDB shouldn't hide a finished analysis.
+      try {
+        const entry = await addPaper(data, {
+          provider: providerConfig.provider,
+          model: providerConfig.model,
+          temperature: providerConfig.temperature,
+          sourceName: file?.name,
+          sourceSize: file?.size,
+          durationMs: Date.now() - startedAt
+        }, file ?? undefined, source);
+        // Only link the entry if this paper is still the one on screen
+        if (paperGenerationRef.current === generation) setLibraryId(entry.id);
+      } catch (e) {
+        console.warn("Couldn't save paper to the library", e);
+      }
+
     } catch (e: any) {
+      if (controller.signal.aborted) return;
       console.error("Analysis failed", e);
-      setAnalysisError("Failed to analyze the document. The PDF might be corrupted, too large, or password protected. Please try again.");
+      setAnalysisError(e instanceof PaperValidationError || e instanceof ProviderError
+        ? e.message
+        : t.analysisFailed);
+    } finally {
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setIsAnalyzing(false);
+      }
+    }
+  };
+
+  // Abandons the running analysis; the current paper is left untouched and the form keeps its input.
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    setIsAnalyzing(false);
+    setAnalysisProgress({ step: 'uploading' });
+  };
+
+  const handleExportSite = async () => {
+    setIsExporting(true);
+    setShareError(null);
+    try {
+      const { blob, filename } = await exportSite(paperData);
+      downloadBlob(blob, filename);
+    } catch (e: any) {
+      console.error("Site export failed", e);
+      setShareError(e.message || t.exportFailed);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportJson = () => {
+    downloadBlob(new Blob([serializePaper(paperData)], { type: 'application/json' }), `${slugify(paperData.title)}.json`);
+  };
+
+  // Renders a previously exported or hand-written paper file; no model involved.
+  const handleImport = async (file: File) => {
+    setAnalysisError(null);
+    try {
+      const data = parsePaperDocument(await file.text());
+      setPaperData(data);
+      setIsCustom(true);
+      setLibraryId(null);
+      loadChat(null);
+      setShowInputModal(false);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    } catch (e: any) {
+      console.error("Import failed", e);
+      setAnalysisError(e.message || t.readFileFailed);
+    }
+  };
+
+  const handleExplainFigure = async (figure: PaperFigure) => {
+    const requested = paperData;
+    const generation = paperGenerationRef.current;
+    const explanation = await explainFigure(getProvider(providerConfig), requested.title, figure, {
+      model: providerConfig.model,
+      temperature: providerConfig.temperature,
+      maxTokens: providerConfig.maxTokens,
+      language: requested.language
+    });
+    // Dropped if another paper was opened in the meantime; otherwise applied to the latest copy,
+    // so a rewrite or another explanation that finished first isn't overwritten
+    if (paperGenerationRef.current !== generation) return;
+    const current = paperRef.current;
+    updateOpenPaper({
+      ...current,
+      figures: current.figures?.map(f => f.id === figure.id ? { ...f, explanation } : f)
+    });
+  };
+
+  // Switches summary, impact and concept descriptions to another reading level. Levels seen before are
+  // cached on the paper, so only a new one costs a request.
+  const handleAudienceChange = async (key: AudienceKey) => {
+    if (key === audienceKeyOf(paperData) || rewritingFor || translatingTo) return;
+    setRewriteError(null);
+    const cached = paperData.audienceVariants?.[key];
+    if (cached || key === 'original') {
+      if (cached) updateOpenPaper(applyVariant(paperData, key, cached));
+      return;
+    }
+
+    const requested = paperData;
+    const generation = paperGenerationRef.current;
+    setRewritingFor(key);
+    try {
+      const variant = await rewriteForAudience(getProvider(providerConfig), requested, key, {
+        model: providerConfig.model,
+        temperature: providerConfig.temperature,
+        maxTokens: providerConfig.maxTokens
+      });
+      // Dropped if another paper was opened in the meantime
+      if (paperGenerationRef.current !== generation) return;
+      updateOpenPaper(applyVariant(paperRef.current, key, variant));
+    } catch (e) {
+      console.error("Audience rewrite failed", e);
+      if (paperGenerationRef.current === generation) setRewriteError(t.audienceFailed);
     } finally {
-      setIsAnalyzing(false);
+      setRewritingFor(null);
+    }
+  };
+
+  // Replaces the generated text with a translation. The interface switches along with it.
+  const handleTranslate = async (code: string) => {
+    if (code === language.code || rewritingFor || translatingTo) return;
+    setRewriteError(null);
+    const requested = paperData;
+    const generation = paperGenerationRef.current;
+    setTranslatingTo(code);
+    try {
+      const translated = await translatePaper(getProvider(providerConfig), requested, code, {
+        model: providerConfig.model,
+        temperature: providerConfig.temperature,
+        maxTokens: providerConfig.maxTokens,
+        language: code
+      });
+      // Dropped if another paper was opened in the meantime
+      if (paperGenerationRef.current !== generation) return;
+      updateOpenPaper(translated);
+    } catch (e) {
+      console.error("Translation failed", e);
+      if (paperGenerationRef.current === generation) setRewriteError(t.translationFailed);
+    } finally {
+      setTranslatingTo(null);
+    }
+  };
+
+  // Applies an edit to the paper on screen and mirrors it into its library entry.
+  const updateOpenPaper = (next: PaperData) => {
+    setPaperData(next);
+    if (libraryId) {
+      updatePaper(libraryId, next).catch(e => console.warn("Couldn't update the library entry", e));
     }
   };
 
+  const openFromLibrary = (entry: LibraryEntry) => {
+    setPaperData(entry.paper);
+    setIsCustom(true);
+    setLibraryId(entry.id);
+    loadChat(entry.source ?? null, entry.conversation, entry);
+    setShowLibrary(false);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const hasFigures = !!(paperData.figures?.length || paperData.tables?.length);
+
+  const saveSettings = (config: ProviderConfig) => {
+    setProviderConfig(config);
+    saveProviderConfig(config);
+    setShowSettings(false);
+  };
+
   const resetToDemo = () => {
     setPaperData(ALPHA_QUBIT_DATA);
     setIsCustom(false);
+    setLibraryId(null);
+    setShowChat(false);
+    loadChat(null);
     setShowInputModal(false);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   return (
-    <div className="min-h-screen bg-[#F9F8F4] dark:bg-stone-900 text-stone-800 dark:text-stone-200 selection:bg-purple-200 dark:selection:bg-purple-900 selection:text-stone-900 transition-colors duration-500">
+    <LocaleProvider language={language.code}>
+    <div className={`min-h-screen bg-[#F9F8F4] dark:bg-stone-900 text-stone-800 dark:text-stone-200 selection:bg-purple-200 dark:selection:bg-purple-900 selection:text-stone-900 transition-[color,background-color,margin] duration-500 ${sourceClaim ? 'md:mr-[50vw]' : ''}`}>
       
       <Navigation 
         scrolled={scrolled}
@@ -248,221 +560,200 @@ const App: React.FC = () => {
         darkMode={darkMode}
         toggleDarkMode={toggleDarkMode}
         onNewPaper={() => setShowInputModal(true)}
+        onOpenSettings={() => setShowSettings(true)}
+        onOpenLibrary={() => setShowLibrary(true)}
+        onExportSite={handleExportSite}
+        onExportJson={handleExportJson}
+        isExporting={isExporting}
+        onAudienceChange={handleAudienceChange}
+        rewritingFor={rewritingFor}
+        onTranslate={handleTranslate}
+        translatingTo={translatingTo}
+      />
+
+      {rewriteError && (
+        <div className="fixed top-24 left-1/2 -translate-x-1/2 z-50 max-w-md w-[calc(100%-3rem)] p-3 bg-red-50 dark:bg-red-900/40 text-red-600 dark:text-red-300 rounded-lg shadow-lg flex items-start gap-2 text-sm animate-fade-in">
+          <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+          <span className="flex-1">{rewriteError}</span>
+          <button onClick={() => setRewriteError(null)} aria-label={t.dismiss}><X size={16} /></button>
+        </div>
+      )}
+
+      <LibraryDrawer
+        show={showLibrary}
+        activeId={libraryId}
+        onClose={() => setShowLibrary(false)}
+        onOpen={openFromLibrary}
+        onDeleted={(id) => { if (id === libraryId) setLibraryId(null); }}
+      />
+
+      {isCustom && (
+        <ChatPanel
+          key={libraryId ?? paperData.title}
+          show={showChat}
+          onClose={() => setShowChat(false)}
+          paperData={paperData}
+          source={documentText}
+          isLoadingSource={isLoadingSource}
+          conversation={conversation}
+          onConversationChange={updateConversation}
+          onAsk={askAboutPaper}
+        />
+      )}
+
+      <SourceViewer
+        claim={sourceClaim}
+        onClose={() => setSourceClaim(null)}
+        pdf={sourcePdf}
+        source={documentText}
+      />
+
+      {isCustom && !showChat && !sourceClaim && (
+        <button
+          onClick={() => { setSourceClaim(null); setShowChat(true); }}
+          className="fixed bottom-6 end-6 z-50 flex items-center gap-2 px-5 py-3 rounded-full bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 shadow-xl hover:scale-105 transition-transform text-sm font-medium"
+        >
+          <MessageCircle size={18} /> {t.askThePaper}
+        </button>
+      )}
+
+      <SettingsPanel
+        show={showSettings}
+        config={providerConfig}
+        onClose={() => setShowSettings(false)}
+        onSave={saveSettings}
       />
 
       <InputModal 
         show={showInputModal}
         onClose={() => setShowInputModal(false)}
         onAnalyze={handleAnalyze}
+        onImport={handleImport}
         onReset={resetToDemo}
+        onCancel={cancelAnalysis}
         isAnalyzing={isAnalyzing}
-        analysisStep={analysisStep}
+        progress={analysisProgress}
         error={analysisError}
       />
 
       {/* Hero Section */}
-      <header className="relative h-screen flex items-center justify-center overflow-hidden">
-        {/* Dynamic Background with Rigging */}
-        <HeroScene theme={paperData.theme} />
-        
-        {/* Gradient Overlay - Improved smoother gradient */}
-        <div className="absolute inset-0 z-0 pointer-events-none bg-[radial-gradient(circle_at_center,rgba(249,248,244,0.7)_0%,rgba(249,248,244,0.8)_60%,rgba(249,248,244,1)_100%)] dark:bg-[radial-gradient(circle_at_center,rgba(28,25,23,0.7)_0%,rgba(28,25,23,0.85)_60%,rgba(28,25,23,1)_100%)]" />
-
-        <div className="relative z-10 container mx-auto px-6 text-center mt-12">
-          <motion.div 
-            initial={{ opacity: 0, y: 30 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.8, delay: 0.2 }}
-            className="inline-block mb-6 px-4 py-1.5 border border-stone-300 dark:border-stone-700 text-stone-500 dark:text-stone-400 text-xs tracking-[0.25em] uppercase font-bold rounded-full backdrop-blur-sm bg-white/40 dark:bg-black/40 shadow-sm"
-          >
-            {paperData.journal || "Research Visualization"}
-          </motion.div>
-          
-          <motion.h1 
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.8, delay: 0.4 }}
-            className="font-serif text-5xl md:text-7xl lg:text-8xl font-medium leading-tight md:leading-[1.1] mb-8 text-stone-900 dark:text-stone-50 drop-shadow-sm max-w-6xl mx-auto"
-          >
-            {paperData.title} <br/>
-            <span className="italic font-normal text-stone-600 dark:text-stone-400 text-3xl md:text-4xl block mt-6">{paperData.subtitle}</span>
-          </motion.h1>
-          
-          <motion.div 
-             initial={{ opacity: 0 }}
-             animate={{ opacity: 1 }}
-             transition={{ duration: 1, delay: 0.8 }}
-             className="flex flex-col items-center gap-6"
-          >
-             {/* Social Sharing */}
-             <div className="flex items-center gap-4">
-                <button onClick={() => shareContent('twitter')} className="p-3 bg-white/60 dark:bg-stone-800/60 hover:bg-white dark:hover:bg-stone-700 rounded-full backdrop-blur-md transition-all text-stone-600 dark:text-stone-300 shadow-sm border border-stone-200 dark:border-stone-700 hover:scale-110">
-                  <Twitter size={20} />
-                </button>
-                <button onClick={() => shareContent('linkedin')} className="p-3 bg-white/60 dark:bg-stone-800/60 hover:bg-white dark:hover:bg-stone-700 rounded-full backdrop-blur-md transition-all text-stone-600 dark:text-stone-300 shadow-sm border border-stone-200 dark:border-stone-700 hover:scale-110">
-                  <Linkedin size={20} />
-                </button>
-             </div>
-
-             <a onClick={scrollToSection('introduction')} className="group flex flex-col items-center gap-3 text-sm font-bold tracking-widest text-stone-400 dark:text-stone-500 hover:text-stone-900 dark:hover:text-stone-200 transition-colors cursor-pointer mt-12 animate-bounce-slow">
-                <span>SCROLL TO DISCOVER</span>
-                <span className="p-3 border border-stone-300 dark:border-stone-700 rounded-full group-hover:border-stone-900 dark:group-hover:border-stone-200 transition-colors bg-white/30 dark:bg-black/30 backdrop-blur">
-                    <ArrowDown size={18} />
-                </span>
-             </a>
-          </motion.div>
-        </div>
-      </header>
+      <PaperHero paperData={paperData} isCustom={isCustom}>
+         {/* Social Sharing */}
+         <div className="flex items-center gap-4">
+            <button onClick={() => shareContent('twitter')} className="p-3 bg-white/60 dark:bg-stone-800/60 hover:bg-white dark:hover:bg-stone-700 rounded-full backdrop-blur-md transition-all text-stone-600 dark:text-stone-300 shadow-sm border border-stone-200 dark:border-stone-700 hover:scale-110">
+              <Twitter size={20} />
+            </button>
+            <button onClick={() => shareContent('linkedin')} className="p-3 bg-white/60 dark:bg-stone-800/60 hover:bg-white dark:hover:bg-stone-700 rounded-full backdrop-blur-md transition-all text-stone-600 dark:text-stone-300 shadow-sm border border-stone-200 dark:border-stone-700 hover:scale-110">
+              <Linkedin size={20} />
+            </button>
+            <button onClick={copyLink} className="p-3 bg-white/60 dark:bg-stone-800/60 hover:bg-white dark:hover:bg-stone-700 rounded-full backdrop-blur-md transition-all text-stone-600 dark:text-stone-300 shadow-sm border border-stone-200 dark:border-stone-700 hover:scale-110" aria-label={t.copyLink} title={linkCopied ? t.linkCopied : t.copyLink}>
+              {linkCopied ? <Check size={20} className="text-green-600 dark:text-green-400" /> : <Link2 size={20} />}
+            </button>
+         </div>
+         {shareError && <p className="text-sm text-red-600 dark:text-red-400">{shareError}</p>}
+      </PaperHero>
 
       <main>
         {/* Introduction */}
-        <section id="introduction" className="py-24 md:py-32 bg-white dark:bg-stone-900">
-          <motion.div 
-            initial={{ opacity: 0, y: 50 }}
-            whileInView={{ opacity: 1, y: 0 }}
-            viewport={{ once: true, margin: "-10%" }}
-            transition={{ duration: 0.8 }}
-            className="container mx-auto px-6 md:px-12 grid grid-cols-1 md:grid-cols-12 gap-16 items-start"
-          >
-            <div className="md:col-span-4 sticky top-32">
-              <div className="inline-block mb-4 text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400 uppercase">Introduction</div>
-              <h2 className="font-serif text-4xl lg:text-5xl mb-8 leading-tight text-stone-900 dark:text-stone-100">{paperData.introTitle}</h2>
-              <div className={`w-20 h-1 mb-6 rounded-full ${isCustom ? 'bg-stone-800 dark:bg-stone-600' : 'bg-[#C5A059]'}`}></div>
-            </div>
-            <div className="md:col-span-8 text-lg md:text-xl text-stone-600 dark:text-stone-300 leading-relaxed space-y-8 font-light">
-               {paperData.summary.split('\n').filter(p => p.trim() !== "").map((para, i) => (
-                 <p key={i} className="first-letter:text-5xl first-letter:font-serif first-letter:mr-2 first-letter:float-left first-letter:leading-none first-letter:mt-[-4px] text-stone-800 dark:text-stone-200">
-                   {para}
-                 </p>
-               ))}
-            </div>
-          </motion.div>
-        </section>
+        <IntroductionSection paperData={paperData} isCustom={isCustom} onShowSource={showSource} />
+
+        {/* Methodology timeline */}
+        {paperData.methodology && paperData.methodology.length > 0 && <MethodologySection paperData={paperData} />}
 
         {/* The Science / Analysis */}
-        <section id="science" className="py-24 md:py-32 bg-stone-50 dark:bg-[#161412] border-t border-stone-200 dark:border-stone-800 relative">
-            <div className="container mx-auto px-6 relative z-10">
-               <div className="flex flex-col items-center mb-20">
-                   <div className="inline-flex items-center gap-2 px-4 py-1.5 bg-white dark:bg-stone-800 text-stone-600 dark:text-stone-300 text-xs font-bold tracking-widest uppercase rounded-full mb-6 border border-stone-200 dark:border-stone-700 shadow-sm">
-                      <BookOpen size={14}/> Analysis
-                   </div>
-                   <h2 className="font-serif text-4xl md:text-6xl text-stone-900 dark:text-stone-100 text-center">Core Mechanisms</h2>
-               </div>
-
-                {isCustom ? (
-                  // Generic Visualizer for Custom Papers
-                  <div className="max-w-6xl mx-auto">
-                    <ConceptNetwork concepts={paperData.concepts} theme={paperData.theme} />
+        <AnalysisSection>
+          {isCustom ? (
+            // Generated diagrams, benchmark charts and key equations (when the model produced valid ones), then the concept cards
+            <div className="max-w-6xl mx-auto space-y-12">
+              {diagramsFor(paperData).map((spec, i) => <DiagramRenderer key={i} spec={spec} />)}
+              {paperData.results?.map((result, i) => <BenchmarkChart key={i} result={result} />)}
+              {paperData.equations && <EquationsPanel equations={paperData.equations} />}
+              <ConceptNetwork concepts={paperData.concepts} theme={paperData.theme} sources={paperData.sources} onShowSource={showSource} />
+            </div>
+          ) : (
+            // Demo Specific Visualizers for AlphaQubit
+            <div className="space-y-32">
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-16 items-center">
+                  <div className="order-2 lg:order-1">
+                      <h3 className="font-serif text-3xl mb-4 text-stone-900 dark:text-stone-100">{demo.surfaceCode}</h3>
+                      <div className="w-12 h-1 bg-nobel-gold mb-6"></div>
+                      <p className="text-lg text-stone-600 dark:text-stone-300 mb-6 leading-relaxed">
+                         {demo.surfaceCodeText}
+                      </p>
                   </div>
-                ) : (
-                  // Demo Specific Visualizers for AlphaQubit
-                  <div className="space-y-32">
-                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-16 items-center">
-                        <div className="order-2 lg:order-1">
-                            <h3 className="font-serif text-3xl mb-4 text-stone-900 dark:text-stone-100">The Surface Code</h3>
-                            <div className="w-12 h-1 bg-nobel-gold mb-6"></div>
-                            <p className="text-lg text-stone-600 dark:text-stone-300 mb-6 leading-relaxed">
-                               Detecting errors without destroying quantum information requires auxiliary "Stabilizer Qubits" that measure parity checks. This lattice structure is the foundation of fault tolerance.
-                            </p>
-                        </div>
-                        <div className="order-1 lg:order-2">
-                           <SurfaceCodeDiagram />
-                        </div>
-                    </div>
-                    
-                    <div className="bg-stone-900 dark:bg-black rounded-3xl p-8 md:p-20 text-white relative overflow-hidden shadow-2xl">
-                       <div className="absolute top-0 right-0 w-[500px] h-[500px] opacity-20 pointer-events-none bg-[radial-gradient(circle_at_center,rgba(197,160,89,1)_0%,transparent_70%)] blur-3xl"></div>
-                       <div className="grid grid-cols-1 lg:grid-cols-2 gap-16 items-center relative z-10">
-                            <div className="order-2 lg:order-1">
-                                <TransformerDecoderDiagram />
-                            </div>
-                            <div className="order-1 lg:order-2">
-                                <h3 className="font-serif text-3xl mb-4 text-white">Neural Decoding</h3>
-                                <p className="text-lg text-stone-400 mb-6 leading-relaxed">
-                                    AlphaQubit treats decoding as a sequence prediction problem. It uses a high-performance Recurrent Transformer to process the complex, noisy history of stabilizer measurements to predict the error.
-                                </p>
-                            </div>
-                       </div>
-                    </div>
-
-                    <div className="max-w-5xl mx-auto text-center">
-                         <h3 className="font-serif text-3xl mb-8 text-stone-900 dark:text-stone-100">Benchmarking Accuracy</h3>
-                         <PerformanceMetricDiagram />
-                    </div>
+                  <div className="order-1 lg:order-2">
+                     <SurfaceCodeDiagram />
                   </div>
-                )}
+              </div>
+              
+              <div className="bg-stone-900 dark:bg-black rounded-3xl p-8 md:p-20 text-white relative overflow-hidden shadow-2xl">
+                 <div className="absolute top-0 right-0 w-[500px] h-[500px] opacity-20 pointer-events-none bg-[radial-gradient(circle_at_center,rgba(197,160,89,1)_0%,transparent_70%)] blur-3xl"></div>
+                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-16 items-center relative z-10">
+                      <div className="order-2 lg:order-1">
+                          {paperData.diagrams?.filter(d => d.kind === 'pipeline').map((spec, i) => <DiagramRenderer key={i} spec={spec} />)}
+                      </div>
+                      <div className="order-1 lg:order-2">
+                          <h3 className="font-serif text-3xl mb-4 text-white">{demo.neuralDecoding}</h3>
+                          <p className="text-lg text-stone-400 mb-6 leading-relaxed">
+                              {demo.neuralDecodingText}
+                          </p>
+                      </div>
+                 </div>
+              </div>
+
+              <div className="max-w-5xl mx-auto text-center">
+                   <h3 className="font-serif text-3xl mb-8 text-stone-900 dark:text-stone-100">{demo.benchmarking}</h3>
+                   {paperData.results?.map((result, i) => <BenchmarkChart key={i} result={result} />)}
+              </div>
             </div>
-        </section>
+          )}
+        </AnalysisSection>
+
+        {/* Figures & Tables */}
+        {hasFigures && (
+          <section id="figures" className="py-24 md:py-32 bg-white dark:bg-stone-900 border-t border-stone-200 dark:border-stone-800">
+            <div className="container mx-auto px-6">
+              <div className="flex flex-col items-center mb-16">
+                <div className="inline-flex items-center gap-2 px-4 py-1.5 bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300 text-xs font-bold tracking-widest uppercase rounded-full mb-6 border border-stone-200 dark:border-stone-700 shadow-sm">
+                  <ImageIcon size={14}/> {t.figures}
+                </div>
+                <h2 className="font-serif text-4xl md:text-6xl text-stone-900 dark:text-stone-100 text-center">{t.figuresAndTables}</h2>
+              </div>
+              <div className="max-w-6xl mx-auto">
+                <FigureGallery
+                  figures={paperData.figures || []}
+                  tables={paperData.tables || []}
+                  onExplain={handleExplainFigure}
+                />
+              </div>
+            </div>
+          </section>
+        )}
 
         {/* Impact */}
-        <section id="impact" className="py-24 md:py-32 bg-[#F9F8F4] dark:bg-stone-900 border-t border-stone-200 dark:border-stone-800">
-             <div className="container mx-auto px-6 grid grid-cols-1 lg:grid-cols-12 gap-16 items-center">
-                <div className="lg:col-span-6 relative group">
-                    <div className="aspect-square bg-white dark:bg-stone-950 rounded-2xl overflow-hidden relative border border-stone-200 dark:border-stone-800 shadow-2xl transition-transform duration-500 group-hover:scale-[1.01]">
-                        {(!isCustom || paperData.theme === 'quantum') ? (
-                           <HardwareScene />
-                        ) : (
-                           <HeroScene theme={paperData.theme} />
-                        )}
-                        <div className="absolute bottom-6 left-0 right-0 text-center text-xs text-stone-400 font-serif italic z-10 bg-black/50 backdrop-blur py-2 mx-12 rounded-full">
-                          {isCustom ? "Visual Representation of Research Domain" : "Simulation of the Sycamore Processor environment"}
-                        </div>
-                    </div>
-                </div>
-                <div className="lg:col-span-6 flex flex-col justify-center">
-                    <div className="inline-block mb-4 text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400 uppercase">IMPACT</div>
-                    <h2 className="font-serif text-4xl lg:text-5xl mb-8 text-stone-900 dark:text-stone-100">Future Implications</h2>
-                    <p className="text-lg text-stone-600 dark:text-stone-300 mb-8 leading-relaxed">
-                        {paperData.impact}
-                    </p>
-                    
-                    <div className={`p-8 bg-white dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-2xl shadow-lg relative overflow-hidden`}>
-                        <div className={`absolute left-0 top-0 bottom-0 w-2 ${isCustom ? 'bg-stone-900 dark:bg-stone-100' : 'bg-[#C5A059]'}`}></div>
-                        <p className="font-serif italic text-xl md:text-2xl text-stone-800 dark:text-stone-200 mb-6 relative z-10">
-                            "This research represents a significant step forward in our understanding of {paperData.theme === 'general' ? 'this field' : paperData.theme}, potentially accelerating the timeline for practical applications."
-                        </p>
-                        <span className="text-xs font-bold text-stone-400 dark:text-stone-500 tracking-wider uppercase">— AI Analysis Insight</span>
-                    </div>
-                </div>
-             </div>
-        </section>
+        <ImpactSection paperData={paperData} isCustom={isCustom} onShowSource={showSource} />
+
+        {/* Glossary */}
+        {paperData.glossary && paperData.glossary.length > 0 && <GlossarySection glossary={paperData.glossary} />}
 
         {/* Authors */}
-        <section id="authors" className="py-24 bg-white dark:bg-[#161412] border-t border-stone-200 dark:border-stone-800">
-           <div className="container mx-auto px-6">
-                <div className="text-center mb-16">
-                    <div className="inline-block mb-3 text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400 uppercase">RESEARCH TEAM</div>
-                    <h2 className="font-serif text-4xl md:text-5xl mb-4 text-stone-900 dark:text-stone-100">Key Contributors</h2>
-                </div>
-                
-                <div className="flex flex-wrap justify-center gap-8">
-                    {paperData.authors.map((author, idx) => (
-                         <AuthorCard 
-                            key={idx}
-                            name={author.name} 
-                            role={author.role} 
-                            delay={`${idx * 0.1}s`} 
-                        />
-                    ))}
-                </div>
-           </div>
-        </section>
+        <AuthorsSection authors={paperData.authors} />
 
       </main>
 
       <footer className="bg-stone-900 dark:bg-black text-stone-400 py-16 border-t border-stone-800">
         <div className="container mx-auto px-6 flex flex-col md:flex-row justify-between items-center gap-8">
-            <div className="text-center md:text-left">
+            <div className="text-center md:text-start">
                 <div className="text-white font-serif font-bold text-2xl mb-2 flex items-center gap-2 justify-center md:justify-start">
                    <div className="w-8 h-8 bg-stone-700 rounded-lg flex items-center justify-center text-sm">{paperData.title.charAt(0)}</div>
                    ScholarLens AI
                 </div>
-                <p className="text-sm opacity-60">Visualizing "{paperData.title}"</p>
+                <p className="text-sm opacity-60">{t.visualizing(paperData.title)}</p>
             </div>
             <div className="flex gap-6 text-sm items-center">
-                <button onClick={() => setShowInputModal(true)} className="hover:text-white transition-colors">Visualize New Paper</button>
-                <a href="#" className="hover:text-white transition-colors">Privacy</a>
-                <a href="#" className="hover:text-white transition-colors">Contact</a>
+                <button onClick={() => setShowInputModal(true)} className="hover:text-white transition-colors">{t.visualizeNewPaper}</button>
+                <a href="#" className="hover:text-white transition-colors">{t.privacy}</a>
+                <a href="#" className="hover:text-white transition-colors">{t.contact}</a>
             </div>
         </div>
         <div className="text-center mt-12 text-xs text-stone-600 dark:text-stone-500 font-mono">
@@ -470,6 +761,7 @@ const App: React.FC = () => {
         </div>
       </footer>
     </div>
+    </LocaleProvider>
   );
 };
 
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { BarChart2, Trophy } from 'lucide-react';
+import { PaperResult } from '../types';
+
+interface BenchmarkChartProps {
+  result: PaperResult;
+}
+
+const ALL = -1;
+
+// Baselines share muted stone shades; the paper's own method gets the gold bar.
+const BASELINE_BARS = ['bg-stone-600', 'bg-stone-500', 'bg-stone-400', 'bg-stone-700', 'bg-stone-300'];
+
+const formatValue = (value: number, unit?: string) => {
+  const text = value !== 0 && Math.abs(value) < 0.01 ? value.toFixed(4)
+    : Math.abs(value) >= 1000 ? value.toLocaleString()
+    : value.toFixed(2);
+  if (!unit) return text;
+  return unit === '%' ? `${text}%` : `${text} ${unit}`;
+};
+
+export const BenchmarkChart: React.FC<BenchmarkChartProps> = ({ result }) => {
+  const values = result.series.flatMap(s => s.values).filter((v): v is number => v !== null);
+  const positive = values.filter(v => v > 0);
+  // Log scale only works when everything is positive; it's the default once values span two orders of magnitude
+  const canLog = positive.length === values.length && positive.length > 1;
+  const [logScale, setLogScale] = useState(() => canLog && Math.max(...positive) / Math.min(...positive) > 100);
+  const [condition, setCondition] = useState(0);
+
+  const shown = condition === ALL ? result.conditions.map((_, i) => i) : [condition];
+  const useLog = logScale && canLog;
+
+  // Linear heights fit the visible bars, like the original distance toggle; log heights span every condition
+  const scale = useMemo(() => {
+    if (useLog) {
+      const lo = Math.floor(Math.log10(Math.min(...positive)));
+      const hi = Math.log10(Math.max(...positive)) + 0.25;
+      return (v: number) => Math.max(2, ((Math.log10(v) - lo) / (hi - lo)) * 100);
+    }
+    const visible = shown.flatMap(i => result.series.map(s => s.values[i])).filter((v): v is number => v !== null);
+    const max = Math.max(...visible.map(Math.abs), 0) * 1.25 || 1;
+    return (v: number) => Math.max(1, (Math.abs(v) / max) * 100);
+  }, [useLog, condition, result]);
+
+  // Best value per condition, for the trophy marker
+  const best = result.conditions.map((_, i) => {
+    const reported = result.series.map(s => s.values[i]).filter((v): v is number => v !== null);
+    if (reported.length < 2) return undefined;
+    return result.lowerIsBetter ? Math.min(...reported) : Math.max(...reported);
+  });
+
+  let baseline = 0;
+  const barClass = result.series.map(s => s.isProposed ? 'bg-nobel-gold shadow-[0_0_20px_rgba(197,160,89,0.25)]' : BASELINE_BARS[baseline++ % BASELINE_BARS.length]);
+  const grouped = shown.length > 1;
+
+  const renderBar = (j: number, c: number) => {
+    const s = result.series[j];
+    const value = s.values[c];
+    return (
+      <div key={s.name} className={`${grouped ? 'flex-1 max-w-[2rem]' : 'w-full'} h-full flex flex-col justify-end items-center`} title={`${s.name}: ${value === null ? 'not reported' : formatValue(value, result.unit)}`}>
+        {value !== null && value === best[c] && <Trophy size={grouped ? 10 : 14} className="text-nobel-gold mb-1 shrink-0" />}
+        {value !== null && (
+          <motion.div
+            className={`w-full rounded-t-md relative overflow-hidden ${barClass[j]}`}
+            initial={{ height: 0 }}
+            animate={{ height: `${scale(value)}%` }}
+            transition={{ type: "spring", stiffness: 80, damping: 15, delay: j * 0.1 }}
+          >
+            {s.isProposed && <div className="absolute inset-0 bg-gradient-to-tr from-transparent to-white/20"></div>}
+          </motion.div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row gap-8 items-center p-8 bg-stone-900 dark:bg-black text-stone-100 rounded-xl my-8 border border-stone-800 dark:border-stone-900 shadow-lg w-full text-left">
+      <div className="flex-1 min-w-[240px]">
+        <h3 className="font-serif text-xl mb-2 text-nobel-gold">{result.title}</h3>
+        {result.caption && <p className="text-stone-400 text-sm mb-4 leading-relaxed">{result.caption}</p>}
+
+        {result.conditions.length > 1 && (
+          <div className="flex gap-2 mt-6 flex-wrap">
+            {result.conditions.map((label, i) => (
+              <button
+                key={label}
+                onClick={() => setCondition(i)}
+                className={`px-3 py-1.5 rounded text-sm font-medium transition-all duration-200 border ${condition === i ? 'bg-nobel-gold text-stone-900 border-nobel-gold' : 'bg-transparent text-stone-400 border-stone-700 hover:border-stone-500 hover:text-stone-200'}`}
+              >
+                {result.conditionName ? `${result.conditionName} ${label}` : label}
+              </button>
+            ))}
+            <button
+              onClick={() => setCondition(ALL)}
+              className={`px-3 py-1.5 rounded text-sm font-medium transition-all duration-200 border ${condition === ALL ? 'bg-nobel-gold text-stone-900 border-nobel-gold' : 'bg-transparent text-stone-400 border-stone-700 hover:border-stone-500 hover:text-stone-200'}`}
+            >
+              All
+            </button>
+          </div>
+        )}
+
+        {canLog && (
+          <div className="flex gap-1 mt-4 text-xs font-mono">
+            {[false, true].map(log => (
+              <button
+                key={String(log)}
+                onClick={() => setLogScale(log)}
+                className={`px-2 py-1 rounded transition-colors ${useLog === log ? 'bg-stone-700 text-stone-100' : 'text-stone-500 hover:text-stone-300'}`}
+              >
+                {log ? 'LOG' : 'LINEAR'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-6 font-mono text-xs text-stone-500 flex items-center gap-2">
+          <BarChart2 size={14} className="text-nobel-gold" />
+          <span className="uppercase">{result.metric}{result.unit && result.unit !== '%' ? ` (${result.unit})` : ''} ({result.lowerIsBetter ? 'lower' : 'higher'} is better)</span>
+        </div>
+        {result.source && <div className="mt-2 text-xs text-stone-600">Source: {result.source}</div>}
+
+        {grouped && (
+          <div className="flex flex-wrap gap-4 mt-4 text-xs text-stone-400">
+            {result.series.map((s, j) => (
+              <span key={s.name} className="flex items-center gap-1.5"><span className={`w-3 h-3 rounded-sm ${barClass[j]}`}></span>{s.name}</span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className={`relative w-full ${grouped ? 'max-w-lg' : 'max-w-[260px]'} h-72 bg-stone-800/50 dark:bg-stone-900/50 rounded-xl border border-stone-700/50 p-6 pt-10 flex justify-around items-end gap-4 transition-all`}>
+        {/* Background Grid Lines */}
+        <div className="absolute inset-0 p-6 flex flex-col justify-between pointer-events-none opacity-10">
+          <div className="w-full h-[1px] bg-stone-400"></div>
+          <div className="w-full h-[1px] bg-stone-400"></div>
+          <div className="w-full h-[1px] bg-stone-400"></div>
+          <div className="w-full h-[1px] bg-stone-400"></div>
+        </div>
+
+        {grouped ? (
+          // One group per condition, one bar per method
+          shown.map(c => (
+            <div key={c} className="flex-1 flex flex-col justify-end items-center h-full z-10 min-w-0">
+              <div className="flex-1 w-full flex items-end justify-center gap-1 mb-3">
+                {result.series.map((_, j) => renderBar(j, c))}
+              </div>
+              <div className="h-6 flex items-center text-xs font-bold text-stone-500 uppercase tracking-wider truncate max-w-full">{result.conditions[c]}</div>
+            </div>
+          ))
+        ) : (
+          result.series.map((s, j) => (
+            <div key={s.name} className="flex-1 max-w-[5rem] flex flex-col justify-end items-center h-full z-10 min-w-0">
+              <div className={`w-full text-center text-sm font-mono font-bold bg-stone-900/90 py-1 px-2 rounded backdrop-blur-sm border shadow-sm whitespace-nowrap mb-2 ${s.isProposed ? 'text-nobel-gold border-nobel-gold/30' : 'text-stone-400 border-stone-700/50'}`}>
+                {s.values[condition] === null ? 'n/a' : formatValue(s.values[condition]!, result.unit)}
+              </div>
+              <div className="flex-1 w-full flex items-end justify-center mb-3">
+                {renderBar(j, condition)}
+              </div>
+              <div className={`h-6 flex items-center text-xs font-bold uppercase tracking-wider truncate max-w-full ${s.isProposed ? 'text-nobel-gold' : 'text-stone-500'}`} title={s.name}>{s.name}</div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { AlertCircle, AlertTriangle, Loader2, MessageCircle, Send, Square, Trash2, X } from 'lucide-react';
+import { ChatMessage, PaperData } from '../types';
+import { DocumentText } from '../services/documentSections';
+import { locateQuote, parseReply, splitPageRefs, suggestQuestions } from '../services/paperChat';
+
+interface ChatPanelProps {
+  show: boolean;
+  onClose: () => void;
+  paperData: PaperData;
+  source: DocumentText | null;
+  isLoadingSource: boolean;
+  conversation: ChatMessage[];
+  onConversationChange: (conversation: ChatMessage[]) => void;
+  // Streams a reply to the last message in `conversation`
+  onAsk: (conversation: ChatMessage[], onDelta: (text: string) => void, signal: AbortSignal) => Promise<string>;
+}
+
+const PageChip = ({ page }: { page: number }) => (
+  <span className="inline-block mx-0.5 px-1.5 py-0.5 rounded bg-stone-200 dark:bg-stone-700 text-[10px] font-bold text-stone-600 dark:text-stone-300 align-middle">p. {page}</span>
+);
+
+const WithPageRefs = ({ text }: { text: string }) => (
+  <>
+    {splitPageRefs(text).map((part, i) => typeof part === 'number' ? <PageChip key={i} page={part} /> : <React.Fragment key={i}>{part}</React.Fragment>)}
+  </>
+);
+
+// Quotes are checked against the source once the reply is complete; the page they were found on wins over the one the model gave
+const Reply = ({ content, source, verify }: { content: string, source: DocumentText | null, verify: boolean }) => {
+  const blocks = useMemo(() => parseReply(content), [content]);
+  return (
+    <div className="space-y-3">
+      {blocks.map((block, i) => {
+        if (block.kind === 'text') return <p key={i}><WithPageRefs text={block.text} /></p>;
+        const match = verify && source && source.pages.length > 0 ? locateQuote(block.text, source) : undefined;
+        const page = match?.page ?? block.page;
+        return (
+          <blockquote key={i} className="pl-3 border-l-2 border-nobel-gold italic text-stone-700 dark:text-stone-300">
+            “{block.text}”{page !== undefined && <> <PageChip page={page} /></>}
+            {match === null && (
+              <span className="not-italic flex items-center gap-1 mt-1 text-[11px] text-amber-700 dark:text-amber-400">
+                <AlertTriangle size={12} /> Not found in the document
+              </span>
+            )}
+          </blockquote>
+        );
+      })}
+    </div>
+  );
+};
+
+const sourceNote = (source: DocumentText | null, isLoading: boolean): string | null => {
+  if (isLoading) return "Reading the document...";
+  if (!source) return "The original document isn't available for this paper, so answers come from the generated summary.";
+  if (source.pages.length === 0) return "This PDF has no text layer, so answers come from the generated summary.";
+  if (!source.paginated) return "Answers quote the pasted text, which has no page numbers.";
+  return null;
+};
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ show, onClose, paperData, source, isLoadingSource, conversation, onConversationChange, onAsk }) => {
+  const [draft, setDraft] = useState("");
+  const [streaming, setStreaming] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const suggestions = useMemo(() => suggestQuestions(paperData), [paperData]);
+  const note = sourceNote(source, isLoadingSource);
+
+  // Cancels the reply in progress without keeping what has arrived
+  const abandon = () => {
+    const controller = abortRef.current;
+    abortRef.current = null;
+    controller?.abort();
+    setStreaming(null);
+  };
+
+  // A reply still streaming when the panel goes away (e.g. another paper was opened) is abandoned
+  useEffect(() => abandon, []);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [conversation, streaming]);
+
+  useEffect(() => {
+    if (!show) return;
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [show, onClose]);
+
+  // Asks for a reply to `messages`, whose last entry is the question
+  const run = async (messages: ChatMessage[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setStreaming("");
+    let reply = "";
+    try {
+      reply = await onAsk(messages, delta => {
+        reply += delta;
+        if (!controller.signal.aborted) setStreaming(reply);
+      }, controller.signal);
+      onConversationChange([...messages, { role: 'assistant', content: reply }]);
+    } catch (e) {
+      if (controller.signal.aborted) {
+        // Stopped by the user: keep what had arrived. Abandoned replies are dropped.
+        if (abortRef.current === controller && reply.trim()) onConversationChange([...messages, { role: 'assistant', content: reply }]);
+      } else {
+        console.error("Chat request failed", e);
+        setError("Couldn't get an answer. Check the model settings and try again.");
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setStreaming(null);
+      }
+    }
+  };
+
+  const ask = (question: string) => {
+    const text = question.trim();
+    if (!text || streaming !== null) return;
+    const messages: ChatMessage[] = [...conversation, { role: 'user', content: text }];
+    onConversationChange(messages);
+    setDraft("");
+    run(messages);
+  };
+
+  const stop = () => abortRef.current?.abort();
+
+  const lastIsQuestion = conversation[conversation.length - 1]?.role === 'user';
+
+  return (
+    <AnimatePresence>
+      {show && (
+        <motion.aside
+          initial={{ x: '100%' }}
+          animate={{ x: 0 }}
+          exit={{ x: '100%' }}
+          transition={{ type: 'tween', duration: 0.3, ease: 'easeOut' }}
+          className="fixed top-0 right-0 bottom-0 z-[55] w-full max-w-md bg-white dark:bg-stone-900 shadow-2xl border-l border-stone-200 dark:border-stone-800 flex flex-col"
+          aria-label="Ask the paper"
+        >
+          <div className="p-6 border-b border-stone-100 dark:border-stone-800 bg-[#F9F8F4] dark:bg-stone-950">
+            <div className="flex justify-between items-center">
+              <h3 className="font-serif text-2xl text-stone-900 dark:text-stone-100 flex items-center gap-2">
+                <MessageCircle className="text-purple-600" size={22}/> Ask the Paper
+              </h3>
+              <div className="flex items-center gap-1">
+                {conversation.length > 0 && (
+                  <button
+                    onClick={() => { abandon(); onConversationChange([]); }}
+                    className="p-2 hover:bg-stone-200 dark:hover:bg-stone-800 rounded-full transition-colors text-stone-500 dark:text-stone-400"
+                    aria-label="Clear conversation"
+                    title="Clear conversation"
+                  >
+                    <Trash2 size={18}/>
+                  </button>
+                )}
+                <button onClick={onClose} className="p-2 hover:bg-stone-200 dark:hover:bg-stone-800 rounded-full transition-colors text-stone-600 dark:text-stone-400" aria-label="Close"><X size={20}/></button>
+              </div>
+            </div>
+            {note && <p className="mt-3 text-xs text-stone-500 dark:text-stone-400">{note}</p>}
+          </div>
+
+          <div ref={scrollRef} className="flex-1 overflow-y-auto p-6 space-y-4 text-sm leading-relaxed">
+            {conversation.length === 0 && streaming === null && (
+              <div>
+                <p className="text-stone-500 dark:text-stone-400 mb-4">Ask anything about "{paperData.title}". Answers quote the paper with page numbers.</p>
+                <div className="flex flex-col gap-2">
+                  {suggestions.map(question => (
+                    <button
+                      key={question}
+                      onClick={() => ask(question)}
+                      className="text-left px-4 py-2.5 rounded-xl border border-stone-200 dark:border-stone-700 text-stone-700 dark:text-stone-300 hover:border-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-colors"
+                    >
+                      {question}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {conversation.map((message, i) => message.role === 'user' ? (
+              <div key={i} className="ml-10 px-4 py-2.5 rounded-2xl rounded-br-sm bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 whitespace-pre-wrap">{message.content}</div>
+            ) : (
+              <div key={i} className="mr-6 text-stone-800 dark:text-stone-200">
+                <Reply content={message.content} source={source} verify />
+              </div>
+            ))}
+
+            {streaming !== null && (
+              <div className="mr-6 text-stone-800 dark:text-stone-200" aria-live="polite">
+                {streaming ? <Reply content={streaming} source={source} verify={false} /> : <Loader2 className="animate-spin text-stone-400" size={18} />}
+              </div>
+            )}
+
+            {error && (
+              <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 rounded-lg flex items-start gap-2">
+                <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+                <span className="flex-1">{error}</span>
+                {lastIsQuestion && <button onClick={() => run(conversation)} className="font-bold underline">Retry</button>}
+              </div>
+            )}
+          </div>
+
+          <form
+            onSubmit={(e) => { e.preventDefault(); ask(draft); }}
+            className="p-4 border-t border-stone-100 dark:border-stone-800 flex items-end gap-2"
+          >
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  ask(draft);
+                }
+              }}
+              rows={2}
+              placeholder="Ask a follow-up question..."
+              className="flex-1 resize-none px-4 py-2.5 rounded-xl border border-stone-300 dark:border-stone-700 focus:border-purple-500 focus:ring-2 focus:ring-purple-200 dark:focus:ring-purple-900/30 outline-none text-sm bg-white dark:bg-stone-900 dark:text-stone-200 transition-colors"
+            />
+            {streaming !== null ? (
+              <button type="button" onClick={stop} className="p-3 rounded-xl bg-stone-200 dark:bg-stone-700 text-stone-700 dark:text-stone-200 hover:bg-stone-300 dark:hover:bg-stone-600 transition-colors" aria-label="Stop">
+                <Square size={18} />
+              </button>
+            ) : (
+              <button type="submit" disabled={!draft.trim()} className="p-3 rounded-xl bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 disabled:opacity-40 transition-opacity" aria-label="Send">
+                <Send size={18} />
+              </button>
+            )}
+          </form>
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Quote, Copy, Check, Download } from 'lucide-react';
+import { PaperData } from '../types';
+import { formatAPA, formatMLA, toBibTeX, toCSLJSON, toRIS } from '../services/citation';
+import { downloadBlob, slugify } from '../services/exportSite';
+
+interface CiteMenuProps {
+  paperData: PaperData;
+}
+
+const FILE_FORMATS = [
+  { id: 'bibtex', label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex', build: toBibTeX },
+  { id: 'ris', label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems', build: toRIS },
+  { id: 'csl', label: 'CSL-JSON', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json', build: toCSLJSON }
+];
+
+export const CiteMenu: React.FC<CiteMenuProps> = ({ paperData }) => {
+  const [open, setOpen] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const copy = async (id: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(current => current === id ? null : current), 2000);
+    } catch (e) {
+      console.error("Failed to copy citation", e);
+    }
+  };
+
+  const styles = [
+    { id: 'apa', label: 'APA', text: formatAPA(paperData) },
+    { id: 'mla', label: 'MLA', text: formatMLA(paperData) }
+  ];
+
+  const CopyButton = ({ id, text }: { id: string, text: string }) => (
+    <button onClick={() => copy(id, text)} className="p-1.5 rounded-full hover:bg-stone-200 dark:hover:bg-stone-700 text-stone-500 dark:text-stone-400 transition-colors" aria-label="Copy">
+      {copiedId === id ? <Check size={14} className="text-green-600 dark:text-green-400" /> : <Copy size={14} />}
+    </button>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="p-2.5 rounded-full hover:bg-stone-200 dark:hover:bg-stone-800 transition-colors text-stone-600 dark:text-stone-300 focus:outline-none focus:ring-2 focus:ring-stone-400"
+        aria-label="Cite"
+        aria-expanded={open}
+      >
+        <Quote size={18} />
+      </button>
+      {open && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-[22rem] max-w-[calc(100vw-3rem)] z-50 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-xl shadow-xl overflow-hidden animate-fade-in">
+            <div className="p-4 space-y-4">
+              {styles.map(style => (
+                <div key={style.id}>
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-[10px] uppercase font-bold tracking-widest text-stone-500 dark:text-stone-400">{style.label}</span>
+                    <CopyButton id={style.id} text={style.text} />
+                  </div>
+                  <p className="text-xs leading-relaxed text-stone-700 dark:text-stone-200 select-all">{style.text}</p>
+                </div>
+              ))}
+            </div>
+            <div className="border-t border-stone-100 dark:border-stone-800 bg-stone-50 dark:bg-stone-950 px-4 py-2">
+              {FILE_FORMATS.map(format => (
+                <div key={format.id} className="flex items-center justify-between py-1 text-sm text-stone-700 dark:text-stone-200">
+                  <span>{format.label}</span>
+                  <span className="flex items-center gap-1">
+                    <CopyButton id={format.id} text={format.build(paperData)} />
+                    <button
+                      onClick={() => downloadBlob(new Blob([format.build(paperData)], { type: format.mimeType }), `${slugify(paperData.title)}.${format.extension}`)}
+                      className="p-1.5 rounded-full hover:bg-stone-200 dark:hover:bg-stone-700 text-stone-500 dark:text-stone-400 transition-colors"
+                      aria-label={`Download ${format.label}`}
+                    >
+                      <Download size={14} />
+                    </button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
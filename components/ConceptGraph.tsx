@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, ArrowLeft } from 'lucide-react';
+import { KeyConcept, RelationType } from '../types';
+import { forceLayout } from '../services/forceLayout';
+
+interface ConceptGraphProps {
+  concepts: KeyConcept[];
+  // Titles matching the current search; null when there is no search
+  matches: Set<string> | null;
+}
+
+interface GraphEdge {
+  source: string;
+  target: string;
+  type: RelationType;
+  explanation: string;
+}
+
+const WIDTH = 800;
+const HEIGHT = 480;
+const PADDING = 70;
+const NODE_RADIUS = 22;
+
+// Strokes are plain colours because SVG arrow markers can't take Tailwind classes.
+const RELATION_STYLE: Record<RelationType, { label: string; color: string; dashed?: boolean }> = {
+  'depends-on': { label: 'depends on', color: '#2563eb' },
+  'produces': { label: 'produces', color: '#d97706' },
+  'contrasts-with': { label: 'contrasts with', color: '#e11d48', dashed: true },
+  'part-of': { label: 'part of', color: '#7c3aed' }
+};
+
+const NODE_STYLE: Record<string, string> = {
+  process: 'fill-amber-100 stroke-amber-500 dark:fill-amber-900',
+  structure: 'fill-blue-100 stroke-blue-500 dark:fill-blue-900',
+  abstract: 'fill-purple-100 stroke-purple-500 dark:fill-purple-900'
+};
+
+export const ConceptGraph: React.FC<ConceptGraphProps> = ({ concepts, matches }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const edges = useMemo<GraphEdge[]>(() => concepts.flatMap(concept =>
+    (concept.relations || []).map(relation => ({ source: concept.title, target: relation.target, type: relation.type, explanation: relation.explanation }))
+  ), [concepts]);
+
+  const positions = useMemo(() => {
+    const layout = forceLayout(concepts.map(c => c.title), edges);
+    return new Map(layout.map(node => [node.id, {
+      x: PADDING + node.x * (WIDTH - PADDING * 2),
+      y: PADDING + node.y * (HEIGHT - PADDING * 2)
+    }]));
+  }, [concepts, edges]);
+
+  const selectedEdges = selected ? edges.filter(e => e.source === selected || e.target === selected) : [];
+  const neighbourhood = selected ? new Set([selected, ...selectedEdges.flatMap(e => [e.source, e.target])]) : null;
+  const selectedConcept = concepts.find(c => c.title === selected);
+
+  const isDimmed = (title: string) =>
+    (neighbourhood !== null && !neighbourhood.has(title)) || (matches !== null && !matches.has(title));
+
+  const toggle = (title: string) => setSelected(current => current === title ? null : title);
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6 w-full">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full lg:flex-1 h-auto bg-stone-50 dark:bg-stone-900/50 rounded-xl border border-stone-200 dark:border-stone-700"
+        onClick={() => setSelected(null)}
+      >
+        <defs>
+          {(Object.keys(RELATION_STYLE) as RelationType[]).map(type => (
+            <marker key={type} id={`arrow-${type}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={RELATION_STYLE[type].color} />
+            </marker>
+          ))}
+        </defs>
+
+        {/* Edges are shortened so the arrowhead stops at the node's rim */}
+        {edges.map((edge, i) => {
+          const from = positions.get(edge.source);
+          const to = positions.get(edge.target);
+          if (!from || !to) return null;
+          const dx = to.x - from.x, dy = to.y - from.y;
+          const length = Math.max(Math.hypot(dx, dy), 1);
+          const ux = dx / length, uy = dy / length;
+          const style = RELATION_STYLE[edge.type];
+          const active = selected === null || edge.source === selected || edge.target === selected;
+          return (
+            <line
+              key={`${edge.source}-${edge.target}-${i}`}
+              x1={from.x + ux * NODE_RADIUS} y1={from.y + uy * NODE_RADIUS}
+              x2={to.x - ux * (NODE_RADIUS + 3)} y2={to.y - uy * (NODE_RADIUS + 3)}
+              stroke={style.color}
+              strokeWidth={active && selected ? 2.5 : 1.5}
+              strokeDasharray={style.dashed ? '6 4' : undefined}
+              markerEnd={`url(#arrow-${edge.type})`}
+              opacity={active ? 0.9 : 0.12}
+              className="transition-opacity duration-300"
+            />
+          );
+        })}
+
+        {concepts.map(concept => {
+          const position = positions.get(concept.title);
+          if (!position) return null;
+          const isSelected = selected === concept.title;
+          return (
+            <g
+              key={concept.title}
+              transform={`translate(${position.x}, ${position.y})`}
+              role="button"
+              tabIndex={0}
+              aria-pressed={isSelected}
+              aria-label={concept.title}
+              onClick={(e) => { e.stopPropagation(); toggle(concept.title); }}
+              onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); toggle(concept.title); } }}
+              className="cursor-pointer outline-none transition-opacity duration-300"
+              opacity={isDimmed(concept.title) ? 0.25 : 1}
+            >
+              <circle
+                r={NODE_RADIUS}
+                strokeWidth={isSelected ? 4 : 2}
+                className={NODE_STYLE[concept.type] || 'fill-stone-100 stroke-stone-400 dark:fill-stone-800'}
+              />
+              <text y={NODE_RADIUS + 18} textAnchor="middle" className="fill-stone-800 dark:fill-stone-100 text-[13px] font-semibold select-none">
+                {concept.title.length > 28 ? `${concept.title.substring(0, 27)}…` : concept.title}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Detail panel */}
+      <div className="lg:w-72 shrink-0 text-sm">
+        {selectedConcept ? (
+          <div className="animate-fade-in">
+            <h4 className="font-serif text-xl font-bold text-stone-900 dark:text-stone-100 mb-2">{selectedConcept.title}</h4>
+            <p className="text-stone-600 dark:text-stone-400 leading-relaxed mb-4">{selectedConcept.description}</p>
+            {selectedEdges.length === 0 && <p className="text-stone-400 italic">No stated relations.</p>}
+            <ul className="space-y-3">
+              {selectedEdges.map((edge, i) => {
+                const outgoing = edge.source === selected;
+                const other = outgoing ? edge.target : edge.source;
+                const style = RELATION_STYLE[edge.type];
+                return (
+                  <li key={i} className="border-l-2 pl-3" style={{ borderColor: style.color }}>
+                    <button onClick={() => setSelected(other)} className="flex items-center gap-1.5 text-xs font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-stone-100 transition-colors text-left">
+                      {outgoing ? <ArrowRight size={12} /> : <ArrowLeft size={12} />}
+                      {outgoing ? (
+                        <><span style={{ color: style.color }}>{style.label}</span> <span className="normal-case tracking-normal">{other}</span></>
+                      ) : (
+                        <><span className="normal-case tracking-normal">{other}</span> <span style={{ color: style.color }}>{style.label} this</span></>
+                      )}
+                    </button>
+                    <p className="text-stone-600 dark:text-stone-400 leading-relaxed mt-1">{edge.explanation}</p>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ) : (
+          <div>
+            <p className="text-stone-500 dark:text-stone-400 leading-relaxed mb-4">Select a concept to highlight its neighbourhood and read how it connects to the rest.</p>
+            <ul className="space-y-2">
+              {(Object.keys(RELATION_STYLE) as RelationType[]).map(type => (
+                <li key={type} className="flex items-center gap-3 text-stone-600 dark:text-stone-300">
+                  <svg width="32" height="8" aria-hidden="true">
+                    <line x1="0" y1="4" x2="32" y2="4" stroke={RELATION_STYLE[type].color} strokeWidth="2" strokeDasharray={RELATION_STYLE[type].dashed ? '6 4' : undefined} />
+                  </svg>
+                  {RELATION_STYLE[type].label}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,452 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { GitBranch, Workflow, BarChart2, LineChart, Table, Repeat, RotateCcw } from 'lucide-react';
+import { DiagramKind, DiagramNode, DiagramSpec } from '../types';
+import { layerNodes } from '../services/diagramLayout';
+import { PipelineDiagram } from './PipelineDiagram';
+
+const KIND_CONFIG: Record<DiagramKind, { icon: any; label: string }> = {
+  'flowchart': { icon: GitBranch, label: 'Flowchart' },
+  'pipeline': { icon: Workflow, label: 'Pipeline' },
+  'bar-chart': { icon: BarChart2, label: 'Bar Chart' },
+  'line-chart': { icon: LineChart, label: 'Line Chart' },
+  'comparison-table': { icon: Table, label: 'Comparison' },
+  'state-machine': { icon: Repeat, label: 'State Machine' }
+};
+
+// Series colours are inline so bars, lines and legend swatches share one value; each reads on light and dark cards.
+const SERIES_COLORS = ['#C5A059', '#78716c', '#2563eb', '#7c3aed', '#e11d48'];
+const GOLD = '#C5A059';
+
+const formatNumber = (value: number) => {
+  if (value !== 0 && Math.abs(value) < 0.01) return value.toExponential(1);
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.substring(0, length - 1)}…` : text;
+
+const ArrowMarker: React.FC<{ id: string; color: string }> = ({ id, color }) => (
+  <marker id={id} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+    <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+  </marker>
+);
+
+const NodeDetail: React.FC<{ node?: DiagramNode; hint: string }> = ({ node, hint }) => (
+  <div className="min-h-[3.5rem] mt-4 text-sm text-center max-w-xl mx-auto">
+    <AnimatePresence mode="wait">
+      <motion.p
+        key={node?.id || 'hint'}
+        initial={{ opacity: 0, y: 4 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -4 }}
+        className={node ? 'text-stone-700 dark:text-stone-200 leading-relaxed' : 'text-stone-400 italic'}
+      >
+        {node ? <><strong className="font-semibold">{node.label}.</strong> {node.detail || ""}</> : hint}
+      </motion.p>
+    </AnimatePresence>
+  </div>
+);
+
+// --- FLOWCHART ---
+const FlowchartDiagram: React.FC<{ spec: DiagramSpec }> = ({ spec }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const columns = useMemo(() => layerNodes(spec.nodes || [], spec.edges || []), [spec]);
+
+  const NODE_W = 150, NODE_H = 48, GAP_X = 70, GAP_Y = 28;
+  const rows = Math.max(...columns.map(c => c.length));
+  const width = columns.length * NODE_W + (columns.length - 1) * GAP_X + 20;
+  const height = rows * NODE_H + (rows - 1) * GAP_Y + 20;
+
+  const positions = new Map<string, { x: number; y: number }>();
+  columns.forEach((column, c) => {
+    const offset = (height - (column.length * NODE_H + (column.length - 1) * GAP_Y)) / 2;
+    column.forEach((node, r) => positions.set(node.id, { x: 10 + c * (NODE_W + GAP_X), y: offset + r * (NODE_H + GAP_Y) }));
+  });
+
+  const edges = spec.edges || [];
+  const isLinked = (id: string) => selected === null || id === selected || edges.some(e => (e.from === selected && e.to === id) || (e.to === selected && e.from === id));
+
+  return (
+    <>
+      <div className="w-full overflow-x-auto">
+        <svg viewBox={`0 0 ${width} ${height}`} className="mx-auto h-auto" style={{ width: '100%', minWidth: Math.min(width, 560), maxWidth: width }}>
+          <defs><ArrowMarker id="flow-arrow" color="#a8a29e" /><ArrowMarker id="flow-arrow-active" color={GOLD} /></defs>
+          {edges.map((edge, i) => {
+            const from = positions.get(edge.from)!, to = positions.get(edge.to)!;
+            const forward = to.x > from.x;
+            const x1 = forward ? from.x + NODE_W : from.x + NODE_W / 2;
+            const y1 = forward ? from.y + NODE_H / 2 : from.y + NODE_H;
+            const x2 = forward ? to.x : to.x + NODE_W / 2;
+            const y2 = forward ? to.y + NODE_H / 2 : to.y + (to.y > from.y ? 0 : NODE_H);
+            // Back edges (loops) bow below the nodes so they don't cross the forward flow
+            const path = forward
+              ? `M ${x1} ${y1} C ${x1 + GAP_X / 2} ${y1}, ${x2 - GAP_X / 2} ${y2}, ${x2} ${y2}`
+              : `M ${x1} ${y1} C ${x1} ${y1 + 40}, ${x2} ${y2 + 40}, ${x2} ${y2}`;
+            const active = selected !== null && (edge.from === selected || edge.to === selected);
+            return (
+              <g key={i} opacity={selected === null || active ? 1 : 0.2} className="transition-opacity duration-300">
+                <motion.path
+                  d={path}
+                  fill="none"
+                  stroke={active ? GOLD : '#a8a29e'}
+                  strokeWidth={active ? 2.5 : 1.5}
+                  markerEnd={`url(#${active ? 'flow-arrow-active' : 'flow-arrow'})`}
+                  initial={{ pathLength: 0 }}
+                  animate={{ pathLength: 1 }}
+                  transition={{ duration: 0.6, delay: 0.2 + i * 0.08 }}
+                />
+                {edge.label && (
+                  <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 6} textAnchor="middle" className="fill-stone-500 dark:fill-stone-400 text-[10px] select-none">
+                    {truncate(edge.label, 22)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+          {(spec.nodes || []).map((node, i) => {
+            const p = positions.get(node.id)!;
+            const isSelected = selected === node.id;
+            return (
+              <motion.g
+                key={node.id}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: isLinked(node.id) ? 1 : 0.25 }}
+                transition={{ duration: 0.3, delay: selected === null ? i * 0.06 : 0 }}
+                onClick={() => setSelected(isSelected ? null : node.id)}
+                className="cursor-pointer"
+              >
+                <rect
+                  x={p.x} y={p.y} width={NODE_W} height={NODE_H} rx={10}
+                  strokeWidth={2}
+                  className={isSelected ? 'fill-stone-900 dark:fill-stone-100 stroke-nobel-gold' : 'fill-white dark:fill-stone-900 stroke-stone-300 dark:stroke-stone-600'}
+                />
+                <text x={p.x + NODE_W / 2} y={p.y + NODE_H / 2 + 4} textAnchor="middle" className={`text-[12px] font-semibold select-none ${isSelected ? 'fill-white dark:fill-stone-900' : 'fill-stone-800 dark:fill-stone-100'}`}>
+                  {truncate(node.label, 22)}
+                </text>
+              </motion.g>
+            );
+          })}
+        </svg>
+      </div>
+      <NodeDetail node={spec.nodes?.find(n => n.id === selected)} hint="Click a step to see what happens there." />
+    </>
+  );
+};
+
+// --- PIPELINE ---
+const PipelineSpecDiagram: React.FC<{ spec: DiagramSpec }> = ({ spec }) => (
+  <PipelineDiagram stages={spec.nodes || []} edges={spec.edges || []} />
+);
+
+// --- STATE MACHINE ---
+const StateMachineDiagram: React.FC<{ spec: DiagramSpec }> = ({ spec }) => {
+  const nodes = spec.nodes || [];
+  const edges = spec.edges || [];
+  const [current, setCurrent] = useState(spec.initial || nodes[0]?.id);
+  const [lastEdge, setLastEdge] = useState<number | null>(null);
+
+  const SIZE = 420, RADIUS = 150, STATE_R = 34;
+  const positions = new Map(nodes.map((n, i) => {
+    const angle = (i / nodes.length) * Math.PI * 2 - Math.PI / 2;
+    return [n.id, { x: SIZE / 2 + Math.cos(angle) * RADIUS, y: SIZE / 2 + Math.sin(angle) * RADIUS }];
+  }));
+
+  const outgoing = edges.map((e, i) => ({ ...e, index: i })).filter(e => e.from === current);
+
+  const fire = (index: number) => {
+    setLastEdge(index);
+    setCurrent(edges[index].to);
+  };
+
+  const reset = () => {
+    setCurrent(spec.initial || nodes[0]?.id);
+    setLastEdge(null);
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row items-center gap-8 w-full">
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-[420px] h-auto">
+        <defs><ArrowMarker id="state-arrow" color="#a8a29e" /><ArrowMarker id="state-arrow-active" color={GOLD} /></defs>
+        {edges.map((edge, i) => {
+          const from = positions.get(edge.from)!, to = positions.get(edge.to)!;
+          const active = i === lastEdge;
+          let path: string, labelX: number, labelY: number;
+          if (edge.from === edge.to) {
+            // Self-transition: a loop on the outside of the state
+            const len = Math.hypot(from.x - SIZE / 2, from.y - SIZE / 2) || 1;
+            const nx = (from.x - SIZE / 2) / len, ny = (from.y - SIZE / 2) / len; // Outward
+            const px = -ny, py = nx; // Sideways
+            const at = (out: number, side: number) => `${from.x + nx * out + px * side} ${from.y + ny * out + py * side}`;
+            path = `M ${at(STATE_R - 2, 14)} C ${at(STATE_R + 60, 40)}, ${at(STATE_R + 60, -40)}, ${at(STATE_R + 2, -14)}`;
+            labelX = from.x + nx * (STATE_R + 58); labelY = from.y + ny * (STATE_R + 58) + 4;
+          } else {
+            // Curving every edge to its right keeps A→B and B→A apart
+            const dx = to.x - from.x, dy = to.y - from.y;
+            const len = Math.hypot(dx, dy) || 1;
+            const ux = dx / len, uy = dy / len;
+            const cx = (from.x + to.x) / 2 - uy * 30, cy = (from.y + to.y) / 2 + ux * 30;
+            const sx = from.x + ux * STATE_R, sy = from.y + uy * STATE_R;
+            const ex = to.x - ux * (STATE_R + 4), ey = to.y - uy * (STATE_R + 4);
+            path = `M ${sx} ${sy} Q ${cx} ${cy} ${ex} ${ey}`;
+            labelX = cx; labelY = cy;
+          }
+          return (
+            <g key={i}>
+              <path d={path} fill="none" stroke={active ? GOLD : '#a8a29e'} strokeWidth={active ? 2.5 : 1.5} markerEnd={`url(#${active ? 'state-arrow-active' : 'state-arrow'})`} className="transition-all duration-300" />
+              {edge.label && (
+                <text x={labelX} y={labelY} textAnchor="middle" className={`text-[10px] select-none ${active ? 'fill-stone-900 dark:fill-stone-100 font-semibold' : 'fill-stone-500 dark:fill-stone-400'}`}>
+                  {truncate(edge.label, 18)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        {nodes.map(node => {
+          const p = positions.get(node.id)!;
+          const isCurrent = node.id === current;
+          return (
+            <g key={node.id}>
+              {node.id === spec.initial && <circle cx={p.x} cy={p.y} r={STATE_R + 5} fill="none" strokeWidth={1} strokeDasharray="3 3" className="stroke-stone-400" />}
+              <motion.circle
+                cx={p.x} cy={p.y} r={STATE_R}
+                strokeWidth={2}
+                animate={{ scale: isCurrent ? 1.08 : 1 }}
+                style={{ transformOrigin: `${p.x}px ${p.y}px` }}
+                className={isCurrent ? 'fill-stone-900 dark:fill-stone-100 stroke-nobel-gold' : 'fill-white dark:fill-stone-900 stroke-stone-300 dark:stroke-stone-600'}
+              />
+              <text x={p.x} y={p.y + 4} textAnchor="middle" className={`text-[11px] font-semibold select-none ${isCurrent ? 'fill-white dark:fill-stone-900' : 'fill-stone-800 dark:fill-stone-100'}`}>
+                {truncate(node.label, 12)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex-1 w-full text-sm">
+        <div className="text-[10px] uppercase font-bold tracking-widest text-stone-500 dark:text-stone-400 mb-1">Current state</div>
+        <div className="font-serif text-xl text-stone-900 dark:text-stone-100 mb-1">{nodes.find(n => n.id === current)?.label}</div>
+        <p className="text-stone-600 dark:text-stone-400 leading-relaxed mb-4">{nodes.find(n => n.id === current)?.detail}</p>
+        <div className="text-[10px] uppercase font-bold tracking-widest text-stone-500 dark:text-stone-400 mb-2">Transitions</div>
+        <div className="flex flex-wrap gap-2">
+          {outgoing.map(edge => (
+            <button key={edge.index} onClick={() => fire(edge.index)} className="px-3 py-1.5 rounded-full border border-stone-300 dark:border-stone-600 text-stone-700 dark:text-stone-200 hover:border-nobel-gold hover:bg-nobel-gold/10 transition-colors">
+              {edge.label || 'next'} → {nodes.find(n => n.id === edge.to)?.label}
+            </button>
+          ))}
+          {outgoing.length === 0 && <span className="text-stone-400 italic">Final state.</span>}
+          <button onClick={reset} className="px-3 py-1.5 rounded-full text-stone-500 hover:text-stone-900 dark:hover:text-stone-100 flex items-center gap-1 transition-colors">
+            <RotateCcw size={12} /> Reset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- CHARTS ---
+const ChartLegend: React.FC<{ spec: DiagramSpec }> = ({ spec }) => (spec.series || []).length > 1 ? (
+  <div className="flex flex-wrap justify-center gap-4 mt-4 text-xs text-stone-600 dark:text-stone-300">
+    {(spec.series || []).map((s, i) => (
+      <span key={s.name} className="flex items-center gap-1.5">
+        <span className="w-3 h-3 rounded-sm" style={{ background: SERIES_COLORS[i % SERIES_COLORS.length] }}></span>{s.name}
+      </span>
+    ))}
+  </div>
+) : null;
+
+const useChartScale = (spec: DiagramSpec) => useMemo(() => {
+  const values = (spec.series || []).flatMap(s => s.values);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const span = max - min || 1;
+  return { min, max: max + span * 0.1, ticks: [0, 0.25, 0.5, 0.75, 1].map(t => min + t * (max + span * 0.1 - min)) };
+}, [spec]);
+
+const CHART_W = 600, CHART_H = 300, AXIS_X = 56, AXIS_Y = 36, TOP = 12;
+
+const ChartAxes: React.FC<{ spec: DiagramSpec; scale: { min: number; max: number; ticks: number[] }; xFor: (i: number) => number }> = ({ spec, scale, xFor }) => {
+  const y = (v: number) => TOP + (1 - (v - scale.min) / (scale.max - scale.min)) * (CHART_H - TOP - AXIS_Y);
+  return (
+    <g className="text-[10px]">
+      {scale.ticks.map(t => (
+        <g key={t}>
+          <line x1={AXIS_X} x2={CHART_W} y1={y(t)} y2={y(t)} className="stroke-stone-200 dark:stroke-stone-700" strokeWidth={1} />
+          <text x={AXIS_X - 6} y={y(t) + 3} textAnchor="end" className="fill-stone-400 font-mono">{formatNumber(t)}</text>
+        </g>
+      ))}
+      {(spec.labels || []).map((label, i) => (
+        <text key={i} x={xFor(i)} y={CHART_H - AXIS_Y + 16} textAnchor="middle" className="fill-stone-500 dark:fill-stone-400">{truncate(label, 14)}</text>
+      ))}
+      {spec.unit && <text x={AXIS_X} y={TOP - 2} className="fill-stone-400 uppercase tracking-wider">{spec.unit}</text>}
+    </g>
+  );
+};
+
+const BarChartDiagram: React.FC<{ spec: DiagramSpec }> = ({ spec }) => {
+  const [hover, setHover] = useState<string | null>(null);
+  const scale = useChartScale(spec);
+  const labels = spec.labels || [];
+  const series = spec.series || [];
+  const groupW = (CHART_W - AXIS_X) / labels.length;
+  const barW = Math.min(48, (groupW * 0.75) / series.length);
+  const y = (v: number) => TOP + (1 - (v - scale.min) / (scale.max - scale.min)) * (CHART_H - TOP - AXIS_Y);
+  const zero = y(0);
+
+  return (
+    <>
+      <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-auto">
+        <ChartAxes spec={spec} scale={scale} xFor={i => AXIS_X + groupW * (i + 0.5)} />
+        {labels.map((label, i) => series.map((s, j) => {
+          const value = s.values[i];
+          const x = AXIS_X + groupW * (i + 0.5) - (barW * series.length) / 2 + j * barW;
+          const h = Math.abs(y(value) - zero);
+          const key = `${i}-${j}`;
+          return (
+            <g key={key} onMouseEnter={() => setHover(key)} onMouseLeave={() => setHover(null)}>
+              <motion.rect
+                x={x + 2} width={barW - 4} rx={3}
+                fill={SERIES_COLORS[j % SERIES_COLORS.length]}
+                initial={{ y: zero, height: 0 }}
+                animate={{ y: value >= 0 ? zero - h : zero, height: Math.max(1, h), opacity: hover === null || hover === key ? 1 : 0.5 }}
+                transition={{ type: "spring", stiffness: 80, damping: 15, delay: i * 0.05 + j * 0.03 }}
+              />
+              {hover === key && (
+                <text x={x + barW / 2} y={value >= 0 ? zero - h - 6 : zero + h + 14} textAnchor="middle" className="fill-stone-900 dark:fill-stone-100 text-[11px] font-mono font-bold">
+                  {formatNumber(value)}
+                </text>
+              )}
+            </g>
+          );
+        }))}
+      </svg>
+      <ChartLegend spec={spec} />
+    </>
+  );
+};
+
+const LineChartDiagram: React.FC<{ spec: DiagramSpec }> = ({ spec }) => {
+  const [hover, setHover] = useState<string | null>(null);
+  const scale = useChartScale(spec);
+  const labels = spec.labels || [];
+  const x = (i: number) => AXIS_X + 20 + (i / Math.max(1, labels.length - 1)) * (CHART_W - AXIS_X - 40);
+  const y = (v: number) => TOP + (1 - (v - scale.min) / (scale.max - scale.min)) * (CHART_H - TOP - AXIS_Y);
+
+  return (
+    <>
+      <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-auto">
+        <ChartAxes spec={spec} scale={scale} xFor={x} />
+        {(spec.series || []).map((s, j) => {
+          const color = SERIES_COLORS[j % SERIES_COLORS.length];
+          return (
+            <g key={s.name}>
+              <motion.path
+                d={s.values.map((v, i) => `${i === 0 ? 'M' : 'L'} ${x(i)} ${y(v)}`).join(' ')}
+                fill="none" stroke={color} strokeWidth={2.5} strokeLinejoin="round"
+                initial={{ pathLength: 0 }}
+                animate={{ pathLength: 1 }}
+                transition={{ duration: 1, delay: j * 0.2, ease: "easeInOut" }}
+              />
+              {s.values.map((v, i) => {
+                const key = `${i}-${j}`;
+                return (
+                  <g key={key} onMouseEnter={() => setHover(key)} onMouseLeave={() => setHover(null)}>
+                    <circle cx={x(i)} cy={y(v)} r={hover === key ? 6 : 4} fill={color} className="stroke-white dark:stroke-stone-800 transition-all" strokeWidth={2} />
+                    <circle cx={x(i)} cy={y(v)} r={12} fill="transparent" />
+                    {hover === key && (
+                      <text x={x(i)} y={y(v) - 12} textAnchor="middle" className="fill-stone-900 dark:fill-stone-100 text-[11px] font-mono font-bold">
+                        {formatNumber(v)}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+      <ChartLegend spec={spec} />
+    </>
+  );
+};
+
+// --- COMPARISON TABLE ---
+const ComparisonTableDiagram: React.FC<{ spec: DiagramSpec }> = ({ spec }) => {
+  const [column, setColumn] = useState<number | null>(null);
+  return (
+    <div className="w-full overflow-x-auto">
+      <table className="w-full text-sm text-left border-collapse">
+        <thead>
+          <tr>
+            <th className="p-3 border-b-2 border-stone-200 dark:border-stone-700"></th>
+            {(spec.columns || []).map((heading, c) => (
+              <th key={c} className="p-0 border-b-2 border-stone-200 dark:border-stone-700">
+                <button
+                  onClick={() => setColumn(column === c ? null : c)}
+                  className={`w-full p-3 text-left font-serif text-base transition-colors ${column === c ? 'text-stone-900 dark:text-stone-100 bg-nobel-gold/15' : 'text-stone-700 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-800'}`}
+                >
+                  {heading}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {(spec.rows || []).map((row, r) => (
+            <motion.tr
+              key={r}
+              initial={{ opacity: 0, y: 6 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: r * 0.05 }}
+              className="border-b border-stone-100 dark:border-stone-800 hover:bg-stone-50 dark:hover:bg-stone-900/50"
+            >
+              <th className="p-3 text-[11px] uppercase font-bold tracking-wider text-stone-500 dark:text-stone-400 whitespace-nowrap">{row.label}</th>
+              {row.values.map((value, c) => (
+                <td key={c} className={`p-3 text-stone-700 dark:text-stone-300 transition-colors ${column === c ? 'bg-nobel-gold/10 text-stone-900 dark:text-stone-100 font-medium' : column !== null ? 'opacity-50' : ''}`}>
+                  {value || '—'}
+                </td>
+              ))}
+            </motion.tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const RENDERERS: Record<DiagramKind, React.FC<{ spec: DiagramSpec }>> = {
+  'flowchart': FlowchartDiagram,
+  'pipeline': PipelineSpecDiagram,
+  'state-machine': StateMachineDiagram,
+  'bar-chart': BarChartDiagram,
+  'line-chart': LineChartDiagram,
+  'comparison-table': ComparisonTableDiagram
+};
+
+// Renders a validated DiagramSpec (see services/validatePaper.ts). Specs are expected to have passed validation.
+export const DiagramRenderer: React.FC<{ spec: DiagramSpec }> = ({ spec }) => {
+  const config = KIND_CONFIG[spec.kind];
+  const Renderer = RENDERERS[spec.kind];
+  const Icon = config.icon;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      whileInView={{ opacity: 1, y: 0 }}
+      viewport={{ once: true, margin: "-80px" }}
+      transition={{ duration: 0.5 }}
+      className="flex flex-col items-center p-8 bg-white dark:bg-stone-800 rounded-2xl shadow-xl border border-stone-200 dark:border-stone-700 w-full"
+    >
+      <div className="inline-flex items-center gap-1.5 px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider border border-stone-200 dark:border-stone-700 text-stone-500 dark:text-stone-400 mb-3">
+        <Icon size={12} /> {config.label}
+      </div>
+      {spec.title && <h3 className="font-serif text-2xl mb-2 text-stone-900 dark:text-stone-100 text-center">{spec.title}</h3>}
+      {spec.caption && <p className="text-sm text-stone-500 dark:text-stone-400 mb-6 text-center max-w-xl leading-relaxed">{spec.caption}</p>}
+      <Renderer spec={spec} />
+    </motion.div>
+  );
+};
@@ -4,273 +4,200 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { Play, RotateCcw, Activity, Cpu, BarChart2 } from 'lucide-react';
+import React, { useState, useMemo } from 'react';
+import { Play, RotateCcw, Activity } from 'lucide-react';
+import { Pauli, applyNoise, checkLogicalError, createSurfaceCode, decodeGreedy, measureSyndrome, multiplyPauli } from '../services/surfaceCode';
 
 // --- SURFACE CODE DIAGRAM ---
+const CELL = 40;
+const MARGIN = 32;
+const STABILIZER_COLORS = { X: '#ef4444', Z: '#3b82f6' }; // Matches the red/blue legend
+const ERROR_CYCLE: Pauli[] = ['I', 'X', 'Z', 'Y'];
+
+interface SyndromeRound {
+  errors: Pauli[];
+  syndrome: boolean[];
+}
+
 export const SurfaceCodeDiagram: React.FC = () => {
-  // 3x3 grid of data qubits (9 total)
-  // Interspersed with 4 stabilizers (checkers)
-  const [errors, setErrors] = useState<number[]>([]);
-  
-  // Map data qubit indices (0-8) to affected stabilizers (0-3)
-  // Layout:
-  // D0  S0  D1
-  // S1  D4  S2
-  // D3  S3  D5
-  // (Simplified layout for viz)
-  
-  // Adjacency list: DataQubit Index -> Stabilizer Indices
-  const adjacency: Record<number, number[]> = {
-    0: [0, 1],
-    1: [0, 2],
-    2: [1, 3],
-    3: [2, 3],
-    4: [0, 1, 2, 3], // Center affects all in this simplified tightly packed model
+  const [distance, setDistance] = useState(3);
+  const [noiseRate, setNoiseRate] = useState(0.05);
+  const [roundsPerRun, setRoundsPerRun] = useState(3);
+  const code = useMemo(() => createSurfaceCode(distance), [distance]);
+
+  const [errors, setErrors] = useState<Pauli[]>(() => new Array(distance * distance).fill('I'));
+  // Noise accumulates round by round; each round's syndrome is kept so it can be replayed
+  const [rounds, setRounds] = useState<SyndromeRound[]>([]);
+  const [viewRound, setViewRound] = useState<number | null>(null);
+  const [decoded, setDecoded] = useState<{ correction: Pauli[]; matches: number; logical: { x: boolean; z: boolean } } | null>(null);
+
+  const reset = (d = distance) => {
+    setErrors(new Array(d * d).fill('I'));
+    setRounds([]);
+    setViewRound(null);
+    setDecoded(null);
+  };
+
+  const changeDistance = (d: number) => {
+    setDistance(d);
+    reset(d);
+  };
+
+  const shownErrors = viewRound !== null ? rounds[viewRound].errors : errors;
+  const syndrome = useMemo(() => measureSyndrome(code, shownErrors), [code, shownErrors]);
+  const firing = syndrome.filter(Boolean).length;
+
+  // Clicking a data qubit cycles its error I -> X -> Z -> Y
+  const toggleError = (q: number) => {
+    const next = [...errors];
+    next[q] = ERROR_CYCLE[(ERROR_CYCLE.indexOf(next[q]) + 1) % ERROR_CYCLE.length];
+    setErrors(next);
+    setViewRound(null);
+    setDecoded(null);
   };
 
-  const toggleError = (id: number) => {
-    setErrors(prev => prev.includes(id) ? prev.filter(e => e !== id) : [...prev, id]);
+  const injectNoise = () => {
+    let current = errors;
+    const added: SyndromeRound[] = [];
+    for (let r = 0; r < roundsPerRun; r++) {
+      current = applyNoise(current, noiseRate);
+      added.push({ errors: current, syndrome: measureSyndrome(code, current) });
+    }
+    setErrors(current);
+    setRounds(prev => [...prev, ...added]);
+    setViewRound(null);
+    setDecoded(null);
+  };
+
+  const decode = () => {
+    const { correction, matches } = decodeGreedy(code, measureSyndrome(code, errors));
+    const residual = errors.map((e, q) => multiplyPauli(e, correction[q]));
+    setViewRound(null);
+    setDecoded({ correction, matches, logical: checkLogicalError(code, residual) });
   };
 
-  // Calculate active stabilizers based on parity (even errors = off, odd errors = on)
-  const activeStabilizers = [0, 1, 2, 3].filter(stabId => {
-    let errorCount = 0;
-    Object.entries(adjacency).forEach(([dataId, stabs]) => {
-        if (errors.includes(parseInt(dataId)) && stabs.includes(stabId)) {
-            errorCount++;
-        }
-    });
-    return errorCount % 2 !== 0;
-  });
+  const size = (distance - 1) * CELL + MARGIN * 2;
+  const point = (row: number, col: number) => ({ x: MARGIN + col * CELL, y: MARGIN + row * CELL });
+  const errorCount = shownErrors.filter(e => e !== 'I').length;
+
+  // Bulk plaquettes are squares; weight-2 boundary checks are half-discs bulging outwards
+  const plaquettePath = (row: number, col: number) => {
+    const d = distance;
+    const tl = point(row - 1, col - 1), br = point(row, col);
+    if (row === 0) return `M ${tl.x} ${br.y} A ${CELL / 2} ${CELL / 2} 0 0 1 ${br.x} ${br.y} Z`;
+    if (row === d) return `M ${br.x} ${tl.y} A ${CELL / 2} ${CELL / 2} 0 0 1 ${tl.x} ${tl.y} Z`;
+    if (col === 0) return `M ${br.x} ${br.y} A ${CELL / 2} ${CELL / 2} 0 0 1 ${br.x} ${tl.y} Z`;
+    if (col === d) return `M ${tl.x} ${tl.y} A ${CELL / 2} ${CELL / 2} 0 0 1 ${tl.x} ${br.y} Z`;
+    return `M ${tl.x} ${tl.y} H ${br.x} V ${br.y} H ${tl.x} Z`;
+  };
+
+  let status: string;
+  if (decoded) {
+    const logical = [decoded.logical.x && 'X', decoded.logical.z && 'Z'].filter(Boolean).join(' and ');
+    status = logical
+      ? `Decoder joined ${decoded.matches} defect pair${decoded.matches === 1 ? '' : 's'}, but the correction completed a logical ${logical} error.`
+      : `Decoder joined ${decoded.matches} defect pair${decoded.matches === 1 ? '' : 's'}. The logical qubit survived.`;
+  } else {
+    status = errorCount === 0 ? "System is stable." : `${errorCount} error${errorCount === 1 ? '' : 's'}, ${firing} stabilizer${firing === 1 ? '' : 's'} firing.`;
+  }
 
   return (
     <div className="flex flex-col items-center p-8 bg-white dark:bg-stone-800 rounded-xl shadow-sm border border-stone-200 dark:border-stone-700 my-8 w-full">
       <h3 className="font-serif text-xl mb-4 text-stone-800 dark:text-stone-100">Interactive: Surface Code Detection</h3>
       <p className="text-sm text-stone-500 dark:text-stone-400 mb-6 text-center max-w-md">
-        Click the grey <strong>Data Qubits</strong> to inject errors. Watch the colored <strong>Stabilizers</strong> light up when they detect an odd number of errors.
+        Click <strong>Data Qubits</strong> to inject X, Z or Y errors, or add random noise. <strong>Stabilizers</strong> light up when they detect an odd number of errors; the decoder then guesses a correction.
       </p>
-      
-      <div className="relative w-full max-w-[260px] aspect-square bg-[#F5F4F0] dark:bg-stone-900 rounded-lg border border-stone-200 dark:border-stone-700 p-4 flex flex-wrap justify-between content-between relative mx-auto">
-         {/* Grid Lines */}
-         <div className="absolute inset-0 pointer-events-none flex items-center justify-center opacity-20 dark:opacity-10">
-            <div className="w-2/3 h-2/3 border border-stone-400 dark:border-stone-500"></div>
-            <div className="absolute w-full h-[1px] bg-stone-400 dark:bg-stone-500"></div>
-            <div className="absolute h-full w-[1px] bg-stone-400 dark:bg-stone-500"></div>
-         </div>
 
-         {/* Stabilizers (Z=Blue, X=Red) - positioned absolutely for control */}
-         {[
-             {id: 0, x: '50%', y: '20%', type: 'Z', color: 'bg-blue-500'},
-             {id: 1, x: '20%', y: '50%', type: 'X', color: 'bg-red-500'},
-             {id: 2, x: '80%', y: '50%', type: 'X', color: 'bg-red-500'},
-             {id: 3, x: '50%', y: '80%', type: 'Z', color: 'bg-blue-500'},
-         ].map(stab => (
-             <motion.div
-                key={`stab-${stab.id}`}
-                className={`absolute w-10 h-10 -ml-5 -mt-5 flex items-center justify-center text-white text-xs font-bold rounded-sm shadow-sm transition-all duration-300 ${activeStabilizers.includes(stab.id) ? stab.color + ' opacity-100 scale-110 ring-4 ring-offset-2 ring-stone-200 dark:ring-stone-700' : 'bg-stone-300 dark:bg-stone-700 opacity-40'}`}
-                style={{ left: stab.x, top: stab.y }}
-             >
-                 {stab.type}
-             </motion.div>
-         ))}
+      {/* Controls */}
+      <div className="w-full max-w-md grid grid-cols-3 gap-4 mb-6 text-xs text-stone-500 dark:text-stone-400">
+        <label className="flex flex-col gap-1">
+          <span className="uppercase font-bold tracking-wider">Distance</span>
+          <select value={distance} onChange={(e) => changeDistance(parseInt(e.target.value, 10))} className="px-2 py-1.5 rounded border border-stone-200 dark:border-stone-600 bg-stone-50 dark:bg-stone-900 text-stone-800 dark:text-stone-200">
+            {[3, 5, 7, 9].map(d => <option key={d} value={d}>d = {d}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="uppercase font-bold tracking-wider">Noise {(noiseRate * 100).toFixed(1)}%</span>
+          <input type="range" min={0.005} max={0.15} step={0.005} value={noiseRate} onChange={(e) => setNoiseRate(parseFloat(e.target.value))} className="accent-nobel-gold mt-2" />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="uppercase font-bold tracking-wider">Rounds</span>
+          <select value={roundsPerRun} onChange={(e) => setRoundsPerRun(parseInt(e.target.value, 10))} className="px-2 py-1.5 rounded border border-stone-200 dark:border-stone-600 bg-stone-50 dark:bg-stone-900 text-stone-800 dark:text-stone-200">
+            {[1, 2, 3, 4, 5].map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+        </label>
+      </div>
 
-         {/* Data Qubits */}
-         {[
-             {id: 0, x: '20%', y: '20%'}, {id: 1, x: '80%', y: '20%'},
-             {id: 4, x: '50%', y: '50%'}, // Center
-             {id: 2, x: '20%', y: '80%'}, {id: 3, x: '80%', y: '80%'},
-         ].map(q => (
-             <button
-                key={`data-${q.id}`}
-                onClick={() => toggleError(q.id)}
-                className={`absolute w-8 h-8 -ml-4 -mt-4 rounded-full border-2 flex items-center justify-center transition-all duration-200 z-10 ${errors.includes(q.id) ? 'bg-stone-800 dark:bg-stone-200 border-stone-900 dark:border-white text-nobel-gold dark:text-stone-900' : 'bg-white dark:bg-stone-800 border-stone-300 dark:border-stone-600 hover:border-stone-500 dark:hover:border-stone-400'}`}
-                style={{ left: q.x, top: q.y }}
-             >
-                {errors.includes(q.id) && <Activity size={14} />}
-             </button>
-         ))}
+      <div className="w-full max-w-[360px] bg-[#F5F4F0] dark:bg-stone-900 rounded-lg border border-stone-200 dark:border-stone-700 p-2">
+        <svg viewBox={`0 0 ${size} ${size}`} className="w-full h-auto">
+          {code.stabilizers.map(stabilizer => (
+            <path
+              key={stabilizer.id}
+              d={plaquettePath(stabilizer.row, stabilizer.col)}
+              fill={STABILIZER_COLORS[stabilizer.type]}
+              opacity={syndrome[stabilizer.id] ? 0.9 : 0.15}
+              stroke={syndrome[stabilizer.id] ? STABILIZER_COLORS[stabilizer.type] : 'none'}
+              strokeWidth={3}
+              className="transition-opacity duration-300"
+            />
+          ))}
+          {shownErrors.map((error, q) => {
+            const { x, y } = point(Math.floor(q / distance), q % distance);
+            const fix = decoded?.correction[q];
+            return (
+              <g key={q} onClick={() => toggleError(q)} className="cursor-pointer">
+                {fix && fix !== 'I' && <circle cx={x} cy={y} r={CELL * 0.36} fill="none" stroke="#22c55e" strokeWidth={3} strokeDasharray="4 2" />}
+                <circle
+                  cx={x} cy={y} r={CELL * 0.24}
+                  strokeWidth={2}
+                  className={error !== 'I' ? 'fill-stone-800 dark:fill-stone-200 stroke-stone-900 dark:stroke-white' : 'fill-white dark:fill-stone-800 stroke-stone-300 dark:stroke-stone-600 hover:stroke-stone-500'}
+                />
+                {error !== 'I' && <text x={x} y={y + 4} textAnchor="middle" className="fill-nobel-gold dark:fill-stone-900 text-[11px] font-bold select-none pointer-events-none">{error}</text>}
+                {fix && fix !== 'I' && <text x={x + CELL * 0.3} y={y - CELL * 0.28} className="fill-green-600 dark:fill-green-400 text-[9px] font-bold select-none pointer-events-none">{fix}</text>}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {/* Syndrome history */}
+      {rounds.length > 0 && (
+        <div className="mt-4 flex flex-wrap justify-center gap-1.5 max-w-md">
+          {rounds.map((round, r) => (
+            <button
+              key={r}
+              onClick={() => setViewRound(viewRound === r ? null : r)}
+              className={`px-2 py-1 rounded text-[10px] font-mono border transition-colors ${viewRound === r ? 'border-nobel-gold bg-nobel-gold/10 text-stone-800 dark:text-stone-100' : 'border-stone-200 dark:border-stone-700 text-stone-500 dark:text-stone-400 hover:border-stone-400'}`}
+              title="Show the syndrome measured in this round"
+            >
+              R{r + 1}: {round.syndrome.filter(Boolean).length}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap justify-center gap-2">
+        <button onClick={injectNoise} className="flex items-center gap-1.5 px-4 py-2 rounded-full bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 text-xs font-bold uppercase tracking-wider hover:opacity-90 transition-opacity">
+          <Play size={12} /> Add noise
+        </button>
+        <button onClick={decode} disabled={viewRound !== null} className="flex items-center gap-1.5 px-4 py-2 rounded-full border border-stone-300 dark:border-stone-600 text-stone-700 dark:text-stone-200 text-xs font-bold uppercase tracking-wider hover:border-nobel-gold disabled:opacity-40 transition-colors">
+          <Activity size={12} /> Decode
+        </button>
+        <button onClick={() => reset()} className="flex items-center gap-1.5 px-4 py-2 rounded-full text-stone-500 text-xs font-bold uppercase tracking-wider hover:text-stone-900 dark:hover:text-stone-100 transition-colors">
+          <RotateCcw size={12} /> Reset
+        </button>
       </div>
 
       <div className="mt-6 flex flex-wrap justify-center gap-4 text-xs font-mono text-stone-500 dark:text-stone-400">
           <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-full bg-stone-800 dark:bg-stone-200"></div> Error</div>
           <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-sm bg-blue-500"></div> Z-Check</div>
           <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-sm bg-red-500"></div> X-Check</div>
+          <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-full border-2 border-dashed border-green-500"></div> Correction</div>
       </div>
-      
-      <div className="mt-4 h-6 text-sm font-serif italic text-stone-600 dark:text-stone-300">
-        {errors.length === 0 ? "System is stable." : `Detected ${activeStabilizers.length} parity violations.`}
-      </div>
-    </div>
-  );
-};
-
-// --- TRANSFORMER DECODER DIAGRAM ---
-export const TransformerDecoderDiagram: React.FC = () => {
-  const [step, setStep] = useState(0);
-
-  useEffect(() => {
-    const interval = setInterval(() => {
-        setStep(s => (s + 1) % 4);
-    }, 2000);
-    return () => clearInterval(interval);
-  }, []);
-
-  return (
-    <div className="flex flex-col items-center p-8 bg-[#F5F4F0] dark:bg-stone-900 rounded-xl border border-stone-200 dark:border-stone-800 my-8 w-full">
-      <h3 className="font-serif text-xl mb-4 text-stone-900 dark:text-stone-100">AlphaQubit Architecture</h3>
-      <p className="text-sm text-stone-600 dark:text-stone-400 mb-6 text-center max-w-md">
-        The model processes syndrome history using a recurrent transformer, attending to spatial and temporal correlations.
-      </p>
-
-      <div className="relative w-full max-w-lg min-h-[14rem] bg-white dark:bg-stone-950 rounded-lg shadow-inner overflow-hidden mb-6 border border-stone-200 dark:border-stone-800 flex flex-col md:flex-row items-center justify-center gap-8 p-4">
-        
-        {/* Input Stage */}
-        <div className="flex flex-col items-center gap-2">
-            <div className={`w-16 h-16 rounded-lg border-2 flex flex-col items-center justify-center transition-colors duration-500 ${step === 0 ? 'border-nobel-gold bg-nobel-gold/10' : 'border-stone-200 dark:border-stone-800 bg-stone-50 dark:bg-stone-900'}`}>
-                <div className="grid grid-cols-3 gap-1">
-                    {[...Array(9)].map((_, i) => <div key={i} className={`w-2 h-2 rounded-full ${Math.random() > 0.7 ? 'bg-stone-800 dark:bg-stone-200' : 'bg-stone-300 dark:bg-stone-700'}`}></div>)}
-                </div>
-            </div>
-            <span className="text-[10px] uppercase font-bold tracking-wider text-stone-500 dark:text-stone-400">Syndrome</span>
-        </div>
-
-        {/* Arrows */}
-        <motion.div 
-            className="rotate-90 md:rotate-0"
-            animate={{ opacity: step >= 1 ? 1 : 0.3, x: step >= 1 ? 0 : -5 }}
-        >
-            <span className="text-stone-400 dark:text-stone-600">→</span>
-        </motion.div>
-
-        {/* Transformer Stage */}
-        <div className="flex flex-col items-center gap-2">
-             <div className={`w-24 h-24 rounded-xl border-2 flex flex-col items-center justify-center gap-2 transition-colors duration-500 relative overflow-hidden ${step === 1 || step === 2 ? 'border-stone-800 dark:border-stone-100 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'border-stone-200 dark:border-stone-800 bg-stone-50 dark:bg-stone-900'}`}>
-                <Cpu size={24} className={step === 1 || step === 2 ? 'text-nobel-gold dark:text-purple-600 animate-pulse' : 'text-stone-300 dark:text-stone-700'} />
-                {step === 1 && (
-                    <div className="absolute inset-0 flex items-center justify-center">
-                        <div className="w-full h-[1px] bg-nobel-gold dark:bg-purple-500 absolute top-1/3 animate-ping"></div>
-                        <div className="w-full h-[1px] bg-nobel-gold dark:bg-purple-500 absolute top-2/3 animate-ping delay-75"></div>
-                    </div>
-                )}
-             </div>
-             <span className="text-[10px] uppercase font-bold tracking-wider text-stone-500 dark:text-stone-400">Transformer</span>
-        </div>
-
-        {/* Arrows */}
-        <motion.div 
-            className="rotate-90 md:rotate-0"
-            animate={{ opacity: step >= 3 ? 1 : 0.3, x: step >= 3 ? 0 : -5 }}
-        >
-            <span className="text-stone-400 dark:text-stone-600">→</span>
-        </motion.div>
-
-        {/* Output Stage */}
-        <div className="flex flex-col items-center gap-2">
-            <div className={`w-16 h-16 rounded-lg border-2 flex flex-col items-center justify-center transition-colors duration-500 ${step === 3 ? 'border-green-500 bg-green-50 dark:bg-green-900/20' : 'border-stone-200 dark:border-stone-800 bg-stone-50 dark:bg-stone-900'}`}>
-                {step === 3 ? (
-                    <span className="text-2xl font-serif text-green-600 dark:text-green-400">X</span>
-                ) : (
-                    <span className="text-2xl font-serif text-stone-300 dark:text-stone-700">?</span>
-                )}
-            </div>
-            <span className="text-[10px] uppercase font-bold tracking-wider text-stone-500 dark:text-stone-400">Correction</span>
-        </div>
 
-      </div>
-
-      <div className="flex gap-2">
-          {[0, 1, 2, 3].map(s => (
-              <div key={s} className={`h-1 rounded-full transition-all duration-300 ${step === s ? 'w-8 bg-nobel-gold dark:bg-stone-400' : 'w-2 bg-stone-300 dark:bg-stone-700'}`}></div>
-          ))}
+      <div className={`mt-4 min-h-6 text-sm font-serif italic text-center max-w-md ${decoded && (decoded.logical.x || decoded.logical.z) ? 'text-red-600 dark:text-red-400' : 'text-stone-600 dark:text-stone-300'}`}>
+        {viewRound !== null ? `Round ${viewRound + 1}: ${firing} stabilizer${firing === 1 ? '' : 's'} firing.` : status}
       </div>
     </div>
   );
 };
-
-// --- PERFORMANCE CHART ---
-export const PerformanceMetricDiagram: React.FC = () => {
-    const [distance, setDistance] = useState<3 | 5 | 11>(5);
-    
-    const data = {
-        3: { mwpm: 3.5, alpha: 2.9 },
-        5: { mwpm: 3.6, alpha: 2.75 },
-        11: { mwpm: 0.0041, alpha: 0.0009 } 
-    };
-
-    const currentData = data[distance];
-    const maxVal = Math.max(currentData.mwpm, currentData.alpha) * 1.25;
-    
-    const formatValue = (val: number) => {
-        if (val < 0.01) return val.toFixed(4) + '%';
-        return val.toFixed(2) + '%';
-    }
-
-    return (
-        <div className="flex flex-col md:flex-row gap-8 items-center p-8 bg-stone-900 dark:bg-black text-stone-100 rounded-xl my-8 border border-stone-800 dark:border-stone-900 shadow-lg w-full">
-            <div className="flex-1 min-w-[240px]">
-                <h3 className="font-serif text-xl mb-2 text-nobel-gold">Performance vs Standard</h3>
-                <p className="text-stone-400 text-sm mb-4 leading-relaxed">
-                    AlphaQubit consistently achieves lower logical error rates (LER) than the standard Minimum-Weight Perfect Matching (MWPM) decoder.
-                </p>
-                <div className="flex gap-2 mt-6 flex-wrap">
-                    {[3, 5, 11].map((d) => (
-                        <button 
-                            key={d}
-                            onClick={() => setDistance(d as any)} 
-                            className={`px-3 py-1.5 rounded text-sm font-medium transition-all duration-200 border ${distance === d ? 'bg-nobel-gold text-stone-900 border-nobel-gold' : 'bg-transparent text-stone-400 border-stone-700 hover:border-stone-500 hover:text-stone-200'}`}
-                        >
-                            Distance {d}
-                        </button>
-                    ))}
-                </div>
-                <div className="mt-6 font-mono text-xs text-stone-500 flex items-center gap-2">
-                    <BarChart2 size={14} className="text-nobel-gold" /> 
-                    <span>LOGICAL ERROR RATE (LOWER IS BETTER)</span>
-                </div>
-            </div>
-            
-            <div className="relative w-full max-w-[260px] h-72 bg-stone-800/50 dark:bg-stone-900/50 rounded-xl border border-stone-700/50 p-6 flex justify-around items-end">
-                {/* Background Grid Lines */}
-                <div className="absolute inset-0 p-6 flex flex-col justify-between pointer-events-none opacity-10">
-                   <div className="w-full h-[1px] bg-stone-400"></div>
-                   <div className="w-full h-[1px] bg-stone-400"></div>
-                   <div className="w-full h-[1px] bg-stone-400"></div>
-                   <div className="w-full h-[1px] bg-stone-400"></div>
-                </div>
-
-                {/* MWPM Bar */}
-                <div className="w-20 flex flex-col justify-end items-center h-full z-10">
-                    <div className="flex-1 w-full flex items-end justify-center relative mb-3">
-                        <div className="absolute -top-5 w-full text-center text-sm font-mono text-stone-400 font-bold bg-stone-900/90 py-1 px-2 rounded backdrop-blur-sm border border-stone-700/50 shadow-sm z-20">{formatValue(currentData.mwpm)}</div>
-                        <motion.div 
-                            className="w-full bg-stone-600 rounded-t-md border-t border-x border-stone-500/30"
-                            initial={{ height: 0 }}
-                            animate={{ height: `${(currentData.mwpm / maxVal) * 100}%` }}
-                            transition={{ type: "spring", stiffness: 80, damping: 15 }}
-                        />
-                    </div>
-                    <div className="h-6 flex items-center text-xs font-bold text-stone-500 uppercase tracking-wider text-center">Standard</div>
-                </div>
-
-                {/* AlphaQubit Bar */}
-                <div className="w-20 flex flex-col justify-end items-center h-full z-10">
-                     <div className="flex-1 w-full flex items-end justify-center relative mb-3">
-                        <div className="absolute -top-5 w-full text-center text-sm font-mono text-nobel-gold font-bold bg-stone-900/90 py-1 px-2 rounded backdrop-blur-sm border border-nobel-gold/30 shadow-sm z-20">{formatValue(currentData.alpha)}</div>
-                        <motion.div 
-                            className="w-full bg-nobel-gold rounded-t-md shadow-[0_0_20px_rgba(197,160,89,0.25)] relative overflow-hidden"
-                            initial={{ height: 0 }}
-                            animate={{ height: Math.max(1, (currentData.alpha / maxVal) * 100) + '%' }}
-                            transition={{ type: "spring", stiffness: 80, damping: 15, delay: 0.1 }}
-                        >
-                           {/* Shine effect */}
-                           <div className="absolute inset-0 bg-gradient-to-tr from-transparent to-white/20"></div>
-                        </motion.div>
-                    </div>
-                     <div className="h-6 flex items-center text-xs font-bold text-nobel-gold uppercase tracking-wider text-center">Alpha</div>
-                </div>
-            </div>
-        </div>
-    )
-}
@@ -4,11 +4,15 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useRef, useMemo, useState } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
-import { Float, MeshDistortMaterial, Sphere, Torus, Cone, Icosahedron, Stars, Environment, Box, Cylinder, Line, Sparkles } from '@react-three/drei';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal, useFrame, useThree } from '@react-three/fiber';
+import { Float, Stars, Box, Cylinder, Torus, Icosahedron, Html } from '@react-three/drei';
 import * as THREE from 'three';
-import { PaperTheme } from '../types';
+import { MotionValue } from 'framer-motion';
+import { KeyConcept, PaperTheme } from '../types';
+import { getTheme } from '../themes';
+import { SceneEnvironment, SceneView, useParticleCount, usePrefersReducedMotion } from './SceneCanvas';
+import { UiStrings, useStrings } from '../i18n';
 
 // Augment JSX namespace to include R3F intrinsic elements
 declare module 'react' {
@@ -19,6 +23,8 @@ declare module 'react' {
       spotLight: any;
       meshStandardMaterial: any;
       meshBasicMaterial: any;
+      mesh: any;
+      planeGeometry: any;
       group: any;
       line_: any; 
       dodecahedronGeometry: any;
@@ -27,16 +33,6 @@ declare module 'react' {
   }
 }
 
-// --- Theme Colors ---
-const THEME_COLORS: Record<PaperTheme, { primary: string; secondary: string; bg: string }> = {
-  quantum: { primary: '#C5A059', secondary: '#4F46E5', bg: '#000' },
-  ai: { primary: '#10B981', secondary: '#EC4899', bg: '#111' },
-  biology: { primary: '#84CC16', secondary: '#06B6D4', bg: '#0f172a' },
-  cosmos: { primary: '#F59E0B', secondary: '#6366F1', bg: '#000' },
-  material: { primary: '#EF4444', secondary: '#64748B', bg: '#1c1917' },
-  general: { primary: '#78716C', secondary: '#1C1917', bg: '#1c1917' }
-};
-
 // Camera Rig for Mouse Parallax
 function Rig() {
   useFrame((state) => {
@@ -51,411 +47,291 @@ function Rig() {
   return null;
 }
 
-// --- 1. QUANTUM LAYER (Waves, Particles & Interference) ---
-const QuantumParticles = ({ color }: { color: string }) => {
-  const count = 40;
-  const mesh = useRef<THREE.InstancedMesh>(null);
-  const dummy = useMemo(() => new THREE.Object3D(), []);
-  
-  // Initialize particle data
-  const particles = useMemo(() => {
-    return new Array(count).fill(0).map(() => ({
-      t: Math.random() * 100,
-      factor: Math.random() * 20 + 10,
-      speed: Math.random() * 0.01 + 0.005,
-      xFactor: Math.random() * 20 - 10,
-      yFactor: Math.random() * 20 - 10,
-      zFactor: Math.random() * 20 - 10,
-      mx: 0, my: 0
-    }))
-  }, [count]);
-
-  useFrame((state) => {
-    if (!mesh.current) return;
-    particles.forEach((particle, i) => {
-      let { t, factor, speed, xFactor, yFactor, zFactor } = particle;
-      t = particle.t += speed / 2;
-      const a = Math.cos(t) + Math.sin(t * 1) / 10;
-      const b = Math.sin(t) + Math.cos(t * 2) / 10;
-      const s = Math.cos(t) * 0.5 + 0.5;
-      
-      // Gentle mouse attraction
-      particle.mx += (state.pointer.x * 5 - particle.mx) * 0.05;
-      particle.my += (-state.pointer.y * 5 - particle.my) * 0.05;
-
-      dummy.position.set(
-        (particle.mx / 10) * a + xFactor + Math.cos((t / 10) * factor) + (Math.sin(t * 1) * factor) / 10,
-        (particle.my / 10) * b + yFactor + Math.sin((t / 10) * factor) + (Math.cos(t * 2) * factor) / 10,
-        (particle.my / 10) * b + zFactor + Math.cos((t / 10) * factor) + (Math.sin(t * 3) * factor) / 10
-      );
-      dummy.scale.set(s, s, s);
-      dummy.rotation.set(s * 5, s * 5, s * 5);
-      dummy.updateMatrix();
-      mesh.current!.setMatrixAt(i, dummy.matrix);
-    });
-    mesh.current.instanceMatrix.needsUpdate = true;
-  });
-
-  return (
-    <instancedMesh ref={mesh} args={[undefined, undefined, count]}>
-      <dodecahedronGeometry args={[0.05, 0]} />
-      <meshBasicMaterial color={color} transparent opacity={0.6} />
-    </instancedMesh>
-  );
-}
+// --- CONCEPT NODES ---
+// Strings are passed down rather than read here: the scene renders under the shared canvas, outside the page's LocaleProvider
+type ConceptStrings = UiStrings['concepts'];
+
+// Processes are rings, structures are blocks and abstract ideas are polyhedra. The material is marked
+// transparent so the shapes are drawn after the hero's backdrop, which only the transparent pass orders.
+const ConceptShape = ({ type, color, glow }: { type: KeyConcept['type'], color: string, glow: boolean }) => {
+  const material = <meshStandardMaterial color={color} emissive={color} emissiveIntensity={glow ? 0.8 : 0.3} metalness={0.1} roughness={0.4} transparent />;
+  if (type === 'process') return <Torus args={[0.28, 0.09, 16, 48]}>{material}</Torus>;
+  if (type === 'structure') return <Box args={[0.42, 0.42, 0.42]}>{material}</Box>;
+  return <Icosahedron args={[0.32, 0]}>{material}</Icosahedron>;
+};
 
-const QuantumLayer = ({ primary, secondary }: { primary: string, secondary: string }) => {
-  const waveRef = useRef<THREE.Mesh>(null);
-  
-  useFrame((state) => {
-    if (waveRef.current) {
-      const t = state.clock.getElapsedTime();
-      waveRef.current.rotation.x = Math.sin(t * 0.2) * 0.2 + 1.57;
-      waveRef.current.rotation.y = t * 0.1;
-      // Slight scale pulse
-      const s = 1 + Math.sin(t * 1.5) * 0.02;
-      waveRef.current.scale.set(s, s, s);
+const ConceptNode = ({ concept, position, color, strings, onSelect }: { concept: KeyConcept, position: [number, number, number], color: string, strings: ConceptStrings, onSelect?: (title: string) => void }) => {
+  const ref = useRef<THREE.Group>(null);
+  const [hovered, setHovered] = useState(false);
+  const still = usePrefersReducedMotion();
+
+  useFrame((state, delta) => {
+    if (!ref.current) return;
+    const scale = hovered ? 1.4 : 1;
+    // With reduced motion the canvas only draws on hover changes, so jump straight to the new size
+    if (still) {
+      ref.current.scale.setScalar(scale);
+      return;
     }
+    ref.current.rotation.y += delta * (hovered ? 1.5 : 0.4);
+    ref.current.rotation.x += delta * 0.2;
+    ref.current.scale.setScalar(THREE.MathUtils.lerp(ref.current.scale.x, scale, 0.15));
   });
 
-  return (
-    <group>
-      <Float speed={1.5} rotationIntensity={0.2} floatIntensity={0.5}>
-        <Sphere args={[1, 32, 32]} position={[0, 0, 0]} scale={1.2}>
-           <MeshDistortMaterial color={secondary} speed={2} distort={0.4} metalness={0.5} roughness={0.2} />
-        </Sphere>
-        <Torus ref={waveRef} args={[3.5, 0.05, 16, 100]} rotation={[Math.PI / 2, 0, 0]}>
-           <meshStandardMaterial color={primary} emissive={primary} emissiveIntensity={0.5} transparent opacity={0.4} wireframe />
-        </Torus>
-      </Float>
-      
-      <QuantumParticles color={primary} />
-
-      <Float speed={2} rotationIntensity={0.5} floatIntensity={1}>
-        <Sphere args={[0.5, 32, 32]} position={[-3, 1, -2]}>
-             <meshStandardMaterial color={primary} metalness={0.8} roughness={0.2} />
-        </Sphere>
-        <Sphere args={[0.6, 32, 32]} position={[3, -1, -3]}>
-             <meshStandardMaterial color={secondary} metalness={0.8} roughness={0.2} />
-        </Sphere>
-      </Float>
-    </group>
-  );
-};
-
-// --- 2. AI LAYER (Neural Grid / Pulsing Connections) ---
-const PulsingNode = ({ position, color, delay }: { position: [number, number, number], color: string, delay: number }) => {
-    const meshRef = useRef<THREE.Mesh>(null);
-    useFrame((state) => {
-        if(meshRef.current) {
-            const t = state.clock.getElapsedTime();
-            // Pulse scale
-            const scale = 0.8 + Math.sin(t * 2 + delay) * 0.2;
-            meshRef.current.scale.set(scale, scale, scale);
-            // Pulse opacity/emissive
-            const intensity = 0.2 + Math.max(0, Math.sin(t * 2 + delay)) * 0.5;
-            (meshRef.current.material as THREE.MeshStandardMaterial).emissiveIntensity = intensity;
-        }
-    });
-
-    return (
-        <Box ref={meshRef} args={[0.5, 0.5, 0.5]} position={position}>
-            <meshStandardMaterial 
-                color={color} 
-                emissive={color}
-                emissiveIntensity={0.2}
-                transparent 
-                opacity={0.8}
-                wireframe
-            />
-        </Box>
-    );
-};
-
-const ConnectionLines = ({ nodes, color }: { nodes: any[], color: string }) => {
-    const lineGeo = useMemo(() => {
-        const points = [];
-        // Connect nodes that are close enough
-        for(let i=0; i<nodes.length; i++) {
-            for(let j=i+1; j<nodes.length; j++) {
-                const v1 = new THREE.Vector3(...nodes[i].pos);
-                const v2 = new THREE.Vector3(...nodes[j].pos);
-                if(v1.distanceTo(v2) < 4.5) {
-                    points.push(v1);
-                    points.push(v2);
-                }
-            }
-        }
-        return points;
-    }, [nodes]);
-
-    // Animate opacity of lines (simulating data flow)? 
-    // Simplified: Just render clean lines.
-    return (
-        <Line 
-            points={lineGeo} 
-            color={color} 
-            lineWidth={1} 
-            transparent 
-            opacity={0.15} 
-        />
-    )
-}
-
-const AILayer = ({ primary, secondary }: { primary: string, secondary: string }) => {
-  const nodes = useMemo(() => {
-    return Array.from({ length: 15 }).map(() => ({
-      pos: [
-        (Math.random() - 0.5) * 8,
-        (Math.random() - 0.5) * 6,
-        (Math.random() - 0.5) * 4
-      ] as [number, number, number],
-      delay: Math.random() * Math.PI
-    }));
-  }, []);
+  // Don't leave a pointer cursor behind if the node unmounts while hovered
+  useEffect(() => () => { document.body.style.cursor = ''; }, []);
 
   return (
-    <group>
-      <Float speed={1.5} rotationIntensity={0.1} floatIntensity={0.2}>
-        {nodes.map((node, i) => (
-          <PulsingNode 
-            key={i} 
-            position={node.pos} 
-            color={i % 2 === 0 ? primary : secondary} 
-            delay={node.delay} 
-          />
-        ))}
-        <ConnectionLines nodes={nodes} color={primary} />
-      </Float>
-      
-      {/* Central Core */}
-      <Float speed={1} rotationIntensity={1}>
-         <Icosahedron args={[1.2, 0]} position={[0,0,-2]}>
-             <meshStandardMaterial color="#222" wireframe emissive={secondary} emissiveIntensity={0.2} />
-         </Icosahedron>
-      </Float>
-    </group>
+    <Float speed={1.5} rotationIntensity={0} floatIntensity={0.4}>
+      <group position={position}>
+        <group
+          ref={ref}
+          onPointerOver={(e: any) => { e.stopPropagation(); setHovered(true); document.body.style.cursor = 'pointer'; }}
+          onPointerOut={() => { setHovered(false); document.body.style.cursor = ''; }}
+          onClick={(e: any) => { e.stopPropagation(); onSelect?.(concept.title); }}
+        >
+          <ConceptShape type={concept.type} color={color} glow={hovered} />
+        </group>
+        <Html position={[0, -0.55, 0]} center pointerEvents="none">
+          <div className={`max-w-[9rem] truncate text-[10px] font-bold uppercase tracking-widest transition-colors ${hovered ? 'text-stone-900 dark:text-stone-100' : 'text-stone-500 dark:text-stone-400'}`}>
+            {concept.title}
+          </div>
+        </Html>
+        {hovered && (
+          <Html position={[0, 0.5, 0]} pointerEvents="none" zIndexRange={[30, 20]}>
+            <div className="w-60 -translate-x-1/2 -translate-y-full p-4 rounded-xl bg-white/95 dark:bg-stone-900/95 border border-stone-200 dark:border-stone-700 shadow-xl backdrop-blur text-left">
+              <div className="text-[10px] font-bold uppercase tracking-wider text-stone-400 mb-1">{strings.types[concept.type] ?? strings.types.concept}</div>
+              <div className="font-serif text-base font-bold text-stone-900 dark:text-stone-100 mb-1">{concept.title}</div>
+              <p className="text-xs text-stone-600 dark:text-stone-400 leading-relaxed line-clamp-3">{concept.description}</p>
+              <div className="mt-2 text-[10px] text-stone-400">{strings.clickToReadMore}</div>
+            </div>
+          </Html>
+        )}
+      </group>
+    </Float>
   );
 };
 
-// --- 3. BIOLOGY LAYER (Organic Breathing Cells) ---
-const BreathingCell = ({ position, color, size, speed }: { position: [number, number, number], color: string, size: number, speed: number }) => {
-    const meshRef = useRef<THREE.Mesh>(null);
-    useFrame((state) => {
-        if(meshRef.current) {
-            const t = state.clock.getElapsedTime();
-            // Breathing scale
-            const s = size + Math.sin(t * speed) * (size * 0.1);
-            meshRef.current.scale.set(s, s, s);
-        }
-    });
-
-    return (
-         <Sphere ref={meshRef} args={[1, 32, 32]} position={position}>
-              <MeshDistortMaterial 
-                color={color} 
-                speed={speed * 1.5} 
-                distort={0.4} 
-                radius={1}
-                transparent
-                opacity={0.6}
-                roughness={0.2}
-                metalness={0.1}
-              />
-         </Sphere>
-    );
-};
+const ConceptNodes = ({ concepts, color, strings, onSelect }: { concepts: KeyConcept[], color: string, strings: ConceptStrings, onSelect?: (title: string) => void }) => {
+  const { viewport } = useThree();
+  // An ellipse around the edge of the view, leaving the centre to the title. Offsetting by half a
+  // step keeps nodes off the top and bottom, where the badge and scroll cue sit.
+  const rx = Math.max(1, viewport.width / 2 - 0.9);
+  const ry = Math.max(1, viewport.height / 2 - 0.8);
 
-const FloatingParticle = ({ primary, secondary }: { primary: string, secondary: string }) => {
-    const ref = useRef<THREE.Group>(null);
-    useFrame((state) => {
-        if(ref.current) {
-            const t = state.clock.getElapsedTime();
-            // Complex orbital path
-            ref.current.position.x = Math.sin(t * 0.5) * 3;
-            ref.current.position.y = Math.cos(t * 0.3) * 2;
-            ref.current.position.z = Math.sin(t * 0.2) * 2;
-            ref.current.rotation.z = t * 0.2;
-        }
-    });
-
-    return (
-        <group ref={ref}>
-            <Sphere args={[0.2, 16, 16]} position={[1, 0, 0]}>
-                 <meshStandardMaterial color={secondary} transparent opacity={0.8} />
-            </Sphere>
-             <Sphere args={[0.15, 16, 16]} position={[-1, 0.5, 0]}>
-                 <meshStandardMaterial color={primary} transparent opacity={0.8} />
-            </Sphere>
-        </group>
-    );
-};
-
-const BiologyLayer = ({ primary, secondary }: { primary: string, secondary: string }) => {
   return (
     <group>
-       <Float speed={1} rotationIntensity={0.2} floatIntensity={0.5}>
-         <BreathingCell position={[0, 0, 0]} color={primary} size={1.8} speed={1.5} />
-       </Float>
-
-       <FloatingParticle primary={primary} secondary={secondary} />
-
-       <Float speed={2} rotationIntensity={0.5} floatIntensity={1}>
-          <BreathingCell position={[2.5, 1.5, -1]} color={secondary} size={0.6} speed={2} />
-          <BreathingCell position={[-2.5, -1.5, 1]} color={secondary} size={0.5} speed={2.5} />
-       </Float>
-       
-       <Sparkles count={20} scale={4} size={4} speed={0.4} opacity={0.5} color={secondary} />
+      {concepts.map((concept, i) => {
+        const a = Math.PI / 2 + ((i + 0.5) / concepts.length) * Math.PI * 2;
+        return <ConceptNode key={concept.title} concept={concept} position={[Math.cos(a) * rx, Math.sin(a) * ry, 0]} color={color} strings={strings} onSelect={onSelect} />;
+      })}
     </group>
   );
 };
 
-// --- 4. COSMOS LAYER (Orbits & Twinkling) ---
-const OrbitingPlanet = ({ radius, speed, size, color, offset = 0 }: { radius: number, speed: number, size: number, color: string, offset?: number }) => {
-    const ref = useRef<THREE.Mesh>(null);
-    useFrame((state) => {
-        if(ref.current) {
-            const t = state.clock.getElapsedTime();
-            ref.current.position.x = Math.sin(t * speed + offset) * radius;
-            ref.current.position.z = Math.cos(t * speed + offset) * radius;
-            // Axial tilt rotation
-            ref.current.rotation.y += 0.01;
-        }
-    });
-    return (
-        <Sphere ref={ref} args={[size, 32, 32]}>
-            <meshStandardMaterial color={color} roughness={0.7} />
-        </Sphere>
-    );
-}
-
-const CosmosLayer = ({ primary, secondary }: { primary: string, secondary: string }) => {
-  const ringRef = useRef<THREE.Mesh>(null);
-  const groupRef = useRef<THREE.Group>(null);
-
-  useFrame((state) => {
-     if (ringRef.current) {
-         ringRef.current.rotation.z = state.clock.getElapsedTime() * 0.05;
-     }
-     if (groupRef.current) {
-         // Slow sway of entire system
-         groupRef.current.rotation.z = Math.sin(state.clock.getElapsedTime() * 0.1) * 0.1;
-     }
-  });
-
-  return (
-    <group ref={groupRef}>
-       <Float speed={0.5} rotationIntensity={0.1} floatIntensity={0.2}>
-         <Sphere args={[2, 64, 64]} position={[0, 0, 0]}>
-            <meshStandardMaterial color={primary} roughness={0.8} />
-         </Sphere>
-         <Torus ref={ringRef} args={[3.2, 0.05, 64, 100]} rotation={[1.2, 0, 0]}>
-            <meshStandardMaterial color={secondary} emissive={secondary} emissiveIntensity={0.8} />
-         </Torus>
-       </Float>
-       
-       {/* Orbits */}
-       <group rotation={[0.5, 0, 0]}>
-           <OrbitingPlanet radius={3.5} speed={0.4} size={0.3} color="#fff" />
-           <OrbitingPlanet radius={4.5} speed={0.3} size={0.2} color={secondary} offset={2} />
-       </group>
-
-       {/* Enhanced Star Field */}
-       <Sparkles count={50} scale={10} size={2} speed={1} opacity={0.8} color="#fff" />
-    </group>
-  );
+// Background stars; the cosmos theme asks for a dense, coloured field
+const StarField = ({ dense }: { dense: boolean }) => {
+  const count = useParticleCount(dense ? 2000 : 400);
+  return dense
+    ? <Stars radius={100} depth={50} count={count} factor={6} saturation={1} fade speed={1} />
+    : <Stars radius={100} depth={50} count={count} factor={4} saturation={0} fade speed={1} />;
 };
 
-// --- 5. MATERIAL LAYER (Lattice Structure) ---
-const MaterialLayer = ({ primary, secondary }: { primary: string, secondary: string }) => {
-  const lattice = useMemo(() => {
-    const items = [];
-    for(let x=-1; x<=1; x++) {
-        for(let y=-1; y<=1; y++) {
-             items.push({ pos: [x*1.5, y*1.5, 0] as [number, number, number] });
-        }
-    }
-    return items;
+// Follows the dark class App and the viewer put on <html>
+const useDarkMode = () => {
+  const [dark, setDark] = useState(() => typeof document !== 'undefined' && document.documentElement.classList.contains('dark'));
+  useEffect(() => {
+    const root = document.documentElement;
+    const observer = new MutationObserver(() => setDark(root.classList.contains('dark')));
+    observer.observe(root, { attributes: true, attributeFilter: ['class'] });
+    return () => observer.disconnect();
   }, []);
+  return dark;
+};
 
-  const groupRef = useRef<THREE.Group>(null);
-  useFrame((state) => {
-      if(groupRef.current) {
-          groupRef.current.rotation.z = state.clock.getElapsedTime() * 0.1;
-          groupRef.current.rotation.y = Math.sin(state.clock.getElapsedTime() * 0.2) * 0.2;
-      }
+const BACKDROP_VERTEX = `
+varying vec2 vUv;
+void main() {
+  vUv = uv;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}`;
+
+// The page-coloured wash over the scene plus the hero's vignette: a circle from the centre to the
+// corners, 70% at the centre and opaque at the edge
+const BACKDROP_FRAGMENT = `
+uniform vec3 color;
+uniform float aspect;
+uniform float middle;
+uniform float wash;
+uniform float strength;
+varying vec2 vUv;
+void main() {
+  vec2 extent = vec2(aspect, 1.0);
+  float r = length((vUv - 0.5) * extent) / length(extent * 0.5);
+  float vignette = strength * (r < 0.6 ? mix(0.7, middle, r / 0.6) : mix(middle, 1.0, (r - 0.6) / 0.4));
+  gl_FragColor = vec4(color, 1.0 - (1.0 - wash) * (1.0 - vignette));
+  #include <colorspace_fragment>
+}`;
+
+// The shared canvas sits behind the page, so DOM overlays would cover the concept nodes too. In the
+// interactive hero the fades are drawn in the scene instead: a plane fixed in front of the camera, after
+// which the depth buffer is cleared so the nodes always land on top.
+const Backdrop = ({ vignette }: { vignette: boolean }) => {
+  const dark = useDarkMode();
+  const { camera, size, invalidate } = useThree();
+  const ref = useRef<THREE.Mesh>(null);
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: {
+      color: { value: new THREE.Color() },
+      aspect: { value: 1 },
+      middle: { value: 0.8 },
+      wash: { value: 0.4 },
+      strength: { value: 1 }
+    },
+    vertexShader: BACKDROP_VERTEX,
+    fragmentShader: BACKDROP_FRAGMENT,
+    transparent: true,
+    depthTest: false,
+    depthWrite: false
+  }), []);
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  useEffect(() => {
+    material.uniforms.color.value.set(dark ? '#1c1917' : '#F9F8F4');
+    material.uniforms.middle.value = dark ? 0.85 : 0.8;
+    material.uniforms.strength.value = vignette ? 1 : 0;
+    invalidate();
+  }, [dark, vignette, material, invalidate]);
+
+  useFrame(() => {
+    if (!ref.current) return;
+    const distance = 1;
+    const height = 2 * distance * Math.tan(THREE.MathUtils.degToRad((camera as THREE.PerspectiveCamera).fov) / 2);
+    const aspect = size.width / size.height;
+    ref.current.scale.set(height * aspect, height, 1);
+    material.uniforms.aspect.value = aspect;
   });
 
-  return (
-     <group ref={groupRef}>
-        {lattice.map((item, i) => (
-            <group key={i} position={item.pos}>
-                <Cone args={[0.5, 1, 4]} rotation={[0, 0, Math.PI]}>
-                    <meshStandardMaterial color={i % 2 === 0 ? primary : secondary} metalness={0.8} roughness={0.2} />
-                </Cone>
-            </group>
-        ))}
-     </group>
+  return createPortal(
+    <mesh
+      ref={ref}
+      position={[0, 0, -1]}
+      material={material}
+      renderOrder={1}
+      frustumCulled={false}
+      onAfterRender={(gl: THREE.WebGLRenderer) => gl.clearDepth()}
+    >
+      <planeGeometry />
+    </mesh>,
+    camera
   );
 };
 
 // --- MAIN HERO SCENE ---
 interface HeroSceneProps {
     theme: PaperTheme;
+    // Fades the scene into the page towards the edges, behind the hero's title
+    vignette?: boolean;
+    // One labelled node per concept, drawn above the fades so it stays legible
+    concepts?: KeyConcept[];
+    onSelectConcept?: (title: string) => void;
 }
 
-export const HeroScene: React.FC<HeroSceneProps> = ({ theme }) => {
-  // Ensure we fallback to general if theme is somehow undefined, though App.tsx handles this.
-  const safeTheme = THEME_COLORS[theme] ? theme : 'general';
-  const colors = THEME_COLORS[safeTheme];
+export const HeroScene: React.FC<HeroSceneProps> = ({ theme, vignette = false, concepts, onSelectConcept }) => {
+  // Unregistered ids (e.g. from a plugin that is no longer loaded) resolve to 'general'
+  const { colors, Layer, denseStars } = getTheme(theme);
+  const interactive = !!concepts && concepts.length > 0;
+  const strings = useStrings().concepts;
 
   return (
-    <div className="absolute inset-0 z-0 opacity-60 pointer-events-none transition-all duration-1000">
-      <Canvas camera={{ position: [0, 0, 7], fov: 45 }} dpr={[1, 2]}>
+    <>
+      {/* Clickable nodes need the view above the page's other layers to receive pointer events */}
+      <SceneView className={`absolute inset-0 ${interactive ? 'z-[5]' : 'z-0 pointer-events-none'}`} camera={{ position: [0, 0, 7], fov: 45 }}>
         <ambientLight intensity={0.5} />
         <pointLight position={[10, 10, 10]} intensity={1} />
         <spotLight position={[-10, 0, 10]} angle={0.5} intensity={0.5} color={colors.secondary} />
         
-        {safeTheme === 'quantum' && <QuantumLayer primary={colors.primary} secondary={colors.secondary} />}
-        {safeTheme === 'ai' && <AILayer primary={colors.primary} secondary={colors.secondary} />}
-        {safeTheme === 'biology' && <BiologyLayer primary={colors.primary} secondary={colors.secondary} />}
-        {safeTheme === 'cosmos' && <CosmosLayer primary={colors.primary} secondary={colors.secondary} />}
-        {safeTheme === 'material' && <MaterialLayer primary={colors.primary} secondary={colors.secondary} />}
-        {safeTheme === 'general' && <AILayer primary={colors.primary} secondary={colors.secondary} />}
-
-        <Environment preset="city" />
-        
-        {safeTheme === 'cosmos' ? (
-             <Stars radius={100} depth={50} count={2000} factor={6} saturation={1} fade speed={1} />
-        ) : (
-             <Stars radius={100} depth={50} count={400} factor={4} saturation={0} fade speed={1} />
-        )}
+        <Layer primary={colors.primary} secondary={colors.secondary} />
+
+        <SceneEnvironment preset="city" />
+        <StarField dense={!!denseStars} />
         
         {/* Parallax Rig */}
         <Rig />
-      </Canvas>
-    </div>
+
+        {interactive && (
+          <>
+            <Backdrop vignette={vignette} />
+            <ConceptNodes concepts={concepts} color={colors.primary} strings={strings} onSelect={onSelectConcept} />
+          </>
+        )}
+      </SceneView>
+      {/* Fades the scene into the page; the shared canvas can't be given a per-view opacity */}
+      {!interactive && <div className="absolute inset-0 z-0 pointer-events-none bg-[#F9F8F4]/40 dark:bg-stone-900/40" />}
+      {!interactive && vignette && (
+        <div className="absolute inset-0 z-0 pointer-events-none bg-[radial-gradient(circle_at_center,rgba(249,248,244,0.7)_0%,rgba(249,248,244,0.8)_60%,rgba(249,248,244,1)_100%)] dark:bg-[radial-gradient(circle_at_center,rgba(28,25,23,0.7)_0%,rgba(28,25,23,0.85)_60%,rgba(28,25,23,1)_100%)]" />
+      )}
+    </>
+  );
+};
+
+// --- METHODOLOGY SCENE ---
+// Orbits the camera around the theme's layer and closes in as `progress` (0-1) runs through the steps
+const ProgressRig = ({ progress }: { progress: MotionValue<number> }) => {
+  const still = usePrefersReducedMotion();
+  const target = useRef(new THREE.Vector3());
+
+  useFrame((state) => {
+    const p = progress.get();
+    const angle = (p - 0.5) * Math.PI * 0.9;
+    const distance = 9 - p * 3;
+    target.current.set(Math.sin(angle) * distance, (0.5 - p) * 2, Math.cos(angle) * distance);
+    // Reduced motion only redraws on scroll, so easing would leave the camera behind
+    if (still) state.camera.position.copy(target.current);
+    else state.camera.position.lerp(target.current, 0.06);
+    state.camera.lookAt(0, 0, 0);
+  });
+  return null;
+};
+
+export const TimelineScene: React.FC<{ theme: PaperTheme, progress: MotionValue<number> }> = ({ theme, progress }) => {
+  const { colors, Layer, denseStars } = getTheme(theme);
+
+  return (
+    <>
+      <SceneView className="absolute inset-0 z-0 pointer-events-none" camera={{ position: [0, 1, 9], fov: 45 }}>
+        <ambientLight intensity={0.5} />
+        <pointLight position={[10, 10, 10]} intensity={1} />
+        <spotLight position={[-10, 0, 10]} angle={0.5} intensity={0.5} color={colors.secondary} />
+
+        <Layer primary={colors.primary} secondary={colors.secondary} />
+
+        <SceneEnvironment preset="city" />
+        <StarField dense={!!denseStars} />
+        <ProgressRig progress={progress} />
+      </SceneView>
+      <div className="absolute inset-0 z-0 pointer-events-none bg-[#F9F8F4]/60 dark:bg-stone-900/60" />
+    </>
   );
 };
 
 // --- LEGACY/HARDWARE SCENE ---
 export const HardwareScene: React.FC = () => {
   return (
-    <div className="w-full h-full absolute inset-0">
-      <Canvas camera={{ position: [0, 0, 4.5], fov: 45 }} dpr={[1, 2]}>
-        <ambientLight intensity={1} />
-        <spotLight position={[5, 5, 5]} angle={0.3} penumbra={1} intensity={2} color="#C5A059" />
-        <Environment preset="studio" />
-        <Float rotationIntensity={0.4} floatIntensity={0.2} speed={1}>
-          <group position={[0, 0.5, 0]}>
-            <Cylinder args={[1.2, 1.2, 0.1, 64]} position={[0, 1, 0]}><meshStandardMaterial color="#C5A059" metalness={1} roughness={0.15} /></Cylinder>
-            <Cylinder args={[1, 1, 0.1, 64]} position={[0, 0.2, 0]}><meshStandardMaterial color="#C5A059" metalness={1} roughness={0.15} /></Cylinder>
-            <Cylinder args={[0.6, 0.6, 0.1, 64]} position={[0, -0.6, 0]}><meshStandardMaterial color="#C5A059" metalness={1} roughness={0.15} /></Cylinder>
-            <Box args={[0.2, 0.05, 0.2]} position={[0, -0.7, 0]}><meshStandardMaterial color="#111" metalness={0.9} roughness={0.1} /></Box>
-          </group>
-        </Float>
-        <Rig />
-      </Canvas>
-    </div>
+    <SceneView className="w-full h-full absolute inset-0" camera={{ position: [0, 0, 4.5], fov: 45 }}>
+      <ambientLight intensity={1} />
+      <spotLight position={[5, 5, 5]} angle={0.3} penumbra={1} intensity={2} color="#C5A059" />
+      <SceneEnvironment preset="studio" />
+      <Float rotationIntensity={0.4} floatIntensity={0.2} speed={1}>
+        <group position={[0, 0.5, 0]}>
+          <Cylinder args={[1.2, 1.2, 0.1, 64]} position={[0, 1, 0]}><meshStandardMaterial color="#C5A059" metalness={1} roughness={0.15} /></Cylinder>
+          <Cylinder args={[1, 1, 0.1, 64]} position={[0, 0.2, 0]}><meshStandardMaterial color="#C5A059" metalness={1} roughness={0.15} /></Cylinder>
+          <Cylinder args={[0.6, 0.6, 0.1, 64]} position={[0, -0.6, 0]}><meshStandardMaterial color="#C5A059" metalness={1} roughness={0.15} /></Cylinder>
+          <Box args={[0.2, 0.05, 0.2]} position={[0, -0.7, 0]}><meshStandardMaterial color="#111" metalness={0.9} roughness={0.1} /></Box>
+        </group>
+      </Float>
+      <Rig />
+    </SceneView>
   );
 }
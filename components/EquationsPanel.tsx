@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import katex from 'katex';
+import { Check, Copy, Sigma } from 'lucide-react';
+import { PaperEquation } from '../types';
+import { markSymbols } from '../services/equations';
+
+const HIGHLIGHT = 'rgba(197, 160, 89, 0.35)';
+
+// Only \htmlData is trusted, which the symbol markup needs; everything else the model writes stays untrusted
+const renderLatex = (latex: string, displayMode: boolean, trustMarkup = false) =>
+  katex.renderToString(latex, {
+    displayMode,
+    throwOnError: true,
+    strict: 'ignore',
+    trust: trustMarkup ? (context) => context.command === '\\htmlData' : false
+  });
+
+// Marked-up equation first, then the plain one; if neither parses, KaTeX shows the source in red
+const renderEquation = (equation: PaperEquation): string => {
+  try {
+    return renderLatex(markSymbols(equation.latex, equation.symbols), true, true);
+  } catch {
+    try {
+      return renderLatex(equation.latex, true);
+    } catch {
+      return katex.renderToString(equation.latex, { displayMode: true, throwOnError: false });
+    }
+  }
+};
+
+const renderSymbol = (latex: string) => {
+  try {
+    return renderLatex(latex, false);
+  } catch {
+    return katex.renderToString(latex, { throwOnError: false });
+  }
+};
+
+const EquationCard = ({ equation, index }: { equation: PaperEquation, index: number }) => {
+  const mathRef = useRef<HTMLDivElement>(null);
+  const [active, setActive] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+  const html = useMemo(() => renderEquation(equation), [equation]);
+
+  // Highlight every rendered occurrence of the active symbol. Styles are set inline rather than as classes
+  // because the exported site only carries the classes that were on the page when it was exported.
+  useEffect(() => {
+    const elements = mathRef.current?.querySelectorAll<HTMLElement>('[data-symbol]') || [];
+    elements.forEach(el => {
+      const on = el.dataset.symbol === String(active);
+      el.style.cursor = 'help';
+      el.style.backgroundColor = on ? HIGHLIGHT : '';
+      el.style.borderRadius = on ? '4px' : '';
+    });
+  }, [active, html]);
+
+  const onMathHover = (e: React.MouseEvent) => {
+    const el = (e.target as HTMLElement).closest<HTMLElement>('[data-symbol]');
+    setActive(el ? Number(el.dataset.symbol) : null);
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(equation.latex);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy equation", e);
+    }
+  };
+
+  return (
+    <div className="p-6 md:p-8 bg-white dark:bg-stone-800 rounded-2xl border border-stone-200 dark:border-stone-700 shadow-sm">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <div className="text-[10px] font-bold uppercase tracking-wider text-stone-400 mb-1">Equation {index + 1}</div>
+          {equation.title && <h4 className="font-serif text-xl text-stone-900 dark:text-stone-100">{equation.title}</h4>}
+        </div>
+        <button
+          onClick={copy}
+          className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium border border-stone-200 dark:border-stone-600 text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-700 transition-colors"
+          aria-label="Copy as LaTeX"
+        >
+          {copied ? <Check size={14} className="text-green-600 dark:text-green-400" /> : <Copy size={14} />}
+          {copied ? "Copied" : "LaTeX"}
+        </button>
+      </div>
+
+      <div
+        ref={mathRef}
+        dir="ltr"
+        className="overflow-x-auto py-4 text-stone-900 dark:text-stone-100"
+        onMouseOver={onMathHover}
+        onMouseLeave={() => setActive(null)}
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+
+      {equation.description && <p className="text-stone-600 dark:text-stone-300 leading-relaxed mt-2">{equation.description}</p>}
+
+      {equation.symbols.length > 0 && (
+        <dl className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {equation.symbols.map((symbol, i) => (
+            <div
+              key={i}
+              tabIndex={0}
+              onMouseEnter={() => setActive(i)}
+              onMouseLeave={() => setActive(null)}
+              onFocus={() => setActive(i)}
+              onBlur={() => setActive(null)}
+              className="flex items-baseline gap-3 px-3 py-2 rounded-lg transition-colors outline-none"
+              style={{ backgroundColor: active === i ? HIGHLIGHT : undefined }}
+            >
+              <dt dir="ltr" className="shrink-0 min-w-[2.5rem] text-stone-900 dark:text-stone-100" dangerouslySetInnerHTML={{ __html: renderSymbol(symbol.latex) }} />
+              <dd className="text-sm text-stone-600 dark:text-stone-300">{symbol.meaning}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+};
+
+// --- EQUATIONS ---
+// Hovering a symbol in an equation highlights its definition, and hovering a definition highlights the symbol.
+export const EquationsPanel: React.FC<{ equations: PaperEquation[] }> = ({ equations }) => (
+  <div id="equations">
+    <div className="flex items-center gap-2 mb-6 text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400 uppercase">
+      <Sigma size={14} /> Key Equations
+    </div>
+    <div className="space-y-6">
+      {equations.map((equation, i) => <EquationCard key={i} equation={equation} index={i} />)}
+    </div>
+  </div>
+);
@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Image as ImageIcon, Table2, Sparkles, Loader2, AlertCircle } from 'lucide-react';
+import { PaperFigure, PaperTable } from '../types';
+import { UiStrings, useStrings } from '../i18n';
+
+interface FigureGalleryProps {
+  figures: PaperFigure[];
+  tables: PaperTable[];
+  onExplain: (figure: PaperFigure) => Promise<void>;
+}
+
+// --- LIGHTBOX ---
+const FigureLightbox = ({ figure, onClose, onExplain }: { figure: PaperFigure, onClose: () => void, onExplain: (figure: PaperFigure) => Promise<void> }) => {
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const t = useStrings().figures;
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const explain = async () => {
+    setIsExplaining(true);
+    setError(null);
+    try {
+      await onExplain(figure);
+    } catch (e) {
+      console.error("Figure explanation failed", e);
+      setError(t.explainFailed);
+    } finally {
+      setIsExplaining(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-[60] bg-stone-900/80 backdrop-blur-md flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white dark:bg-stone-900 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col lg:flex-row border border-stone-200 dark:border-stone-800"
+      >
+        <div className="flex-1 bg-stone-50 dark:bg-stone-950 flex items-center justify-center p-6 overflow-auto">
+          {figure.image && <img src={figure.image} alt={figure.caption || figure.label} className="max-w-full max-h-[75vh] object-contain rounded" />}
+        </div>
+        <div className="lg:w-96 p-6 flex flex-col gap-4 overflow-y-auto border-t lg:border-t-0 lg:border-l border-stone-200 dark:border-stone-800">
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <div className="text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400 uppercase mb-1">{t.page(figure.page)}</div>
+              <h3 className="font-serif text-2xl text-stone-900 dark:text-stone-100">{figure.label}</h3>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-stone-200 dark:hover:bg-stone-800 rounded-full transition-colors text-stone-600 dark:text-stone-400"><X size={20}/></button>
+          </div>
+          {figure.caption && <p className="text-sm leading-relaxed text-stone-600 dark:text-stone-300">{figure.caption}</p>}
+
+          <div className="mt-auto pt-4 border-t border-stone-100 dark:border-stone-800">
+            {figure.explanation ? (
+              <div>
+                <div className="flex items-center gap-2 text-xs font-bold tracking-widest text-purple-600 dark:text-purple-400 uppercase mb-2">
+                  <Sparkles size={12}/> {t.whatItShows}
+                </div>
+                <p className="text-sm leading-relaxed text-stone-700 dark:text-stone-200">{figure.explanation}</p>
+              </div>
+            ) : (
+              <button
+                onClick={explain}
+                disabled={isExplaining}
+                className="w-full py-3 rounded-full font-medium text-sm text-white bg-stone-900 dark:bg-stone-100 dark:text-stone-900 hover:bg-stone-800 dark:hover:bg-stone-200 transition-colors flex items-center justify-center gap-2 disabled:opacity-70"
+              >
+                {isExplaining ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+                {t.explain}
+              </button>
+            )}
+            {error && (
+              <div className="mt-3 flex items-start gap-2 text-xs text-red-600 dark:text-red-400">
+                <AlertCircle size={14} className="flex-shrink-0 mt-0.5" /> {error}
+              </div>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+// --- TABLE ---
+const DataTable = ({ table, t }: { table: PaperTable, t: UiStrings['figures'] }) => (
+  <div className="bg-white dark:bg-stone-800 rounded-2xl border border-stone-200 dark:border-stone-700 shadow-sm overflow-hidden">
+    <div className="p-6 border-b border-stone-100 dark:border-stone-700">
+      <div className="flex items-center gap-2 text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400 uppercase mb-1">
+        <Table2 size={12}/> {table.label}{table.page ? ` · ${t.page(table.page)}` : ''}
+      </div>
+      {table.caption && <p className="text-sm text-stone-600 dark:text-stone-300 leading-relaxed">{table.caption}</p>}
+    </div>
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        {table.columns.length > 0 && (
+          <thead className="bg-stone-50 dark:bg-stone-900/50">
+            <tr>
+              {table.columns.map((column, i) => (
+                <th key={i} className="px-4 py-3 text-left font-bold text-stone-700 dark:text-stone-200 whitespace-nowrap">{column}</th>
+              ))}
+            </tr>
+          </thead>
+        )}
+        <tbody>
+          {table.rows.map((row, r) => (
+            <tr key={r} className="border-t border-stone-100 dark:border-stone-700">
+              {row.map((cell, c) => (
+                <td key={c} className={`px-4 py-2.5 text-stone-600 dark:text-stone-300 ${c === 0 ? 'font-medium' : 'font-mono text-xs'}`}>{cell}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export const FigureGallery: React.FC<FigureGalleryProps> = ({ figures, tables, onExplain }) => {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const activeFigure = figures.find(f => f.id === activeId);
+  const t = useStrings().figures;
+
+  return (
+    <div className="space-y-16">
+      {figures.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {figures.map((figure, idx) => (
+            <motion.button
+              key={figure.id}
+              initial={{ opacity: 0, y: 20 }}
+              whileInView={{ opacity: 1, y: 0 }}
+              viewport={{ once: true }}
+              transition={{ duration: 0.4, delay: idx * 0.05 }}
+              onClick={() => setActiveId(figure.id)}
+              className="group text-left bg-white dark:bg-stone-800 rounded-2xl border border-stone-200 dark:border-stone-700 shadow-sm hover:shadow-xl transition-all duration-300 overflow-hidden hover:-translate-y-1"
+            >
+              <div className="aspect-[4/3] bg-stone-50 dark:bg-stone-950 flex items-center justify-center p-4">
+                {figure.image
+                  ? <img src={figure.image} alt={figure.caption || figure.label} className="max-w-full max-h-full object-contain" loading="lazy" />
+                  : <ImageIcon size={32} className="text-stone-300" />}
+              </div>
+              <div className="p-5">
+                <div className="text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400 uppercase mb-1">{figure.label}</div>
+                <p className="text-sm text-stone-600 dark:text-stone-300 line-clamp-2 leading-relaxed">{figure.caption}</p>
+              </div>
+            </motion.button>
+          ))}
+        </div>
+      )}
+
+      {tables.length > 0 && (
+        <div className="space-y-8">
+          {tables.map(table => <DataTable key={table.id} table={table} t={t} />)}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {activeFigure && <FigureLightbox figure={activeFigure} onClose={() => setActiveId(null)} onExplain={onExplain} />}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -6,44 +6,56 @@
 
 import React, { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { KeyConcept } from '../types';
-import { Network, Box, Activity, Zap, Search, X, Layers, ChevronDown } from 'lucide-react';
+import { KeyConcept, PaperSources } from '../types';
+import { Network, Box, Activity, Zap, Search, X, Layers, ChevronDown, LayoutGrid, Share2, AlertTriangle } from 'lucide-react';
+import { ConceptGraph } from './ConceptGraph';
+import { SourceClaim, SourceControl, isSupported } from './SourceControl';
+import { useStrings } from '../i18n';
 
 interface GenericVisualizerProps {
   concepts: KeyConcept[];
   theme: string;
+  sources?: PaperSources;
+  onShowSource?: (claim: SourceClaim) => void;
 }
 
 // Visual configuration for different concept types
-const TYPE_CONFIG: Record<string, { icon: any; color: string; bg: string; border: string; label: string }> = {
+const TYPE_CONFIG: Record<string, { icon: any; color: string; bg: string; border: string }> = {
   process: { 
       icon: Activity, 
       color: 'text-amber-600 dark:text-amber-400', 
       bg: 'bg-amber-100 dark:bg-amber-900/30', 
-      border: 'border-amber-200 dark:border-amber-800',
-      label: 'Process'
+      border: 'border-amber-200 dark:border-amber-800'
   },
   structure: { 
       icon: Box, 
       color: 'text-blue-600 dark:text-blue-400', 
       bg: 'bg-blue-100 dark:bg-blue-900/30', 
-      border: 'border-blue-200 dark:border-blue-800',
-      label: 'Structure'
+      border: 'border-blue-200 dark:border-blue-800'
   },
   abstract: { 
       icon: Network, 
       color: 'text-purple-600 dark:text-purple-400', 
       bg: 'bg-purple-100 dark:bg-purple-900/30', 
-      border: 'border-purple-200 dark:border-purple-800',
-      label: 'Abstract'
+      border: 'border-purple-200 dark:border-purple-800'
   },
 };
 
-const FallbackConfig = { icon: Zap, color: 'text-stone-600', bg: 'bg-stone-100', border: 'border-stone-200', label: 'Concept' };
+// DOM id of a concept's card, so other parts of the page (e.g. the hero scene) can scroll to it.
+// Letters from any script are kept so titles in other languages don't all collapse to the same id.
+export const conceptAnchorId = (title: string) => `concept-${title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-')}`;
 
-export const ConceptNetwork: React.FC<GenericVisualizerProps> = ({ concepts, theme }) => {
+const FallbackConfig = { icon: Zap, color: 'text-stone-600', bg: 'bg-stone-100', border: 'border-stone-200' };
+
+export const ConceptNetwork: React.FC<GenericVisualizerProps> = ({ concepts, theme, sources, onShowSource }) => {
+  const t = useStrings().concepts;
   const [activeId, setActiveId] = useState<number | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [view, setView] = useState<'cards' | 'graph'>('cards');
+
+  // The graph only adds anything once the model has linked concepts together
+  const hasRelations = concepts.some(c => c.relations && c.relations.length > 0);
+  const showGraph = hasRelations && view === 'graph';
 
   const filteredConcepts = useMemo(() => {
     if (!searchTerm) return concepts;
@@ -53,36 +65,60 @@ export const ConceptNetwork: React.FC<GenericVisualizerProps> = ({ concepts, the
     );
   }, [concepts, searchTerm]);
 
+  const matchingTitles = useMemo(
+    () => searchTerm ? new Set(filteredConcepts.map(c => c.title)) : null,
+    [filteredConcepts, searchTerm]
+  );
+
   const clearSearch = () => setSearchTerm("");
 
   return (
-    <div className="flex flex-col items-center p-8 bg-white dark:bg-stone-800 rounded-2xl shadow-xl border border-stone-200 dark:border-stone-700 my-8 w-full transition-all duration-500">
+    <div id="concepts" className="flex flex-col items-center p-8 bg-white dark:bg-stone-800 rounded-2xl shadow-xl border border-stone-200 dark:border-stone-700 my-8 w-full transition-all duration-500">
       
       {/* Header & Search Section */}
       <div className="flex flex-col md:flex-row justify-between items-end md:items-center w-full mb-10 gap-6 border-b border-stone-100 dark:border-stone-700 pb-6">
         <div>
            <h3 className="font-serif text-3xl mb-2 text-stone-900 dark:text-stone-100 flex items-center gap-2">
-             <Layers className="text-stone-400" size={24}/> Key Concepts
+             <Layers className="text-stone-400" size={24}/> {t.title}
            </h3>
            <p className="text-sm text-stone-500 dark:text-stone-400 max-w-md leading-relaxed">
-             Explore the core mechanisms and theoretical structures extracted from the research. Click cards to expand details.
+             {showGraph ? t.graphIntro : t.cardsIntro}
            </p>
         </div>
 
+        <div className="flex items-center gap-3 w-full md:w-auto">
+        {/* View Toggle */}
+        {hasRelations && (
+          <div className="flex shrink-0 bg-stone-100 dark:bg-stone-900 rounded-xl p-1 border border-stone-200 dark:border-stone-700" role="group" aria-label={t.view}>
+            {([['cards', LayoutGrid, t.cards], ['graph', Share2, t.graph]] as const).map(([id, Icon, label]) => (
+              <button
+                key={id}
+                onClick={() => setView(id)}
+                aria-pressed={view === id}
+                title={label}
+                className={`p-2 rounded-lg transition-colors ${view === id ? 'bg-white dark:bg-stone-700 text-stone-900 dark:text-stone-100 shadow-sm' : 'text-stone-400 hover:text-stone-700 dark:hover:text-stone-200'}`}
+              >
+                <Icon size={16} />
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Search Bar */}
-        <div className="relative w-full md:w-auto min-w-[300px] group">
-           <Search className={`absolute left-4 top-1/2 transform -translate-y-1/2 transition-colors ${searchTerm ? 'text-stone-800 dark:text-stone-200' : 'text-stone-400'}`} size={18} />
+        <div className="relative w-full md:w-auto min-w-[260px] group">
+           <Search className={`absolute start-4 top-1/2 transform -translate-y-1/2 transition-colors ${searchTerm ? 'text-stone-800 dark:text-stone-200' : 'text-stone-400'}`} size={18} />
            <input 
              type="text" 
-             placeholder="Filter concepts by keyword..." 
+             placeholder={t.filterPlaceholder}
              value={searchTerm}
              onChange={(e) => setSearchTerm(e.target.value)}
-             className="w-full pl-12 pr-10 py-3 bg-stone-50 dark:bg-stone-900 border border-stone-200 dark:border-stone-600 rounded-xl text-sm outline-none focus:border-stone-400 dark:focus:border-stone-500 focus:ring-2 focus:ring-stone-100 dark:focus:ring-stone-800 transition-all text-stone-800 dark:text-stone-200 shadow-sm group-hover:shadow-md"
+             className="w-full ps-12 pe-10 py-3 bg-stone-50 dark:bg-stone-900 border border-stone-200 dark:border-stone-600 rounded-xl text-sm outline-none focus:border-stone-400 dark:focus:border-stone-500 focus:ring-2 focus:ring-stone-100 dark:focus:ring-stone-800 transition-all text-stone-800 dark:text-stone-200 shadow-sm group-hover:shadow-md"
            />
            {searchTerm && (
              <button 
                 onClick={clearSearch}
-                className="absolute right-3 top-1/2 transform -translate-y-1/2 p-1 hover:bg-stone-200 dark:hover:bg-stone-700 rounded-full transition-colors text-stone-500"
+                aria-label={t.clearSearch}
+                className="absolute end-3 top-1/2 transform -translate-y-1/2 p-1 hover:bg-stone-200 dark:hover:bg-stone-700 rounded-full transition-colors text-stone-500"
              >
                <X size={14} />
              </button>
@@ -93,16 +129,20 @@ export const ConceptNetwork: React.FC<GenericVisualizerProps> = ({ concepts, the
                   initial={{ opacity: 0, y: 5 }}
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, y: 5 }}
-                  className="absolute -bottom-6 right-0 text-xs font-medium text-stone-400"
+                  className="absolute -bottom-6 end-0 text-xs font-medium text-stone-400"
                 >
-                    Found {filteredConcepts.length} result{filteredConcepts.length !== 1 ? 's' : ''}
+                    {t.results(filteredConcepts.length)}
                 </motion.div>
              )}
            </AnimatePresence>
         </div>
+        </div>
       </div>
 
-      {/* Grid */}
+      {showGraph ? (
+        <ConceptGraph concepts={concepts} matches={matchingTitles} />
+      ) : (
+      /* Grid */
       <motion.div 
         layout 
         className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 w-full min-h-[300px] content-start"
@@ -117,6 +157,8 @@ export const ConceptNetwork: React.FC<GenericVisualizerProps> = ({ concepts, the
             <motion.div
               layout
               key={concept.title}
+              id={conceptAnchorId(concept.title)}
+              tabIndex={-1}
               initial={{ opacity: 0, scale: 0.9, y: 20 }}
               animate={{ 
                 opacity: 1, 
@@ -131,7 +173,7 @@ export const ConceptNetwork: React.FC<GenericVisualizerProps> = ({ concepts, the
               exit={{ opacity: 0, scale: 0.9, transition: { duration: 0.2 } }}
               whileHover={{ y: -4, transition: { duration: 0.2 } }}
               onClick={() => setActiveId(isActive ? null : idx)}
-              className={`cursor-pointer rounded-xl p-6 border-2 transition-all duration-300 relative overflow-hidden flex flex-col group ${isActive ? `border-stone-800 dark:border-stone-100 bg-stone-900 dark:bg-stone-100 shadow-2xl scale-[1.02] z-10` : `border-transparent bg-stone-50 dark:bg-stone-900/50 hover:bg-white dark:hover:bg-stone-800 hover:shadow-lg border-stone-200 dark:border-stone-700`}`}
+              className={`cursor-pointer rounded-xl p-6 border-2 transition-all duration-300 outline-none focus:ring-2 focus:ring-nobel-gold focus:ring-offset-2 dark:focus:ring-offset-stone-800 relative overflow-hidden flex flex-col group ${isActive ? `border-stone-800 dark:border-stone-100 bg-stone-900 dark:bg-stone-100 shadow-2xl scale-[1.02] z-10` : `border-transparent bg-stone-50 dark:bg-stone-900/50 hover:bg-white dark:hover:bg-stone-800 hover:shadow-lg border-stone-200 dark:border-stone-700`}`}
             >
               <div className="flex justify-between items-start mb-4">
                   {/* Icon Badge */}
@@ -139,13 +181,20 @@ export const ConceptNetwork: React.FC<GenericVisualizerProps> = ({ concepts, the
                     <Icon size={22} className={isActive ? 'text-white dark:text-stone-900' : config.color} />
                   </div>
                   
-                  {/* Type Label */}
-                  <div className={`px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider border ${isActive ? 'border-stone-700 text-stone-400' : `${config.border} ${config.color.split(' ')[0]} bg-white dark:bg-transparent`}`}>
-                      {config.label}
+                  <div className="flex items-center gap-2">
+                      {sources && !isSupported(sources.concepts[concept.title]) && (
+                        <span title={t.unsupportedHint} aria-label={t.unsupported}>
+                          <AlertTriangle size={14} className="text-amber-600 dark:text-amber-400" />
+                        </span>
+                      )}
+                      {/* Type Label */}
+                      <div className={`px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider border ${isActive ? 'border-stone-700 text-stone-400' : `${config.border} ${config.color.split(' ')[0]} bg-white dark:bg-transparent`}`}>
+                          {t.types[concept.type as keyof typeof t.types] ?? t.types.concept}
+                      </div>
                   </div>
               </div>
               
-              <h4 className={`font-serif text-xl font-bold mb-3 pr-8 transition-colors ${isActive ? 'text-white dark:text-stone-900' : 'text-stone-800 dark:text-stone-100'}`}>
+              <h4 className={`font-serif text-xl font-bold mb-3 pe-8 transition-colors ${isActive ? 'text-white dark:text-stone-900' : 'text-stone-800 dark:text-stone-100'}`}>
                 {concept.title}
               </h4>
               
@@ -162,6 +211,9 @@ export const ConceptNetwork: React.FC<GenericVisualizerProps> = ({ concepts, the
                             <p className={`text-sm leading-relaxed ${isActive ? 'text-stone-300 dark:text-stone-600' : 'text-stone-600 dark:text-stone-400'}`}>
                                 {concept.description}
                             </p>
+                            {sources && (
+                              <SourceControl className="mt-3" claim={{ label: concept.title, quotes: sources.concepts[concept.title] ?? [] }} onShowSource={onShowSource} />
+                            )}
                         </motion.div>
                     ) : (
                         <motion.div
@@ -169,7 +221,7 @@ export const ConceptNetwork: React.FC<GenericVisualizerProps> = ({ concepts, the
                             initial={{ opacity: 0 }}
                             animate={{ opacity: 1 }}
                             exit={{ opacity: 0 }}
-                            className="absolute top-0 left-0 w-full"
+                            className="absolute top-0 start-0 w-full"
                         >
                             <p className="text-xs text-stone-500 dark:text-stone-500 line-clamp-2 leading-relaxed">
                                 {concept.description}
@@ -183,7 +235,7 @@ export const ConceptNetwork: React.FC<GenericVisualizerProps> = ({ concepts, the
               </div>
 
               {/* Expand Indicator */}
-              <div className={`absolute bottom-4 right-4 transition-transform duration-300 ${isActive ? 'rotate-180 text-stone-500' : 'text-stone-300 group-hover:text-stone-800 dark:group-hover:text-stone-200'}`}>
+              <div className={`absolute bottom-4 end-4 transition-transform duration-300 ${isActive ? 'rotate-180 text-stone-500' : 'text-stone-300 group-hover:text-stone-800 dark:group-hover:text-stone-200'}`}>
                   <ChevronDown size={18} />
               </div>
             </motion.div>
@@ -197,14 +249,15 @@ export const ConceptNetwork: React.FC<GenericVisualizerProps> = ({ concepts, the
              className="col-span-full py-16 flex flex-col items-center justify-center text-stone-400 border-2 border-dashed border-stone-200 dark:border-stone-700 rounded-xl"
             >
               <Search size={32} className="mb-4 opacity-50"/>
-              <p className="text-lg font-medium text-stone-500 dark:text-stone-400">No concepts found</p>
-              <p className="text-sm">Try adjusting your search for "{searchTerm}"</p>
+              <p className="text-lg font-medium text-stone-500 dark:text-stone-400">{t.noResults}</p>
+              <p className="text-sm">{t.tryAdjusting(searchTerm)}</p>
               <button onClick={clearSearch} className="mt-4 px-4 py-2 bg-stone-100 dark:bg-stone-800 rounded-full text-xs font-bold uppercase hover:bg-stone-200 dark:hover:bg-stone-700 transition-colors">
-                  Clear Search
+                  {t.clearSearch}
               </button>
            </motion.div>
         )}
       </motion.div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useId, useMemo } from 'react';
+import { BookMarked } from 'lucide-react';
+import { GlossaryEntry } from '../types';
+import { GlossaryPart } from '../services/glossary';
+import { useStrings } from '../i18n';
+
+const glossaryAnchorId = (term: string) => `glossary-${term.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-')}`;
+
+// The definition is always in the DOM and shown with group-hover/group-focus classes rather than state,
+// so it also works in exported sites, which only carry the classes present when they were exported.
+const GlossaryTerm = ({ text, entry }: { text: string, entry: GlossaryEntry }) => {
+  const id = useId();
+  return (
+    <span className="group relative inline">
+      <span
+        tabIndex={0}
+        aria-describedby={id}
+        className="underline decoration-dotted decoration-stone-400 underline-offset-4 cursor-help outline-none focus:decoration-stone-900 dark:focus:decoration-stone-100 focus:decoration-solid"
+      >
+        {text}
+      </span>
+      <span
+        id={id}
+        role="tooltip"
+        className="invisible opacity-0 group-hover:visible group-hover:opacity-100 group-focus-within:visible group-focus-within:opacity-100 transition-opacity absolute z-30 left-1/2 -translate-x-1/2 bottom-full mb-2 w-64 p-3 rounded-lg bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 shadow-xl text-sm leading-snug font-sans font-normal not-italic text-start"
+      >
+        <span className="block font-bold mb-1">{entry.term}</span>
+        {entry.definition}
+      </span>
+    </span>
+  );
+};
+
+// A paragraph from linkGlossaryTerms, with its terms underlined and defined on hover or focus
+export const GlossaryText: React.FC<{ parts: GlossaryPart[], glossary?: GlossaryEntry[] }> = ({ parts, glossary }) => (
+  <>
+    {parts.map((part, i) => typeof part === 'string' || !glossary?.[part.entry]
+      ? <React.Fragment key={i}>{typeof part === 'string' ? part : part.text}</React.Fragment>
+      : <GlossaryTerm key={i} text={part.text} entry={glossary[part.entry]} />)}
+  </>
+);
+
+// --- GLOSSARY ---
+export const GlossarySection: React.FC<{ glossary: GlossaryEntry[] }> = ({ glossary }) => {
+  const sorted = useMemo(() => [...glossary].sort((a, b) => a.term.localeCompare(b.term)), [glossary]);
+  const t = useStrings().paper;
+  return (
+    <section id="glossary" className="py-24 bg-[#F9F8F4] dark:bg-stone-900 border-t border-stone-200 dark:border-stone-800">
+      <div className="container mx-auto px-6 max-w-4xl">
+        <div className="inline-flex items-center gap-2 mb-4 text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400 uppercase">
+          <BookMarked size={14} /> {t.glossary}
+        </div>
+        <h2 className="font-serif text-4xl md:text-5xl mb-12 text-stone-900 dark:text-stone-100">{t.keyTerms}</h2>
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-12 gap-y-8">
+          {sorted.map(entry => (
+            <div key={entry.term} id={glossaryAnchorId(entry.term)} className="border-t border-stone-200 dark:border-stone-700 pt-4">
+              <dt className="font-serif text-xl text-stone-900 dark:text-stone-100">
+                {entry.term}
+                {entry.aliases.length > 0 && <span className="ms-2 text-sm font-sans text-stone-400">({entry.aliases.join(', ')})</span>}
+              </dt>
+              <dd className="mt-2 text-stone-600 dark:text-stone-300 leading-relaxed">{entry.definition}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </section>
+  );
+};
@@ -5,31 +5,53 @@
 */
 
 import React, { useRef, useState } from 'react';
-import { X, Upload, FileText, Trash2, Sparkles, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import { X, Upload, FileText, FileJson, Trash2, Sparkles, AlertCircle, CheckCircle2, Loader2, Languages } from 'lucide-react';
+import { AnalysisProgress, ProgressDetail } from '../services/providers';
+import { LANGUAGES, UiStrings, useLocale } from '../i18n';
 
 interface InputModalProps {
   show: boolean;
   onClose: () => void;
-  onAnalyze: (text: string, file: File | null) => void;
+  onAnalyze: (text: string, file: File | null, language: string) => void;
+  onImport: (file: File) => void;
   onReset: () => void;
+  onCancel: () => void;
   isAnalyzing: boolean;
-  analysisStep: string; // 'uploading' | 'reading' | 'analyzing' | 'generating'
+  progress: AnalysisProgress;
   error: string | null;
 }
 
+const describeDetail = (detail: ProgressDetail, t: UiStrings['input']['details']): string => {
+  switch (detail.key) {
+    case 'parsedPages': return t.parsedPages(detail.parsed, detail.total);
+    case 'locatingFigures': return t.locatingFigures(detail.page);
+    case 'summarizingPart': return t.summarizingPart(detail.part, detail.total);
+    case 'retrying': return t.retrying(detail.attempt, detail.attempts);
+    default: return t[detail.key];
+  }
+};
+
 export const InputModal: React.FC<InputModalProps> = ({ 
   show, 
   onClose, 
   onAnalyze, 
+  onImport,
   onReset,
+  onCancel,
   isAnalyzing, 
-  analysisStep,
+  progress,
   error
 }) => {
   const [inputText, setInputText] = useState("");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
+  // Until one is picked, papers are written in the language of the one on screen
+  const [language, setLanguage] = useState<string | null>(null);
+  const { language: current, strings } = useLocale();
+  const t = strings.input;
+  const outputLanguage = language ?? current.code;
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const jsonInputRef = useRef<HTMLInputElement>(null);
 
   if (!show) return null;
 
@@ -49,25 +71,45 @@ export const InputModal: React.FC<InputModalProps> = ({
     if (file) {
         if (file.type === 'application/pdf') {
           setSelectedFile(file);
+        } else if (isJsonFile(file)) {
+          // Dropped paper files skip analysis and open directly
+          onImport(file);
         } else {
-          alert("Please upload a PDF file.");
+          alert(t.pdfOnly);
         }
       }
   };
 
+  const isJsonFile = (file: File) => file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
+
+  const handleJsonSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImport(file);
+    event.target.value = "";
+  };
+
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+  };
+
   // Loading Screen View
   if (isAnalyzing) {
     const steps = [
-        { id: 'uploading', label: 'Processing Document' },
-        { id: 'reading', label: 'Extracting Text & Figures' },
-        { id: 'analyzing', label: 'Identifying Key Concepts' },
-        { id: 'generating', label: 'Constructing Visualization' }
+        { id: 'uploading', label: t.steps.uploading },
+        { id: 'reading', label: t.steps.reading },
+        { id: 'analyzing', label: t.steps.analyzing },
+        { id: 'generating', label: t.steps.generating }
     ];
     
     // Find current step index
-    const currentStepIdx = steps.findIndex(s => s.id === analysisStep);
-    // Calculate progress (approximate based on steps)
-    const progressPercentage = Math.max(5, ((currentStepIdx + 0.5) / steps.length) * 100);
+    const currentStepIdx = steps.findIndex(s => s.id === progress.step);
+    // Use real progress within the step when known (pages parsed, chunks summarized), otherwise assume halfway
+    const stepFraction = progress.total ? (progress.current ?? 0) / progress.total : 0.5;
+    const progressPercentage = Math.max(5, ((currentStepIdx + stepFraction) / steps.length) * 100);
+    const partial = progress.partial;
+    const hasPreview = !!(partial && (partial.title || partial.summary));
 
     return (
         <div className="fixed inset-0 z-[60] bg-stone-900/60 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in">
@@ -77,8 +119,8 @@ export const InputModal: React.FC<InputModalProps> = ({
                     <div className="absolute inset-0 border-4 border-purple-500/20 rounded-full animate-spin-slow"></div>
                 </div>
                 
-                <h3 className="font-serif text-2xl text-stone-900 dark:text-stone-100 mb-2">Analyzing Research</h3>
-                <p className="text-stone-500 dark:text-stone-400 text-sm mb-8">Please wait while our AI decodes the paper.</p>
+                <h3 className="font-serif text-2xl text-stone-900 dark:text-stone-100 mb-2">{t.analyzingResearch}</h3>
+                <p className="text-stone-500 dark:text-stone-400 text-sm mb-8">{t.pleaseWait}</p>
                 
                 <div className="w-full space-y-4 mb-6">
                     {steps.map((step, idx) => {
@@ -90,9 +132,14 @@ export const InputModal: React.FC<InputModalProps> = ({
                                 <div className={`w-6 h-6 rounded-full flex items-center justify-center flex-shrink-0 transition-colors duration-300 ${isComplete ? 'bg-green-500 text-white' : isCurrent ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400' : 'bg-stone-100 dark:bg-stone-800 text-stone-300'}`}>
                                     {isComplete ? <CheckCircle2 size={14} /> : isCurrent ? <Loader2 size={14} className="animate-spin"/> : <div className="w-2 h-2 rounded-full bg-current opacity-50"/>}
                                 </div>
-                                <span className={`text-sm font-medium transition-colors ${isComplete || isCurrent ? 'text-stone-800 dark:text-stone-200' : 'text-stone-400 dark:text-stone-600'}`}>
-                                    {step.label}
-                                </span>
+                                <div className="flex flex-col items-start text-start">
+                                    <span className={`text-sm font-medium transition-colors ${isComplete || isCurrent ? 'text-stone-800 dark:text-stone-200' : 'text-stone-400 dark:text-stone-600'}`}>
+                                        {step.label}
+                                    </span>
+                                    {isCurrent && progress.detail && (
+                                        <span className="text-xs text-stone-500 dark:text-stone-400 font-mono">{describeDetail(progress.detail, t.details)}</span>
+                                    )}
+                                </div>
                             </div>
                         )
                     })}
@@ -105,7 +152,31 @@ export const InputModal: React.FC<InputModalProps> = ({
                         style={{ width: `${progressPercentage}%` }}
                     ></div>
                 </div>
-                <p className="mt-3 text-xs text-stone-400 font-mono">{Math.round(progressPercentage)}% Complete</p>
+                <p className="mt-3 text-xs text-stone-400 font-mono">
+                    {t.percentComplete(Math.round(progressPercentage))}
+                    {progress.bytesUploaded !== undefined && ` · ${t.sent(formatBytes(progress.bytesUploaded))}`}
+                    {progress.tokensReceived !== undefined && ` · ${t.tokensReceived(progress.tokensReceived.toLocaleString(current.code))}`}
+                </p>
+
+                {/* Streaming Preview */}
+                {hasPreview && (
+                    <div className="w-full mt-6 p-4 rounded-xl bg-stone-50 dark:bg-stone-950 border border-stone-200 dark:border-stone-800 text-start animate-fade-in">
+                        {partial!.title && <div className="font-serif text-lg text-stone-900 dark:text-stone-100 leading-snug">{partial!.title}</div>}
+                        {partial!.subtitle && <div className="font-serif italic text-sm text-stone-500 dark:text-stone-400 mb-2">{partial!.subtitle}</div>}
+                        {partial!.summary && (
+                            <p className="text-xs text-stone-600 dark:text-stone-300 leading-relaxed line-clamp-4">
+                                {partial!.summary}<span className="inline-block w-1.5 h-3 ms-0.5 align-middle bg-purple-500 animate-pulse"></span>
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                <button
+                    onClick={onCancel}
+                    className="mt-6 px-6 py-2 rounded-full text-sm font-medium text-stone-600 dark:text-stone-300 border border-stone-300 dark:border-stone-700 hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors"
+                >
+                    {t.cancel}
+                </button>
             </div>
         </div>
     );
@@ -118,14 +189,14 @@ export const InputModal: React.FC<InputModalProps> = ({
         {/* Header */}
         <div className="p-6 border-b border-stone-100 dark:border-stone-800 flex justify-between items-center bg-[#F9F8F4] dark:bg-stone-950">
            <h3 className="font-serif text-2xl text-stone-900 dark:text-stone-100 flex items-center gap-2">
-             <Sparkles className="text-purple-600" size={24}/> Visualize Research
+             <Sparkles className="text-purple-600" size={24}/> {t.visualizeResearch}
            </h3>
-           <button onClick={onClose} className="p-2 hover:bg-stone-200 dark:hover:bg-stone-800 rounded-full transition-colors text-stone-600 dark:text-stone-400"><X size={20}/></button>
+           <button onClick={onClose} aria-label={t.close} className="p-2 hover:bg-stone-200 dark:hover:bg-stone-800 rounded-full transition-colors text-stone-600 dark:text-stone-400"><X size={20}/></button>
         </div>
         
         <div className="p-8 flex-1 overflow-y-auto bg-white dark:bg-stone-900 scrollbar-thin">
           <p className="text-stone-600 dark:text-stone-300 mb-6 text-sm leading-relaxed">
-            Upload a full PDF research paper or paste an abstract. Our AI will analyze the entire document to extract key insights, themes, and visualizations.
+            {t.intro}
           </p>
           
           {error && (
@@ -166,7 +237,7 @@ export const InputModal: React.FC<InputModalProps> = ({
                     }}
                     className="mt-2 text-xs flex items-center gap-1 text-red-500 hover:text-red-700 py-1.5 px-3 rounded-full hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
                   >
-                     <Trash2 size={12}/> Remove File
+                     <Trash2 size={12}/> {t.removeFile}
                   </button>
                </div>
             ) : (
@@ -174,24 +245,64 @@ export const InputModal: React.FC<InputModalProps> = ({
                   <div className="w-12 h-12 bg-stone-100 dark:bg-stone-800 text-stone-500 rounded-full flex items-center justify-center mb-4 transition-transform group-hover:scale-110">
                      <Upload size={24} />
                   </div>
-                  <h4 className="font-bold text-stone-800 dark:text-stone-200 mb-1">Click or Drag PDF Here</h4>
-                  <p className="text-xs text-stone-500">Supported format: .pdf (Max 10MB)</p>
+                  <h4 className="font-bold text-stone-800 dark:text-stone-200 mb-1">{t.dropPdf}</h4>
+                  <p className="text-xs text-stone-500">{t.supportedFormat}</p>
                </>
             )}
           </div>
 
           <div className="relative flex py-2 items-center mb-6">
             <div className="flex-grow border-t border-stone-200 dark:border-stone-700"></div>
-            <span className="flex-shrink-0 mx-4 text-stone-400 text-[10px] uppercase font-bold tracking-widest">OR PASTE TEXT</span>
+            <span className="flex-shrink-0 mx-4 text-stone-400 text-[10px] uppercase font-bold tracking-widest">{t.orPasteText}</span>
             <div className="flex-grow border-t border-stone-200 dark:border-stone-700"></div>
           </div>
 
           <textarea
             className="w-full h-32 p-4 rounded-xl border border-stone-300 dark:border-stone-700 focus:border-purple-500 focus:ring-2 focus:ring-purple-200 dark:focus:ring-purple-900/30 outline-none resize-none font-mono text-sm bg-stone-50 dark:bg-stone-950 dark:text-stone-200 transition-colors placeholder:text-stone-400"
-            placeholder={selectedFile ? "Add optional context, instructions, or specific areas to focus on..." : "Paste paper abstract, introduction, or full text here..."}
+            placeholder={selectedFile ? t.notesPlaceholder : t.textPlaceholder}
             value={inputText}
             onChange={(e) => setInputText(e.target.value)}
           />
+
+          <div className="mt-4 flex items-center justify-between gap-4 text-sm">
+            <label htmlFor="output-language" className="flex items-center gap-2 text-stone-600 dark:text-stone-300">
+              <Languages size={16} className="text-stone-400" /> {t.outputLanguage}
+            </label>
+            <select
+              id="output-language"
+              value={outputLanguage}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="px-3 py-2 rounded-lg border border-stone-300 dark:border-stone-700 bg-stone-50 dark:bg-stone-950 text-stone-800 dark:text-stone-200 outline-none focus:border-purple-500"
+            >
+              {LANGUAGES.map(option => <option key={option.code} value={option.code} lang={option.code}>{option.label}</option>)}
+            </select>
+          </div>
+
+          <div className="relative flex py-2 items-center my-6">
+            <div className="flex-grow border-t border-stone-200 dark:border-stone-700"></div>
+            <span className="flex-shrink-0 mx-4 text-stone-400 text-[10px] uppercase font-bold tracking-widest">{t.orOpenSaved}</span>
+            <div className="flex-grow border-t border-stone-200 dark:border-stone-700"></div>
+          </div>
+
+          <input
+            type="file"
+            accept="application/json,.json"
+            ref={jsonInputRef}
+            className="hidden"
+            onChange={handleJsonSelect}
+          />
+          <button
+            onClick={() => jsonInputRef.current?.click()}
+            className="w-full p-4 rounded-xl border border-stone-300 dark:border-stone-700 hover:border-stone-400 dark:hover:border-stone-600 hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors flex items-center gap-4 text-start"
+          >
+            <div className="w-10 h-10 bg-stone-100 dark:bg-stone-800 text-stone-500 rounded-full flex items-center justify-center flex-shrink-0">
+              <FileJson size={20} />
+            </div>
+            <div>
+              <div className="font-bold text-sm text-stone-800 dark:text-stone-200">{t.importJson}</div>
+              <div className="text-xs text-stone-500">{t.importJsonHint}</div>
+            </div>
+          </button>
         </div>
 
         <div className="p-6 border-t border-stone-100 dark:border-stone-800 bg-[#F9F8F4] dark:bg-stone-950 flex justify-between items-center">
@@ -199,15 +310,15 @@ export const InputModal: React.FC<InputModalProps> = ({
              onClick={onReset}
              className="text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-stone-200 text-sm font-medium underline decoration-stone-300 dark:decoration-stone-700 underline-offset-4 transition-colors"
            >
-             Load Demo (AlphaQubit)
+             {t.loadDemo}
            </button>
            
            <button 
-             onClick={() => onAnalyze(inputText, selectedFile)}
+             onClick={() => onAnalyze(inputText, selectedFile, outputLanguage)}
              disabled={(!inputText && !selectedFile)}
              className={`px-8 py-3 rounded-full font-medium text-white shadow-lg transition-all flex items-center gap-2 ${(!inputText && !selectedFile) ? 'bg-stone-300 dark:bg-stone-700 cursor-not-allowed opacity-70' : 'bg-stone-900 dark:bg-stone-100 dark:text-stone-900 hover:bg-stone-800 dark:hover:bg-stone-200 hover:scale-105 shadow-xl'}`}
            >
-             <Sparkles size={18} /> Visualize
+             <Sparkles size={18} /> {t.visualize}
            </button>
         </div>
       </div>
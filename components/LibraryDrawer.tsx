@@ -0,0 +1,207 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Library, Search, Pencil, Trash2, Check, FileText, Loader2, AlertCircle } from 'lucide-react';
+import { LibraryEntry, deletePaper, listPapers, renamePaper, searchPapers } from '../services/library';
+import { useLocale, useStrings } from '../i18n';
+
+interface LibraryDrawerProps {
+  show: boolean;
+  activeId: string | null;
+  onClose: () => void;
+  onOpen: (entry: LibraryEntry) => void;
+  onDeleted: (id: string) => void;
+}
+
+const formatDate = (timestamp: number, locale: string) => new Date(timestamp).toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric' });
+
+// --- ENTRY ROW ---
+const LibraryItem = ({ entry, isActive, onOpen, onRename, onDelete }: {
+  entry: LibraryEntry,
+  isActive: boolean,
+  onOpen: () => void,
+  onRename: (name: string) => void,
+  onDelete: () => void
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [name, setName] = useState(entry.name);
+  const { language, strings } = useLocale();
+  const t = strings.library;
+
+  const commitRename = () => {
+    setIsEditing(false);
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== entry.name) onRename(trimmed);
+    else setName(entry.name);
+  };
+
+  return (
+    <li className={`group rounded-xl border p-4 transition-colors ${isActive ? 'border-purple-300 dark:border-purple-800 bg-purple-50/50 dark:bg-purple-900/10' : 'border-stone-200 dark:border-stone-800 hover:border-stone-300 dark:hover:border-stone-700'}`}>
+      {isEditing ? (
+        <form onSubmit={(e) => { e.preventDefault(); commitRename(); }} className="flex items-center gap-2">
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => { if (e.key === 'Escape') { setName(entry.name); setIsEditing(false); } }}
+            className="flex-1 px-3 py-1.5 rounded-lg border border-stone-300 dark:border-stone-700 focus:border-purple-500 outline-none text-sm bg-stone-50 dark:bg-stone-950 dark:text-stone-200"
+          />
+          <button type="submit" className="p-1.5 text-purple-600 dark:text-purple-400" aria-label={t.saveName}><Check size={16}/></button>
+        </form>
+      ) : (
+        <button onClick={onOpen} className="w-full text-left">
+          <div className="font-serif text-lg text-stone-900 dark:text-stone-100 leading-snug line-clamp-2">{entry.name}</div>
+          {entry.name !== entry.paper.title && (
+            <div className="text-xs text-stone-500 dark:text-stone-400 line-clamp-1 mt-0.5">{entry.paper.title}</div>
+          )}
+        </button>
+      )}
+
+      <div className="mt-3 flex items-center justify-between gap-2 text-[10px] uppercase font-bold tracking-widest text-stone-400">
+        <span className="flex items-center gap-1.5 truncate">
+          {entry.pdf && <FileText size={11} className="flex-shrink-0"/>}
+          {entry.paper.theme} · {formatDate(entry.createdAt, language.code)} · {entry.meta.model}
+        </span>
+        {isConfirming ? (
+          <span className="flex items-center gap-2 normal-case tracking-normal text-xs font-medium">
+            <span className="text-stone-500">{t.confirmDelete}</span>
+            <button onClick={onDelete} className="text-red-600 dark:text-red-400 hover:underline">{t.yes}</button>
+            <button onClick={() => setIsConfirming(false)} className="text-stone-500 hover:underline">{t.no}</button>
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
+            <button onClick={() => setIsEditing(true)} className="p-1.5 rounded-full hover:bg-stone-200 dark:hover:bg-stone-800 text-stone-500" aria-label={t.rename}><Pencil size={13}/></button>
+            <button onClick={() => setIsConfirming(true)} className="p-1.5 rounded-full hover:bg-stone-200 dark:hover:bg-stone-800 text-stone-500" aria-label={t.delete}><Trash2 size={13}/></button>
+          </span>
+        )}
+      </div>
+    </li>
+  );
+};
+
+export const LibraryDrawer: React.FC<LibraryDrawerProps> = ({ show, activeId, onClose, onOpen, onDeleted }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [query, setQuery] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const t = useStrings().library;
+
+  // Reload on every open so papers analyzed since the last visit show up
+  useEffect(() => {
+    if (!show) return;
+    setIsLoading(true);
+    setError(null);
+    listPapers()
+      .then(setEntries)
+      .catch(e => {
+        console.error("Failed to load library", e);
+        setError(t.loadFailed);
+      })
+      .finally(() => setIsLoading(false));
+  }, [show]);
+
+  useEffect(() => {
+    if (!show) return;
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [show, onClose]);
+
+  const rename = async (id: string, name: string) => {
+    try {
+      await renamePaper(id, name);
+      setEntries(prev => prev.map(e => e.id === id ? { ...e, name } : e));
+    } catch (e) {
+      console.error("Rename failed", e);
+      setError(t.renameFailed);
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await deletePaper(id);
+      setEntries(prev => prev.filter(e => e.id !== id));
+      onDeleted(id);
+    } catch (e) {
+      console.error("Delete failed", e);
+      setError(t.deleteFailed);
+    }
+  };
+
+  const visible = searchPapers(entries, query);
+
+  return (
+    <AnimatePresence>
+      {show && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+          className="fixed inset-0 z-[60] bg-stone-900/40 backdrop-blur-sm"
+        >
+          <motion.aside
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'tween', duration: 0.3, ease: 'easeOut' }}
+            onClick={(e) => e.stopPropagation()}
+            className="absolute top-0 right-0 bottom-0 w-full max-w-md bg-white dark:bg-stone-900 shadow-2xl border-l border-stone-200 dark:border-stone-800 flex flex-col"
+          >
+            <div className="p-6 border-b border-stone-100 dark:border-stone-800 bg-[#F9F8F4] dark:bg-stone-950">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="font-serif text-2xl text-stone-900 dark:text-stone-100 flex items-center gap-2">
+                  <Library className="text-purple-600" size={22}/> {t.title}
+                </h3>
+                <button onClick={onClose} className="p-2 hover:bg-stone-200 dark:hover:bg-stone-800 rounded-full transition-colors text-stone-600 dark:text-stone-400"><X size={20}/></button>
+              </div>
+              <div className="relative">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400"/>
+                <input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={t.search}
+                  className="w-full pl-9 pr-4 py-2.5 rounded-xl border border-stone-300 dark:border-stone-700 focus:border-purple-500 focus:ring-2 focus:ring-purple-200 dark:focus:ring-purple-900/30 outline-none text-sm bg-white dark:bg-stone-900 dark:text-stone-200 transition-colors"
+                />
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6">
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 text-sm rounded-lg flex items-start gap-2">
+                  <AlertCircle size={16} className="flex-shrink-0 mt-0.5" /> {error}
+                </div>
+              )}
+              {isLoading ? (
+                <div className="flex justify-center py-12 text-stone-400"><Loader2 className="animate-spin" size={24}/></div>
+              ) : visible.length === 0 ? (
+                <p className="text-center text-sm text-stone-500 dark:text-stone-400 py-12">
+                  {entries.length === 0 ? t.empty : t.noMatches}
+                </p>
+              ) : (
+                <ul className="space-y-3">
+                  {visible.map(entry => (
+                    <LibraryItem
+                      key={entry.id}
+                      entry={entry}
+                      isActive={entry.id === activeId}
+                      onOpen={() => onOpen(entry)}
+                      onRename={(name) => rename(entry.id, name)}
+                      onDelete={() => remove(entry.id)}
+                    />
+                  ))}
+                </ul>
+              )}
+            </div>
+          </motion.aside>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { AnimatePresence, motion, useMotionValueEvent, useReducedMotion, useScroll } from 'framer-motion';
+import { ArrowRight, Workflow } from 'lucide-react';
+import { TimelineScene } from './DynamicScene';
+import { MethodStep, PaperTheme } from '../types';
+
+// Scroll distance given to each step while the section is pinned
+const STEP_SCROLL_VH = 70;
+
+const Chips = ({ label, items }: { label: string, items: string[] }) => (
+  <div>
+    <div className="text-[10px] font-bold uppercase tracking-wider text-stone-400 mb-2">{label}</div>
+    {items.length > 0 ? (
+      <div className="flex flex-wrap gap-2">
+        {items.map((item, i) => (
+          <span key={i} className="px-3 py-1 text-xs rounded-full bg-stone-100 dark:bg-stone-700 text-stone-700 dark:text-stone-200 border border-stone-200 dark:border-stone-600">{item}</span>
+        ))}
+      </div>
+    ) : (
+      <span className="text-xs italic text-stone-400">Not stated</span>
+    )}
+  </div>
+);
+
+interface MethodologyTimelineProps {
+  steps: MethodStep[];
+  theme: PaperTheme;
+  onSelectConcept?: (title: string) => void;
+}
+
+// --- METHODOLOGY TIMELINE ---
+// The section is one screen tall plus a stretch of scroll per step. Its content stays pinned while the
+// reader scrolls through that stretch; the active step follows the scroll position and the background
+// scene's camera moves with it.
+export const MethodologyTimeline: React.FC<MethodologyTimelineProps> = ({ steps, theme, onSelectConcept }) => {
+  const ref = useRef<HTMLElement>(null);
+  const [active, setActive] = useState(0);
+  const reduceMotion = useReducedMotion();
+  const { scrollYProgress } = useScroll({ target: ref, offset: ['start start', 'end end'] });
+
+  useMotionValueEvent(scrollYProgress, 'change', (p) => {
+    setActive(Math.min(steps.length - 1, Math.max(0, Math.floor(p * steps.length))));
+  });
+
+  // Scrolls to the middle of the step's stretch so it doesn't flip back on a small scroll
+  const goToStep = (index: number) => {
+    const section = ref.current;
+    if (!section) return;
+    const top = section.getBoundingClientRect().top + window.pageYOffset;
+    const span = section.offsetHeight - window.innerHeight;
+    window.scrollTo({ top: top + span * (index + 0.5) / steps.length, behavior: reduceMotion ? 'auto' : 'smooth' });
+  };
+
+  const step = steps[active];
+  if (!step) return null;
+
+  return (
+    <section
+      id="methodology"
+      ref={ref}
+      className="relative border-t border-stone-200 dark:border-stone-800"
+      style={{ height: `calc(100vh + ${steps.length * STEP_SCROLL_VH}vh)` }}
+    >
+      <div className="sticky top-0 h-screen overflow-hidden">
+        <TimelineScene theme={theme} progress={scrollYProgress} />
+
+        <div className="relative z-10 container mx-auto px-6 h-full grid grid-cols-1 md:grid-cols-12 gap-8 md:gap-16 items-center pt-20">
+          <div className="md:col-span-4">
+            <div className="inline-flex items-center gap-2 mb-4 text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400 uppercase">
+              <Workflow size={14} /> Methodology
+            </div>
+            <h2 className="font-serif text-4xl lg:text-5xl mb-8 leading-tight text-stone-900 dark:text-stone-100">How It Was Done</h2>
+
+            <ol className="hidden md:block relative border-l border-stone-300 dark:border-stone-700 space-y-1">
+              {steps.map((s, i) => (
+                <li key={i}>
+                  <button
+                    onClick={() => goToStep(i)}
+                    aria-current={i === active ? 'step' : undefined}
+                    className={`-ml-px w-full text-left pl-4 py-2 border-l-2 text-sm transition-colors ${i === active ? 'border-stone-900 dark:border-stone-100 text-stone-900 dark:text-stone-100 font-bold' : 'border-transparent text-stone-500 dark:text-stone-400 hover:text-stone-800 dark:hover:text-stone-200'}`}
+                  >
+                    <span className="font-mono text-xs mr-2 opacity-60">{String(i + 1).padStart(2, '0')}</span>
+                    {s.title}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          <div className="md:col-span-8">
+            <AnimatePresence mode="wait" initial={false}>
+              <motion.article
+                key={active}
+                initial={reduceMotion ? { opacity: 0 } : { opacity: 0, y: 40 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={reduceMotion ? { opacity: 0 } : { opacity: 0, y: -40 }}
+                transition={{ duration: reduceMotion ? 0.15 : 0.4 }}
+                className="p-8 md:p-10 bg-white/90 dark:bg-stone-800/90 backdrop-blur rounded-2xl border border-stone-200 dark:border-stone-700 shadow-xl"
+                aria-live="polite"
+              >
+                <div className="text-xs font-bold uppercase tracking-widest text-stone-400 mb-3">Step {active + 1} of {steps.length}</div>
+                <h3 className="font-serif text-3xl md:text-4xl text-stone-900 dark:text-stone-100 mb-4">{step.title}</h3>
+                {step.description && <p className="text-lg text-stone-600 dark:text-stone-300 leading-relaxed mb-8">{step.description}</p>}
+
+                <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_1fr] gap-4 sm:items-center">
+                  <Chips label="Inputs" items={step.inputs} />
+                  <ArrowRight size={18} className="hidden sm:block text-stone-400" />
+                  <Chips label="Outputs" items={step.outputs} />
+                </div>
+
+                {step.concept && (
+                  <button
+                    onClick={() => onSelectConcept?.(step.concept!)}
+                    className="mt-8 inline-flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-stone-100 transition-colors"
+                  >
+                    Related concept: {step.concept} <ArrowRight size={12} />
+                  </button>
+                )}
+              </motion.article>
+            </AnimatePresence>
+
+            {/* Progress dots stand in for the step list on small screens */}
+            <div className="flex md:hidden justify-center gap-2 mt-6">
+              {steps.map((_, i) => (
+                <button
+                  key={i}
+                  onClick={() => goToStep(i)}
+                  aria-label={`Go to step ${i + 1}`}
+                  className={`h-2 rounded-full transition-all ${i === active ? 'w-6 bg-stone-800 dark:bg-stone-200' : 'w-2 bg-stone-300 dark:bg-stone-600'}`}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -4,9 +4,12 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
-import { Menu, X, Sun, Moon, Sparkles } from 'lucide-react';
-import { PaperData } from '../types';
+import React, { useState } from 'react';
+import { Menu, X, Sun, Moon, Sparkles, Settings, Library, Download, Loader2, Globe, FileJson, GraduationCap, Check, Languages } from 'lucide-react';
+import { AudienceKey, PaperData } from '../types';
+import { CiteMenu } from './CiteMenu';
+import { AUDIENCE_OPTIONS, audienceKeyOf } from '../services/audience';
+import { LANGUAGES, languageOf, useStrings } from '../i18n';
 
 interface NavigationProps {
   scrolled: boolean;
@@ -17,6 +20,15 @@ interface NavigationProps {
   darkMode: boolean;
   toggleDarkMode: () => void;
   onNewPaper: () => void;
+  onOpenSettings: () => void;
+  onOpenLibrary: () => void;
+  onExportSite: () => void;
+  onExportJson: () => void;
+  isExporting: boolean;
+  onAudienceChange: (audience: AudienceKey) => void;
+  rewritingFor: AudienceKey | null; // The level being generated, if any
+  onTranslate: (language: string) => void;
+  translatingTo: string | null; // The language being generated, if any
 }
 
 export const Navigation: React.FC<NavigationProps> = ({
@@ -27,8 +39,29 @@ export const Navigation: React.FC<NavigationProps> = ({
   paperData,
   darkMode,
   toggleDarkMode,
-  onNewPaper
+  onNewPaper,
+  onOpenSettings,
+  onOpenLibrary,
+  onExportSite,
+  onExportJson,
+  isExporting,
+  onAudienceChange,
+  rewritingFor,
+  onTranslate,
+  translatingTo
 }) => {
+  const t = useStrings();
+  const [exportOpen, setExportOpen] = useState(false);
+  const [audienceOpen, setAudienceOpen] = useState(false);
+  const [languageOpen, setLanguageOpen] = useState(false);
+  const audience = audienceKeyOf(paperData);
+  const language = languageOf(paperData.language).code;
+  // Rewrites and translations replace the same text, so only one runs at a time
+  const isRewriting = rewritingFor !== null || translatingTo !== null;
+  const hasFigures = !!(paperData.figures?.length || paperData.tables?.length);
+  const hasMethodology = !!paperData.methodology?.length;
+  const hasGlossary = !!paperData.glossary?.length;
+
   const scrollToSection = (id: string) => (e: React.MouseEvent) => {
     e.preventDefault();
     setMenuOpen(false);
@@ -61,27 +94,157 @@ export const Navigation: React.FC<NavigationProps> = ({
         
         {/* Desktop Links */}
         <div className="hidden md:flex items-center gap-6">
-          <div className="flex items-center gap-6 mr-6 border-r border-stone-200 dark:border-stone-700 pr-6 text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400">
-            <a href="#introduction" onClick={scrollToSection('introduction')} className="hover:text-stone-900 dark:hover:text-stone-200 transition-colors cursor-pointer uppercase py-2 border-b-2 border-transparent hover:border-stone-900 dark:hover:border-stone-200">Intro</a>
-            <a href="#science" onClick={scrollToSection('science')} className="hover:text-stone-900 dark:hover:text-stone-200 transition-colors cursor-pointer uppercase py-2 border-b-2 border-transparent hover:border-stone-900 dark:hover:border-stone-200">Analysis</a>
-            <a href="#impact" onClick={scrollToSection('impact')} className="hover:text-stone-900 dark:hover:text-stone-200 transition-colors cursor-pointer uppercase py-2 border-b-2 border-transparent hover:border-stone-900 dark:hover:border-stone-200">Impact</a>
+          <div className="flex items-center gap-6 me-6 border-e border-stone-200 dark:border-stone-700 pe-6 text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400">
+            <a href="#introduction" onClick={scrollToSection('introduction')} className="hover:text-stone-900 dark:hover:text-stone-200 transition-colors cursor-pointer uppercase py-2 border-b-2 border-transparent hover:border-stone-900 dark:hover:border-stone-200">{t.nav.intro}</a>
+            {hasMethodology && (
+              <a href="#methodology" onClick={scrollToSection('methodology')} className="hover:text-stone-900 dark:hover:text-stone-200 transition-colors cursor-pointer uppercase py-2 border-b-2 border-transparent hover:border-stone-900 dark:hover:border-stone-200">{t.nav.method}</a>
+            )}
+            <a href="#science" onClick={scrollToSection('science')} className="hover:text-stone-900 dark:hover:text-stone-200 transition-colors cursor-pointer uppercase py-2 border-b-2 border-transparent hover:border-stone-900 dark:hover:border-stone-200">{t.nav.analysis}</a>
+            {hasFigures && (
+              <a href="#figures" onClick={scrollToSection('figures')} className="hover:text-stone-900 dark:hover:text-stone-200 transition-colors cursor-pointer uppercase py-2 border-b-2 border-transparent hover:border-stone-900 dark:hover:border-stone-200">{t.nav.figures}</a>
+            )}
+            <a href="#impact" onClick={scrollToSection('impact')} className="hover:text-stone-900 dark:hover:text-stone-200 transition-colors cursor-pointer uppercase py-2 border-b-2 border-transparent hover:border-stone-900 dark:hover:border-stone-200">{t.nav.impact}</a>
+            {hasGlossary && (
+              <a href="#glossary" onClick={scrollToSection('glossary')} className="hover:text-stone-900 dark:hover:text-stone-200 transition-colors cursor-pointer uppercase py-2 border-b-2 border-transparent hover:border-stone-900 dark:hover:border-stone-200">{t.nav.terms}</a>
+            )}
           </div>
           
           <div className="flex items-center gap-3">
             <button 
               onClick={toggleDarkMode}
               className="p-2.5 rounded-full hover:bg-stone-200 dark:hover:bg-stone-800 transition-colors text-stone-600 dark:text-stone-300 focus:outline-none focus:ring-2 focus:ring-stone-400"
-              aria-label="Toggle Dark Mode"
+              aria-label={t.nav.toggleDarkMode}
             >
               {darkMode ? <Sun size={18} /> : <Moon size={18} />}
             </button>
 
+            <button 
+              onClick={onOpenLibrary}
+              className="p-2.5 rounded-full hover:bg-stone-200 dark:hover:bg-stone-800 transition-colors text-stone-600 dark:text-stone-300 focus:outline-none focus:ring-2 focus:ring-stone-400"
+              aria-label={t.nav.paperLibrary}
+            >
+              <Library size={18} />
+            </button>
+
+            {isCustom && (
+              <div className="relative">
+                <button
+                  onClick={() => setAudienceOpen(!audienceOpen)}
+                  className="p-2.5 rounded-full hover:bg-stone-200 dark:hover:bg-stone-800 transition-colors text-stone-600 dark:text-stone-300 focus:outline-none focus:ring-2 focus:ring-stone-400"
+                  aria-label={t.nav.readingLevel}
+                  aria-expanded={audienceOpen}
+                >
+                  {rewritingFor ? <Loader2 size={18} className="animate-spin" /> : <GraduationCap size={18} />}
+                </button>
+                {audienceOpen && (
+                  <>
+                    {/* Click-away layer */}
+                    <div className="fixed inset-0 z-40" onClick={() => setAudienceOpen(false)} />
+                    <div className="absolute end-0 mt-2 w-64 z-50 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-xl shadow-xl overflow-hidden text-sm animate-fade-in">
+                      <div className="px-4 pt-3 pb-2 text-[10px] font-bold uppercase tracking-widest text-stone-400">{t.nav.writtenFor}</div>
+                      {AUDIENCE_OPTIONS.map(option => (
+                        <button
+                          key={option}
+                          onClick={() => { setAudienceOpen(false); onAudienceChange(option); }}
+                          disabled={isRewriting}
+                          className="w-full px-4 py-2.5 flex items-start gap-3 text-start text-stone-700 dark:text-stone-200 hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors disabled:opacity-50"
+                        >
+                          <span className="w-4 pt-0.5 shrink-0">
+                            {rewritingFor === option ? <Loader2 size={14} className="animate-spin text-stone-400" /> : audience === option && <Check size={14} className="text-purple-600" />}
+                          </span>
+                          <span>
+                            <span className="block font-medium">{t.audience[option].label}</span>
+                            <span className="block text-xs text-stone-500 dark:text-stone-400">{t.audience[option].description}</span>
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {isCustom && (
+              <div className="relative">
+                <button
+                  onClick={() => setLanguageOpen(!languageOpen)}
+                  className="p-2.5 rounded-full hover:bg-stone-200 dark:hover:bg-stone-800 transition-colors text-stone-600 dark:text-stone-300 focus:outline-none focus:ring-2 focus:ring-stone-400"
+                  aria-label={t.nav.language}
+                  aria-expanded={languageOpen}
+                >
+                  {translatingTo ? <Loader2 size={18} className="animate-spin" /> : <Languages size={18} />}
+                </button>
+                {languageOpen && (
+                  <>
+                    {/* Click-away layer */}
+                    <div className="fixed inset-0 z-40" onClick={() => setLanguageOpen(false)} />
+                    <div className="absolute end-0 mt-2 w-48 z-50 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-xl shadow-xl overflow-hidden text-sm animate-fade-in">
+                      <div className="px-4 pt-3 pb-2 text-[10px] font-bold uppercase tracking-widest text-stone-400">{t.nav.translateTo}</div>
+                      {LANGUAGES.map(option => (
+                        <button
+                          key={option.code}
+                          lang={option.code}
+                          dir={option.dir}
+                          onClick={() => { setLanguageOpen(false); onTranslate(option.code); }}
+                          disabled={isRewriting || option.code === language}
+                          className="w-full px-4 py-2.5 flex items-center gap-3 text-start text-stone-700 dark:text-stone-200 hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors disabled:opacity-50 disabled:cursor-default"
+                        >
+                          <span className="w-4 shrink-0">
+                            {translatingTo === option.code ? <Loader2 size={14} className="animate-spin text-stone-400" /> : language === option.code && <Check size={14} className="text-purple-600" />}
+                          </span>
+                          <span className="font-medium">{option.label}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            <CiteMenu paperData={paperData} />
+
+            <div className="relative">
+              <button 
+                onClick={() => setExportOpen(!exportOpen)}
+                disabled={isExporting}
+                className="p-2.5 rounded-full hover:bg-stone-200 dark:hover:bg-stone-800 transition-colors text-stone-600 dark:text-stone-300 focus:outline-none focus:ring-2 focus:ring-stone-400 disabled:opacity-50"
+                aria-label={t.nav.export}
+                aria-expanded={exportOpen}
+              >
+                {isExporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+              </button>
+              {exportOpen && (
+                <>
+                  {/* Click-away layer */}
+                  <div className="fixed inset-0 z-40" onClick={() => setExportOpen(false)} />
+                  <div className="absolute end-0 mt-2 w-56 z-50 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-xl shadow-xl overflow-hidden text-sm animate-fade-in">
+                    {isCustom && (
+                      <button onClick={() => { setExportOpen(false); onExportSite(); }} className="w-full px-4 py-3 flex items-center gap-3 text-start text-stone-700 dark:text-stone-200 hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors">
+                        <Globe size={16} className="text-stone-400"/> {t.nav.staticSite}
+                      </button>
+                    )}
+                    <button onClick={() => { setExportOpen(false); onExportJson(); }} className="w-full px-4 py-3 flex items-center gap-3 text-start text-stone-700 dark:text-stone-200 hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors">
+                      <FileJson size={16} className="text-stone-400"/> {t.nav.paperJson}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <button 
+              onClick={onOpenSettings}
+              className="p-2.5 rounded-full hover:bg-stone-200 dark:hover:bg-stone-800 transition-colors text-stone-600 dark:text-stone-300 focus:outline-none focus:ring-2 focus:ring-stone-400"
+              aria-label={t.nav.analysisSettings}
+            >
+              <Settings size={18} />
+            </button>
+
             <button 
               onClick={onNewPaper}
               className="group px-5 py-2.5 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 rounded-full hover:bg-stone-800 dark:hover:bg-stone-200 transition-all shadow-md hover:shadow-lg active:scale-95 flex items-center gap-2 font-medium text-sm"
             >
               <Sparkles size={14} className="group-hover:text-purple-400 dark:group-hover:text-purple-600 transition-colors"/> 
-              <span>New Paper</span>
+              <span>{t.nav.newPaper}</span>
             </button>
             
             {paperData.url && paperData.url !== '#' && (
@@ -91,7 +254,7 @@ export const Navigation: React.FC<NavigationProps> = ({
                 rel="noopener noreferrer" 
                 className="px-5 py-2.5 bg-stone-200 dark:bg-stone-800 text-stone-900 dark:text-stone-100 rounded-full hover:bg-stone-300 dark:hover:bg-stone-700 transition-colors text-sm font-medium"
               >
-                PDF
+                {t.nav.pdf}
               </a>
             )}
           </div>
@@ -106,21 +269,87 @@ export const Navigation: React.FC<NavigationProps> = ({
       {/* Mobile Menu */}
       {menuOpen && (
         <div className="md:hidden absolute top-full left-0 right-0 bg-white dark:bg-stone-950 border-b border-stone-200 dark:border-stone-800 shadow-xl p-6 flex flex-col gap-6 animate-fade-in">
-           <a href="#introduction" onClick={scrollToSection('introduction')} className="text-lg font-serif text-stone-800 dark:text-stone-200">Introduction</a>
-           <a href="#science" onClick={scrollToSection('science')} className="text-lg font-serif text-stone-800 dark:text-stone-200">Analysis</a>
-           <a href="#impact" onClick={scrollToSection('impact')} className="text-lg font-serif text-stone-800 dark:text-stone-200">Impact</a>
+           <a href="#introduction" onClick={scrollToSection('introduction')} className="text-lg font-serif text-stone-800 dark:text-stone-200">{t.nav.introduction}</a>
+           {hasMethodology && (
+             <a href="#methodology" onClick={scrollToSection('methodology')} className="text-lg font-serif text-stone-800 dark:text-stone-200">{t.nav.methodology}</a>
+           )}
+           <a href="#science" onClick={scrollToSection('science')} className="text-lg font-serif text-stone-800 dark:text-stone-200">{t.nav.analysis}</a>
+           {hasFigures && (
+             <a href="#figures" onClick={scrollToSection('figures')} className="text-lg font-serif text-stone-800 dark:text-stone-200">{t.nav.figures}</a>
+           )}
+           <a href="#impact" onClick={scrollToSection('impact')} className="text-lg font-serif text-stone-800 dark:text-stone-200">{t.nav.impact}</a>
+           {hasGlossary && (
+             <a href="#glossary" onClick={scrollToSection('glossary')} className="text-lg font-serif text-stone-800 dark:text-stone-200">{t.nav.glossary}</a>
+           )}
            <div className="h-[1px] bg-stone-100 dark:bg-stone-800"></div>
            <div className="flex items-center justify-between">
-              <span className="text-stone-500">Theme</span>
+              <span className="text-stone-500">{t.nav.theme}</span>
               <button onClick={toggleDarkMode} className="flex items-center gap-2 text-stone-800 dark:text-stone-200">
-                {darkMode ? <><Sun size={18}/> Light</> : <><Moon size={18}/> Dark</>}
+                {darkMode ? <><Sun size={18}/> {t.nav.light}</> : <><Moon size={18}/> {t.nav.dark}</>}
+              </button>
+           </div>
+           <div className="flex items-center justify-between">
+              <span className="text-stone-500">{t.nav.savedPapers}</span>
+              <button onClick={() => { setMenuOpen(false); onOpenLibrary(); }} className="flex items-center gap-2 text-stone-800 dark:text-stone-200">
+                <Library size={18}/> {t.nav.library}
+              </button>
+           </div>
+           {isCustom && (
+             <div className="flex items-center justify-between">
+                <label htmlFor="mobile-audience" className="text-stone-500">{t.nav.writtenFor}</label>
+                <select
+                  id="mobile-audience"
+                  value={rewritingFor ?? audience}
+                  disabled={isRewriting}
+                  onChange={(e) => { setMenuOpen(false); onAudienceChange(e.target.value as AudienceKey); }}
+                  className="bg-transparent text-stone-800 dark:text-stone-200 text-end disabled:opacity-50"
+                >
+                  {AUDIENCE_OPTIONS.map(option => <option key={option} value={option}>{t.audience[option].label}</option>)}
+                </select>
+             </div>
+           )}
+           {isCustom && (
+             <div className="flex items-center justify-between">
+                <label htmlFor="mobile-language" className="text-stone-500">{t.nav.language}</label>
+                <select
+                  id="mobile-language"
+                  value={translatingTo ?? language}
+                  disabled={isRewriting}
+                  onChange={(e) => { setMenuOpen(false); onTranslate(e.target.value); }}
+                  className="bg-transparent text-stone-800 dark:text-stone-200 text-end disabled:opacity-50"
+                >
+                  {LANGUAGES.map(option => <option key={option.code} value={option.code} lang={option.code}>{option.label}</option>)}
+                </select>
+             </div>
+           )}
+           <div className="flex items-center justify-between">
+              <span className="text-stone-500">{t.nav.cite}</span>
+              <CiteMenu paperData={paperData} />
+           </div>
+           <div className="flex items-center justify-between">
+              <span className="text-stone-500">{t.nav.export}</span>
+              <div className="flex items-center gap-4">
+                {isCustom && (
+                  <button onClick={() => { setMenuOpen(false); onExportSite(); }} disabled={isExporting} className="flex items-center gap-2 text-stone-800 dark:text-stone-200 disabled:opacity-50">
+                    <Globe size={18}/> {t.nav.site}
+                  </button>
+                )}
+                <button onClick={() => { setMenuOpen(false); onExportJson(); }} className="flex items-center gap-2 text-stone-800 dark:text-stone-200">
+                  <FileJson size={18}/> {t.nav.json}
+                </button>
+              </div>
+           </div>
+           <div className="flex items-center justify-between">
+              <span className="text-stone-500">{t.nav.model}</span>
+              <button onClick={() => { setMenuOpen(false); onOpenSettings(); }} className="flex items-center gap-2 text-stone-800 dark:text-stone-200">
+                <Settings size={18}/> {t.nav.settings}
               </button>
            </div>
            <button 
               onClick={() => { setMenuOpen(false); onNewPaper(); }}
               className="w-full py-3 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 rounded-xl font-bold"
             >
-              Visualize New Paper
+              {t.nav.visualizeNewPaper}
             </button>
         </div>
       )}
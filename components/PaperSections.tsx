@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ArrowDown, BookOpen } from 'lucide-react';
+import { HeroScene, HardwareScene } from './DynamicScene';
+import { SectionOutline } from './SectionOutline';
+import { MethodologyTimeline } from './MethodologyTimeline';
+import { conceptAnchorId } from './GenericVisualizer';
+import { GlossaryText } from './Glossary';
+import { SourceClaim, SourceControl } from './SourceControl';
+import { PaperData } from '../types';
+import { themeLabel } from '../themes';
+import { linkGlossaryTerms } from '../services/glossary';
+import { useStrings } from '../i18n';
+
+// Shared by the app and the exported static site, so both render a paper identically.
+
+const scrollToSection = (id: string) => () => {
+  const element = document.getElementById(id);
+  if (element) {
+    const headerOffset = 100;
+    const elementPosition = element.getBoundingClientRect().top;
+    const offsetPosition = elementPosition + window.pageYOffset - headerOffset;
+    window.scrollTo({ top: offsetPosition, behavior: "smooth" });
+  }
+};
+
+// Falls back to the concepts panel when the card isn't rendered (graph view, or hidden by the filter)
+const scrollToConcept = (title: string) => {
+  const card = document.getElementById(conceptAnchorId(title));
+  scrollToSection(card ? card.id : 'concepts')();
+  card?.focus({ preventScroll: true });
+};
+
+const AuthorCard = ({ name, role, delay }: { name: string, role: string, delay: string }) => {
+  return (
+    <div className="flex flex-col group animate-fade-in-up items-center p-8 bg-white dark:bg-stone-800 rounded-xl border border-stone-200 dark:border-stone-700 shadow-sm hover:shadow-xl transition-all duration-300 w-full max-w-xs hover:-translate-y-1" style={{ animationDelay: delay }}>
+      <h3 className="font-serif text-2xl text-stone-900 dark:text-stone-100 text-center mb-3 group-hover:text-purple-600 dark:group-hover:text-purple-400 transition-colors">{name}</h3>
+      <div className="w-12 h-0.5 bg-stone-300 dark:bg-stone-600 mb-4 opacity-60 group-hover:bg-stone-900 dark:group-hover:bg-stone-100 transition-colors"></div>
+      <p className="text-xs text-stone-500 dark:text-stone-400 font-bold uppercase tracking-widest text-center leading-relaxed">{role}</p>
+    </div>
+  );
+};
+
+interface PaperSectionProps {
+  paperData: PaperData;
+  isCustom: boolean;
+  onShowSource?: (claim: SourceClaim) => void;
+}
+
+// --- HERO ---
+// children are rendered above the scroll cue (e.g. share buttons). Generated papers get a clickable
+// node per concept in the scene; the text then lets clicks through everywhere except its links and buttons.
+export const PaperHero: React.FC<{ paperData: PaperData, isCustom?: boolean, children?: React.ReactNode }> = ({ paperData, isCustom, children }) => {
+  const interactive = !!isCustom && paperData.concepts.length > 0;
+  const t = useStrings().paper;
+  return (
+    <header className="relative h-screen flex items-center justify-center overflow-hidden">
+      {/* Dynamic Background with Rigging */}
+      <HeroScene theme={paperData.theme} vignette concepts={interactive ? paperData.concepts : undefined} onSelectConcept={scrollToConcept} />
+
+      <div className={`relative z-10 container mx-auto px-6 text-center mt-12 ${interactive ? 'pointer-events-none' : ''}`}>
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8, delay: 0.2 }}
+          className="inline-block mb-6 px-4 py-1.5 border border-stone-300 dark:border-stone-700 text-stone-500 dark:text-stone-400 text-xs tracking-[0.25em] uppercase font-bold rounded-full backdrop-blur-sm bg-white/40 dark:bg-black/40 shadow-sm"
+        >
+          {paperData.journal || t.researchVisualization}
+        </motion.div>
+
+        <motion.h1
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8, delay: 0.4 }}
+          className="font-serif text-5xl md:text-7xl lg:text-8xl font-medium leading-tight md:leading-[1.1] mb-8 text-stone-900 dark:text-stone-50 drop-shadow-sm max-w-6xl mx-auto"
+        >
+          {paperData.title} <br/>
+          <span className="italic font-normal text-stone-600 dark:text-stone-400 text-3xl md:text-4xl block mt-6">{paperData.subtitle}</span>
+        </motion.h1>
+
+        <motion.div
+           initial={{ opacity: 0 }}
+           animate={{ opacity: 1 }}
+           transition={{ duration: 1, delay: 0.8 }}
+           className="flex flex-col items-center gap-6 [&>*]:pointer-events-auto"
+        >
+           {children}
+
+           <a onClick={scrollToSection('introduction')} className="group flex flex-col items-center gap-3 text-sm font-bold tracking-widest text-stone-400 dark:text-stone-500 hover:text-stone-900 dark:hover:text-stone-200 transition-colors cursor-pointer mt-12 animate-bounce-slow">
+              <span className="uppercase">{t.scrollToDiscover}</span>
+              <span className="p-3 border border-stone-300 dark:border-stone-700 rounded-full group-hover:border-stone-900 dark:group-hover:border-stone-200 transition-colors bg-white/30 dark:bg-black/30 backdrop-blur">
+                  <ArrowDown size={18} />
+              </span>
+           </a>
+        </motion.div>
+      </div>
+    </header>
+  );
+};
+
+// --- INTRODUCTION ---
+export const IntroductionSection: React.FC<PaperSectionProps> = ({ paperData, isCustom, onShowSource }) => {
+  const paragraphs = linkGlossaryTerms(paperData.summary.split('\n').filter(p => p.trim() !== ""), paperData.glossary);
+  const t = useStrings().paper;
+  return (
+    <section id="introduction" className="py-24 md:py-32 bg-white dark:bg-stone-900">
+      <motion.div
+        initial={{ opacity: 0, y: 50 }}
+        whileInView={{ opacity: 1, y: 0 }}
+        viewport={{ once: true, margin: "-10%" }}
+        transition={{ duration: 0.8 }}
+        className="container mx-auto px-6 md:px-12 grid grid-cols-1 md:grid-cols-12 gap-16 items-start"
+      >
+        <div className="md:col-span-4 sticky top-32">
+          <div className="inline-block mb-4 text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400 uppercase">{t.introduction}</div>
+          <h2 className="font-serif text-4xl lg:text-5xl mb-8 leading-tight text-stone-900 dark:text-stone-100">{paperData.introTitle}</h2>
+          <div className={`w-20 h-1 mb-6 rounded-full ${isCustom ? 'bg-stone-800 dark:bg-stone-600' : 'bg-[#C5A059]'}`}></div>
+        </div>
+        <div className="md:col-span-8 text-lg md:text-xl text-stone-600 dark:text-stone-300 leading-relaxed space-y-8 font-light">
+           {paragraphs.map((parts, i) => (
+             <p key={i} className="first-letter:text-5xl first-letter:font-serif first-letter:me-2 first-letter:float-left rtl:first-letter:float-right first-letter:leading-none first-letter:mt-[-4px] text-stone-800 dark:text-stone-200">
+               <GlossaryText parts={parts} glossary={paperData.glossary} />
+               {/* A rewritten summary may have gained paragraphs the quotes don't cover */}
+               {paperData.sources && i < paperData.sources.summary.length && (
+                 <SourceControl className="ms-3 align-middle" claim={{ label: t.introductionParagraph(i + 1), quotes: paperData.sources.summary[i] }} onShowSource={onShowSource} />
+               )}
+             </p>
+           ))}
+           {paperData.sections && <SectionOutline sections={paperData.sections} />}
+        </div>
+      </motion.div>
+    </section>
+  );
+};
+
+// --- METHODOLOGY ---
+// Only rendered when the paper has methodology steps
+export const MethodologySection: React.FC<{ paperData: PaperData }> = ({ paperData }) => (
+  <MethodologyTimeline steps={paperData.methodology ?? []} theme={paperData.theme} onSelectConcept={scrollToConcept} />
+);
+
+// --- ANALYSIS ---
+// The body differs between the demo's hand-built diagrams and generated papers, so it is passed in.
+export const AnalysisSection: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const t = useStrings().paper;
+  return (
+    <section id="science" className="py-24 md:py-32 bg-stone-50 dark:bg-[#161412] border-t border-stone-200 dark:border-stone-800 relative">
+        <div className="container mx-auto px-6 relative z-10">
+           <div className="flex flex-col items-center mb-20">
+               <div className="inline-flex items-center gap-2 px-4 py-1.5 bg-white dark:bg-stone-800 text-stone-600 dark:text-stone-300 text-xs font-bold tracking-widest uppercase rounded-full mb-6 border border-stone-200 dark:border-stone-700 shadow-sm">
+                  <BookOpen size={14}/> {t.analysis}
+               </div>
+               <h2 className="font-serif text-4xl md:text-6xl text-stone-900 dark:text-stone-100 text-center">{t.coreMechanisms}</h2>
+           </div>
+
+           {children}
+        </div>
+    </section>
+  );
+};
+
+// --- IMPACT ---
+export const ImpactSection: React.FC<PaperSectionProps> = ({ paperData, isCustom, onShowSource }) => {
+  const t = useStrings().paper;
+  const field = t.fields[paperData.theme as keyof typeof t.fields] ?? themeLabel(paperData.theme);
+  return (
+    <section id="impact" className="py-24 md:py-32 bg-[#F9F8F4] dark:bg-stone-900 border-t border-stone-200 dark:border-stone-800">
+         <div className="container mx-auto px-6 grid grid-cols-1 lg:grid-cols-12 gap-16 items-center">
+            <div className="lg:col-span-6 relative group">
+                {/* No background: the 3D scene is drawn by the shared canvas behind the page */}
+                <div className="aspect-square rounded-2xl overflow-hidden relative border border-stone-200 dark:border-stone-800 shadow-2xl transition-transform duration-500 group-hover:scale-[1.01]">
+                    {(!isCustom || paperData.theme === 'quantum') ? (
+                       <HardwareScene />
+                    ) : (
+                       <HeroScene theme={paperData.theme} />
+                    )}
+                    <div className="absolute bottom-6 left-0 right-0 text-center text-xs text-stone-400 font-serif italic z-10 bg-black/50 backdrop-blur py-2 mx-12 rounded-full">
+                      {isCustom ? t.domainVisual : "Simulation of the Sycamore Processor environment"}
+                    </div>
+                </div>
+            </div>
+            <div className="lg:col-span-6 flex flex-col justify-center">
+                <div className="inline-block mb-4 text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400 uppercase">{t.impact}</div>
+                <h2 className="font-serif text-4xl lg:text-5xl mb-8 text-stone-900 dark:text-stone-100">{t.futureImplications}</h2>
+                <p className="text-lg text-stone-600 dark:text-stone-300 mb-8 leading-relaxed">
+                    <GlossaryText parts={linkGlossaryTerms([paperData.impact], paperData.glossary)[0]} glossary={paperData.glossary} />
+                    {paperData.sources && (
+                      <SourceControl className="ms-3 align-middle" claim={{ label: t.impact, quotes: paperData.sources.impact }} onShowSource={onShowSource} />
+                    )}
+                </p>
+
+                <div className={`p-8 bg-white dark:bg-stone-800 border border-stone-100 dark:border-stone-700 rounded-2xl shadow-lg relative overflow-hidden`}>
+                    <div className={`absolute start-0 top-0 bottom-0 w-2 ${isCustom ? 'bg-stone-900 dark:bg-stone-100' : 'bg-[#C5A059]'}`}></div>
+                    <p className="font-serif italic text-xl md:text-2xl text-stone-800 dark:text-stone-200 mb-6 relative z-10">
+                        {t.insight(field)}
+                    </p>
+                    <span className="text-xs font-bold text-stone-400 dark:text-stone-500 tracking-wider uppercase">{t.insightAttribution}</span>
+                </div>
+            </div>
+         </div>
+    </section>
+  );
+};
+
+// --- AUTHORS ---
+export const AuthorsSection: React.FC<{ authors: PaperData['authors'] }> = ({ authors }) => {
+  const t = useStrings().paper;
+  return (
+    <section id="authors" className="py-24 bg-white dark:bg-[#161412] border-t border-stone-200 dark:border-stone-800">
+       <div className="container mx-auto px-6">
+            <div className="text-center mb-16">
+                <div className="inline-block mb-3 text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400 uppercase">{t.researchTeam}</div>
+                <h2 className="font-serif text-4xl md:text-5xl mb-4 text-stone-900 dark:text-stone-100">{t.keyContributors}</h2>
+            </div>
+
+            <div className="flex flex-wrap justify-center gap-8">
+                {authors.map((author, idx) => (
+                     <AuthorCard
+                        key={idx}
+                        name={author.name}
+                        role={author.role}
+                        delay={`${idx * 0.1}s`}
+                    />
+                ))}
+            </div>
+       </div>
+    </section>
+  );
+};
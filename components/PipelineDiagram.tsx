@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Play, Pause, SkipBack, SkipForward, RotateCcw } from 'lucide-react';
+import { DiagramEdge, DiagramNode } from '../types';
+import { layerNodes } from '../services/diagramLayout';
+
+interface PipelineDiagramProps {
+  stages: DiagramNode[];
+  edges: DiagramEdge[];
+  stepMs?: number;
+}
+
+const ControlButton: React.FC<{ onClick: () => void; label: string; disabled?: boolean; children: React.ReactNode }> = ({ onClick, label, disabled, children }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    aria-label={label}
+    title={label}
+    className="p-2 rounded-full text-stone-500 dark:text-stone-400 hover:bg-stone-200 dark:hover:bg-stone-700 hover:text-stone-900 dark:hover:text-stone-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+  >
+    {children}
+  </button>
+);
+
+// --- PIPELINE DIAGRAM ---
+// Stages are laid out in columns by dependency order and lit one at a time. Each stage's `shape`
+// describes the data it hands on, and is shown on the connector leaving its column.
+export const PipelineDiagram: React.FC<PipelineDiagramProps> = ({ stages, edges, stepMs = 2000 }) => {
+  const columns = useMemo(() => layerNodes(stages, edges), [stages, edges]);
+  const order = useMemo(() => columns.flat(), [columns]);
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(true);
+
+  useEffect(() => {
+    if (!playing || order.length < 2) return;
+    const interval = setInterval(() => setStep(s => (s + 1) % order.length), stepMs);
+    return () => clearInterval(interval);
+  }, [playing, order.length, stepMs]);
+
+  // Specs can change under a mounted diagram (e.g. opening another paper)
+  useEffect(() => setStep(0), [order]);
+
+  const active = order[Math.min(step, order.length - 1)];
+  const activeColumn = columns.findIndex(column => column.includes(active));
+  const stepTo = (index: number) => setStep((index + order.length) % order.length);
+  const select = (index: number) => {
+    setPlaying(false);
+    stepTo(index);
+  };
+
+  const incoming = edges.filter(e => e.to === active?.id);
+  const outgoing = edges.filter(e => e.from === active?.id);
+  const labelOf = (id: string) => stages.find(s => s.id === id)?.label || id;
+
+  if (!active) return null;
+
+  return (
+    <div className="w-full flex flex-col items-center">
+      <div className="w-full flex flex-col md:flex-row items-center justify-center gap-3">
+        {columns.map((column, c) => {
+          const shapes = c > 0 ? columns[c - 1].map(s => s.shape).filter(Boolean) : [];
+          return (
+            <React.Fragment key={c}>
+              {c > 0 && (
+                <div className="flex flex-col items-center gap-1 shrink-0 min-w-[2.5rem]">
+                  <div className="relative w-8 h-4 rotate-90 md:rotate-0 flex items-center">
+                    <div className={`w-full h-[2px] transition-colors duration-500 ${activeColumn >= c ? 'bg-nobel-gold' : 'bg-stone-200 dark:bg-stone-700'}`}></div>
+                    <span className={`absolute -right-1 text-xs leading-none transition-colors duration-500 ${activeColumn >= c ? 'text-nobel-gold' : 'text-stone-300 dark:text-stone-600'}`}>▶</span>
+                    {activeColumn === c && (
+                      <motion.div
+                        key={step}
+                        className="absolute w-2 h-2 rounded-full bg-nobel-gold shadow-[0_0_8px_rgba(197,160,89,0.8)]"
+                        initial={{ left: 0, opacity: 1 }}
+                        animate={{ left: '100%', opacity: 0 }}
+                        transition={{ duration: 0.8, ease: "easeIn" }}
+                      />
+                    )}
+                  </div>
+                  {shapes.length > 0 && (
+                    <span className="text-[9px] font-mono text-stone-400 dark:text-stone-500 text-center max-w-[6rem] leading-tight">{shapes.join(' · ')}</span>
+                  )}
+                </div>
+              )}
+              <div className="flex flex-row md:flex-col gap-2">
+                {column.map(stage => {
+                  const index = order.indexOf(stage);
+                  const isActive = stage === active;
+                  const isDone = index < step;
+                  return (
+                    <button
+                      key={stage.id}
+                      onClick={() => select(index)}
+                      aria-current={isActive ? 'step' : undefined}
+                      className={`min-w-[5.5rem] max-w-[9rem] px-3 py-2.5 rounded-xl border-2 text-xs font-semibold text-center transition-colors duration-500 ${isActive ? 'border-nobel-gold bg-nobel-gold/10 text-stone-900 dark:text-stone-100' : isDone ? 'border-stone-300 dark:border-stone-600 bg-white dark:bg-stone-900 text-stone-700 dark:text-stone-300' : 'border-stone-200 dark:border-stone-800 bg-stone-50 dark:bg-stone-900/50 text-stone-400'}`}
+                    >
+                      <span className="block text-[9px] uppercase tracking-widest text-stone-400 mb-0.5">{index + 1}</span>
+                      {stage.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      {/* Detail for the active stage */}
+      <div className="min-h-[5rem] mt-6 text-sm text-center max-w-md">
+        <AnimatePresence mode="wait">
+          <motion.div key={active.id} initial={{ opacity: 0, y: 4 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -4 }}>
+            <p className="text-stone-700 dark:text-stone-200 leading-relaxed">
+              <strong className="font-semibold">{active.label}.</strong> {active.detail || ""}
+            </p>
+            <div className="mt-2 flex flex-wrap justify-center gap-x-4 gap-y-1 text-[11px] text-stone-500 dark:text-stone-400">
+              {incoming.length > 0 && <span>In: {incoming.map(e => e.label ? `${labelOf(e.from)} (${e.label})` : labelOf(e.from)).join(', ')}</span>}
+              {active.shape && <span className="font-mono">Out: {active.shape}</span>}
+              {!active.shape && outgoing.length > 0 && <span>Out: {outgoing.map(e => labelOf(e.to)).join(', ')}</span>}
+            </div>
+          </motion.div>
+        </AnimatePresence>
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center gap-1 mt-2">
+        <ControlButton onClick={() => { setPlaying(false); stepTo(step - 1); }} label="Previous stage"><SkipBack size={16} /></ControlButton>
+        <ControlButton onClick={() => setPlaying(!playing)} label={playing ? "Pause" : "Play"} disabled={order.length < 2}>
+          {playing ? <Pause size={16} /> : <Play size={16} />}
+        </ControlButton>
+        <ControlButton onClick={() => { setPlaying(false); stepTo(step + 1); }} label="Next stage"><SkipForward size={16} /></ControlButton>
+        <ControlButton onClick={() => { setStep(0); setPlaying(true); }} label="Restart"><RotateCcw size={16} /></ControlButton>
+      </div>
+      <div className="flex gap-2 mt-3">
+        {order.map((stage, i) => (
+          <button key={stage.id} onClick={() => select(i)} aria-label={stage.label} className={`h-1 rounded-full transition-all duration-300 ${step === i ? 'w-8 bg-nobel-gold dark:bg-stone-400' : 'w-2 bg-stone-300 dark:bg-stone-700'}`}></button>
+        ))}
+      </div>
+    </div>
+  );
+};
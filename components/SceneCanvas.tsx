@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { createContext, useContext, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { Canvas, useThree } from '@react-three/fiber';
+import { PerformanceMonitor, PerspectiveCamera, View } from '@react-three/drei';
+
+// --- SHARED RENDERER ---
+// Every ambient 3D scene on the page is a drei <View> drawn by one WebGL context. The canvas is fixed
+// behind the page content, so a view's container (and anything positioned above it) must be see-through.
+// The loop only runs while at least one view is on screen.
+
+export type SceneDetail = 'high' | 'low';
+
+export type EnvironmentPreset = 'city' | 'studio';
+export type EnvironmentComponent = React.ComponentType<{ preset: EnvironmentPreset }>;
+
+interface SceneContextValue {
+  setOnScreen: (id: string, onScreen: boolean) => void;
+}
+
+const SceneContext = createContext<SceneContextValue | null>(null);
+const DetailContext = createContext<SceneDetail>('high');
+const EnvironmentContext = createContext<EnvironmentComponent | null>(null);
+
+export const usePrefersReducedMotion = () => {
+  const query = '(prefers-reduced-motion: reduce)';
+  const [reduced, setReduced] = useState(() => typeof window !== 'undefined' && window.matchMedia(query).matches);
+  useEffect(() => {
+    const media = window.matchMedia(query);
+    const update = () => setReduced(media.matches);
+    media.addEventListener('change', update);
+    return () => media.removeEventListener('change', update);
+  }, []);
+  return reduced;
+};
+
+// True while the element is within `rootMargin` of the viewport
+export const useOnScreen = (ref: React.RefObject<HTMLElement | null>, rootMargin = '100px') => {
+  const [onScreen, setOnScreen] = useState(false);
+  useEffect(() => {
+    if (!ref.current) return;
+    const observer = new IntersectionObserver(([entry]) => setOnScreen(entry.isIntersecting), { rootMargin });
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [ref, rootMargin]);
+  return onScreen;
+};
+
+// Scene layers call this for particle and instance counts, which drop when the frame rate does.
+export const useParticleCount = (count: number) => {
+  const detail = useContext(DetailContext);
+  return detail === 'low' ? Math.max(1, Math.round(count / 3)) : count;
+};
+
+// Image-based lighting for a scene. drei's presets download their HDR files from a CDN, so the
+// component is supplied by the app; without one (the offline export) the scene is lit directly.
+export const SceneEnvironment: React.FC<{ preset: EnvironmentPreset }> = ({ preset }) => {
+  const Environment = useContext(EnvironmentContext);
+  if (Environment) return <Environment preset={preset} />;
+  const studio = preset === 'studio';
+  return (
+    <>
+      <hemisphereLight args={['#ffffff', '#57534e', studio ? 1.5 : 1]} />
+      <directionalLight position={[5, 8, 6]} intensity={studio ? 2 : 1.2} />
+    </>
+  );
+};
+
+// With reduced motion the canvas only draws on demand: the clock is frozen, and views are redrawn
+// when the page scrolls or resizes so they stay pinned to their containers.
+const StillFrames = () => {
+  const { clock, invalidate } = useThree();
+  useEffect(() => {
+    clock.autoStart = false;
+    clock.stop();
+    const redraw = () => invalidate();
+    window.addEventListener('scroll', redraw, { passive: true });
+    window.addEventListener('resize', redraw);
+    return () => {
+      window.removeEventListener('scroll', redraw);
+      window.removeEventListener('resize', redraw);
+      clock.autoStart = true;
+    };
+  }, [clock, invalidate]);
+  return null;
+};
+
+const maxDpr = () => Math.min(typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1, 2);
+
+export const SceneProvider: React.FC<{ environment?: EnvironmentComponent; children: React.ReactNode }> = ({ environment = null, children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [onScreen, setOnScreenIds] = useState<string[]>([]);
+  const [dpr, setDpr] = useState(maxDpr);
+  const [detail, setDetail] = useState<SceneDetail>('high');
+  const reducedMotion = usePrefersReducedMotion();
+
+  const context = useMemo<SceneContextValue>(() => ({
+    setOnScreen: (id, visible) => setOnScreenIds(ids =>
+      visible ? (ids.includes(id) ? ids : [...ids, id]) : ids.filter(other => other !== id)
+    )
+  }), []);
+
+  const frameloop = onScreen.length === 0 ? 'never' : reducedMotion ? 'demand' : 'always';
+
+  // factor starts at 1 and steps down while the frame rate stays below the monitor's bounds.
+  // Resolution goes first; below half the particle counts drop too. Repeated flip-flopping settles on the lowest level.
+  const applyFactor = (factor: number) => {
+    setDpr(Math.max(1, Math.min(maxDpr(), Math.round((1 + factor) * 2) / 2)));
+    setDetail(factor < 0.5 ? 'low' : 'high');
+  };
+
+  const port = (
+    <EnvironmentContext.Provider value={environment}>
+      <DetailContext.Provider value={detail}>
+        <View.Port />
+      </DetailContext.Provider>
+    </EnvironmentContext.Provider>
+  );
+
+  return (
+    <SceneContext.Provider value={context}>
+      <div ref={containerRef}>
+        <Canvas
+          eventSource={containerRef as React.RefObject<HTMLElement>}
+          eventPrefix="client"
+          frameloop={frameloop}
+          dpr={dpr}
+          style={{ position: 'fixed', inset: 0, zIndex: 0, pointerEvents: 'none' }}
+        >
+          {reducedMotion ? (
+            <>
+              {port}
+              <StillFrames />
+            </>
+          ) : (
+            // The monitor would read demand-driven frames as a slow device, so it only runs when animating
+            <PerformanceMonitor factor={1} flipflops={3} onChange={({ factor }) => applyFactor(factor)} onFallback={() => applyFactor(0)}>
+              {port}
+            </PerformanceMonitor>
+          )}
+        </Canvas>
+        {children}
+      </div>
+    </SceneContext.Provider>
+  );
+};
+
+// A scene that fails (e.g. an asset that can't load) is left empty rather than taking the page down with it
+class SceneBoundary extends React.Component<{ children: React.ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    console.error("A 3D scene failed to render", error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+interface SceneViewProps {
+  className?: string;
+  camera: { position: [number, number, number]; fov: number };
+  children: React.ReactNode;
+}
+
+// A region of the page rendered by the shared canvas. Content is unmounted while the region is off
+// screen, so its useFrame callbacks stop as well.
+export const SceneView: React.FC<SceneViewProps> = ({ className, camera, children }) => {
+  const id = useId();
+  const ref = useRef<HTMLElement>(null);
+  const scene = useContext(SceneContext);
+  const onScreen = useOnScreen(ref);
+
+  useEffect(() => {
+    if (!scene) {
+      console.error("SceneView rendered outside a SceneProvider; it will stay empty.");
+      return;
+    }
+    scene.setOnScreen(id, onScreen);
+    return () => scene.setOnScreen(id, false);
+  }, [scene, id, onScreen]);
+
+  return (
+    <View ref={ref} className={className} visible={onScreen}>
+      {onScreen && (
+        <>
+          <PerspectiveCamera makeDefault position={camera.position} fov={camera.fov} />
+          <SceneBoundary>{children}</SceneBoundary>
+        </>
+      )}
+    </View>
+  );
+};
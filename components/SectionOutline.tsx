@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, ListTree } from 'lucide-react';
+import { SectionSummary } from '../types';
+import { formatPages } from '../services/documentSections';
+
+interface SectionOutlineProps {
+  sections: SectionSummary[];
+}
+
+export const SectionOutline: React.FC<SectionOutlineProps> = ({ sections }) => {
+  const [openIdx, setOpenIdx] = useState<number | null>(null);
+
+  if (sections.length === 0) return null;
+
+  return (
+    <div className="mt-12 border-t border-stone-200 dark:border-stone-800 pt-8">
+      <div className="flex items-center gap-2 mb-6 text-xs font-bold tracking-widest text-stone-500 dark:text-stone-400 uppercase">
+        <ListTree size={14} /> Section by Section
+      </div>
+      <ol className="space-y-2">
+        {sections.map((section, idx) => {
+          const isOpen = openIdx === idx;
+          const pages = formatPages(section);
+          return (
+            <li key={idx} className="rounded-xl border border-stone-200 dark:border-stone-800 bg-stone-50 dark:bg-stone-950/40 overflow-hidden">
+              <button
+                onClick={() => setOpenIdx(isOpen ? null : idx)}
+                className="w-full flex items-center justify-between gap-4 px-5 py-4 text-left hover:bg-white dark:hover:bg-stone-800/50 transition-colors"
+              >
+                <span className="font-serif text-lg text-stone-900 dark:text-stone-100">{section.heading}</span>
+                <span className="flex items-center gap-3 flex-shrink-0">
+                  {pages && <span className="text-xs font-mono text-stone-400">{pages}</span>}
+                  <ChevronDown size={16} className={`text-stone-400 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+                </span>
+              </button>
+              <AnimatePresence initial={false}>
+                {isOpen && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    exit={{ opacity: 0, height: 0 }}
+                    transition={{ duration: 0.3, ease: "easeInOut" }}
+                  >
+                    <p className="px-5 pb-5 text-base leading-relaxed text-stone-600 dark:text-stone-300">{section.summary}</p>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { X, Settings, Cloud, Server, FlaskConical, RotateCcw } from 'lucide-react';
+import { ProviderConfig, ProviderId, DEFAULT_MODELS, DEFAULT_PROVIDER_CONFIG } from '../services/providers';
+
+interface SettingsPanelProps {
+  show: boolean;
+  config: ProviderConfig;
+  onClose: () => void;
+  onSave: (config: ProviderConfig) => void;
+}
+
+const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string; icon: any }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Hosted Gemini models. Supports PDF upload.', icon: Cloud },
+  { id: 'openai', label: 'OpenAI-compatible', description: 'Any /chat/completions endpoint, e.g. a self-hosted Ollama.', icon: Server },
+  { id: 'fixture', label: 'Offline fixture', description: 'Deterministic sample output. No network required.', icon: FlaskConical },
+];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ show, config, onClose, onSave }) => {
+  const [draft, setDraft] = useState<ProviderConfig>(config);
+
+  // Start from the saved settings each time the panel opens
+  useEffect(() => {
+    if (show) setDraft(config);
+  }, [show, config]);
+
+  if (!show) return null;
+
+  const update = (patch: Partial<ProviderConfig>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const selectProvider = (provider: ProviderId) => {
+    // Keep a custom model name only while staying on the same provider
+    update({ provider, model: provider === draft.provider ? draft.model : DEFAULT_MODELS[provider] });
+  };
+
+  const inputClass = "w-full px-4 py-2.5 rounded-xl border border-stone-300 dark:border-stone-700 focus:border-purple-500 focus:ring-2 focus:ring-purple-200 dark:focus:ring-purple-900/30 outline-none text-sm bg-stone-50 dark:bg-stone-950 dark:text-stone-200 transition-colors disabled:opacity-50";
+  const labelClass = "block text-[10px] uppercase font-bold tracking-widest text-stone-500 dark:text-stone-400 mb-2";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-stone-900/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white dark:bg-stone-900 rounded-2xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[90vh] border border-stone-200 dark:border-stone-800">
+        {/* Header */}
+        <div className="p-6 border-b border-stone-100 dark:border-stone-800 flex justify-between items-center bg-[#F9F8F4] dark:bg-stone-950">
+           <h3 className="font-serif text-2xl text-stone-900 dark:text-stone-100 flex items-center gap-2">
+             <Settings className="text-purple-600" size={22}/> Analysis Settings
+           </h3>
+           <button onClick={onClose} className="p-2 hover:bg-stone-200 dark:hover:bg-stone-800 rounded-full transition-colors text-stone-600 dark:text-stone-400"><X size={20}/></button>
+        </div>
+
+        <div className="p-8 flex-1 overflow-y-auto space-y-6">
+          {/* Provider */}
+          <div>
+            <span className={labelClass}>Model Provider</span>
+            <div className="space-y-2">
+              {PROVIDER_OPTIONS.map(option => {
+                const Icon = option.icon;
+                const isSelected = draft.provider === option.id;
+                return (
+                  <button
+                    key={option.id}
+                    onClick={() => selectProvider(option.id)}
+                    className={`w-full flex items-start gap-3 p-4 rounded-xl border-2 text-left transition-all ${isSelected ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/10' : 'border-stone-200 dark:border-stone-700 hover:border-stone-400 dark:hover:border-stone-500'}`}
+                  >
+                    <Icon size={18} className={`mt-0.5 flex-shrink-0 ${isSelected ? 'text-purple-600 dark:text-purple-400' : 'text-stone-400'}`} />
+                    <div>
+                      <div className="text-sm font-medium text-stone-900 dark:text-stone-100">{option.label}</div>
+                      <div className="text-xs text-stone-500 dark:text-stone-400">{option.description}</div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Endpoint (OpenAI-compatible only) */}
+          {draft.provider === 'openai' && (
+            <div className="grid grid-cols-1 gap-4 animate-fade-in">
+              <label>
+                <span className={labelClass}>Base URL</span>
+                <input className={inputClass} value={draft.baseUrl} onChange={(e) => update({ baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" />
+              </label>
+              <label>
+                <span className={labelClass}>API Key (optional)</span>
+                <input type="password" className={inputClass} value={draft.apiKey} onChange={(e) => update({ apiKey: e.target.value })} placeholder="Stored in this browser only" />
+              </label>
+            </div>
+          )}
+
+          {/* Generation */}
+          <label className="block">
+            <span className={labelClass}>Model</span>
+            <input className={inputClass} value={draft.model} disabled={draft.provider === 'fixture'} onChange={(e) => update({ model: e.target.value })} />
+          </label>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label>
+              <span className={labelClass}>Temperature · {draft.temperature.toFixed(1)}</span>
+              <input
+                type="range" min={0} max={2} step={0.1}
+                value={draft.temperature}
+                disabled={draft.provider === 'fixture'}
+                onChange={(e) => update({ temperature: parseFloat(e.target.value) })}
+                className="w-full accent-purple-600"
+              />
+            </label>
+            <label>
+              <span className={labelClass}>Max Tokens</span>
+              <input
+                type="number" min={256} step={256}
+                className={inputClass}
+                value={draft.maxTokens}
+                disabled={draft.provider === 'fixture'}
+                onChange={(e) => update({ maxTokens: parseInt(e.target.value, 10) || DEFAULT_PROVIDER_CONFIG.maxTokens })}
+              />
+            </label>
+          </div>
+
+          <label className="block">
+            <span className={labelClass}>Retries on Invalid Output</span>
+            <input
+              type="number" min={0} max={5}
+              className={inputClass}
+              value={draft.maxRetries}
+              disabled={draft.provider === 'fixture'}
+              onChange={(e) => update({ maxRetries: Math.min(5, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+            />
+          </label>
+        </div>
+
+        <div className="p-6 border-t border-stone-100 dark:border-stone-800 bg-[#F9F8F4] dark:bg-stone-950 flex justify-between items-center">
+           <button
+             onClick={() => setDraft(DEFAULT_PROVIDER_CONFIG)}
+             className="text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-stone-200 text-sm font-medium flex items-center gap-1.5 transition-colors"
+           >
+             <RotateCcw size={14} /> Restore Defaults
+           </button>
+           <button
+             onClick={() => onSave(draft)}
+             className="px-8 py-3 rounded-full font-medium text-white bg-stone-900 dark:bg-stone-100 dark:text-stone-900 hover:bg-stone-800 dark:hover:bg-stone-200 shadow-xl transition-all"
+           >
+             Save
+           </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { AlertTriangle, FileSearch } from 'lucide-react';
+import { SourceQuote } from '../types';
+
+// Kept apart from SourceViewer, which loads pdf.js and the chat helpers: the section components use
+// this in the exported site too, and the viewer bundle shouldn't carry either.
+
+// A generated claim and the quotes offered in support of it
+export interface SourceClaim {
+  label: string;
+  quotes: SourceQuote[];
+}
+
+// Whether any quote offered for a claim was found in the paper
+export const isSupported = (quotes: SourceQuote[] | undefined) => !!quotes?.some(q => q.verified);
+
+// "Show source" for one claim, or a warning when none of its quotes could be found in the paper
+export const SourceControl: React.FC<{ claim: SourceClaim, onShowSource?: (claim: SourceClaim) => void, className?: string }> = ({ claim, onShowSource, className = "" }) => {
+  const supported = isSupported(claim.quotes);
+  return (
+    <span className={`inline-flex flex-wrap items-center gap-3 text-xs font-sans not-italic ${className}`}>
+      {!supported && (
+        <span
+          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300 font-medium"
+          title={claim.quotes.length === 0 ? "No passage in the paper was found to support this" : "The quoted passages couldn't be found in the paper"}
+        >
+          <AlertTriangle size={12} /> Unsupported
+        </span>
+      )}
+      {onShowSource && claim.quotes.length > 0 && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onShowSource(claim); }}
+          className="inline-flex items-center gap-1 text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-stone-100 underline-offset-4 hover:underline transition-colors"
+        >
+          <FileSearch size={12} /> Show source
+        </button>
+      )}
+    </span>
+  );
+};
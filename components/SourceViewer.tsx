@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { AlertTriangle, Loader2, Quote, X } from 'lucide-react';
+import { SourceQuote } from '../types';
+import { DocumentText } from '../services/documentSections';
+import { PageRect, PdfDocument, findTextOnPage, loadPdfDocument, renderPage } from '../services/pdf';
+import { locateQuote } from '../services/paperChat';
+import { SourceClaim } from './SourceControl';
+
+// Inline styles rather than classes: the exported site only carries the classes present when it was exported
+const HIGHLIGHT = 'rgba(197, 160, 89, 0.4)';
+
+// One page slot. The canvas is only drawn once the slot comes near the visible part of the panel.
+const PdfPage = ({ pdf, pageNumber, pageWidth, aspect, highlights }: { pdf: PdfDocument, pageNumber: number, pageWidth: number, aspect: number, highlights: PageRect[] }) => {
+  const slotRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [rendered, setRendered] = useState(false);
+
+  useEffect(() => {
+    const slot = slotRef.current;
+    if (!slot || rendered) return;
+    let cancelled = false;
+    const observer = new IntersectionObserver(entries => {
+      if (!entries.some(entry => entry.isIntersecting)) return;
+      observer.disconnect();
+      renderPage(pdf, pageNumber, (slot.clientWidth * window.devicePixelRatio) / pageWidth)
+        .then(canvas => {
+          if (cancelled || !canvasRef.current) return;
+          canvas.style.width = '100%';
+          canvas.style.height = 'auto';
+          canvasRef.current.replaceChildren(canvas);
+          setRendered(true);
+        })
+        .catch(e => console.warn(`Couldn't render page ${pageNumber}`, e));
+    }, { rootMargin: '800px 0px' });
+    observer.observe(slot);
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [pdf, pageNumber, pageWidth, rendered]);
+
+  return (
+    <div ref={slotRef} data-page={pageNumber} className="relative bg-white shadow-md" style={rendered ? undefined : { aspectRatio: `1 / ${aspect}` }}>
+      <div ref={canvasRef} />
+      {highlights.map((rect, i) => (
+        <div
+          key={i}
+          data-highlight
+          className="absolute pointer-events-none rounded-sm"
+          style={{ left: `${rect.left * 100}%`, top: `${rect.top * 100}%`, width: `${rect.width * 100}%`, height: `${rect.height * 100}%`, backgroundColor: HIGHLIGHT }}
+        />
+      ))}
+      <div className="absolute bottom-2 right-3 text-[10px] font-mono text-stone-400">{pageNumber}</div>
+    </div>
+  );
+};
+
+const PdfPane = ({ file, quote }: { file: Blob, quote: SourceQuote | null }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [pdf, setPdf] = useState<PdfDocument | null>(null);
+  const [pageSize, setPageSize] = useState<{ width: number, aspect: number } | null>(null);
+  const [highlight, setHighlight] = useState<{ page: number, rects: PageRect[] } | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let doc: PdfDocument | null = null;
+    loadPdfDocument(file)
+      .then(async loaded => {
+        doc = loaded;
+        const first = (await loaded.getPage(1)).getViewport({ scale: 1 });
+        if (cancelled) return;
+        setPageSize({ width: first.width, aspect: first.height / first.width });
+        setPdf(loaded);
+      })
+      .catch(e => {
+        console.error("Couldn't open the PDF", e);
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+      doc?.destroy();
+    };
+  }, [file]);
+
+  // Scrolls to the quote's page, then to the highlighted passage once it has been located
+  useEffect(() => {
+    if (!pdf || !quote?.page || quote.page > pdf.numPages) return;
+    const page = quote.page;
+    let cancelled = false;
+    setHighlight(null);
+    scrollRef.current?.querySelector(`[data-page="${page}"]`)?.scrollIntoView({ block: 'start' });
+    findTextOnPage(pdf, page, quote.text)
+      .then(rects => {
+        if (cancelled) return;
+        setHighlight({ page, rects });
+        const slot = scrollRef.current?.querySelector<HTMLElement>(`[data-page="${page}"]`);
+        if (slot && rects.length > 0) {
+          scrollRef.current!.scrollTo({ top: slot.offsetTop + rects[0].top * slot.offsetHeight - 120, behavior: 'smooth' });
+        }
+      })
+      .catch(e => console.warn("Couldn't locate the quote on the page", e));
+    return () => { cancelled = true; };
+  }, [pdf, quote]);
+
+  if (error) return <p className="p-6 text-sm text-red-600 dark:text-red-300">The PDF couldn't be opened.</p>;
+  if (!pdf || !pageSize) return <div className="p-6 flex justify-center"><Loader2 className="animate-spin text-stone-400" /></div>;
+
+  return (
+    <div ref={scrollRef} className="relative flex-1 overflow-y-auto bg-stone-200 dark:bg-stone-950 p-4 space-y-4">
+      {Array.from({ length: pdf.numPages }, (_, i) => i + 1).map(n => (
+        <PdfPage
+          key={n}
+          pdf={pdf}
+          pageNumber={n}
+          pageWidth={pageSize.width}
+          aspect={pageSize.aspect}
+          highlights={highlight?.page === n ? highlight.rects : []}
+        />
+      ))}
+    </div>
+  );
+};
+
+// The fragments of a quote as a pattern that tolerates different spacing, line breaks and quote marks
+const quotePattern = (quote: string): RegExp | null => {
+  const fragments = quote.split(/\.\.\.|…/)
+    .map(fragment => fragment.trim().replace(/^["“”‘’'.,;:\s]+|["“”‘’'.,;:\s]+$/g, ''))
+    .filter(fragment => fragment.length > 0)
+    .map(fragment => fragment.split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join(`[\\s"“”‘’'-]+`));
+  return fragments.length > 0 ? new RegExp(fragments.join('|'), 'gi') : null;
+};
+
+// Pasted text, or a PDF that is no longer available: the page's text with the quote marked
+const TextPane = ({ source, quote }: { source: DocumentText, quote: SourceQuote | null }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const located = quote && !quote.page ? locateQuote(quote.text, source) : null;
+  const index = (quote?.page ?? located?.page ?? 1) - 1;
+  const text = source.pages[index] ?? "";
+
+  const pattern = quote ? quotePattern(quote.text) : null;
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  if (pattern) {
+    for (const match of text.matchAll(pattern)) {
+      parts.push(text.substring(last, match.index));
+      parts.push(<mark key={match.index} className="rounded-sm text-inherit" style={{ backgroundColor: HIGHLIGHT }}>{match[0]}</mark>);
+      last = match.index! + match[0].length;
+    }
+  }
+  parts.push(text.substring(last));
+
+  useEffect(() => {
+    scrollRef.current?.querySelector('mark')?.scrollIntoView({ block: 'center' });
+  }, [quote]);
+
+  return (
+    <div ref={scrollRef} className="flex-1 overflow-y-auto p-6">
+      {source.paginated && <div className="text-[10px] font-bold uppercase tracking-wider text-stone-400 mb-3">Page {index + 1}</div>}
+      <div className="whitespace-pre-wrap font-serif text-sm leading-relaxed text-stone-700 dark:text-stone-300">{parts}</div>
+    </div>
+  );
+};
+
+interface SourceViewerProps {
+  claim: SourceClaim | null;
+  onClose: () => void;
+  pdf: Blob | null;
+  source: DocumentText | null;
+}
+
+// --- SOURCE VIEWER ---
+// Takes the right half of the screen next to the page. The original PDF is shown when it is available,
+// otherwise the extracted text, otherwise just the quotes.
+export const SourceViewer: React.FC<SourceViewerProps> = ({ claim, onClose, pdf, source }) => {
+  const [active, setActive] = useState(0);
+
+  useEffect(() => {
+    // Prefer a quote that was found in the document
+    setActive(Math.max(0, claim?.quotes.findIndex(q => q.verified) ?? 0));
+  }, [claim]);
+
+  useEffect(() => {
+    if (!claim) return;
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [claim, onClose]);
+
+  const quote = claim?.quotes[active] ?? null;
+  const hasText = !!source && source.pages.some(page => page.trim());
+
+  return (
+    <AnimatePresence>
+      {claim && (
+        <motion.aside
+          initial={{ x: '100%' }}
+          animate={{ x: 0 }}
+          exit={{ x: '100%' }}
+          transition={{ type: 'tween', duration: 0.3, ease: 'easeOut' }}
+          className="fixed top-0 right-0 bottom-0 z-[55] w-full md:w-1/2 bg-white dark:bg-stone-900 shadow-2xl border-l border-stone-200 dark:border-stone-800 flex flex-col"
+          aria-label="Source"
+        >
+          <div className="p-6 border-b border-stone-100 dark:border-stone-800 bg-[#F9F8F4] dark:bg-stone-950">
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <div className="text-[10px] font-bold uppercase tracking-widest text-stone-400 mb-1">Source for</div>
+                <h3 className="font-serif text-2xl text-stone-900 dark:text-stone-100">{claim.label}</h3>
+              </div>
+              <button onClick={onClose} className="p-2 hover:bg-stone-200 dark:hover:bg-stone-800 rounded-full transition-colors text-stone-600 dark:text-stone-400" aria-label="Close"><X size={20}/></button>
+            </div>
+
+            <div className="mt-4 space-y-2 max-h-48 overflow-y-auto">
+              {claim.quotes.map((q, i) => (
+                <button
+                  key={i}
+                  onClick={() => setActive(i)}
+                  aria-pressed={i === active}
+                  className={`w-full text-left flex gap-2 p-3 rounded-lg border text-sm transition-colors ${i === active ? 'border-stone-900 dark:border-stone-100 bg-white dark:bg-stone-800' : 'border-stone-200 dark:border-stone-700 hover:bg-white dark:hover:bg-stone-800'}`}
+                >
+                  <Quote size={14} className="shrink-0 mt-0.5 text-stone-400" />
+                  <span className="flex-1">
+                    <span className="italic text-stone-700 dark:text-stone-300">{q.text}</span>
+                    <span className="flex items-center gap-2 mt-1 text-[11px]">
+                      {q.page !== undefined && <span className="font-bold text-stone-500">p. {q.page}</span>}
+                      {!q.verified && <span className="flex items-center gap-1 text-amber-700 dark:text-amber-400"><AlertTriangle size={11} /> Not found in the document</span>}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {pdf ? (
+            <PdfPane file={pdf} quote={quote} />
+          ) : hasText ? (
+            <TextPane source={source!} quote={quote} />
+          ) : (
+            <p className="p-6 text-sm text-stone-500 dark:text-stone-400">The original document isn't available here, so the quotes can't be shown in context.</p>
+          )}
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { createContext, useContext, useMemo } from 'react';
+import { LanguageOption, languageOf } from './languages';
+import { UiStrings, en } from './locales/en';
+import { es } from './locales/es';
+import { fr } from './locales/fr';
+import { de } from './locales/de';
+import { zh } from './locales/zh';
+import { ja } from './locales/ja';
+import { ar } from './locales/ar';
+import { he } from './locales/he';
+
+export * from './languages';
+export type { UiStrings } from './locales/en';
+
+const LOCALES: Record<string, UiStrings> = { en, es, fr, de, zh, ja, ar, he };
+
+export const stringsFor = (code: string | undefined): UiStrings => LOCALES[languageOf(code).code] ?? en;
+
+export interface Locale {
+  language: LanguageOption;
+  strings: UiStrings;
+}
+
+const LocaleContext = createContext<Locale>({ language: languageOf(undefined), strings: en });
+
+// The interface follows the language of the paper on screen, so a translated paper reads as one page
+export const LocaleProvider: React.FC<{ language?: string; children: React.ReactNode }> = ({ language, children }) => {
+  const value = useMemo(() => ({ language: languageOf(language), strings: stringsFor(language) }), [language]);
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export const useLocale = () => useContext(LocaleContext);
+export const useStrings = () => useContext(LocaleContext).strings;
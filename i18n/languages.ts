@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LanguageOption {
+  code: string; // BCP 47, stored as PaperData.language
+  name: string; // English name, used in prompts
+  label: string; // Native name, shown in menus
+  dir: TextDirection;
+}
+
+// Papers can be generated in any of these; each has a translation of the interface in i18n/locales.
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en', name: "English", label: "English", dir: 'ltr' },
+  { code: 'es', name: "Spanish", label: "Español", dir: 'ltr' },
+  { code: 'fr', name: "French", label: "Français", dir: 'ltr' },
+  { code: 'de', name: "German", label: "Deutsch", dir: 'ltr' },
+  { code: 'zh', name: "Simplified Chinese", label: "简体中文", dir: 'ltr' },
+  { code: 'ja', name: "Japanese", label: "日本語", dir: 'ltr' },
+  { code: 'ar', name: "Arabic", label: "العربية", dir: 'rtl' },
+  { code: 'he', name: "Hebrew", label: "עברית", dir: 'rtl' }
+];
+
+export const DEFAULT_LANGUAGE = LANGUAGES[0];
+
+export const isSupportedLanguage = (code: unknown): code is string =>
+  typeof code === 'string' && LANGUAGES.some(l => l.code === code);
+
+// Unknown or missing codes fall back to English
+export const languageOf = (code: string | undefined): LanguageOption =>
+  LANGUAGES.find(l => l.code === code) ?? DEFAULT_LANGUAGE;
+
+// The value stored as PaperData.language: English is left out, like on papers from before languages existed
+export const paperLanguage = (code: string | undefined): string | undefined =>
+  isSupportedLanguage(code) && code !== DEFAULT_LANGUAGE.code ? code : undefined;
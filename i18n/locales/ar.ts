@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { UiStrings } from './en';
+
+export const ar: UiStrings = {
+  app: {
+    askThePaper: "اسأل الورقة",
+    copyLink: "نسخ الرابط",
+    linkCopied: "تم نسخ الرابط",
+    dismiss: "إغلاق",
+    figures: "الأشكال",
+    figuresAndTables: "الأشكال والجداول",
+    visualizing: (title) => `تصوير «${title}»`,
+    visualizeNewPaper: "تصوير ورقة جديدة",
+    privacy: "الخصوصية",
+    contact: "اتصل بنا",
+    shareText: (title) => `اطّلع على هذا التصوير التفاعلي لـ«${title}»!`,
+    sharedLinkFailed: "تعذّر فتح هذا الرابط المشترك. قد يكون ناقصًا أو من إصدار أحدث.",
+    createLinkFailed: "تعذّر إنشاء رابط لهذه الورقة. يُرجى المحاولة مرة أخرى.",
+    copyLinkFailed: "تعذّر نسخ الرابط. يُرجى المحاولة مرة أخرى.",
+    analysisFailed: "تعذّر تحليل المستند. قد يكون ملف PDF تالفًا أو كبيرًا جدًا أو محميًا بكلمة مرور. يُرجى المحاولة مرة أخرى.",
+    exportFailed: "تعذّر تصدير هذه الورقة. يُرجى المحاولة مرة أخرى.",
+    readFileFailed: "تعذّرت قراءة هذا الملف.",
+    audienceFailed: "تعذّرت إعادة صياغة هذه الورقة لمستوى القراءة هذا. يُرجى المحاولة مرة أخرى.",
+    translationFailed: "تعذّرت ترجمة هذه الورقة. يُرجى المحاولة مرة أخرى."
+  },
+  nav: {
+    intro: "مقدمة",
+    method: "المنهج",
+    analysis: "التحليل",
+    figures: "الأشكال",
+    impact: "الأثر",
+    terms: "المصطلحات",
+    introduction: "المقدمة",
+    methodology: "المنهجية",
+    glossary: "مسرد المصطلحات",
+    toggleDarkMode: "تبديل الوضع الداكن",
+    library: "المكتبة",
+    paperLibrary: "مكتبة الأوراق",
+    savedPapers: "الأوراق المحفوظة",
+    readingLevel: "مستوى القراءة",
+    writtenFor: "مكتوب لـ",
+    language: "اللغة",
+    translateTo: "ترجمة إلى",
+    cite: "استشهاد",
+    export: "تصدير",
+    staticSite: "موقع ثابت (.zip)",
+    paperJson: "ملف JSON للورقة (.json)",
+    site: "موقع",
+    json: "JSON",
+    settings: "الإعدادات",
+    analysisSettings: "إعدادات التحليل",
+    model: "النموذج",
+    theme: "المظهر",
+    light: "فاتح",
+    dark: "داكن",
+    newPaper: "ورقة جديدة",
+    visualizeNewPaper: "تصوير ورقة جديدة",
+    pdf: "PDF"
+  },
+  audience: {
+    'original': { label: "كما حُلّلت", description: "النص من التحليل الأصلي" },
+    'high-school': { label: "المرحلة الثانوية", description: "لغة يومية وتشبيهات" },
+    'undergraduate': { label: "طالب جامعي", description: "مصطلحات أساسية مع شرح الباقي" },
+    'practitioner': { label: "ممارس", description: "ما الذي يفعله ويحتاجه ويحققه" },
+    'expert': { label: "خبير في المجال", description: "التفاصيل التقنية كاملة" }
+  },
+  input: {
+    steps: {
+      uploading: "جارٍ معالجة المستند",
+      reading: "جارٍ استخراج النص والأشكال",
+      analyzing: "جارٍ تحديد المفاهيم الأساسية",
+      generating: "جارٍ بناء التصوير"
+    },
+    analyzingResearch: "جارٍ تحليل البحث",
+    pleaseWait: "يُرجى الانتظار ريثما يحلّل الذكاء الاصطناعي الورقة.",
+    percentComplete: (percent) => `اكتمل ${percent}٪`,
+    sent: (size) => `أُرسل ${size}`,
+    tokensReceived: (count) => `استُلم ${count} رمزًا`,
+    details: {
+      parsedPages: (parsed, total) => `حُلّلت ${parsed} من ${total} صفحة`,
+      locatingFigures: (page) => `جارٍ تحديد الأشكال في الصفحة ${page}`,
+      noTextLayer: "لم تُعثر على طبقة نصية، يُرسل ملف PDF مباشرة",
+      summarizingPart: (part, total) => `جارٍ تلخيص الجزء ${part} من ${total}`,
+      mergingSummaries: "جارٍ دمج ملخصات الأقسام",
+      findingQuotes: "جارٍ البحث عن اقتباسات داعمة",
+      retrying: (attempt, attempts) => `الاستجابة غير مكتملة، إعادة المحاولة (${attempt} من ${attempts})`
+    },
+    cancel: "إلغاء",
+    close: "إغلاق",
+    visualizeResearch: "تصوير البحث",
+    intro: "ارفع ورقة بحثية كاملة بصيغة PDF أو الصق ملخصًا. سيحلّل الذكاء الاصطناعي المستند بأكمله لاستخراج الأفكار الرئيسية والموضوعات والتصويرات.",
+    removeFile: "إزالة الملف",
+    dropPdf: "انقر أو اسحب ملف PDF إلى هنا",
+    supportedFormat: "الصيغة المدعومة: ‎.pdf (بحد أقصى 10 ميغابايت)",
+    pdfOnly: "يُرجى رفع ملف PDF.",
+    orPasteText: "أو الصق نصًا",
+    notesPlaceholder: "أضف سياقًا أو تعليمات أو جوانب محددة للتركيز عليها (اختياري)...",
+    textPlaceholder: "الصق هنا ملخص الورقة أو مقدمتها أو نصها الكامل...",
+    outputLanguage: "لغة التصوير",
+    orOpenSaved: "أو افتح تصويرًا محفوظًا",
+    importJson: "استيراد ملف JSON لورقة",
+    importJsonHint: "ملف مُصدَّر من ScholarLens أو مكتوب يدويًا. لا حاجة إلى تحليل بالذكاء الاصطناعي.",
+    loadDemo: "تحميل العرض التوضيحي (AlphaQubit)",
+    visualize: "تصوير"
+  },
+  library: {
+    title: "المكتبة",
+    search: "ابحث في العناوين والمؤلفين والمفاهيم...",
+    empty: "تُحفظ الأوراق التي تحللها هنا تلقائيًا.",
+    noMatches: "لا توجد أوراق تطابق بحثك.",
+    confirmDelete: "حذف؟",
+    yes: "نعم",
+    no: "لا",
+    rename: "إعادة التسمية",
+    delete: "حذف",
+    saveName: "حفظ الاسم",
+    loadFailed: "تعذّر تحميل مكتبتك. قد يحظر التصفح الخاص التخزين المحلي.",
+    renameFailed: "تعذّرت إعادة تسمية الورقة. يُرجى المحاولة مرة أخرى.",
+    deleteFailed: "تعذّر حذف الورقة. يُرجى المحاولة مرة أخرى."
+  },
+  figures: {
+    page: (page) => `الصفحة ${page}`,
+    whatItShows: "ما يوضحه هذا الشكل",
+    explain: "ماذا يوضح هذا الشكل؟",
+    explainFailed: "تعذّر إنشاء شرح لهذا الشكل. يُرجى المحاولة مرة أخرى."
+  },
+  concepts: {
+    title: "المفاهيم الأساسية",
+    graphIntro: "تعرّف على العلاقات بين الآليات والبنى الأساسية. اختر مفهومًا لتتبّع روابطه.",
+    cardsIntro: "استكشف الآليات الأساسية والبنى النظرية المستخلصة من البحث. انقر على البطاقات لعرض التفاصيل.",
+    view: "عرض المفاهيم",
+    cards: "بطاقات",
+    graph: "مخطط",
+    filterPlaceholder: "تصفية المفاهيم بكلمة مفتاحية...",
+    clearSearch: "مسح البحث",
+    results: (count) => `عدد النتائج: ${count}`,
+    noResults: "لم يُعثر على مفاهيم",
+    tryAdjusting: (term) => `جرّب تعديل البحث عن «${term}»`,
+    unsupported: "بلا سند",
+    unsupportedHint: "لم يُعثر في الورقة على فقرة تدعم ذلك",
+    clickToReadMore: "انقر لقراءة المزيد",
+    types: {
+      process: "عملية",
+      structure: "بنية",
+      abstract: "مجرد",
+      concept: "مفهوم"
+    }
+  },
+  paper: {
+    researchVisualization: "تصوّر بحثي",
+    scrollToDiscover: "مرّر للاستكشاف",
+    introduction: "المقدمة",
+    introductionParagraph: (n) => `المقدمة، الفقرة ${n}`,
+    analysis: "التحليل",
+    coreMechanisms: "الآليات الأساسية",
+    impact: "الأثر",
+    futureImplications: "آفاق المستقبل",
+    insight: (field) => `«يمثّل هذا البحث خطوة مهمة إلى الأمام في ${field}، وقد يسرّع الوصول إلى تطبيقات عملية.»`,
+    insightAttribution: "— رؤية من تحليل الذكاء الاصطناعي",
+    domainVisual: "تمثيل بصري لمجال البحث",
+    researchTeam: "فريق البحث",
+    keyContributors: "أبرز المساهمين",
+    glossary: "مسرد المصطلحات",
+    keyTerms: "المصطلحات الرئيسية",
+    demo: {
+      surfaceCode: "الشيفرة السطحية",
+      surfaceCodeText: "يتطلب اكتشاف الأخطاء دون إتلاف المعلومات الكمومية \"كيوبتات مثبِّتة\" مساعدة تقيس فحوص التكافؤ. هذه البنية الشبكية هي أساس تحمّل الأعطال.",
+      neuralDecoding: "فك الترميز العصبي",
+      neuralDecodingText: "يتعامل AlphaQubit مع فك الترميز على أنه مسألة تنبؤ بالتسلسل. ويستخدم محوّلًا تكراريًا عالي الأداء لمعالجة السجل المعقد والمشوَّش لقياسات المثبِّتات والتنبؤ بالخطأ.",
+      benchmarking: "قياس الدقة"
+    },
+    fields: {
+      quantum: "الفيزياء الكمومية",
+      ai: "الذكاء الاصطناعي",
+      biology: "علم الأحياء",
+      cosmos: "دراسة الكون",
+      material: "علم المواد",
+      chemistry: "الكيمياء",
+      neuroscience: "علم الأعصاب",
+      earth: "علوم المناخ والأرض",
+      mathematics: "الرياضيات",
+      medicine: "الطب",
+      general: "هذا المجال"
+    }
+  }
+};
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { UiStrings } from './en';
+
+export const de: UiStrings = {
+  app: {
+    askThePaper: "Fragen zum Paper",
+    copyLink: "Link kopieren",
+    linkCopied: "Link kopiert",
+    dismiss: "Schließen",
+    figures: "Abbildungen",
+    figuresAndTables: "Abbildungen & Tabellen",
+    visualizing: (title) => `Visualisierung von „${title}“`,
+    visualizeNewPaper: "Neues Paper visualisieren",
+    privacy: "Datenschutz",
+    contact: "Kontakt",
+    shareText: (title) => `Sieh dir diese interaktive Visualisierung von „${title}“ an!`,
+    sharedLinkFailed: "Dieser geteilte Link konnte nicht geöffnet werden. Er ist möglicherweise unvollständig oder stammt aus einer neueren Version.",
+    createLinkFailed: "Für dieses Paper konnte kein Link erstellt werden. Bitte versuche es erneut.",
+    copyLinkFailed: "Der Link konnte nicht kopiert werden. Bitte versuche es erneut.",
+    analysisFailed: "Das Dokument konnte nicht analysiert werden. Das PDF ist möglicherweise beschädigt, zu groß oder passwortgeschützt. Bitte versuche es erneut.",
+    exportFailed: "Dieses Paper konnte nicht exportiert werden. Bitte versuche es erneut.",
+    readFileFailed: "Diese Datei konnte nicht gelesen werden.",
+    audienceFailed: "Dieses Paper konnte nicht für dieses Leseniveau umgeschrieben werden. Bitte versuche es erneut.",
+    translationFailed: "Dieses Paper konnte nicht übersetzt werden. Bitte versuche es erneut."
+  },
+  nav: {
+    intro: "Intro",
+    method: "Methode",
+    analysis: "Analyse",
+    figures: "Abbildungen",
+    impact: "Bedeutung",
+    terms: "Begriffe",
+    introduction: "Einführung",
+    methodology: "Methodik",
+    glossary: "Glossar",
+    toggleDarkMode: "Dunkelmodus umschalten",
+    library: "Bibliothek",
+    paperLibrary: "Paper-Bibliothek",
+    savedPapers: "Gespeicherte Paper",
+    readingLevel: "Leseniveau",
+    writtenFor: "Geschrieben für",
+    language: "Sprache",
+    translateTo: "Übersetzen in",
+    cite: "Zitieren",
+    export: "Exportieren",
+    staticSite: "Statische Website (.zip)",
+    paperJson: "Paper-JSON (.json)",
+    site: "Website",
+    json: "JSON",
+    settings: "Einstellungen",
+    analysisSettings: "Analyse-Einstellungen",
+    model: "Modell",
+    theme: "Design",
+    light: "Hell",
+    dark: "Dunkel",
+    newPaper: "Neues Paper",
+    visualizeNewPaper: "Neues Paper visualisieren",
+    pdf: "PDF"
+  },
+  audience: {
+    'original': { label: "Wie analysiert", description: "Der Text aus der ursprünglichen Analyse" },
+    'high-school': { label: "Oberstufe", description: "Alltagssprache und Vergleiche" },
+    'undergraduate': { label: "Studium", description: "Grundbegriffe, der Rest erklärt" },
+    'practitioner': { label: "Praxis", description: "Was es leistet, braucht und erreicht" },
+    'expert': { label: "Fachexperten", description: "Alle technischen Details" }
+  },
+  input: {
+    steps: {
+      uploading: "Dokument wird verarbeitet",
+      reading: "Text und Abbildungen werden extrahiert",
+      analyzing: "Schlüsselkonzepte werden ermittelt",
+      generating: "Visualisierung wird erstellt"
+    },
+    analyzingResearch: "Forschung wird analysiert",
+    pleaseWait: "Bitte warte, während unsere KI das Paper entschlüsselt.",
+    percentComplete: (percent) => `${percent} % abgeschlossen`,
+    sent: (size) => `${size} gesendet`,
+    tokensReceived: (count) => `${count} Tokens empfangen`,
+    details: {
+      parsedPages: (parsed, total) => `${parsed} von ${total} Seiten gelesen`,
+      locatingFigures: (page) => `Suche Abbildungen auf Seite ${page}`,
+      noTextLayer: "Keine Textebene gefunden, PDF wird direkt gesendet",
+      summarizingPart: (part, total) => `Fasse Teil ${part} von ${total} zusammen`,
+      mergingSummaries: "Führe Abschnittszusammenfassungen zusammen",
+      findingQuotes: "Suche belegende Zitate",
+      retrying: (attempt, attempts) => `Antwort unvollständig, neuer Versuch (${attempt} von ${attempts})`
+    },
+    cancel: "Abbrechen",
+    close: "Schließen",
+    visualizeResearch: "Forschung visualisieren",
+    intro: "Lade ein vollständiges Forschungspaper als PDF hoch oder füge eine Zusammenfassung ein. Unsere KI analysiert das gesamte Dokument und extrahiert zentrale Erkenntnisse, Themen und Visualisierungen.",
+    removeFile: "Datei entfernen",
+    dropPdf: "PDF hier ablegen oder klicken",
+    supportedFormat: "Unterstütztes Format: .pdf (max. 10 MB)",
+    pdfOnly: "Bitte lade eine PDF-Datei hoch.",
+    orPasteText: "Oder Text einfügen",
+    notesPlaceholder: "Optional: Kontext, Anweisungen oder Schwerpunkte hinzufügen...",
+    textPlaceholder: "Abstract, Einleitung oder Volltext des Papers hier einfügen...",
+    outputLanguage: "Visualisierung verfassen auf",
+    orOpenSaved: "Oder eine gespeicherte Visualisierung öffnen",
+    importJson: "Paper-JSON importieren",
+    importJsonHint: "Eine aus ScholarLens exportierte oder von Hand geschriebene Datei. Keine KI-Analyse nötig.",
+    loadDemo: "Demo laden (AlphaQubit)",
+    visualize: "Visualisieren"
+  },
+  library: {
+    title: "Bibliothek",
+    search: "Titel, Autoren, Konzepte suchen...",
+    empty: "Analysierte Paper werden hier automatisch gespeichert.",
+    noMatches: "Keine Paper entsprechen deiner Suche.",
+    confirmDelete: "Löschen?",
+    yes: "Ja",
+    no: "Nein",
+    rename: "Umbenennen",
+    delete: "Löschen",
+    saveName: "Namen speichern",
+    loadFailed: "Deine Bibliothek konnte nicht geladen werden. Privates Surfen blockiert möglicherweise den lokalen Speicher.",
+    renameFailed: "Das Paper konnte nicht umbenannt werden. Bitte versuche es erneut.",
+    deleteFailed: "Das Paper konnte nicht gelöscht werden. Bitte versuche es erneut."
+  },
+  figures: {
+    page: (page) => `Seite ${page}`,
+    whatItShows: "Was diese Abbildung zeigt",
+    explain: "Was zeigt diese Abbildung?",
+    explainFailed: "Für diese Abbildung konnte keine Erklärung erstellt werden. Bitte versuche es erneut."
+  },
+  concepts: {
+    title: "Schlüsselkonzepte",
+    graphIntro: "Sieh, wie die zentralen Mechanismen und Strukturen zusammenhängen. Wähle ein Konzept, um seine Verbindungen zu verfolgen.",
+    cardsIntro: "Erkunde die zentralen Mechanismen und theoretischen Strukturen der Forschung. Klicke auf die Karten, um Details anzuzeigen.",
+    view: "Konzeptansicht",
+    cards: "Karten",
+    graph: "Graph",
+    filterPlaceholder: "Konzepte nach Stichwort filtern...",
+    clearSearch: "Suche löschen",
+    results: (count) => `${count} ${count !== 1 ? 'Ergebnisse' : 'Ergebnis'} gefunden`,
+    noResults: "Keine Konzepte gefunden",
+    tryAdjusting: (term) => `Versuche, deine Suche nach „${term}“ anzupassen`,
+    unsupported: "Ohne Beleg",
+    unsupportedHint: "Keine Textstelle im Paper gefunden, die dies belegt",
+    clickToReadMore: "Klicken, um mehr zu lesen",
+    types: {
+      process: "Prozess",
+      structure: "Struktur",
+      abstract: "Abstrakt",
+      concept: "Konzept"
+    }
+  },
+  paper: {
+    researchVisualization: "Forschungsvisualisierung",
+    scrollToDiscover: "Scrollen und entdecken",
+    introduction: "Einführung",
+    introductionParagraph: (n) => `Einführung, Absatz ${n}`,
+    analysis: "Analyse",
+    coreMechanisms: "Kernmechanismen",
+    impact: "Bedeutung",
+    futureImplications: "Ausblick",
+    insight: (field) => `„Diese Forschung ist ein bedeutender Fortschritt für ${field} und könnte den Weg zu praktischen Anwendungen verkürzen.“`,
+    insightAttribution: "— KI-Analyse",
+    domainVisual: "Visuelle Darstellung des Forschungsgebiets",
+    researchTeam: "Forschungsteam",
+    keyContributors: "Wichtigste Beteiligte",
+    glossary: "Glossar",
+    keyTerms: "Schlüsselbegriffe",
+    demo: {
+      surfaceCode: "Der Oberflächencode",
+      surfaceCodeText: "Um Fehler zu erkennen, ohne Quanteninformation zu zerstören, braucht es zusätzliche „Stabilisator-Qubits“, die Paritätsprüfungen messen. Diese Gitterstruktur ist die Grundlage der Fehlertoleranz.",
+      neuralDecoding: "Neuronale Dekodierung",
+      neuralDecodingText: "AlphaQubit behandelt die Dekodierung als Sequenzvorhersage. Ein leistungsstarker rekurrenter Transformer verarbeitet die komplexe, verrauschte Historie der Stabilisatormessungen, um den Fehler vorherzusagen.",
+      benchmarking: "Genauigkeit im Vergleich"
+    },
+    fields: {
+      quantum: "die Quantenphysik",
+      ai: "die künstliche Intelligenz",
+      biology: "die Biologie",
+      cosmos: "die Erforschung des Kosmos",
+      material: "die Materialwissenschaft",
+      chemistry: "die Chemie",
+      neuroscience: "die Neurowissenschaften",
+      earth: "die Klima- und Geowissenschaften",
+      mathematics: "die Mathematik",
+      medicine: "die Medizin",
+      general: "dieses Fachgebiet"
+    }
+  }
+};
@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The reference copy of the interface text. Every other locale is typed against it, so a missing
+// string is a type error rather than a blank label.
+export const en = {
+  app: {
+    askThePaper: "Ask the paper",
+    copyLink: "Copy link",
+    linkCopied: "Link copied",
+    dismiss: "Dismiss",
+    figures: "Figures",
+    figuresAndTables: "Figures & Tables",
+    visualizing: (title: string) => `Visualizing "${title}"`,
+    visualizeNewPaper: "Visualize New Paper",
+    privacy: "Privacy",
+    contact: "Contact",
+    shareText: (title: string) => `Check out this interactive visualization of "${title}"!`,
+    sharedLinkFailed: "This shared link couldn't be opened. It may be incomplete or from a newer version.",
+    createLinkFailed: "Couldn't create a link for this paper. Please try again.",
+    copyLinkFailed: "Couldn't copy the link. Please try again.",
+    analysisFailed: "Failed to analyze the document. The PDF might be corrupted, too large, or password protected. Please try again.",
+    exportFailed: "Couldn't export this paper. Please try again.",
+    readFileFailed: "Couldn't read this file.",
+    audienceFailed: "Couldn't rewrite this paper for that reading level. Please try again.",
+    translationFailed: "Couldn't translate this paper. Please try again."
+  },
+  nav: {
+    intro: "Intro",
+    method: "Method",
+    analysis: "Analysis",
+    figures: "Figures",
+    impact: "Impact",
+    terms: "Terms",
+    introduction: "Introduction",
+    methodology: "Methodology",
+    glossary: "Glossary",
+    toggleDarkMode: "Toggle Dark Mode",
+    library: "Library",
+    paperLibrary: "Paper Library",
+    savedPapers: "Saved Papers",
+    readingLevel: "Reading level",
+    writtenFor: "Written for",
+    language: "Language",
+    translateTo: "Translate to",
+    cite: "Cite",
+    export: "Export",
+    staticSite: "Static site (.zip)",
+    paperJson: "Paper JSON (.json)",
+    site: "Site",
+    json: "JSON",
+    settings: "Settings",
+    analysisSettings: "Analysis Settings",
+    model: "Model",
+    theme: "Theme",
+    light: "Light",
+    dark: "Dark",
+    newPaper: "New Paper",
+    visualizeNewPaper: "Visualize New Paper",
+    pdf: "PDF"
+  },
+  audience: {
+    'original': { label: "As analyzed", description: "The text from the original analysis" },
+    'high-school': { label: "High school", description: "Everyday language and analogies" },
+    'undergraduate': { label: "Undergraduate", description: "Introductory terms, the rest explained" },
+    'practitioner': { label: "Practitioner", description: "What it does, needs and achieves" },
+    'expert': { label: "Domain expert", description: "Full technical detail" }
+  },
+  input: {
+    steps: {
+      uploading: "Processing Document",
+      reading: "Extracting Text & Figures",
+      analyzing: "Identifying Key Concepts",
+      generating: "Constructing Visualization"
+    },
+    analyzingResearch: "Analyzing Research",
+    pleaseWait: "Please wait while our AI decodes the paper.",
+    percentComplete: (percent: number) => `${percent}% Complete`,
+    sent: (size: string) => `${size} sent`,
+    tokensReceived: (count: string) => `${count} tokens received`,
+    details: {
+      parsedPages: (parsed: number, total: number) => `Parsed ${parsed} of ${total} pages`,
+      locatingFigures: (page: number) => `Locating figures on page ${page}`,
+      noTextLayer: "No text layer found, sending the PDF directly",
+      summarizingPart: (part: number, total: number) => `Summarizing part ${part} of ${total}`,
+      mergingSummaries: "Merging section summaries",
+      findingQuotes: "Finding supporting quotes",
+      retrying: (attempt: number, attempts: number) => `Response was incomplete, retrying (${attempt} of ${attempts})`
+    },
+    cancel: "Cancel",
+    close: "Close",
+    visualizeResearch: "Visualize Research",
+    intro: "Upload a full PDF research paper or paste an abstract. Our AI will analyze the entire document to extract key insights, themes, and visualizations.",
+    removeFile: "Remove File",
+    dropPdf: "Click or Drag PDF Here",
+    supportedFormat: "Supported format: .pdf (Max 10MB)",
+    pdfOnly: "Please upload a PDF file.",
+    orPasteText: "Or paste text",
+    notesPlaceholder: "Add optional context, instructions, or specific areas to focus on...",
+    textPlaceholder: "Paste paper abstract, introduction, or full text here...",
+    outputLanguage: "Write the visualization in",
+    orOpenSaved: "Or open a saved visualization",
+    importJson: "Import Paper JSON",
+    importJsonHint: "A file exported from ScholarLens or written by hand. No AI analysis needed.",
+    loadDemo: "Load Demo (AlphaQubit)",
+    visualize: "Visualize"
+  },
+  library: {
+    title: "Library",
+    search: "Search titles, authors, concepts...",
+    empty: "Papers you analyze are saved here automatically.",
+    noMatches: "No papers match your search.",
+    confirmDelete: "Delete?",
+    yes: "Yes",
+    no: "No",
+    rename: "Rename",
+    delete: "Delete",
+    saveName: "Save name",
+    loadFailed: "Your library couldn't be loaded. Private browsing may block local storage.",
+    renameFailed: "Couldn't rename the paper. Please try again.",
+    deleteFailed: "Couldn't delete the paper. Please try again."
+  },
+  figures: {
+    page: (page: number) => `Page ${page}`,
+    whatItShows: "What this figure shows",
+    explain: "What does this figure show?",
+    explainFailed: "Couldn't generate an explanation for this figure. Please try again."
+  },
+  concepts: {
+    title: "Key Concepts",
+    graphIntro: "See how the core mechanisms and structures relate. Select a concept to trace its connections.",
+    cardsIntro: "Explore the core mechanisms and theoretical structures extracted from the research. Click cards to expand details.",
+    view: "Concept view",
+    cards: "Cards",
+    graph: "Graph",
+    filterPlaceholder: "Filter concepts by keyword...",
+    clearSearch: "Clear Search",
+    results: (count: number) => `Found ${count} result${count !== 1 ? 's' : ''}`,
+    noResults: "No concepts found",
+    tryAdjusting: (term: string) => `Try adjusting your search for "${term}"`,
+    unsupported: "Unsupported",
+    unsupportedHint: "Not backed by a passage found in the paper",
+    clickToReadMore: "Click to read more",
+    types: {
+      process: "Process",
+      structure: "Structure",
+      abstract: "Abstract",
+      concept: "Concept"
+    }
+  },
+  paper: {
+    researchVisualization: "Research Visualization",
+    scrollToDiscover: "Scroll to discover",
+    introduction: "Introduction",
+    introductionParagraph: (n: number) => `Introduction, paragraph ${n}`,
+    analysis: "Analysis",
+    coreMechanisms: "Core Mechanisms",
+    impact: "Impact",
+    futureImplications: "Future Implications",
+    insight: (field: string) => `"This research represents a significant step forward in our understanding of ${field}, potentially accelerating the timeline for practical applications."`,
+    insightAttribution: "— AI Analysis Insight",
+    domainVisual: "Visual Representation of Research Domain",
+    researchTeam: "Research Team",
+    keyContributors: "Key Contributors",
+    glossary: "Glossary",
+    keyTerms: "Key Terms",
+    // The AlphaQubit demo's hand-built analysis section
+    demo: {
+      surfaceCode: "The Surface Code",
+      surfaceCodeText: "Detecting errors without destroying quantum information requires auxiliary \"Stabilizer Qubits\" that measure parity checks. This lattice structure is the foundation of fault tolerance.",
+      neuralDecoding: "Neural Decoding",
+      neuralDecodingText: "AlphaQubit treats decoding as a sequence prediction problem. It uses a high-performance Recurrent Transformer to process the complex, noisy history of stabilizer measurements to predict the error.",
+      benchmarking: "Benchmarking Accuracy"
+    },
+    // Built-in research fields as they read inside `insight`; plugin themes fall back to their own label
+    fields: {
+      quantum: "quantum physics",
+      ai: "artificial intelligence",
+      biology: "biology",
+      cosmos: "the cosmos",
+      material: "materials science",
+      chemistry: "chemistry",
+      neuroscience: "neuroscience",
+      earth: "climate and earth science",
+      mathematics: "mathematics",
+      medicine: "medicine",
+      general: "this field"
+    }
+  }
+};
+
+export type UiStrings = typeof en;
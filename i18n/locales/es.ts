@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { UiStrings } from './en';
+
+export const es: UiStrings = {
+  app: {
+    askThePaper: "Pregunta al artículo",
+    copyLink: "Copiar enlace",
+    linkCopied: "Enlace copiado",
+    dismiss: "Cerrar",
+    figures: "Figuras",
+    figuresAndTables: "Figuras y tablas",
+    visualizing: (title) => `Visualizando «${title}»`,
+    visualizeNewPaper: "Visualizar otro artículo",
+    privacy: "Privacidad",
+    contact: "Contacto",
+    shareText: (title) => `¡Mira esta visualización interactiva de «${title}»!`,
+    sharedLinkFailed: "No se pudo abrir este enlace compartido. Puede estar incompleto o proceder de una versión más reciente.",
+    createLinkFailed: "No se pudo crear un enlace para este artículo. Inténtalo de nuevo.",
+    copyLinkFailed: "No se pudo copiar el enlace. Inténtalo de nuevo.",
+    analysisFailed: "No se pudo analizar el documento. Es posible que el PDF esté dañado, sea demasiado grande o esté protegido con contraseña. Inténtalo de nuevo.",
+    exportFailed: "No se pudo exportar este artículo. Inténtalo de nuevo.",
+    readFileFailed: "No se pudo leer este archivo.",
+    audienceFailed: "No se pudo reescribir este artículo para ese nivel de lectura. Inténtalo de nuevo.",
+    translationFailed: "No se pudo traducir este artículo. Inténtalo de nuevo."
+  },
+  nav: {
+    intro: "Intro",
+    method: "Método",
+    analysis: "Análisis",
+    figures: "Figuras",
+    impact: "Impacto",
+    terms: "Términos",
+    introduction: "Introducción",
+    methodology: "Metodología",
+    glossary: "Glosario",
+    toggleDarkMode: "Cambiar modo oscuro",
+    library: "Biblioteca",
+    paperLibrary: "Biblioteca de artículos",
+    savedPapers: "Artículos guardados",
+    readingLevel: "Nivel de lectura",
+    writtenFor: "Escrito para",
+    language: "Idioma",
+    translateTo: "Traducir a",
+    cite: "Citar",
+    export: "Exportar",
+    staticSite: "Sitio estático (.zip)",
+    paperJson: "JSON del artículo (.json)",
+    site: "Sitio",
+    json: "JSON",
+    settings: "Ajustes",
+    analysisSettings: "Ajustes de análisis",
+    model: "Modelo",
+    theme: "Tema",
+    light: "Claro",
+    dark: "Oscuro",
+    newPaper: "Nuevo artículo",
+    visualizeNewPaper: "Visualizar otro artículo",
+    pdf: "PDF"
+  },
+  audience: {
+    'original': { label: "Como se analizó", description: "El texto del análisis original" },
+    'high-school': { label: "Secundaria", description: "Lenguaje cotidiano y analogías" },
+    'undergraduate': { label: "Universitario", description: "Términos básicos, el resto explicado" },
+    'practitioner': { label: "Profesional", description: "Qué hace, qué necesita y qué logra" },
+    'expert': { label: "Experto en el campo", description: "Todo el detalle técnico" }
+  },
+  input: {
+    steps: {
+      uploading: "Procesando el documento",
+      reading: "Extrayendo texto y figuras",
+      analyzing: "Identificando conceptos clave",
+      generating: "Construyendo la visualización"
+    },
+    analyzingResearch: "Analizando la investigación",
+    pleaseWait: "Espera mientras nuestra IA descifra el artículo.",
+    percentComplete: (percent) => `${percent} % completado`,
+    sent: (size) => `${size} enviados`,
+    tokensReceived: (count) => `${count} tokens recibidos`,
+    details: {
+      parsedPages: (parsed, total) => `${parsed} de ${total} páginas leídas`,
+      locatingFigures: (page) => `Buscando figuras en la página ${page}`,
+      noTextLayer: "No se encontró capa de texto; se envía el PDF directamente",
+      summarizingPart: (part, total) => `Resumiendo la parte ${part} de ${total}`,
+      mergingSummaries: "Combinando los resúmenes de las secciones",
+      findingQuotes: "Buscando citas que lo respalden",
+      retrying: (attempt, attempts) => `Respuesta incompleta, reintentando (${attempt} de ${attempts})`
+    },
+    cancel: "Cancelar",
+    close: "Cerrar",
+    visualizeResearch: "Visualizar investigación",
+    intro: "Sube un artículo de investigación completo en PDF o pega un resumen. Nuestra IA analizará todo el documento para extraer ideas clave, temas y visualizaciones.",
+    removeFile: "Quitar archivo",
+    dropPdf: "Haz clic o arrastra un PDF aquí",
+    supportedFormat: "Formato admitido: .pdf (máx. 10 MB)",
+    pdfOnly: "Sube un archivo PDF.",
+    orPasteText: "O pega texto",
+    notesPlaceholder: "Añade contexto, instrucciones o aspectos concretos en los que centrarse (opcional)...",
+    textPlaceholder: "Pega aquí el resumen, la introducción o el texto completo del artículo...",
+    outputLanguage: "Escribir la visualización en",
+    orOpenSaved: "O abre una visualización guardada",
+    importJson: "Importar JSON del artículo",
+    importJsonHint: "Un archivo exportado desde ScholarLens o escrito a mano. No requiere análisis con IA.",
+    loadDemo: "Cargar demo (AlphaQubit)",
+    visualize: "Visualizar"
+  },
+  library: {
+    title: "Biblioteca",
+    search: "Buscar títulos, autores, conceptos...",
+    empty: "Los artículos que analices se guardan aquí automáticamente.",
+    noMatches: "Ningún artículo coincide con tu búsqueda.",
+    confirmDelete: "¿Eliminar?",
+    yes: "Sí",
+    no: "No",
+    rename: "Renombrar",
+    delete: "Eliminar",
+    saveName: "Guardar nombre",
+    loadFailed: "No se pudo cargar tu biblioteca. La navegación privada puede bloquear el almacenamiento local.",
+    renameFailed: "No se pudo renombrar el artículo. Inténtalo de nuevo.",
+    deleteFailed: "No se pudo eliminar el artículo. Inténtalo de nuevo."
+  },
+  figures: {
+    page: (page) => `Página ${page}`,
+    whatItShows: "Qué muestra esta figura",
+    explain: "¿Qué muestra esta figura?",
+    explainFailed: "No se pudo generar una explicación para esta figura. Inténtalo de nuevo."
+  },
+  concepts: {
+    title: "Conceptos clave",
+    graphIntro: "Observa cómo se relacionan los mecanismos y estructuras centrales. Selecciona un concepto para seguir sus conexiones.",
+    cardsIntro: "Explora los mecanismos centrales y las estructuras teóricas extraídos de la investigación. Haz clic en las tarjetas para ver los detalles.",
+    view: "Vista de conceptos",
+    cards: "Tarjetas",
+    graph: "Grafo",
+    filterPlaceholder: "Filtrar conceptos por palabra clave...",
+    clearSearch: "Borrar búsqueda",
+    results: (count) => `${count} resultado${count !== 1 ? 's' : ''}`,
+    noResults: "No se encontraron conceptos",
+    tryAdjusting: (term) => `Prueba a ajustar tu búsqueda de «${term}»`,
+    unsupported: "Sin respaldo",
+    unsupportedHint: "No se encontró ningún pasaje del artículo que lo respalde",
+    clickToReadMore: "Haz clic para leer más",
+    types: {
+      process: "Proceso",
+      structure: "Estructura",
+      abstract: "Abstracto",
+      concept: "Concepto"
+    }
+  },
+  paper: {
+    researchVisualization: "Visualización de investigación",
+    scrollToDiscover: "Desplázate para descubrir",
+    introduction: "Introducción",
+    introductionParagraph: (n) => `Introducción, párrafo ${n}`,
+    analysis: "Análisis",
+    coreMechanisms: "Mecanismos centrales",
+    impact: "Impacto",
+    futureImplications: "Implicaciones futuras",
+    insight: (field) => `«Esta investigación supone un avance significativo en ${field} y podría acelerar la llegada de aplicaciones prácticas».`,
+    insightAttribution: "— Análisis de la IA",
+    domainVisual: "Representación visual del campo de investigación",
+    researchTeam: "Equipo de investigación",
+    keyContributors: "Autores principales",
+    glossary: "Glosario",
+    keyTerms: "Términos clave",
+    demo: {
+      surfaceCode: "El código de superficie",
+      surfaceCodeText: "Detectar errores sin destruir la información cuántica requiere \"cúbits estabilizadores\" auxiliares que miden comprobaciones de paridad. Esta estructura reticular es la base de la tolerancia a fallos.",
+      neuralDecoding: "Decodificación neuronal",
+      neuralDecodingText: "AlphaQubit trata la decodificación como un problema de predicción de secuencias. Utiliza un Transformer recurrente de alto rendimiento para procesar el historial complejo y ruidoso de mediciones de estabilizadores y predecir el error.",
+      benchmarking: "Evaluación de la precisión"
+    },
+    fields: {
+      quantum: "la física cuántica",
+      ai: "la inteligencia artificial",
+      biology: "la biología",
+      cosmos: "el estudio del cosmos",
+      material: "la ciencia de materiales",
+      chemistry: "la química",
+      neuroscience: "la neurociencia",
+      earth: "las ciencias del clima y de la Tierra",
+      mathematics: "las matemáticas",
+      medicine: "la medicina",
+      general: "este campo"
+    }
+  }
+};
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { UiStrings } from './en';
+
+export const fr: UiStrings = {
+  app: {
+    askThePaper: "Interroger l'article",
+    copyLink: "Copier le lien",
+    linkCopied: "Lien copié",
+    dismiss: "Fermer",
+    figures: "Figures",
+    figuresAndTables: "Figures et tableaux",
+    visualizing: (title) => `Visualisation de « ${title} »`,
+    visualizeNewPaper: "Visualiser un autre article",
+    privacy: "Confidentialité",
+    contact: "Contact",
+    shareText: (title) => `Découvrez cette visualisation interactive de « ${title} » !`,
+    sharedLinkFailed: "Impossible d'ouvrir ce lien partagé. Il est peut-être incomplet ou provient d'une version plus récente.",
+    createLinkFailed: "Impossible de créer un lien pour cet article. Veuillez réessayer.",
+    copyLinkFailed: "Impossible de copier le lien. Veuillez réessayer.",
+    analysisFailed: "L'analyse du document a échoué. Le PDF est peut-être corrompu, trop volumineux ou protégé par un mot de passe. Veuillez réessayer.",
+    exportFailed: "Impossible d'exporter cet article. Veuillez réessayer.",
+    readFileFailed: "Impossible de lire ce fichier.",
+    audienceFailed: "Impossible de réécrire cet article pour ce niveau de lecture. Veuillez réessayer.",
+    translationFailed: "Impossible de traduire cet article. Veuillez réessayer."
+  },
+  nav: {
+    intro: "Intro",
+    method: "Méthode",
+    analysis: "Analyse",
+    figures: "Figures",
+    impact: "Impact",
+    terms: "Termes",
+    introduction: "Introduction",
+    methodology: "Méthodologie",
+    glossary: "Glossaire",
+    toggleDarkMode: "Activer ou désactiver le mode sombre",
+    library: "Bibliothèque",
+    paperLibrary: "Bibliothèque d'articles",
+    savedPapers: "Articles enregistrés",
+    readingLevel: "Niveau de lecture",
+    writtenFor: "Écrit pour",
+    language: "Langue",
+    translateTo: "Traduire en",
+    cite: "Citer",
+    export: "Exporter",
+    staticSite: "Site statique (.zip)",
+    paperJson: "JSON de l'article (.json)",
+    site: "Site",
+    json: "JSON",
+    settings: "Paramètres",
+    analysisSettings: "Paramètres d'analyse",
+    model: "Modèle",
+    theme: "Thème",
+    light: "Clair",
+    dark: "Sombre",
+    newPaper: "Nouvel article",
+    visualizeNewPaper: "Visualiser un autre article",
+    pdf: "PDF"
+  },
+  audience: {
+    'original': { label: "Tel qu'analysé", description: "Le texte de l'analyse d'origine" },
+    'high-school': { label: "Lycée", description: "Langage courant et analogies" },
+    'undergraduate': { label: "Licence", description: "Termes de base, le reste expliqué" },
+    'practitioner': { label: "Praticien", description: "Ce que la méthode fait, requiert et obtient" },
+    'expert': { label: "Expert du domaine", description: "Tout le détail technique" }
+  },
+  input: {
+    steps: {
+      uploading: "Traitement du document",
+      reading: "Extraction du texte et des figures",
+      analyzing: "Identification des concepts clés",
+      generating: "Construction de la visualisation"
+    },
+    analyzingResearch: "Analyse de la recherche",
+    pleaseWait: "Veuillez patienter pendant que notre IA décrypte l'article.",
+    percentComplete: (percent) => `${percent} % terminé`,
+    sent: (size) => `${size} envoyés`,
+    tokensReceived: (count) => `${count} jetons reçus`,
+    details: {
+      parsedPages: (parsed, total) => `${parsed} pages lues sur ${total}`,
+      locatingFigures: (page) => `Recherche des figures page ${page}`,
+      noTextLayer: "Aucune couche de texte trouvée, envoi direct du PDF",
+      summarizingPart: (part, total) => `Résumé de la partie ${part} sur ${total}`,
+      mergingSummaries: "Fusion des résumés de sections",
+      findingQuotes: "Recherche de citations à l'appui",
+      retrying: (attempt, attempts) => `Réponse incomplète, nouvel essai (${attempt} sur ${attempts})`
+    },
+    cancel: "Annuler",
+    close: "Fermer",
+    visualizeResearch: "Visualiser une recherche",
+    intro: "Importez un article de recherche complet au format PDF ou collez un résumé. Notre IA analysera l'ensemble du document pour en extraire les idées clés, les thèmes et des visualisations.",
+    removeFile: "Retirer le fichier",
+    dropPdf: "Cliquez ou déposez un PDF ici",
+    supportedFormat: "Format accepté : .pdf (10 Mo max.)",
+    pdfOnly: "Veuillez importer un fichier PDF.",
+    orPasteText: "Ou collez du texte",
+    notesPlaceholder: "Ajoutez du contexte, des instructions ou des points précis sur lesquels insister (facultatif)...",
+    textPlaceholder: "Collez ici le résumé, l'introduction ou le texte intégral de l'article...",
+    outputLanguage: "Rédiger la visualisation en",
+    orOpenSaved: "Ou ouvrez une visualisation enregistrée",
+    importJson: "Importer le JSON d'un article",
+    importJsonHint: "Un fichier exporté depuis ScholarLens ou écrit à la main. Aucune analyse par IA nécessaire.",
+    loadDemo: "Charger la démo (AlphaQubit)",
+    visualize: "Visualiser"
+  },
+  library: {
+    title: "Bibliothèque",
+    search: "Rechercher titres, auteurs, concepts...",
+    empty: "Les articles que vous analysez sont enregistrés ici automatiquement.",
+    noMatches: "Aucun article ne correspond à votre recherche.",
+    confirmDelete: "Supprimer ?",
+    yes: "Oui",
+    no: "Non",
+    rename: "Renommer",
+    delete: "Supprimer",
+    saveName: "Enregistrer le nom",
+    loadFailed: "Impossible de charger votre bibliothèque. La navigation privée peut bloquer le stockage local.",
+    renameFailed: "Impossible de renommer l'article. Veuillez réessayer.",
+    deleteFailed: "Impossible de supprimer l'article. Veuillez réessayer."
+  },
+  figures: {
+    page: (page) => `Page ${page}`,
+    whatItShows: "Ce que montre cette figure",
+    explain: "Que montre cette figure ?",
+    explainFailed: "Impossible de générer une explication pour cette figure. Veuillez réessayer."
+  },
+  concepts: {
+    title: "Concepts clés",
+    graphIntro: "Voyez comment les mécanismes et structures centraux sont liés. Sélectionnez un concept pour suivre ses connexions.",
+    cardsIntro: "Explorez les mécanismes centraux et les structures théoriques extraits de la recherche. Cliquez sur les cartes pour afficher les détails.",
+    view: "Affichage des concepts",
+    cards: "Cartes",
+    graph: "Graphe",
+    filterPlaceholder: "Filtrer les concepts par mot-clé...",
+    clearSearch: "Effacer la recherche",
+    results: (count) => `${count} résultat${count > 1 ? 's' : ''}`,
+    noResults: "Aucun concept trouvé",
+    tryAdjusting: (term) => `Essayez de modifier votre recherche « ${term} »`,
+    unsupported: "Non étayé",
+    unsupportedHint: "Aucun passage de l'article trouvé pour l'étayer",
+    clickToReadMore: "Cliquez pour en savoir plus",
+    types: {
+      process: "Processus",
+      structure: "Structure",
+      abstract: "Abstrait",
+      concept: "Concept"
+    }
+  },
+  paper: {
+    researchVisualization: "Visualisation de recherche",
+    scrollToDiscover: "Faites défiler pour découvrir",
+    introduction: "Introduction",
+    introductionParagraph: (n) => `Introduction, paragraphe ${n}`,
+    analysis: "Analyse",
+    coreMechanisms: "Mécanismes clés",
+    impact: "Impact",
+    futureImplications: "Perspectives",
+    insight: (field) => `« Cette recherche représente une avancée importante pour ${field} et pourrait accélérer l'arrivée d'applications pratiques. »`,
+    insightAttribution: "— Analyse par IA",
+    domainVisual: "Représentation visuelle du domaine de recherche",
+    researchTeam: "Équipe de recherche",
+    keyContributors: "Principaux auteurs",
+    glossary: "Glossaire",
+    keyTerms: "Termes clés",
+    demo: {
+      surfaceCode: "Le code de surface",
+      surfaceCodeText: "Détecter les erreurs sans détruire l'information quantique exige des « qubits stabilisateurs » auxiliaires qui mesurent des contrôles de parité. Cette structure en réseau est le fondement de la tolérance aux fautes.",
+      neuralDecoding: "Décodage neuronal",
+      neuralDecodingText: "AlphaQubit traite le décodage comme un problème de prédiction de séquence. Il utilise un Transformer récurrent performant pour traiter l'historique complexe et bruité des mesures des stabilisateurs et prédire l'erreur.",
+      benchmarking: "Évaluation de la précision"
+    },
+    fields: {
+      quantum: "la physique quantique",
+      ai: "l'intelligence artificielle",
+      biology: "la biologie",
+      cosmos: "l'étude du cosmos",
+      material: "la science des matériaux",
+      chemistry: "la chimie",
+      neuroscience: "les neurosciences",
+      earth: "les sciences du climat et de la Terre",
+      mathematics: "les mathématiques",
+      medicine: "la médecine",
+      general: "ce domaine"
+    }
+  }
+};
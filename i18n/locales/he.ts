@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { UiStrings } from './en';
+
+export const he: UiStrings = {
+  app: {
+    askThePaper: "שאלו את המאמר",
+    copyLink: "העתקת קישור",
+    linkCopied: "הקישור הועתק",
+    dismiss: "סגירה",
+    figures: "איורים",
+    figuresAndTables: "איורים וטבלאות",
+    visualizing: (title) => `הדמיה של "${title}"`,
+    visualizeNewPaper: "הדמיה של מאמר חדש",
+    privacy: "פרטיות",
+    contact: "צור קשר",
+    shareText: (title) => `כדאי לראות את ההדמיה האינטראקטיבית של "${title}"!`,
+    sharedLinkFailed: "לא ניתן לפתוח את הקישור המשותף. ייתכן שהוא חלקי או שנוצר בגרסה חדשה יותר.",
+    createLinkFailed: "לא ניתן ליצור קישור למאמר הזה. נסו שוב.",
+    copyLinkFailed: "לא ניתן להעתיק את הקישור. נסו שוב.",
+    analysisFailed: "ניתוח המסמך נכשל. ייתכן שקובץ ה-PDF פגום, גדול מדי או מוגן בסיסמה. נסו שוב.",
+    exportFailed: "לא ניתן לייצא את המאמר הזה. נסו שוב.",
+    readFileFailed: "לא ניתן לקרוא את הקובץ הזה.",
+    audienceFailed: "לא ניתן לנסח מחדש את המאמר לרמת הקריאה הזו. נסו שוב.",
+    translationFailed: "לא ניתן לתרגם את המאמר הזה. נסו שוב."
+  },
+  nav: {
+    intro: "מבוא",
+    method: "שיטה",
+    analysis: "ניתוח",
+    figures: "איורים",
+    impact: "השפעה",
+    terms: "מונחים",
+    introduction: "מבוא",
+    methodology: "מתודולוגיה",
+    glossary: "מילון מונחים",
+    toggleDarkMode: "החלפת מצב כהה",
+    library: "ספרייה",
+    paperLibrary: "ספריית מאמרים",
+    savedPapers: "מאמרים שמורים",
+    readingLevel: "רמת קריאה",
+    writtenFor: "נכתב עבור",
+    language: "שפה",
+    translateTo: "תרגום ל",
+    cite: "ציטוט",
+    export: "ייצוא",
+    staticSite: "אתר סטטי (.zip)",
+    paperJson: "JSON של המאמר (.json)",
+    site: "אתר",
+    json: "JSON",
+    settings: "הגדרות",
+    analysisSettings: "הגדרות ניתוח",
+    model: "מודל",
+    theme: "ערכת נושא",
+    light: "בהיר",
+    dark: "כהה",
+    newPaper: "מאמר חדש",
+    visualizeNewPaper: "הדמיה של מאמר חדש",
+    pdf: "PDF"
+  },
+  audience: {
+    'original': { label: "כפי שנותח", description: "הטקסט מהניתוח המקורי" },
+    'high-school': { label: "תיכון", description: "שפה יומיומית ואנלוגיות" },
+    'undergraduate': { label: "תואר ראשון", description: "מונחי יסוד, והשאר מוסבר" },
+    'practitioner': { label: "אנשי מקצוע", description: "מה השיטה עושה, דורשת ומשיגה" },
+    'expert': { label: "מומחי תחום", description: "כל הפרטים הטכניים" }
+  },
+  input: {
+    steps: {
+      uploading: "מעבד את המסמך",
+      reading: "מחלץ טקסט ואיורים",
+      analyzing: "מזהה מושגי מפתח",
+      generating: "בונה את ההדמיה"
+    },
+    analyzingResearch: "מנתח את המחקר",
+    pleaseWait: "אנא המתינו בזמן שהבינה המלאכותית מפענחת את המאמר.",
+    percentComplete: (percent) => `${percent}% הושלמו`,
+    sent: (size) => `${size} נשלחו`,
+    tokensReceived: (count) => `${count} טוקנים התקבלו`,
+    details: {
+      parsedPages: (parsed, total) => `נותחו ${parsed} מתוך ${total} עמודים`,
+      locatingFigures: (page) => `מאתר איורים בעמוד ${page}`,
+      noTextLayer: "לא נמצאה שכבת טקסט, קובץ ה-PDF נשלח ישירות",
+      summarizingPart: (part, total) => `מסכם חלק ${part} מתוך ${total}`,
+      mergingSummaries: "ממזג את סיכומי הסעיפים",
+      findingQuotes: "מחפש ציטוטים תומכים",
+      retrying: (attempt, attempts) => `התגובה חלקית, מנסה שוב (${attempt} מתוך ${attempts})`
+    },
+    cancel: "ביטול",
+    close: "סגירה",
+    visualizeResearch: "הדמיית מחקר",
+    intro: "העלו מאמר מחקר מלא בפורמט PDF או הדביקו תקציר. הבינה המלאכותית תנתח את המסמך כולו ותחלץ תובנות מרכזיות, נושאים והדמיות.",
+    removeFile: "הסרת הקובץ",
+    dropPdf: "לחצו או גררו לכאן קובץ PDF",
+    supportedFormat: "פורמט נתמך: ‎.pdf (עד 10MB)",
+    pdfOnly: "יש להעלות קובץ PDF.",
+    orPasteText: "או הדביקו טקסט",
+    notesPlaceholder: "הוסיפו הקשר, הנחיות או נושאים להתמקד בהם (אופציונלי)...",
+    textPlaceholder: "הדביקו כאן את התקציר, המבוא או הטקסט המלא של המאמר...",
+    outputLanguage: "שפת ההדמיה",
+    orOpenSaved: "או פתחו הדמיה שמורה",
+    importJson: "ייבוא JSON של מאמר",
+    importJsonHint: "קובץ שיוצא מ-ScholarLens או נכתב ידנית. אין צורך בניתוח בינה מלאכותית.",
+    loadDemo: "טעינת הדגמה (AlphaQubit)",
+    visualize: "הדמיה"
+  },
+  library: {
+    title: "ספרייה",
+    search: "חיפוש כותרות, מחברים, מושגים...",
+    empty: "מאמרים שניתחת נשמרים כאן אוטומטית.",
+    noMatches: "אין מאמרים שתואמים לחיפוש.",
+    confirmDelete: "למחוק?",
+    yes: "כן",
+    no: "לא",
+    rename: "שינוי שם",
+    delete: "מחיקה",
+    saveName: "שמירת השם",
+    loadFailed: "לא ניתן היה לטעון את הספרייה. גלישה פרטית עשויה לחסום אחסון מקומי.",
+    renameFailed: "לא ניתן היה לשנות את שם המאמר. נסו שוב.",
+    deleteFailed: "לא ניתן היה למחוק את המאמר. נסו שוב."
+  },
+  figures: {
+    page: (page) => `עמוד ${page}`,
+    whatItShows: "מה האיור מראה",
+    explain: "מה האיור הזה מראה?",
+    explainFailed: "לא ניתן היה ליצור הסבר לאיור הזה. נסו שוב."
+  },
+  concepts: {
+    title: "מושגי מפתח",
+    graphIntro: "ראו כיצד המנגנונים והמבנים המרכזיים קשורים זה לזה. בחרו מושג כדי לעקוב אחר הקשרים שלו.",
+    cardsIntro: "גלו את המנגנונים המרכזיים והמבנים התאורטיים שחולצו מהמחקר. לחצו על הכרטיסים להצגת פרטים.",
+    view: "תצוגת מושגים",
+    cards: "כרטיסים",
+    graph: "גרף",
+    filterPlaceholder: "סינון מושגים לפי מילת מפתח...",
+    clearSearch: "ניקוי החיפוש",
+    results: (count) => count === 1 ? "נמצאה תוצאה אחת" : `נמצאו ${count} תוצאות`,
+    noResults: "לא נמצאו מושגים",
+    tryAdjusting: (term) => `נסו לשנות את החיפוש "${term}"`,
+    unsupported: "ללא סימוכין",
+    unsupportedHint: "לא נמצא במאמר קטע שתומך בכך",
+    clickToReadMore: "לחצו לקריאה נוספת",
+    types: {
+      process: "תהליך",
+      structure: "מבנה",
+      abstract: "מופשט",
+      concept: "מושג"
+    }
+  },
+  paper: {
+    researchVisualization: "הדמיית מחקר",
+    scrollToDiscover: "גללו כדי לגלות",
+    introduction: "מבוא",
+    introductionParagraph: (n) => `מבוא, פסקה ${n}`,
+    analysis: "ניתוח",
+    coreMechanisms: "מנגנוני הליבה",
+    impact: "השפעה",
+    futureImplications: "השלכות לעתיד",
+    insight: (field) => `"מחקר זה מהווה צעד משמעותי קדימה ${field}, ועשוי לקרב את היישומים המעשיים."`,
+    insightAttribution: "— תובנה מניתוח הבינה המלאכותית",
+    domainVisual: "ייצוג חזותי של תחום המחקר",
+    researchTeam: "צוות המחקר",
+    keyContributors: "תורמים מרכזיים",
+    glossary: "מילון מונחים",
+    keyTerms: "מונחי מפתח",
+    demo: {
+      surfaceCode: "קוד המשטח",
+      surfaceCodeText: "זיהוי שגיאות בלי להרוס את המידע הקוונטי דורש \"קיוביטים מייצבים\" עזר שמודדים בדיקות זוגיות. מבנה הסריג הזה הוא הבסיס לעמידות בפני תקלות.",
+      neuralDecoding: "פענוח עצבי",
+      neuralDecodingText: "AlphaQubit מתייחס לפענוח כבעיית חיזוי רצפים. הוא משתמש ב-Transformer רקורסיבי בעל ביצועים גבוהים כדי לעבד את ההיסטוריה המורכבת והרועשת של מדידות המייצבים ולחזות את השגיאה.",
+      benchmarking: "השוואת דיוק"
+    },
+    fields: {
+      quantum: "בפיזיקה הקוונטית",
+      ai: "בבינה המלאכותית",
+      biology: "בביולוגיה",
+      cosmos: "בחקר היקום",
+      material: "במדע החומרים",
+      chemistry: "בכימיה",
+      neuroscience: "במדעי המוח",
+      earth: "במדעי האקלים וכדור הארץ",
+      mathematics: "במתמטיקה",
+      medicine: "ברפואה",
+      general: "בתחום זה"
+    }
+  }
+};
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { UiStrings } from './en';
+
+export const ja: UiStrings = {
+  app: {
+    askThePaper: "論文に質問する",
+    copyLink: "リンクをコピー",
+    linkCopied: "リンクをコピーしました",
+    dismiss: "閉じる",
+    figures: "図表",
+    figuresAndTables: "図と表",
+    visualizing: (title) => `「${title}」を可視化`,
+    visualizeNewPaper: "新しい論文を可視化",
+    privacy: "プライバシー",
+    contact: "お問い合わせ",
+    shareText: (title) => `「${title}」のインタラクティブな可視化をご覧ください！`,
+    sharedLinkFailed: "この共有リンクを開けませんでした。リンクが不完全か、新しいバージョンで作成された可能性があります。",
+    createLinkFailed: "この論文のリンクを作成できませんでした。もう一度お試しください。",
+    copyLinkFailed: "リンクをコピーできませんでした。もう一度お試しください。",
+    analysisFailed: "文書を分析できませんでした。PDF が破損している、大きすぎる、またはパスワードで保護されている可能性があります。もう一度お試しください。",
+    exportFailed: "この論文をエクスポートできませんでした。もう一度お試しください。",
+    readFileFailed: "このファイルを読み込めませんでした。",
+    audienceFailed: "この読者レベル向けに書き直せませんでした。もう一度お試しください。",
+    translationFailed: "この論文を翻訳できませんでした。もう一度お試しください。"
+  },
+  nav: {
+    intro: "概要",
+    method: "手法",
+    analysis: "分析",
+    figures: "図表",
+    impact: "意義",
+    terms: "用語",
+    introduction: "はじめに",
+    methodology: "研究手法",
+    glossary: "用語集",
+    toggleDarkMode: "ダークモードを切り替え",
+    library: "ライブラリ",
+    paperLibrary: "論文ライブラリ",
+    savedPapers: "保存した論文",
+    readingLevel: "読者レベル",
+    writtenFor: "対象読者",
+    language: "言語",
+    translateTo: "翻訳先",
+    cite: "引用",
+    export: "エクスポート",
+    staticSite: "静的サイト (.zip)",
+    paperJson: "論文 JSON (.json)",
+    site: "サイト",
+    json: "JSON",
+    settings: "設定",
+    analysisSettings: "分析設定",
+    model: "モデル",
+    theme: "テーマ",
+    light: "ライト",
+    dark: "ダーク",
+    newPaper: "新しい論文",
+    visualizeNewPaper: "新しい論文を可視化",
+    pdf: "PDF"
+  },
+  audience: {
+    'original': { label: "分析時のまま", description: "元の分析で生成された文章" },
+    'high-school': { label: "高校生", description: "日常の言葉とたとえ" },
+    'undergraduate': { label: "大学生", description: "基礎的な用語、それ以外は説明付き" },
+    'practitioner': { label: "実務者", description: "何をし、何が必要で、何を達成するか" },
+    'expert': { label: "分野の専門家", description: "技術的な詳細をすべて" }
+  },
+  input: {
+    steps: {
+      uploading: "文書を処理しています",
+      reading: "テキストと図を抽出しています",
+      analyzing: "主要な概念を特定しています",
+      generating: "可視化を作成しています"
+    },
+    analyzingResearch: "研究を分析しています",
+    pleaseWait: "AI が論文を読み解くまでお待ちください。",
+    percentComplete: (percent) => `${percent}% 完了`,
+    sent: (size) => `${size} 送信済み`,
+    tokensReceived: (count) => `${count} トークン受信`,
+    details: {
+      parsedPages: (parsed, total) => `${total} ページ中 ${parsed} ページを解析`,
+      locatingFigures: (page) => `${page} ページの図を検出中`,
+      noTextLayer: "テキスト層が見つからないため、PDF を直接送信します",
+      summarizingPart: (part, total) => `パート ${part}/${total} を要約中`,
+      mergingSummaries: "セクションの要約を統合中",
+      findingQuotes: "裏付けとなる引用を検索中",
+      retrying: (attempt, attempts) => `応答が不完全なため再試行中（${attempt}/${attempts}）`
+    },
+    cancel: "キャンセル",
+    close: "閉じる",
+    visualizeResearch: "研究を可視化",
+    intro: "研究論文の PDF をアップロードするか、アブストラクトを貼り付けてください。AI が文書全体を分析し、重要な知見やテーマ、可視化を抽出します。",
+    removeFile: "ファイルを削除",
+    dropPdf: "クリックまたは PDF をドラッグ",
+    supportedFormat: "対応形式: .pdf（最大 10MB）",
+    pdfOnly: "PDF ファイルをアップロードしてください。",
+    orPasteText: "またはテキストを貼り付け",
+    notesPlaceholder: "補足情報や指示、重点的に見てほしい箇所を追加（任意）...",
+    textPlaceholder: "論文のアブストラクト、序論、または全文をここに貼り付け...",
+    outputLanguage: "可視化の言語",
+    orOpenSaved: "または保存した可視化を開く",
+    importJson: "論文 JSON をインポート",
+    importJsonHint: "ScholarLens からエクスポートしたファイル、または手書きのファイル。AI 分析は不要です。",
+    loadDemo: "デモを読み込む（AlphaQubit）",
+    visualize: "可視化する"
+  },
+  library: {
+    title: "ライブラリ",
+    search: "タイトル、著者、概念を検索...",
+    empty: "解析した論文はここに自動で保存されます。",
+    noMatches: "検索に一致する論文はありません。",
+    confirmDelete: "削除しますか？",
+    yes: "はい",
+    no: "いいえ",
+    rename: "名前を変更",
+    delete: "削除",
+    saveName: "名前を保存",
+    loadFailed: "ライブラリを読み込めませんでした。プライベートブラウズではローカルストレージがブロックされることがあります。",
+    renameFailed: "論文の名前を変更できませんでした。もう一度お試しください。",
+    deleteFailed: "論文を削除できませんでした。もう一度お試しください。"
+  },
+  figures: {
+    page: (page) => `${page} ページ`,
+    whatItShows: "この図が示すもの",
+    explain: "この図は何を示していますか？",
+    explainFailed: "この図の説明を生成できませんでした。もう一度お試しください。"
+  },
+  concepts: {
+    title: "主要な概念",
+    graphIntro: "中心となる仕組みと構造の関係を確認できます。概念を選ぶとつながりをたどれます。",
+    cardsIntro: "研究から抽出された中心的な仕組みと理論的な構造を探索しましょう。カードをクリックすると詳細が開きます。",
+    view: "概念の表示",
+    cards: "カード",
+    graph: "グラフ",
+    filterPlaceholder: "キーワードで概念を絞り込む...",
+    clearSearch: "検索をクリア",
+    results: (count) => `${count} 件見つかりました`,
+    noResults: "概念が見つかりません",
+    tryAdjusting: (term) => `「${term}」の検索条件を変えてみてください`,
+    unsupported: "根拠なし",
+    unsupportedHint: "論文中に裏付けとなる箇所が見つかりませんでした",
+    clickToReadMore: "クリックして詳しく読む",
+    types: {
+      process: "プロセス",
+      structure: "構造",
+      abstract: "抽象",
+      concept: "概念"
+    }
+  },
+  paper: {
+    researchVisualization: "研究の可視化",
+    scrollToDiscover: "スクロールして詳しく見る",
+    introduction: "はじめに",
+    introductionParagraph: (n) => `はじめに、第${n}段落`,
+    analysis: "分析",
+    coreMechanisms: "中核となる仕組み",
+    impact: "意義",
+    futureImplications: "今後の展望",
+    insight: (field) => `「この研究は${field}の理解を大きく前進させるものであり、実用化への道のりを早める可能性があります。」`,
+    insightAttribution: "— AIによる分析",
+    domainVisual: "研究分野のビジュアル表現",
+    researchTeam: "研究チーム",
+    keyContributors: "主な貢献者",
+    glossary: "用語集",
+    keyTerms: "重要な用語",
+    demo: {
+      surfaceCode: "表面符号",
+      surfaceCodeText: "量子情報を壊さずに誤りを検出するには、パリティ検査を測定する補助的な「スタビライザー量子ビット」が必要です。この格子構造がフォールトトレランスの基盤です。",
+      neuralDecoding: "ニューラル復号",
+      neuralDecodingText: "AlphaQubit は復号を系列予測の問題として扱います。高性能な再帰型 Transformer で、複雑でノイズの多いスタビライザー測定の履歴を処理し、誤りを予測します。",
+      benchmarking: "精度のベンチマーク"
+    },
+    fields: {
+      quantum: "量子物理学",
+      ai: "人工知能",
+      biology: "生物学",
+      cosmos: "宇宙",
+      material: "材料科学",
+      chemistry: "化学",
+      neuroscience: "神経科学",
+      earth: "気候・地球科学",
+      mathematics: "数学",
+      medicine: "医学",
+      general: "この分野"
+    }
+  }
+};
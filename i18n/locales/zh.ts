@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { UiStrings } from './en';
+
+export const zh: UiStrings = {
+  app: {
+    askThePaper: "向论文提问",
+    copyLink: "复制链接",
+    linkCopied: "链接已复制",
+    dismiss: "关闭",
+    figures: "图表",
+    figuresAndTables: "图与表",
+    visualizing: (title) => `正在可视化“${title}”`,
+    visualizeNewPaper: "可视化新论文",
+    privacy: "隐私",
+    contact: "联系我们",
+    shareText: (title) => `来看看“${title}”的交互式可视化！`,
+    sharedLinkFailed: "无法打开此分享链接。链接可能不完整，或来自更新的版本。",
+    createLinkFailed: "无法为这篇论文创建链接，请重试。",
+    copyLinkFailed: "无法复制链接，请重试。",
+    analysisFailed: "文档分析失败。PDF 可能已损坏、过大或受密码保护，请重试。",
+    exportFailed: "无法导出这篇论文，请重试。",
+    readFileFailed: "无法读取此文件。",
+    audienceFailed: "无法按该阅读水平改写这篇论文，请重试。",
+    translationFailed: "无法翻译这篇论文，请重试。"
+  },
+  nav: {
+    intro: "简介",
+    method: "方法",
+    analysis: "分析",
+    figures: "图表",
+    impact: "影响",
+    terms: "术语",
+    introduction: "简介",
+    methodology: "研究方法",
+    glossary: "术语表",
+    toggleDarkMode: "切换深色模式",
+    library: "论文库",
+    paperLibrary: "论文库",
+    savedPapers: "已保存的论文",
+    readingLevel: "阅读水平",
+    writtenFor: "面向读者",
+    language: "语言",
+    translateTo: "翻译为",
+    cite: "引用",
+    export: "导出",
+    staticSite: "静态网站 (.zip)",
+    paperJson: "论文 JSON (.json)",
+    site: "网站",
+    json: "JSON",
+    settings: "设置",
+    analysisSettings: "分析设置",
+    model: "模型",
+    theme: "主题",
+    light: "浅色",
+    dark: "深色",
+    newPaper: "新论文",
+    visualizeNewPaper: "可视化新论文",
+    pdf: "PDF"
+  },
+  audience: {
+    'original': { label: "原始分析", description: "原始分析生成的文本" },
+    'high-school': { label: "高中生", description: "日常语言和类比" },
+    'undergraduate': { label: "本科生", description: "基础术语，其余加以解释" },
+    'practitioner': { label: "从业者", description: "它做什么、需要什么、效果如何" },
+    'expert': { label: "领域专家", description: "完整的技术细节" }
+  },
+  input: {
+    steps: {
+      uploading: "正在处理文档",
+      reading: "正在提取文本和图表",
+      analyzing: "正在识别关键概念",
+      generating: "正在构建可视化"
+    },
+    analyzingResearch: "正在分析研究",
+    pleaseWait: "请稍候，AI 正在解读这篇论文。",
+    percentComplete: (percent) => `已完成 ${percent}%`,
+    sent: (size) => `已发送 ${size}`,
+    tokensReceived: (count) => `已接收 ${count} 个 token`,
+    details: {
+      parsedPages: (parsed, total) => `已解析 ${parsed}/${total} 页`,
+      locatingFigures: (page) => `正在定位第 ${page} 页的图`,
+      noTextLayer: "未找到文本层，直接发送 PDF",
+      summarizingPart: (part, total) => `正在总结第 ${part}/${total} 部分`,
+      mergingSummaries: "正在合并章节摘要",
+      findingQuotes: "正在查找支持引文",
+      retrying: (attempt, attempts) => `响应不完整，正在重试（${attempt}/${attempts}）`
+    },
+    cancel: "取消",
+    close: "关闭",
+    visualizeResearch: "可视化研究",
+    intro: "上传完整的 PDF 研究论文或粘贴摘要。AI 将分析整篇文档，提炼关键见解、主题并生成可视化。",
+    removeFile: "移除文件",
+    dropPdf: "点击或将 PDF 拖到此处",
+    supportedFormat: "支持格式：.pdf（最大 10MB）",
+    pdfOnly: "请上传 PDF 文件。",
+    orPasteText: "或粘贴文本",
+    notesPlaceholder: "可选：补充背景、说明或需要重点关注的部分……",
+    textPlaceholder: "在此粘贴论文摘要、引言或全文……",
+    outputLanguage: "可视化使用的语言",
+    orOpenSaved: "或打开已保存的可视化",
+    importJson: "导入论文 JSON",
+    importJsonHint: "从 ScholarLens 导出或手工编写的文件，无需 AI 分析。",
+    loadDemo: "加载演示（AlphaQubit）",
+    visualize: "生成可视化"
+  },
+  library: {
+    title: "文库",
+    search: "搜索标题、作者、概念...",
+    empty: "你分析的论文会自动保存在这里。",
+    noMatches: "没有符合搜索条件的论文。",
+    confirmDelete: "删除？",
+    yes: "是",
+    no: "否",
+    rename: "重命名",
+    delete: "删除",
+    saveName: "保存名称",
+    loadFailed: "无法加载你的文库。无痕浏览可能会阻止本地存储。",
+    renameFailed: "无法重命名该论文，请重试。",
+    deleteFailed: "无法删除该论文，请重试。"
+  },
+  figures: {
+    page: (page) => `第 ${page} 页`,
+    whatItShows: "这张图展示了什么",
+    explain: "这张图展示了什么？",
+    explainFailed: "无法为这张图生成解释，请重试。"
+  },
+  concepts: {
+    title: "关键概念",
+    graphIntro: "查看核心机制与结构之间的关系。选择一个概念以追踪其关联。",
+    cardsIntro: "探索从研究中提炼出的核心机制与理论结构。点击卡片展开详情。",
+    view: "概念视图",
+    cards: "卡片",
+    graph: "关系图",
+    filterPlaceholder: "按关键词筛选概念……",
+    clearSearch: "清除搜索",
+    results: (count) => `找到 ${count} 个结果`,
+    noResults: "未找到概念",
+    tryAdjusting: (term) => `请尝试调整对“${term}”的搜索`,
+    unsupported: "缺少依据",
+    unsupportedHint: "未在论文中找到支持该内容的段落",
+    clickToReadMore: "点击阅读详情",
+    types: {
+      process: "过程",
+      structure: "结构",
+      abstract: "抽象",
+      concept: "概念"
+    }
+  },
+  paper: {
+    researchVisualization: "研究可视化",
+    scrollToDiscover: "向下滚动探索",
+    introduction: "简介",
+    introductionParagraph: (n) => `简介，第 ${n} 段`,
+    analysis: "分析",
+    coreMechanisms: "核心机制",
+    impact: "影响",
+    futureImplications: "未来展望",
+    insight: (field) => `“这项研究标志着我们对${field}的理解迈出了重要一步，有望加快其走向实际应用的进程。”`,
+    insightAttribution: "— AI 分析洞见",
+    domainVisual: "研究领域的可视化呈现",
+    researchTeam: "研究团队",
+    keyContributors: "主要贡献者",
+    glossary: "术语表",
+    keyTerms: "关键术语",
+    demo: {
+      surfaceCode: "表面码",
+      surfaceCodeText: "要在不破坏量子信息的情况下检测错误，需要辅助的“稳定子量子比特”来测量奇偶校验。这种晶格结构是容错的基础。",
+      neuralDecoding: "神经解码",
+      neuralDecodingText: "AlphaQubit 将解码视为序列预测问题。它使用高性能的循环 Transformer 处理复杂且含噪的稳定子测量历史，从而预测错误。",
+      benchmarking: "准确率基准测试"
+    },
+    fields: {
+      quantum: "量子物理",
+      ai: "人工智能",
+      biology: "生物学",
+      cosmos: "宇宙",
+      material: "材料科学",
+      chemistry: "化学",
+      neuroscience: "神经科学",
+      earth: "气候与地球科学",
+      mathematics: "数学",
+      medicine: "医学",
+      general: "这一领域"
+    }
+  }
+};
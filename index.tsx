@@ -5,7 +5,12 @@
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import { Environment } from '@react-three/drei';
 import App from './App';
+import { EnvironmentComponent, SceneProvider } from './components/SceneCanvas';
+
+// The app is online anyway, so its scenes use drei's HDR presets; the exported viewer doesn't
+const HdrEnvironment: EnvironmentComponent = ({ preset }) => <Environment preset={preset} />;
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -15,6 +20,8 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <SceneProvider environment={HdrEnvironment}>
+      <App />
+    </SceneProvider>
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,468 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Type, Schema } from '@google/genai';
+import { AudienceLevel, AudienceVariant, DiagramKind, PaperData, RelationType } from '../types';
+import { FALLBACK_THEME, listThemes } from '../themes';
+import { DEFAULT_LANGUAGE, languageOf } from '../i18n/languages';
+
+// The fallback theme goes last so its hint can refer to "the other themes".
+const orderedThemes = () => {
+  const themes = listThemes();
+  return [...themes.filter(t => t.id !== FALLBACK_THEME), ...themes.filter(t => t.id === FALLBACK_THEME)];
+};
+
+// Name of the language generated prose should be written in, or null for the default (English)
+const targetLanguage = (code: string | undefined) => {
+  const language = languageOf(code);
+  return language.code === DEFAULT_LANGUAGE.code ? null : language.name;
+};
+
+// Shared by every provider so that all backends are asked for the same shape. Built per request
+// because the theme list comes from the registry, which plugins can extend at runtime.
+export const buildAnalysisInstructions = (language?: string) => `
+  Analyze the provided research paper (text or PDF).${targetLanguage(language) ? `
+  Write every human-readable text value in ${targetLanguage(language)}, whatever the language of the paper. Keep enum
+  values, ids, numbers and LaTeX unchanged, and write names of people, methods and datasets as the paper does.` : ''}
+  Extract fields in JSON:
+  1. title (string)
+  2. subtitle (string, 5-7 words)
+  3. journal (string, optional)
+  4. introTitle (string, catchy)
+  5. summary (string, 2-3 paragraphs. IMPORTANT: Use \\n to separate paragraphs.)
+  6. authors (array of {name, role})
+  7. theme (enum, the closest field of the paper):
+${orderedThemes().map(t => `     - '${t.id}': ${t.promptHint}`).join('\n')}
+  8. concepts (array of 4-8 objects {title, description, type: 'process'|'structure'|'abstract', relations}).
+     relations is an array of {target, type: 'depends-on'|'produces'|'contrasts-with'|'part-of', explanation}
+     where target is the exact title of another concept and explanation is one sentence on how the two are linked.
+     Connect every concept to at least one other; only state relations the paper supports.
+  9. impact (string, 1 paragraph)
+  10. sections (array of {heading, summary}: one 1-2 sentence summary per major section of the paper, in order)
+  11. citation ({doi, year, venue, volume, issue, pages}: only values printed in the paper; omit anything not stated)
+  12. diagrams (array of 1-3 objects {kind, title, caption, ...}): the paper's central mechanisms or results as
+      declarative diagrams. Pick the kind that fits the content:
+      - 'flowchart' or 'pipeline': nodes [{id, label, detail}] and edges [{from, to, label}] (from/to are node ids);
+        use 'pipeline' for a linear sequence of processing stages.
+      - For ML or methods papers, include one 'pipeline' whose stages are the process-type concepts, in order, each
+        with shape (the data or tensor shape it passes on, e.g. "tokens × 512").
+      - 'state-machine': nodes as states, edges as transitions labelled with their trigger, initial = start state id.
+      - 'bar-chart' or 'line-chart': labels (x-axis categories), series [{name, values}] with one number per label, unit.
+        Only use numbers reported in the paper.
+      - 'comparison-table': columns (the things being compared) and rows [{label, values}] with one value per column.
+      Keep each diagram small: at most 8 nodes, 8 labels, 4 series or 8 rows.
+  13. results (array of 0-3 objects {title, metric, unit, lowerIsBetter, conditionName, conditions, series, source, caption}):
+      the headline quantitative comparisons from the paper's results tables. conditions are the settings the comparison
+      is repeated under (datasets, model sizes, code distances, ...); conditionName says what they are. series is
+      [{name, values, isProposed}]: one per method with one value per condition (null where not reported), and
+      isProposed true for the paper's own method. Copy numbers exactly as reported; return [] if there are none.
+  14. methodology (array of 3-8 objects {title, description, inputs, outputs, concept}): the steps of the paper's
+      method in the order they are carried out. description is 1-2 sentences; inputs and outputs are short noun phrases
+      (data, materials, models) the step consumes and produces; concept is the exact title of the related concept, if any.
+  15. equations (array of 0-5 objects {title, latex, description, symbols}): the paper's central equations. latex is
+      KaTeX-compatible display math without $ or \\[ delimiters. description says in 1-2 sentences what the equation
+      expresses. symbols is [{latex, meaning}], one per variable or operator a reader needs, with latex written exactly
+      as it appears in the equation (e.g. \\hat{H}, p_L). Return [] for papers without equations.
+  16. glossary (array of 5-15 objects {term, definition, aliases}): technical terms a newcomer would stumble over,
+      especially those used in summary and impact. term is written as it appears in the text; definition is one plain
+      sentence; aliases are other spellings or abbreviations used in the text (e.g. "LER" for "logical error rate").
+`;
+
+export const RELATION_TYPES: RelationType[] = ['depends-on', 'produces', 'contrasts-with', 'part-of'];
+export const DIAGRAM_KINDS: DiagramKind[] = ['flowchart', 'pipeline', 'bar-chart', 'line-chart', 'comparison-table', 'state-machine'];
+
+export const buildPaperResponseSchema = (): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    subtitle: { type: Type.STRING },
+    journal: { type: Type.STRING },
+    introTitle: { type: Type.STRING },
+    summary: { type: Type.STRING },
+    authors: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { name: { type: Type.STRING }, role: { type: Type.STRING } }
+      }
+    },
+    theme: { type: Type.STRING, enum: orderedThemes().map(t => t.id) },
+    concepts: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+           title: { type: Type.STRING },
+           description: { type: Type.STRING },
+           type: { type: Type.STRING, enum: ['process', 'structure', 'abstract'] },
+           relations: {
+             type: Type.ARRAY,
+             items: {
+               type: Type.OBJECT,
+               properties: {
+                 target: { type: Type.STRING },
+                 type: { type: Type.STRING, enum: RELATION_TYPES },
+                 explanation: { type: Type.STRING }
+               }
+             }
+           }
+        }
+      }
+    },
+    impact: { type: Type.STRING },
+    sections: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { heading: { type: Type.STRING }, summary: { type: Type.STRING } }
+      }
+    },
+    citation: {
+      type: Type.OBJECT,
+      properties: {
+        doi: { type: Type.STRING },
+        year: { type: Type.INTEGER },
+        venue: { type: Type.STRING },
+        volume: { type: Type.STRING },
+        issue: { type: Type.STRING },
+        pages: { type: Type.STRING }
+      }
+    },
+    diagrams: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: DIAGRAM_KINDS },
+          title: { type: Type.STRING },
+          caption: { type: Type.STRING },
+          nodes: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { id: { type: Type.STRING }, label: { type: Type.STRING }, detail: { type: Type.STRING }, shape: { type: Type.STRING } }
+            }
+          },
+          edges: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { from: { type: Type.STRING }, to: { type: Type.STRING }, label: { type: Type.STRING } }
+            }
+          },
+          initial: { type: Type.STRING },
+          labels: { type: Type.ARRAY, items: { type: Type.STRING } },
+          series: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { name: { type: Type.STRING }, values: { type: Type.ARRAY, items: { type: Type.NUMBER } } }
+            }
+          },
+          unit: { type: Type.STRING },
+          columns: { type: Type.ARRAY, items: { type: Type.STRING } },
+          rows: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { label: { type: Type.STRING }, values: { type: Type.ARRAY, items: { type: Type.STRING } } }
+            }
+          }
+        }
+      }
+    },
+    results: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          metric: { type: Type.STRING },
+          unit: { type: Type.STRING },
+          lowerIsBetter: { type: Type.BOOLEAN },
+          conditionName: { type: Type.STRING },
+          conditions: { type: Type.ARRAY, items: { type: Type.STRING } },
+          series: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                values: { type: Type.ARRAY, items: { type: Type.NUMBER, nullable: true } },
+                isProposed: { type: Type.BOOLEAN }
+              }
+            }
+          },
+          source: { type: Type.STRING },
+          caption: { type: Type.STRING }
+        }
+      }
+    },
+    methodology: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          description: { type: Type.STRING },
+          inputs: { type: Type.ARRAY, items: { type: Type.STRING } },
+          outputs: { type: Type.ARRAY, items: { type: Type.STRING } },
+          concept: { type: Type.STRING }
+        }
+      }
+    },
+    equations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          latex: { type: Type.STRING },
+          description: { type: Type.STRING },
+          symbols: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { latex: { type: Type.STRING }, meaning: { type: Type.STRING } }
+            }
+          }
+        }
+      }
+    },
+    glossary: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING },
+          definition: { type: Type.STRING },
+          aliases: { type: Type.ARRAY, items: { type: Type.STRING } }
+        }
+      }
+    }
+  }
+});
+
+// Map step for long papers: one request per chunk of consecutive sections.
+export const SECTION_DIGEST_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summaries: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { heading: { type: Type.STRING }, summary: { type: Type.STRING } }
+      }
+    }
+  }
+};
+
+export const buildSectionDigestPrompt = (chunkText: string, part: number, totalParts: number, language?: string) => `
+  You are reading part ${part} of ${totalParts} of a long research paper.
+  Each section below starts with a "## heading" line.
+  For every section, in order, return {heading, summary} where summary is 2-4 sentences
+  covering its key claims, methods, numbers and findings. Do not invent content.${targetLanguage(language) ? `
+  Keep each heading as written and write the summaries in ${targetLanguage(language)}.` : ''}
+
+${chunkText}
+`;
+
+// Per-page figure/table extraction from a rendered page image plus its text layer.
+export const PAGE_VISUALS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    figures: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          caption: { type: Type.STRING },
+          box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+        }
+      }
+    },
+    tables: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          caption: { type: Type.STRING },
+          columns: { type: Type.ARRAY, items: { type: Type.STRING } },
+          rows: { type: Type.ARRAY, items: { type: Type.ARRAY, items: { type: Type.STRING } } }
+        }
+      }
+    }
+  }
+};
+
+export const buildPageVisualsPrompt = (pageNumber: number, pageText: string) => `
+  The image is page ${pageNumber} of a research paper.
+  1. figures: every figure (plots, diagrams, photos) on this page as {label, caption, box_2d}.
+     label is e.g. "Figure 2". box_2d is [ymin, xmin, ymax, xmax] scaled 0-1000 and must cover the
+     graphic itself, excluding the caption text.
+  2. tables: every table on this page as {label, caption, columns, rows}. columns are the header cells,
+     rows are arrays of cell strings in the same order. Copy values exactly.
+  Return empty arrays if there are none.
+
+  Text layer of the page, for reference:
+${pageText.substring(0, 6000)}
+`;
+
+export const FIGURE_EXPLANATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: { explanation: { type: Type.STRING } }
+};
+
+export const buildFigureExplanationPrompt = (paperTitle: string, label: string, caption: string, language?: string) => `
+  The image is ${label} from the research paper "${paperTitle}".
+  Caption: ${caption}
+  Explain what this figure shows to a curious non-specialist in one short paragraph:
+  what is plotted or depicted, how to read it, and the main takeaway.${targetLanguage(language) ? ` Write it in ${targetLanguage(language)}.` : ''}
+`;
+
+// System prompt for questions about an analyzed paper. Excerpts are the passages picked for the latest
+// question; on paginated documents they are labelled with their page so answers can cite it.
+export const buildChatInstructions = (paper: PaperData, excerpts: { page?: number; text: string }[], paginated: boolean) => `
+  You answer questions about the research paper "${paper.title}" for a curious reader.
+  Ground every answer in the excerpts below. When a passage supports your answer, quote its exact words on a line
+  of their own starting with "> "${paginated ? ' and ending with the page, e.g. > "the quoted words" [p. 4]. Cite other statements taken from the paper with [p. N] as well' : ''}.
+  Never invent quotes${paginated ? ' or page numbers' : ''}. If the excerpts don't cover the question, say so, then answer from
+  the summary and make clear it isn't backed by the text.
+  Keep answers to 1-3 short paragraphs of plain text without headings.
+  Answer in the language of the question. Quotes stay in the language of the excerpts.
+
+  Summary of the paper:
+  ${paper.summary}
+
+  Key concepts: ${paper.concepts.map(c => c.title).join(', ') || 'none listed'}
+
+  ${excerpts.length > 0
+    ? `Excerpts from the paper:\n\n${excerpts.map(e => `${e.page ? `[p. ${e.page}]` : '[excerpt]'}\n${e.text}`).join('\n\n')}`
+    : "The paper's full text isn't available. Answer from the summary and say that you couldn't check the text."}
+`;
+
+export const GROUNDING_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    claims: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          quotes: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { text: { type: Type.STRING }, page: { type: Type.NUMBER, nullable: true } }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+// Asks for verbatim passages backing each generated claim. Excerpts are the passages that best match the
+// claims; on paginated documents they are labelled with their page.
+export const buildGroundingPrompt = (
+  claims: { id: string; text: string }[],
+  excerpts: { page?: number; text: string }[],
+  paginated: boolean
+) => `
+  Below are statements written about a research paper, each with an id, followed by excerpts from the paper.
+  For every statement, find 1-3 passages in the excerpts that support it and copy each one word for word as
+  {text${paginated ? ', page' : ''}}${paginated ? ', where page is the number of the excerpt it comes from' : ''}. A passage is one or two sentences;
+  use "..." to skip words in the middle. Never paraphrase or combine passages from different places.
+  If nothing in the excerpts supports a statement, return it with an empty quotes list.
+  The statements may be written in another language than the paper; quotes are always copied in the paper's language.
+  Return {claims: [{id, quotes}]} with one entry per statement.
+
+  Statements:
+${claims.map(c => `  [${c.id}] ${c.text}`).join('\n')}
+
+  Excerpts from the paper:
+
+${excerpts.map(e => `${e.page ? `[p. ${e.page}]` : '[excerpt]'}\n${e.text}`).join('\n\n')}
+`;
+
+export const AUDIENCE_LEVELS: AudienceLevel[] = ['high-school', 'undergraduate', 'practitioner', 'expert'];
+
+const AUDIENCE_GUIDANCE: Record<AudienceLevel, string> = {
+  'high-school': "a high-school student. Avoid jargon entirely, explain ideas with everyday analogies and keep sentences short.",
+  'undergraduate': "an undergraduate in a related subject. Use standard terms from introductory courses and define anything more specialized.",
+  'practitioner': "a practitioner who applies this kind of work. Focus on what the method does, what it needs and how well it performs, with concrete numbers where the text has them.",
+  'expert': "a researcher in the same field. Use precise technical language, and name the specific techniques, assumptions and comparisons."
+};
+
+export const AUDIENCE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    impact: { type: Type.STRING },
+    concepts: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { title: { type: Type.STRING }, description: { type: Type.STRING } }
+      }
+    }
+  }
+};
+
+// Rewrites the original prose rather than the previous rewrite, so switching levels doesn't drift
+export const buildAudiencePrompt = (paperTitle: string, original: AudienceVariant, level: AudienceLevel) => `
+  Below is the summary, impact statement and key concept descriptions for the research paper "${paperTitle}".
+  Rewrite all of them for ${AUDIENCE_GUIDANCE[level]}
+  Keep every fact and do not add claims that aren't in the text. Keep roughly the same length, the same number
+  of summary paragraphs and the language the text is written in.
+  Return {summary, impact, concepts} where summary keeps its paragraphs separated by \\n and concepts is
+  [{title, description}] with every concept below, titles unchanged.
+
+  Summary:
+  ${original.summary}
+
+  Impact:
+  ${original.impact}
+
+  Concepts:
+${Object.entries(original.conceptDescriptions).map(([title, description]) => `  - ${title}: ${description}`).join('\n')}
+`;
+
+// Translates an analyzed paper, sent as JSON, into another language. The reply uses the analysis schema so it
+// goes through the same validation as a fresh analysis.
+export const buildTranslationPrompt = (paperJson: string, language: string) => `
+  Below is the analysis of a research paper as JSON. Translate it into ${languageOf(language).name} and return the
+  same object with the same structure.
+  Translate every human-readable text value: titles, summaries, descriptions, captions, labels, explanations,
+  definitions and glossary aliases. Keep enum values, ids, numbers, units and LaTeX unchanged, and write names of
+  people, methods and datasets as the paper does. Wherever a concept title is referenced (relations[].target,
+  methodology[].concept), use the same translation as the concept itself.
+  Keep summary paragraphs separated by \\n, and do not add, drop or reorder items in any list.
+
+${paperJson}
+`;
+
+// Converts the Gemini schema dialect (upper-case type names) to plain JSON Schema
+// for backends that only understand the latter.
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.nullable ? [schema.type.toLowerCase(), 'null'] : schema.type.toLowerCase();
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return result;
+};
+
+// Appended to the analysis input when the previous response failed validation.
+export const buildRepairNote = (issues: string[]): string => `Your previous response could not be used because of these problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+Return the complete JSON object again with every required field filled in.`;
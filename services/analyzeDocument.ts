@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PaperData, PaperFigure, PaperTable, SectionSummary } from '../types';
+import { AnalysisOptions, AnalysisProvider } from './providers';
+import { SECTION_DIGEST_SCHEMA, buildRepairNote, buildSectionDigestPrompt } from './analysisSchema';
+import { PaperValidationError, validatePaperData } from './validatePaper';
+import { doiUrl, normalizeDoi } from './citation';
+import { extractPdfText } from './pdf';
+import { extractFiguresAndTables } from './figures';
+import { groundPaper } from './grounding';
+import { paperLanguage } from '../i18n/languages';
+import {
+  DocumentSection,
+  DocumentText,
+  chunkSections,
+  formatSectionsForPrompt,
+  isBackMatter,
+  splitTextIntoSections
+} from './documentSections';
+
+// Roughly 6k tokens per request, comfortably inside every supported model's context.
+const CHUNK_CHARS = 24000;
+// Title, authors and abstract live here; kept verbatim for the final merge step.
+const FRONT_MATTER_CHARS = 4000;
+// Below this much text a PDF is treated as scanned and handed to the provider as-is.
+const MIN_EXTRACTED_CHARS = 200;
+
+const normalizeHeading = (heading: string) => heading.replace(/\s*\(part \d+\)$/, '').trim().toLowerCase();
+
+// Oversized sections are summarized in parts; fold those back into one entry.
+const mergeParts = (digests: SectionSummary[]): SectionSummary[] => {
+  const merged: SectionSummary[] = [];
+  digests.forEach(digest => {
+    const previous = merged[merged.length - 1];
+    const heading = digest.heading.replace(/\s*\(part \d+\)$/, '');
+    if (previous && normalizeHeading(previous.heading) === normalizeHeading(heading)) {
+      previous.summary = `${previous.summary} ${digest.summary}`.trim();
+      previous.pageEnd = digest.pageEnd ?? previous.pageEnd;
+    } else {
+      merged.push({ ...digest, heading });
+    }
+  });
+  return merged;
+};
+
+// Attaches page ranges from the extracted document to the headings the model returned.
+const attachPages = (summaries: SectionSummary[], sections: DocumentSection[]): SectionSummary[] => {
+  return summaries.map(summary => {
+    const match = sections.find(s => normalizeHeading(s.heading) === normalizeHeading(summary.heading));
+    return match ? { ...summary, pageStart: match.pageStart, pageEnd: match.pageEnd } : summary;
+  });
+};
+
+const summarizeChunk = async (
+  provider: AnalysisProvider,
+  chunk: DocumentSection[],
+  part: number,
+  totalParts: number,
+  options: AnalysisOptions
+): Promise<SectionSummary[]> => {
+  const prompt = buildSectionDigestPrompt(formatSectionsForPrompt(chunk), part, totalParts, options.language);
+  const result = await provider.generateJson<{ summaries?: { heading?: string; summary?: string }[] }>(prompt, SECTION_DIGEST_SCHEMA, options);
+  const summaries = result.summaries || [];
+
+  // Prefer our own headings and page numbers when the model kept the section order intact.
+  if (summaries.length === chunk.length) {
+    return chunk.map((section, i) => ({
+      heading: section.heading,
+      summary: summaries[i].summary || "",
+      pageStart: section.pageStart,
+      pageEnd: section.pageEnd
+    }));
+  }
+  return attachPages(
+    summaries.map(s => ({ heading: s.heading || "Untitled Section", summary: s.summary || "" })),
+    chunk
+  );
+};
+
+// Runs the final analysis request, re-prompting with the validation errors until the response is usable.
+const analyzeValidated = async (
+  provider: AnalysisProvider,
+  text: string,
+  file: File | null,
+  options: AnalysisOptions
+): Promise<PaperData> => {
+  const attempts = 1 + Math.max(0, options.maxRetries ?? 0);
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    if (attempt > 1) {
+      options.onProgress?.({ step: 'generating', detail: { key: 'retrying', attempt, attempts } });
+    }
+    const input = issues.length > 0 ? `${text}\n\n${buildRepairNote(issues)}` : text;
+
+    let raw: unknown;
+    try {
+      raw = await provider.analyze(input, file, options);
+    } catch (e) {
+      // Truncated or malformed JSON is worth another try; network and auth errors are not.
+      if (!(e instanceof SyntaxError)) throw e;
+      issues = ["The response was not valid JSON. It may have been cut off; keep every field concise."];
+      continue;
+    }
+
+    const result = validatePaperData(raw);
+    if (result.errors.length === 0) {
+      if (result.repaired.length > 0) console.warn("Repaired fields in model response:", result.repaired.join(', '));
+      // The schema has no url or language; anything the model volunteers would be a guess.
+      return { ...result.data, url: "#", language: paperLanguage(options.language) };
+    }
+    issues = result.errors;
+  }
+
+  throw new PaperValidationError(
+    `The model's response was still unusable after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${issues.join(' ')} Try another model or increase Max Tokens in Settings.`,
+    issues
+  );
+};
+
+// Models often skip the DOI printed in the header or footer; recover it from the opening text and link to it.
+const completeCitation = (data: PaperData, openingText: string): PaperData => {
+  const doi = data.citation?.doi ?? normalizeDoi(openingText);
+  return doi ? { ...data, citation: { ...data.citation, doi }, url: doiUrl(doi) } : data;
+};
+
+// Quotes are a separate request so long papers, analyzed from digests, are still checked against their
+// text. A failure here leaves the paper without sources rather than losing the analysis.
+const attachSources = async (
+  provider: AnalysisProvider,
+  paper: PaperData,
+  source: DocumentText,
+  options: AnalysisOptions
+): Promise<PaperData> => {
+  options.signal?.throwIfAborted();
+  options.onProgress?.({ step: 'generating', detail: { key: 'findingQuotes' } });
+  try {
+    return { ...paper, sources: await groundPaper(provider, paper, source, options) };
+  } catch (e) {
+    if (options.signal?.aborted) throw e;
+    console.warn("Couldn't find supporting quotes", e);
+    return paper;
+  }
+};
+
+export interface AnalyzedDocument {
+  paper: PaperData;
+  source: DocumentText; // The extracted text, for follow-up questions
+}
+
+// Reads the whole document (PDF or pasted text), summarizing long papers chunk by chunk
+// and merging the digests into a single PaperData.
+export const analyzeDocument = async (
+  provider: AnalysisProvider,
+  text: string,
+  file: File | null,
+  options: AnalysisOptions
+): Promise<AnalyzedDocument> => {
+  const report = options.onProgress ?? (() => {});
+  let sections: DocumentSection[];
+  let notes = "";
+  let visuals: { figures?: PaperFigure[]; tables?: PaperTable[] } = {};
+  let source: DocumentText;
+
+  report({ step: 'reading' });
+  if (file) {
+    const pdf = await extractPdfText(file, (parsed, total) => {
+      report({ step: 'reading', current: parsed, total, detail: { key: 'parsedPages', parsed, total } });
+    }, options.signal);
+    if (pdf.pages.join('').trim().length < MIN_EXTRACTED_CHARS) {
+      report({ step: 'generating', detail: { key: 'noTextLayer' } });
+      return { paper: await analyzeValidated(provider, text, file, options), source: { pages: [], paginated: true } };
+    }
+    sections = pdf.sections;
+    source = { pages: pdf.pages, paginated: true };
+    notes = text.trim();
+    visuals = await extractFiguresAndTables(provider, file, pdf.pages, options);
+  } else {
+    sections = splitTextIntoSections(text);
+    source = { pages: [text], paginated: false };
+  }
+
+  options.signal?.throwIfAborted();
+  const body = sections.filter(s => !isBackMatter(s));
+  const chunks = chunkSections(body, CHUNK_CHARS);
+  const withNotes = (input: string) => notes ? `${input}\n\nUser Notes: ${notes}` : input;
+  const openingText = sections.map(s => s.text).join('\n').substring(0, FRONT_MATTER_CHARS);
+
+  // Short papers fit in a single request.
+  if (chunks.length <= 1) {
+    report({ step: 'generating' });
+    const data = await analyzeValidated(provider, withNotes(formatSectionsForPrompt(body)), null, options);
+    const paper = { ...completeCitation(data, openingText), ...visuals, sections: data.sections ? attachPages(data.sections, body) : undefined };
+    return { paper: await attachSources(provider, paper, source, options), source };
+  }
+
+  // Map: summarize each chunk independently.
+  const digests: SectionSummary[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    options.signal?.throwIfAborted();
+    report({ step: 'analyzing', current: i, total: chunks.length, detail: { key: 'summarizingPart', part: i + 1, total: chunks.length } });
+    digests.push(...await summarizeChunk(provider, chunks[i], i + 1, chunks.length, options));
+  }
+  const sectionSummaries = mergeParts(digests).filter(d => d.summary);
+
+  // Reduce: analyze the opening text plus the digest as if it were the paper.
+  report({ step: 'generating', detail: { key: 'mergingSummaries' } });
+  const digestText = [
+    "The paper is too long to send in full. Below is its opening text followed by a section-by-section digest.",
+    `## Opening Text\n${openingText}`,
+    ...sectionSummaries.map(s => `## ${s.heading}\n${s.summary}`)
+  ].join('\n\n');
+
+  const data = await analyzeValidated(provider, withNotes(digestText), null, options);
+  const paper = { ...completeCitation(data, openingText), ...visuals, sections: sectionSummaries };
+  return { paper: await attachSources(provider, paper, source, options), source };
+};
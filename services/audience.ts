@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AudienceKey, AudienceLevel, AudienceVariant, PaperData } from '../types';
+import { AnalysisOptions, AnalysisProvider } from './providers';
+import { AUDIENCE_LEVELS, AUDIENCE_SCHEMA, buildAudiencePrompt } from './analysisSchema';
+
+// In menu order; the labels live with the other interface text in i18n/locales
+export const AUDIENCE_OPTIONS: AudienceKey[] = ['original', ...AUDIENCE_LEVELS];
+
+export const audienceKeyOf = (paper: PaperData): AudienceKey => paper.audience ?? 'original';
+
+// The prose currently on the page
+export const captureVariant = (paper: PaperData): AudienceVariant => ({
+  summary: paper.summary,
+  impact: paper.impact,
+  conceptDescriptions: Object.fromEntries(paper.concepts.map(c => [c.title, c.description]))
+});
+
+// Swaps in a variant's prose and stores the text being replaced under its own key, so switching back
+// needs no request. Concepts the variant doesn't describe keep their current description.
+export const applyVariant = (paper: PaperData, key: AudienceKey, variant: AudienceVariant): PaperData => ({
+  ...paper,
+  summary: variant.summary,
+  impact: variant.impact,
+  concepts: paper.concepts.map(c => ({ ...c, description: variant.conceptDescriptions[c.title] ?? c.description })),
+  audience: key === 'original' ? undefined : key,
+  audienceVariants: { ...paper.audienceVariants, [audienceKeyOf(paper)]: captureVariant(paper), [key]: variant }
+});
+
+export const rewriteForAudience = async (
+  provider: AnalysisProvider,
+  paper: PaperData,
+  level: AudienceLevel,
+  options: AnalysisOptions
+): Promise<AudienceVariant> => {
+  const original = paper.audienceVariants?.original ?? captureVariant(paper);
+  const result = await provider.generateJson<{ summary?: string; impact?: string; concepts?: { title?: string; description?: string }[] }>(
+    buildAudiencePrompt(paper.title, original, level),
+    AUDIENCE_SCHEMA,
+    options
+  );
+  if (!result.summary?.trim() || !result.impact?.trim()) throw new Error("The model did not return a rewritten summary.");
+
+  // Only concepts the paper has count; a renamed or missing one keeps its original description
+  const rewritten = new Map((result.concepts || []).filter(c => c.title && c.description?.trim()).map(c => [c.title!.trim(), c.description!.trim()]));
+  return {
+    summary: result.summary.trim(),
+    impact: result.impact.trim(),
+    conceptDescriptions: Object.fromEntries(Object.entries(original.conceptDescriptions).map(([title, description]) => [title, rewritten.get(title) ?? description]))
+  };
+};
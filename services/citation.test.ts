@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { PaperData } from '../types';
+import { normalizeDoi, parseAuthorName, toBibTeX, toCSLJSON } from './citation';
+
+const paper = (title: string, author: string) => ({
+  title,
+  subtitle: "",
+  summary: "",
+  authors: [{ name: author, role: "" }],
+  theme: 'general',
+  concepts: [],
+  impact: "",
+  citation: { year: 1926 }
+}) as PaperData;
+
+describe('parseAuthorName', () => {
+  it('takes the last word as the family name', () => {
+    expect(parseAuthorName("Johannes  Bausch")).toEqual({ given: "Johannes", family: "Bausch" });
+    expect(parseAuthorName("Francisco J. H. Heras")).toEqual({ given: "Francisco J. H.", family: "Heras" });
+    expect(parseAuthorName("Plato")).toEqual({ given: "", family: "Plato" });
+  });
+
+  it('keeps particles with the family name', () => {
+    expect(parseAuthorName("Ludwig van Beethoven")).toEqual({ given: "Ludwig", family: "van Beethoven" });
+    expect(parseAuthorName("Maria de la Cruz")).toEqual({ given: "Maria", family: "de la Cruz" });
+  });
+
+  it('separates suffixes', () => {
+    expect(parseAuthorName("Martin Luther King Jr.")).toEqual({ given: "Martin Luther", family: "King", suffix: "Jr." });
+    expect(parseAuthorName("King, Jr., Martin Luther")).toEqual({ given: "Martin Luther", family: "King", suffix: "Jr." });
+  });
+
+  it('reads "Family, Given" as written', () => {
+    expect(parseAuthorName("van Beethoven, Ludwig")).toEqual({ given: "Ludwig", family: "van Beethoven" });
+    expect(parseAuthorName("Senior, Andrew, III")).toEqual({ given: "Andrew", family: "Senior", suffix: "III" });
+  });
+});
+
+describe('normalizeDoi', () => {
+  it('accepts prefixed, linked and quoted DOIs', () => {
+    expect(normalizeDoi("doi:10.1038/s41586-024-08148-8.")).toBe("10.1038/s41586-024-08148-8");
+    expect(normalizeDoi("https://doi.org/10.1038/s41586-024-08148-8")).toBe("10.1038/s41586-024-08148-8");
+    expect(normalizeDoi("not a doi")).toBeUndefined();
+  });
+});
+
+describe('citation keys', () => {
+  it('keep accented letters as their base letter', () => {
+    expect(toBibTeX(paper("Quantisierung als Eigenwertproblem", "Erwin Schrödinger"))).toMatch(/^@article\{schrodinger1926quantisierung,/);
+    expect(JSON.parse(toCSLJSON(paper("Über die Grundlagen", "Paul Erdős")))[0].id).toBe("erdos1926uber");
+  });
+
+  it('fall back to "paper" for names without Latin letters', () => {
+    expect(toBibTeX(paper("量子 decoding", "王小明"))).toMatch(/^@article\{paper1926decoding,/);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PaperData } from '../types';
+
+export interface PersonName {
+  given: string;
+  family: string;
+  suffix?: string;
+}
+
+const DOI_PATTERN = /\b10\.\d{4,9}\/[^\s"'<>]+/i;
+// Lowercase particles that belong to the family name ("Ludwig van Beethoven" -> "van Beethoven").
+const NAME_PARTICLES = new Set(['van', 'von', 'der', 'den', 'de', 'del', 'della', 'da', 'di', 'do', 'dos', 'du', 'la', 'le', 'ter', 'ten', 'bin', 'al']);
+const NAME_SUFFIXES = /^(jr\.?|sr\.?|ii|iii|iv)$/i;
+
+// Accepts bare DOIs, "doi:" prefixes and doi.org URLs; trailing punctuation from prose is dropped.
+export const normalizeDoi = (text: string): string | undefined => {
+  const match = DOI_PATTERN.exec(text.trim());
+  return match ? match[0].replace(/[.,;)\]]+$/, '') : undefined;
+};
+
+export const doiUrl = (doi: string) => `https://doi.org/${doi}`;
+
+// "Family, Given" is taken at face value; otherwise the last word (plus any particles before it) is the family name.
+export const parseAuthorName = (name: string): PersonName => {
+  const clean = name.replace(/\s+/g, ' ').trim();
+
+  if (clean.includes(',')) {
+    const [family, given, suffix] = clean.split(',').map(part => part.trim());
+    if (given && NAME_SUFFIXES.test(given)) return { given: suffix || "", family, suffix: given };
+    return { given: given || "", family, ...(suffix ? { suffix } : {}) };
+  }
+
+  const words = clean.split(' ');
+  let suffix: string | undefined;
+  if (words.length > 2 && NAME_SUFFIXES.test(words[words.length - 1])) suffix = words.pop();
+  if (words.length === 1) return { given: "", family: words[0], ...(suffix ? { suffix } : {}) };
+
+  let familyStart = words.length - 1;
+  while (familyStart > 1 && NAME_PARTICLES.has(words[familyStart - 1].toLowerCase())) familyStart--;
+
+  return {
+    given: words.slice(0, familyStart).join(' '),
+    family: words.slice(familyStart).join(' '),
+    ...(suffix ? { suffix } : {})
+  };
+};
+
+// "Francisco J. H." -> "F. J. H."; "Jean-Paul" -> "J.-P."
+const initials = (given: string) => given
+  .split(' ')
+  .filter(Boolean)
+  .map(part => part.split('-').map(piece => `${piece.charAt(0).toUpperCase()}.`).join('-'))
+  .join(' ');
+
+export const citationYear = (paper: PaperData): number | undefined => {
+  if (paper.citation?.year) return paper.citation.year;
+  const match = /\b(19|20)\d{2}\b/.exec(`${paper.date || ""} ${paper.journal || ""}`);
+  return match ? parseInt(match[0], 10) : undefined;
+};
+
+// The display journal may carry a date ("Nature • Nov 2024"); citations want the name alone.
+export const citationVenue = (paper: PaperData): string | undefined =>
+  paper.citation?.venue || paper.journal?.split(/\s+[•·|]\s+/)[0].trim() || undefined;
+
+const authorsOf = (paper: PaperData) => paper.authors.map(a => parseAuthorName(a.name)).filter(a => a.family);
+
+const pageRange = (pages: string) => {
+  const [start, end] = pages.split(/\s*[-–—]+\s*/);
+  return { start, end };
+};
+
+const paperLink = (paper: PaperData) =>
+  paper.citation?.doi ? doiUrl(paper.citation.doi) : paper.url && paper.url !== '#' ? paper.url : undefined;
+
+// --- BIBTEX ---
+const bibEscape = (text: string) => text.replace(/([&%$#_])/g, '\\$1');
+
+// Keys are plain ASCII, so accented letters keep their base letter ("Schrödinger" -> "schrodinger")
+const asciiFold = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const citationKey = (paper: PaperData) => {
+  const family = asciiFold(authorsOf(paper)[0]?.family || '').replace(/[^a-z]/g, '') || 'paper';
+  const word = asciiFold(paper.title).split(/[^a-z0-9]+/).find(w => w.length > 3) || '';
+  return `${family}${citationYear(paper) ?? ''}${word}`;
+};
+
+export const toBibTeX = (paper: PaperData): string => {
+  const c = paper.citation || {};
+  const year = citationYear(paper);
+  const venue = citationVenue(paper);
+  const fields: [string, string | undefined][] = [
+    ['title', `{${bibEscape(paper.title)}}`],
+    ['author', authorsOf(paper).map(a => [a.family, a.suffix, a.given].filter(Boolean).join(', ')).join(' and ')],
+    ['journal', venue && bibEscape(venue)],
+    ['year', year?.toString()],
+    ['volume', c.volume],
+    ['number', c.issue],
+    ['pages', c.pages?.replace(/\s*[-–—]+\s*/, '--')],
+    ['doi', c.doi],
+    ['url', paperLink(paper)]
+  ];
+  const body = fields
+    .filter(([, value]) => value)
+    .map(([key, value]) => `  ${key} = {${value}}`)
+    .join(',\n');
+  return `@article{${citationKey(paper)},\n${body}\n}\n`;
+};
+
+// --- RIS ---
+export const toRIS = (paper: PaperData): string => {
+  const c = paper.citation || {};
+  const year = citationYear(paper);
+  const pages = c.pages ? pageRange(c.pages) : undefined;
+  const lines: [string, string | undefined][] = [
+    ['TY', 'JOUR'],
+    ['TI', paper.title],
+    ...authorsOf(paper).map(a => ['AU', [a.family, a.given, a.suffix].filter(Boolean).join(', ')] as [string, string]),
+    ['JO', citationVenue(paper)],
+    ['PY', year?.toString()],
+    ['VL', c.volume],
+    ['IS', c.issue],
+    ['SP', pages?.start],
+    ['EP', pages?.end],
+    ['DO', c.doi],
+    ['UR', paperLink(paper)],
+    ['ER', '']
+  ];
+  return lines
+    .filter(([tag, value]) => tag === 'ER' || value)
+    .map(([tag, value]) => `${tag}  - ${value}`.trimEnd())
+    .join('\r\n') + '\r\n';
+};
+
+// --- CSL-JSON ---
+export const toCSLJSON = (paper: PaperData): string => {
+  const c = paper.citation || {};
+  const year = citationYear(paper);
+  const item = {
+    id: citationKey(paper),
+    type: 'article-journal',
+    title: paper.title,
+    author: authorsOf(paper).map(a => ({ family: a.family, given: a.given, ...(a.suffix ? { suffix: a.suffix } : {}) })),
+    'container-title': citationVenue(paper),
+    issued: year ? { 'date-parts': [[year]] } : undefined,
+    volume: c.volume,
+    issue: c.issue,
+    page: c.pages,
+    DOI: c.doi,
+    URL: paperLink(paper)
+  };
+  return JSON.stringify([item], null, 2);
+};
+
+// --- APA (7th edition) ---
+export const formatAPA = (paper: PaperData): string => {
+  const c = paper.citation || {};
+  const names = authorsOf(paper).map(a => [`${a.family}, ${initials(a.given)}`.replace(/, $/, ''), a.suffix].filter(Boolean).join(', '));
+  let authorText: string;
+  if (names.length === 0) authorText = "";
+  else if (names.length === 1) authorText = names[0];
+  else if (names.length <= 20) authorText = `${names.slice(0, -1).join(', ')}, & ${names[names.length - 1]}`;
+  else authorText = `${names.slice(0, 19).join(', ')}, . . . ${names[names.length - 1]}`;
+
+  const year = citationYear(paper);
+  const venue = citationVenue(paper);
+  let source = venue || "";
+  if (venue && c.volume) source += `, ${c.volume}${c.issue ? `(${c.issue})` : ''}`;
+  if (venue && c.pages) source += `, ${c.pages.replace(/\s*[-–—]+\s*/, '–')}`;
+
+  // Without authors the title moves into the author position.
+  const title = `${paper.title.replace(/\.$/, '')}.`;
+  return [
+    authorText ? `${authorText} (${year ?? 'n.d.'}). ${title}` : `${title} (${year ?? 'n.d.'}).`,
+    source ? `${source}.` : '',
+    paperLink(paper) || ''
+  ].filter(Boolean).join(' ');
+};
+
+// --- MLA (9th edition) ---
+export const formatMLA = (paper: PaperData): string => {
+  const c = paper.citation || {};
+  const authors = authorsOf(paper);
+  const full = (a: PersonName) => [a.given, a.family].filter(Boolean).join(' ') + (a.suffix ? `, ${a.suffix}` : '');
+  const inverted = (a: PersonName) => [a.family, a.given].filter(Boolean).join(', ') + (a.suffix ? `, ${a.suffix}` : '');
+  let authorText = "";
+  if (authors.length === 1) authorText = `${inverted(authors[0])}.`;
+  else if (authors.length === 2) authorText = `${inverted(authors[0])}, and ${full(authors[1])}.`;
+  else if (authors.length > 2) authorText = `${inverted(authors[0])}, et al.`;
+
+  const details = [
+    citationVenue(paper),
+    c.volume && `vol. ${c.volume}`,
+    c.issue && `no. ${c.issue}`,
+    citationYear(paper)?.toString(),
+    c.pages && `${/[-–—]/.test(c.pages) ? 'pp.' : 'p.'} ${c.pages.replace(/\s*[-–—]+\s*/, '–')}`
+  ].filter(Boolean).join(', ');
+
+  const link = paperLink(paper);
+  return [
+    authorText,
+    `"${paper.title.replace(/\.$/, '')}."`,
+    details ? `${details}.` : '',
+    link ? `${link}.` : ''
+  ].filter(Boolean).join(' ');
+};
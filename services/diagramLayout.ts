@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DiagramEdge, DiagramNode } from '../types';
+
+// Groups nodes into columns by their longest path from a source, so every edge points rightwards
+// unless it closes a loop. Cycles are cut by capping the relaxation at one pass per node.
+export const layerNodes = (nodes: DiagramNode[], edges: DiagramEdge[]): DiagramNode[][] => {
+  const layer = new Map(nodes.map(n => [n.id, 0]));
+  for (let pass = 0; pass < nodes.length; pass++) {
+    let changed = false;
+    edges.forEach(e => {
+      const next = (layer.get(e.from) ?? 0) + 1;
+      if (next < nodes.length && next > (layer.get(e.to) ?? 0)) {
+        layer.set(e.to, next);
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+  const columns: DiagramNode[][] = [];
+  nodes.forEach(n => {
+    const index = layer.get(n.id) ?? 0;
+    (columns[index] = columns[index] || []).push(n);
+  });
+  return columns.filter(Boolean);
+};
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface DocumentSection {
+  heading: string;
+  text: string;
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+// Full text of the analyzed source, kept for follow-up questions. Pasted text is a single unpaginated page.
+export interface DocumentText {
+  pages: string[]; // pages[0] is page 1
+  paginated: boolean;
+}
+
+const KNOWN_HEADING = /^(abstract|introduction|background|related work|preliminaries|methods?|methodology|materials and methods|approach|experiments?|experimental setup|evaluation|results|results and discussion|discussion|limitations|conclusions?|references|bibliography|acknowledge?ments|appendix|supplementary (information|materials?))\b/i;
+const NUMBERED_HEADING = /^(\d+(\.\d+)*\.?|[IVX]+\.|[A-H]\.)\s+[A-Z][^.!?]{1,80}$/;
+const BACK_MATTER = /^(references|bibliography|acknowledge?ments)\b/i;
+
+// Heuristic used for pasted text and as a fallback for PDFs without font-size cues.
+export const isLikelyHeading = (line: string): boolean => {
+  const text = line.trim();
+  if (text.length === 0 || text.length > 100) return false;
+  if (NUMBERED_HEADING.test(text)) return true;
+  return KNOWN_HEADING.test(text) && text.split(/\s+/).length <= 6;
+};
+
+// References and acknowledgements add tokens without adding insight.
+export const isBackMatter = (section: DocumentSection) => BACK_MATTER.test(section.heading);
+
+export const splitTextIntoSections = (text: string): DocumentSection[] => {
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { heading: "Front Matter", text: "" };
+
+  text.split('\n').forEach(line => {
+    if (isLikelyHeading(line)) {
+      if (current.text.trim()) sections.push(current);
+      current = { heading: line.trim(), text: "" };
+    } else {
+      current.text += line + '\n';
+    }
+  });
+  if (current.text.trim()) sections.push(current);
+
+  return sections;
+};
+
+// Splits an oversized section on paragraph (or, failing that, whitespace) boundaries.
+const splitSection = (section: DocumentSection, maxChars: number): DocumentSection[] => {
+  if (section.text.length <= maxChars) return [section];
+
+  const parts: string[] = [];
+  let remaining = section.text;
+  while (remaining.length > maxChars) {
+    let cut = remaining.lastIndexOf('\n', maxChars);
+    if (cut < maxChars / 2) cut = remaining.lastIndexOf(' ', maxChars);
+    if (cut < maxChars / 2) cut = maxChars;
+    parts.push(remaining.substring(0, cut));
+    remaining = remaining.substring(cut);
+  }
+  if (remaining.trim()) parts.push(remaining);
+
+  return parts.map((text, i) => ({ ...section, heading: `${section.heading} (part ${i + 1})`, text }));
+};
+
+// Groups consecutive sections into chunks that each fit a single model request.
+export const chunkSections = (sections: DocumentSection[], maxChars: number): DocumentSection[][] => {
+  const chunks: DocumentSection[][] = [];
+  let current: DocumentSection[] = [];
+  let size = 0;
+
+  sections.flatMap(s => splitSection(s, maxChars)).forEach(section => {
+    if (current.length > 0 && size + section.text.length > maxChars) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(section);
+    size += section.text.length;
+  });
+  if (current.length > 0) chunks.push(current);
+
+  return chunks;
+};
+
+export const formatPages = (section: { pageStart?: number; pageEnd?: number }): string => {
+  if (!section.pageStart) return "";
+  return section.pageEnd && section.pageEnd !== section.pageStart
+    ? `pp. ${section.pageStart}–${section.pageEnd}`
+    : `p. ${section.pageStart}`;
+};
+
+export const formatSectionsForPrompt = (sections: DocumentSection[]): string => {
+  return sections.map(s => {
+    const pages = formatPages(s);
+    return `## ${s.heading}${pages ? ` (${pages})` : ""}\n${s.text.trim()}`;
+  }).join('\n\n');
+};
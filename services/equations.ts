@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { EquationSymbol } from '../types';
+
+// Commands whose argument is words rather than math; letters inside them are never symbols.
+const TEXT_COMMANDS = new Set(['\\text', '\\textrm', '\\textit', '\\textbf', '\\mathrm', '\\operatorname', '\\begin', '\\end', '\\label', '\\tag']);
+
+// Commands (\alpha, \,), single characters and runs of whitespace
+const tokenize = (latex: string): string[] => latex.match(/\\[a-zA-Z]+|\\[\s\S]|\s+|[\s\S]/g) || [];
+
+const isSpace = (token: string) => /^\s+$/.test(token);
+
+const isBalanced = (tokens: string[]) => {
+  let depth = 0;
+  for (const token of tokens) {
+    if (token === '{') depth++;
+    if (token === '}' && --depth < 0) return false;
+  }
+  return depth === 0;
+};
+
+// Index just past the braced group starting at `start` (after optional whitespace), or `start` when there is none
+const skipGroup = (tokens: string[], start: number): number => {
+  let i = start;
+  while (i < tokens.length && isSpace(tokens[i])) i++;
+  if (tokens[i] !== '{') return start;
+  let depth = 0;
+  for (; i < tokens.length; i++) {
+    if (tokens[i] === '{') depth++;
+    if (tokens[i] === '}' && --depth === 0) return i + 1;
+  }
+  return tokens.length;
+};
+
+// Index just past `pattern` if it occurs at `start`, ignoring whitespace between tokens; -1 otherwise
+const matchAt = (tokens: string[], start: number, pattern: string[]): number => {
+  let i = start;
+  for (let k = 0; k < pattern.length; k++) {
+    if (k > 0) while (i < tokens.length && isSpace(tokens[i])) i++;
+    if (tokens[i] !== pattern[k]) return -1;
+    i++;
+  }
+  return i;
+};
+
+// Wraps every occurrence of each symbol in `\htmlData{symbol=<index>}{...}` so the rendered elements can
+// be tied back to their definitions. Longer symbols win, so with both `p` and `p_L` defined, `p_L` is
+// marked as a whole. Symbols with unbalanced braces are left alone. The result needs KaTeX's `trust`
+// option for \htmlData; if it still fails to render, render the original LaTeX instead.
+export const markSymbols = (latex: string, symbols: EquationSymbol[]): string => {
+  const patterns = symbols
+    .map((symbol, index) => ({ index, tokens: tokenize(symbol.latex).filter(t => !isSpace(t)) }))
+    .filter(p => p.tokens.length > 0 && isBalanced(p.tokens) && !['_', '^', '&'].includes(p.tokens[0]))
+    .sort((a, b) => b.tokens.length - a.tokens.length);
+
+  const tokens = tokenize(latex);
+  let marked = "";
+  let i = 0;
+  while (i < tokens.length) {
+    if (TEXT_COMMANDS.has(tokens[i])) {
+      const end = skipGroup(tokens, i + 1);
+      marked += tokens.slice(i, Math.max(end, i + 1)).join('');
+      i = Math.max(end, i + 1);
+      continue;
+    }
+    let matched = false;
+    for (const pattern of patterns) {
+      const end = matchAt(tokens, i, pattern.tokens);
+      if (end < 0) continue;
+      // Braced so the marked symbol can stand as a single argument, e.g. in \frac12 or x_i
+      marked += `{\\htmlData{symbol=${pattern.index}}{${tokens.slice(i, end).join('')}}}`;
+      i = end;
+      matched = true;
+      break;
+    }
+    if (!matched) marked += tokens[i++];
+  }
+  return marked;
+};
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { strToU8, zipSync } from 'fflate';
+import { PaperData } from '../types';
+import { serializePaper } from './paperFormat';
+import { languageOf } from '../i18n/languages';
+
+// Produced by `npm run build:viewer` (vite.viewer.config.ts) and served from public/.
+const VIEWER_SCRIPT_URL = `${import.meta.env.BASE_URL}viewer/viewer.js`;
+const VIEWER_STYLES_URL = `${import.meta.env.BASE_URL}viewer/viewer.css`;
+
+export const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 60) || 'paper';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildIndexHtml = (paper: PaperData) => {
+  // "<" is escaped so text like "</script>" inside the paper can't end the data block early.
+  const json = JSON.stringify(paper).replace(/</g, '\\u003c');
+  const language = languageOf(paper.language);
+  return `<!DOCTYPE html>
+<html lang="${language.code}" dir="${language.dir}">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(paper.title)}</title>
+    <meta name="description" content="${escapeHtml(paper.subtitle)}" />
+    <link rel="stylesheet" href="viewer.css">
+  </head>
+  <body>
+    <div id="root"></div>
+    <script id="paper-data" type="application/json">${json}</script>
+    <script src="viewer.js"></script>
+  </body>
+</html>
+`;
+};
+
+// The dev server answers missing files with index.html, so the content type tells a stale build apart
+const fetchViewerFile = async (url: string, contentType: string): Promise<Uint8Array> => {
+  const response = await fetch(url);
+  if (!response.ok || !response.headers.get('content-type')?.includes(contentType)) {
+    throw new Error("The static viewer hasn't been built. Run `npm run build:viewer` and reload.");
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+// Zips a folder with index.html, the viewer script, its stylesheet and the paper JSON. The stylesheet
+// carries the Tailwind classes, fonts and KaTeX styles, so the site needs no network access.
+export const exportSite = async (paper: PaperData): Promise<{ blob: Blob; filename: string }> => {
+  const [viewerScript, viewerStyles] = await Promise.all([
+    fetchViewerFile(VIEWER_SCRIPT_URL, 'javascript'),
+    fetchViewerFile(VIEWER_STYLES_URL, 'css')
+  ]);
+
+  // Cropped figure images aren't shown on the exported page.
+  const exported: PaperData = { ...paper, figures: paper.figures?.map(({ image, ...figure }) => figure) };
+  const folder = slugify(paper.title);
+  const zipped = zipSync({
+    [folder]: {
+      'index.html': strToU8(buildIndexHtml(exported)),
+      'viewer.js': [viewerScript, { level: 9 }],
+      'viewer.css': [viewerStyles, { level: 9 }],
+      'paper.json': strToU8(serializePaper(exported))
+    }
+  });
+
+  return { blob: new Blob([zipped as BlobPart], { type: 'application/zip' }), filename: `${folder}-site.zip` };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
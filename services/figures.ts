@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BoundingBox, PaperFigure, PaperTable } from '../types';
+import { AnalysisOptions, AnalysisProvider, ImageInput } from './providers';
+import {
+  FIGURE_EXPLANATION_SCHEMA,
+  PAGE_VISUALS_SCHEMA,
+  buildFigureExplanationPrompt,
+  buildPageVisualsPrompt
+} from './analysisSchema';
+import { loadPdfDocument, renderPage } from './pdf';
+
+const CAPTION_LINE = /^\s*(fig(ure)?\.?|table)\s*([0-9]+|[IVX]+)\b/im;
+// Each candidate page costs one vision request, so long supplements are capped.
+const MAX_VISUAL_PAGES = 8;
+const RENDER_SCALE = 2;
+const CROP_PADDING = 0.01;
+
+interface PageVisuals {
+  figures?: { label?: string; caption?: string; box_2d?: number[] }[];
+  // Typed loosely: models return numbers, nulls and ragged rows despite the schema
+  tables?: { label?: string; caption?: string; columns?: unknown; rows?: unknown }[];
+}
+
+// Pages whose text layer contains a "Figure N" / "Table N" caption line (1-based page numbers).
+export const findVisualPages = (pages: string[]): number[] => {
+  return pages
+    .map((text, i) => CAPTION_LINE.test(text) ? i + 1 : 0)
+    .filter(page => page > 0)
+    .slice(0, MAX_VISUAL_PAGES);
+};
+
+const toImageInput = (dataUrl: string): ImageInput => {
+  const [header, data] = dataUrl.split(',');
+  return { mimeType: header.replace(/^data:|;base64$/g, ''), data };
+};
+
+// box_2d is [ymin, xmin, ymax, xmax] on a 0-1000 grid; anything else is discarded.
+const toBoundingBox = (box?: number[]): BoundingBox | undefined => {
+  if (!box || box.length !== 4 || box.some(v => typeof v !== 'number')) return undefined;
+  const [ymin, xmin, ymax, xmax] = box.map(v => Math.min(1000, Math.max(0, v)) / 1000);
+  if (xmax - xmin < 0.02 || ymax - ymin < 0.02) return undefined;
+  const x = Math.max(0, xmin - CROP_PADDING);
+  const y = Math.max(0, ymin - CROP_PADDING);
+  return {
+    x,
+    y,
+    width: Math.min(1, xmax + CROP_PADDING) - x,
+    height: Math.min(1, ymax + CROP_PADDING) - y
+  };
+};
+
+const toCell = (value: unknown): string =>
+  value === null || value === undefined ? "" : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Cells become strings and rows that aren't arrays are dropped, so the table always renders
+const toTableGrid = (columns: unknown, rows: unknown): { columns: string[]; rows: string[][] } => ({
+  columns: Array.isArray(columns) ? columns.map(toCell) : [],
+  rows: Array.isArray(rows) ? rows.filter(Array.isArray).map(row => row.map(toCell)) : []
+});
+
+const cropCanvas = (canvas: HTMLCanvasElement, box: BoundingBox): string => {
+  const crop = document.createElement('canvas');
+  crop.width = Math.round(canvas.width * box.width);
+  crop.height = Math.round(canvas.height * box.height);
+  crop.getContext('2d')!.drawImage(
+    canvas,
+    canvas.width * box.x, canvas.height * box.y, crop.width, crop.height,
+    0, 0, crop.width, crop.height
+  );
+  return crop.toDataURL('image/jpeg', 0.85);
+};
+
+// Rasterizes pages that carry captions and asks the model where the figures are and what the tables contain.
+export const extractFiguresAndTables = async (
+  provider: AnalysisProvider,
+  file: File,
+  pages: string[],
+  options: AnalysisOptions
+): Promise<{ figures: PaperFigure[]; tables: PaperTable[] }> => {
+  const figures: PaperFigure[] = [];
+  const tables: PaperTable[] = [];
+  const candidates = findVisualPages(pages);
+  if (candidates.length === 0) return { figures, tables };
+
+  const pdf = await loadPdfDocument(file);
+  try {
+    for (let i = 0; i < candidates.length; i++) {
+      const pageNumber = candidates[i];
+      options.signal?.throwIfAborted();
+      options.onProgress?.({ step: 'reading', current: i, total: candidates.length, detail: { key: 'locatingFigures', page: pageNumber } });
+
+      try {
+        const canvas = await renderPage(pdf, pageNumber, RENDER_SCALE);
+        const pageImage = toImageInput(canvas.toDataURL('image/jpeg', 0.8));
+        const result = await provider.generateJson<PageVisuals>(
+          buildPageVisualsPrompt(pageNumber, pages[pageNumber - 1]),
+          PAGE_VISUALS_SCHEMA,
+          options,
+          [pageImage]
+        );
+
+        (result.figures || []).forEach((figure, idx) => {
+          const box = toBoundingBox(figure.box_2d);
+          if (!box) return;
+          figures.push({
+            id: `fig-${pageNumber}-${idx}`,
+            label: figure.label || `Figure on page ${pageNumber}`,
+            caption: figure.caption || "",
+            page: pageNumber,
+            box,
+            image: cropCanvas(canvas, box)
+          });
+        });
+
+        (Array.isArray(result.tables) ? result.tables : []).forEach((table, idx) => {
+          if (!table || typeof table !== 'object') return;
+          const { columns, rows } = toTableGrid(table.columns, table.rows);
+          if (!columns.length && !rows.length) return;
+          tables.push({
+            id: `table-${pageNumber}-${idx}`,
+            label: typeof table.label === 'string' && table.label ? table.label : `Table on page ${pageNumber}`,
+            caption: typeof table.caption === 'string' ? table.caption : "",
+            page: pageNumber,
+            columns,
+            rows
+          });
+        });
+      } catch (e) {
+        if (options.signal?.aborted) throw e;
+        // A single unreadable page shouldn't sink the whole analysis.
+        console.warn(`Figure extraction failed for page ${pageNumber}`, e);
+      }
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return { figures, tables };
+};
+
+export const explainFigure = async (
+  provider: AnalysisProvider,
+  paperTitle: string,
+  figure: PaperFigure,
+  options: AnalysisOptions
+): Promise<string> => {
+  const result = await provider.generateJson<{ explanation?: string }>(
+    buildFigureExplanationPrompt(paperTitle, figure.label, figure.caption, options.language),
+    FIGURE_EXPLANATION_SCHEMA,
+    options,
+    figure.image ? [toImageInput(figure.image)] : []
+  );
+  if (!result.explanation) throw new Error("The model did not return an explanation.");
+  return result.explanation;
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { forceLayout, LayoutNode } from './forceLayout';
+
+const distance = (a: LayoutNode, b: LayoutNode) => Math.hypot(a.x - b.x, a.y - b.y);
+
+describe('forceLayout', () => {
+  it('centres a single node', () => {
+    expect(forceLayout([], [])).toEqual([]);
+    expect(forceLayout(["Decoder"], [])).toEqual([{ id: "Decoder", x: 0.5, y: 0.5 }]);
+  });
+
+  it('is deterministic and fits the unit square', () => {
+    const ids = ["Qubit", "Syndrome", "Decoder", "Correction", "Logical error"];
+    const edges = [{ source: "Qubit", target: "Syndrome" }, { source: "Syndrome", target: "Decoder" }, { source: "Decoder", target: "Correction" }];
+    const layout = forceLayout(ids, edges);
+
+    expect(layout).toEqual(forceLayout(ids, edges));
+    expect(layout.map(n => n.id)).toEqual(ids);
+    layout.forEach(n => {
+      expect(n.x).toBeGreaterThanOrEqual(0);
+      expect(n.x).toBeLessThanOrEqual(1);
+      expect(n.y).toBeGreaterThanOrEqual(0);
+      expect(n.y).toBeLessThanOrEqual(1);
+    });
+    // The longer side spans the whole square
+    const spanX = Math.max(...layout.map(n => n.x)) - Math.min(...layout.map(n => n.x));
+    const spanY = Math.max(...layout.map(n => n.y)) - Math.min(...layout.map(n => n.y));
+    expect(Math.max(spanX, spanY)).toBeCloseTo(1);
+  });
+
+  it('pulls linked nodes closer than unlinked ones', () => {
+    const layout = forceLayout(["a", "b", "c", "d"], [{ source: "a", target: "b" }, { source: "c", target: "d" }]);
+    const [a, b, c] = layout;
+    expect(distance(a, b)).toBeLessThan(distance(a, c));
+  });
+
+  it('keeps overlapping nodes apart', () => {
+    const layout = forceLayout(["a", "b", "c"], [{ source: "a", target: "b" }, { source: "b", target: "c" }, { source: "a", target: "c" }]);
+    layout.forEach((n, i) => layout.slice(i + 1).forEach(m => expect(distance(n, m)).toBeGreaterThan(0.1)));
+  });
+
+  it('ignores edges to unknown nodes and self-loops', () => {
+    const ids = ["a", "b", "c"];
+    const edges = [{ source: "a", target: "b" }];
+    expect(forceLayout(ids, [...edges, { source: "a", target: "missing" }, { source: "c", target: "c" }])).toEqual(forceLayout(ids, edges));
+  });
+});
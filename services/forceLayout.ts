@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface LayoutNode {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+}
+
+const ITERATIONS = 300;
+const REPULSION = 0.02;
+const SPRING = 0.05;
+const SPRING_LENGTH = 0.3;
+const GRAVITY = 0.02;
+
+// Deterministic force-directed layout (repulsion between all nodes, springs along edges, pull to the centre).
+// Concept graphs are small, so it runs to completion synchronously. Positions are returned in 0-1 space.
+export const forceLayout = (ids: string[], edges: LayoutEdge[]): LayoutNode[] => {
+  // Start on a circle so results don't depend on randomness
+  const nodes = ids.map((id, i) => {
+    const angle = (i / Math.max(1, ids.length)) * Math.PI * 2;
+    return { id, x: Math.cos(angle) * 0.3, y: Math.sin(angle) * 0.3, vx: 0, vy: 0 };
+  });
+  if (nodes.length <= 1) return nodes.map(({ id }) => ({ id, x: 0.5, y: 0.5 }));
+
+  const index = new Map(nodes.map((n, i) => [n.id, i]));
+  const links = edges
+    .map(e => [index.get(e.source), index.get(e.target)])
+    .filter((pair): pair is [number, number] => pair[0] !== undefined && pair[1] !== undefined && pair[0] !== pair[1]);
+
+  for (let step = 0; step < ITERATIONS; step++) {
+    const cooling = 1 - step / ITERATIONS;
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = nodes[i], b = nodes[j];
+        const dx = a.x - b.x, dy = a.y - b.y;
+        const distSq = Math.max(dx * dx + dy * dy, 1e-4);
+        const force = REPULSION / distSq;
+        const dist = Math.sqrt(distSq);
+        a.vx += (dx / dist) * force; a.vy += (dy / dist) * force;
+        b.vx -= (dx / dist) * force; b.vy -= (dy / dist) * force;
+      }
+    }
+
+    links.forEach(([i, j]) => {
+      const a = nodes[i], b = nodes[j];
+      const dx = b.x - a.x, dy = b.y - a.y;
+      const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1e-3);
+      const force = (dist - SPRING_LENGTH) * SPRING;
+      a.vx += (dx / dist) * force; a.vy += (dy / dist) * force;
+      b.vx -= (dx / dist) * force; b.vy -= (dy / dist) * force;
+    });
+
+    nodes.forEach(n => {
+      n.vx -= n.x * GRAVITY;
+      n.vy -= n.y * GRAVITY;
+      // Cap each step so tightly packed starts don't explode
+      n.x += Math.max(-0.05, Math.min(0.05, n.vx)) * cooling;
+      n.y += Math.max(-0.05, Math.min(0.05, n.vy)) * cooling;
+      n.vx *= 0.6;
+      n.vy *= 0.6;
+    });
+  }
+
+  // Fit the result into the unit square
+  const xs = nodes.map(n => n.x), ys = nodes.map(n => n.y);
+  const minX = Math.min(...xs), minY = Math.min(...ys);
+  const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY, 1e-3);
+  const offsetX = (1 - (Math.max(...xs) - minX) / span) / 2;
+  const offsetY = (1 - (Math.max(...ys) - minY) / span) / 2;
+  return nodes.map(n => ({ id: n.id, x: offsetX + (n.x - minX) / span, y: offsetY + (n.y - minY) / span }));
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GlossaryEntry } from '../types';
+
+export type GlossaryPart = string | { text: string; entry: number };
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// One pattern for the whole glossary, longest spellings first so "logical error rate" wins over "error rate".
+// Matches are case-insensitive, whole words, and may carry a plural ending.
+const buildMatcher = (glossary: GlossaryEntry[]) => {
+  const spellings = glossary
+    .flatMap((entry, index) => [entry.term, ...entry.aliases].map(text => ({ text, index })))
+    .filter(s => s.text.trim().length > 1)
+    .sort((a, b) => b.text.length - a.text.length);
+  const byText = new Map<string, number>();
+  spellings.forEach(s => { if (!byText.has(s.text.toLowerCase())) byText.set(s.text.toLowerCase(), s.index); });
+  if (byText.size === 0) return null;
+  const pattern = new RegExp(`(?<![\\w-])(${spellings.map(s => escapeRegExp(s.text)).join('|')})(?:e?s)?(?![\\w-])`, 'gi');
+  return { pattern, byText };
+};
+
+// Splits each paragraph into plain runs and glossary terms. Only the first mention of each entry across
+// all the paragraphs is linked, so a term is explained once per section.
+export const linkGlossaryTerms = (paragraphs: string[], glossary: GlossaryEntry[] = []): GlossaryPart[][] => {
+  const matcher = buildMatcher(glossary);
+  if (!matcher) return paragraphs.map(text => [text]);
+
+  const seen = new Set<number>();
+  return paragraphs.map(text => {
+    const parts: GlossaryPart[] = [];
+    let last = 0;
+    for (const match of text.matchAll(matcher.pattern)) {
+      const entry = matcher.byText.get(match[1].toLowerCase());
+      if (entry === undefined || seen.has(entry)) continue;
+      seen.add(entry);
+      if (match.index! > last) parts.push(text.substring(last, match.index));
+      parts.push({ text: match[0], entry });
+      last = match.index! + match[0].length;
+    }
+    if (last < text.length) parts.push(text.substring(last));
+    return parts;
+  });
+};
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PaperData, PaperSources, SourceQuote } from '../types';
+import { AnalysisOptions, AnalysisProvider } from './providers';
+import { DocumentText } from './documentSections';
+import { GROUNDING_SCHEMA, buildGroundingPrompt } from './analysisSchema';
+import { Passage, locateQuote, selectPassages, splitPassages } from './paperChat';
+
+// Passages considered for each claim, and the total sent in one request (about 6k tokens)
+const CLAIM_CHARS = 3000;
+const CONTEXT_CHARS = 24000;
+const MAX_QUOTES = 3;
+
+interface Claim {
+  id: string;
+  text: string;
+}
+
+const claimsOf = (paper: PaperData): Claim[] => [
+  ...paper.summary.split('\n').filter(p => p.trim() !== "").map((text, i) => ({ id: `S${i + 1}`, text })),
+  ...paper.concepts.map((c, i) => ({ id: `C${i + 1}`, text: `${c.title}: ${c.description}` })),
+  { id: 'I', text: paper.impact }
+];
+
+// The best passages for each claim in turn, so every claim gets some context before the budget runs out
+const excerptsFor = (passages: Passage[], claims: Claim[]): Passage[] => {
+  const picked = new Set<Passage>();
+  let used = 0;
+  for (const claim of claims) {
+    for (const passage of selectPassages(passages, claim.text, CLAIM_CHARS)) {
+      if (picked.has(passage) || used + passage.text.length > CONTEXT_CHARS) continue;
+      picked.add(passage);
+      used += passage.text.length;
+    }
+  }
+  return passages.filter(p => picked.has(p));
+};
+
+// Checks a quote against the document. The page it was found on wins over the one the model gave.
+export const verifyQuote = (text: string, page: number | undefined, doc: DocumentText): SourceQuote => {
+  const match = locateQuote(text, doc);
+  if (!match) return { text, ...(doc.paginated && page ? { page } : {}), verified: false };
+  return { text, ...(match.page ? { page: match.page } : {}), verified: true };
+};
+
+// Finds supporting quotes for every summary paragraph, concept and the impact statement in one request,
+// then checks each quote against the document text.
+export const groundPaper = async (
+  provider: AnalysisProvider,
+  paper: PaperData,
+  doc: DocumentText,
+  options: AnalysisOptions
+): Promise<PaperSources> => {
+  const claims = claimsOf(paper);
+  const excerpts = excerptsFor(splitPassages(doc), claims);
+  const result = await provider.generateJson<{ claims?: { id?: string; quotes?: { text?: string; page?: number | null }[] }[] }>(
+    buildGroundingPrompt(claims, excerpts, doc.paginated),
+    GROUNDING_SCHEMA,
+    options
+  );
+
+  const quotesById = new Map<string, SourceQuote[]>();
+  (result.claims || []).forEach(claim => {
+    const id = claim.id?.trim();
+    if (!id || quotesById.has(id)) return;
+    const quotes = (claim.quotes || [])
+      .map(q => ({ text: (q.text || "").trim().replace(/^["“]|["”]$/g, '').trim(), page: q.page ?? undefined }))
+      .filter(q => q.text)
+      .slice(0, MAX_QUOTES)
+      .map(q => verifyQuote(q.text, q.page, doc));
+    quotesById.set(id, quotes);
+  });
+  const quotesFor = (id: string) => quotesById.get(id) ?? [];
+
+  return {
+    summary: claims.filter(c => c.id.startsWith('S')).map(c => quotesFor(c.id)),
+    impact: quotesFor('I'),
+    concepts: Object.fromEntries(paper.concepts.map((c, i) => [c.title, quotesFor(`C${i + 1}`)]))
+  };
+};
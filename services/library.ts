@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, PaperData } from '../types';
+import { ProviderId } from './providers';
+import { DocumentText } from './documentSections';
+
+const DB_NAME = 'scholarlens';
+const DB_VERSION = 1;
+const STORE = 'papers';
+
+// How a library entry was produced, so past runs can be compared without re-analyzing.
+export interface AnalysisMeta {
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+  sourceName?: string; // Uploaded file name; absent for pasted text
+  sourceSize?: number; // Bytes
+  durationMs: number;
+}
+
+export interface LibraryEntry {
+  id: string;
+  name: string; // Display name in the library; starts as the paper title and can be renamed
+  paper: PaperData;
+  pdf?: Blob;
+  source?: DocumentText; // Extracted text; entries saved before it was kept only have the PDF
+  conversation?: ChatMessage[];
+  meta: AnalysisMeta;
+  createdAt: number;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs a single request in its own transaction and resolves once the transaction commits.
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const createId = () => crypto.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Most recently updated first.
+export const listPapers = async (): Promise<LibraryEntry[]> => {
+  const entries = await withStore<LibraryEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getPaper = (id: string): Promise<LibraryEntry | undefined> =>
+  withStore<LibraryEntry | undefined>('readonly', store => store.get(id));
+
+export const addPaper = async (paper: PaperData, meta: AnalysisMeta, pdf?: Blob, source?: DocumentText): Promise<LibraryEntry> => {
+  const now = Date.now();
+  const entry: LibraryEntry = { id: createId(), name: paper.title, paper, pdf, source, meta, createdAt: now, updatedAt: now };
+  await withStore('readwrite', store => store.put(entry));
+  return entry;
+};
+
+// `touch` moves the entry to the top of the library; caches of derived data leave it where it is.
+// The read and the write share one transaction, so concurrent updates to the same entry can't drop each other's changes.
+const updateEntry = async (id: string, patch: (entry: LibraryEntry) => Partial<LibraryEntry>, touch = true) => {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    let missing = false;
+    const request = store.get(id) as IDBRequest<LibraryEntry | undefined>;
+    request.onsuccess = () => {
+      const entry = request.result;
+      if (!entry) {
+        missing = true;
+        tx.abort();
+        return;
+      }
+      store.put({ ...entry, ...patch(entry), ...(touch ? { updatedAt: Date.now() } : {}) });
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(missing ? new Error(`Paper ${id} is not in the library.`) : tx.error);
+  });
+};
+
+// Persists later changes to an opened paper (e.g. figure explanations).
+export const updatePaper = (id: string, paper: PaperData) => updateEntry(id, () => ({ paper }));
+
+export const saveConversation = (id: string, conversation: ChatMessage[]) => updateEntry(id, () => ({ conversation }));
+
+// Stores text extracted from an older entry's PDF so it isn't parsed again
+export const saveSource = (id: string, source: DocumentText) => updateEntry(id, () => ({ source }), false);
+
+export const renamePaper = (id: string, name: string) => updateEntry(id, () => ({ name }));
+
+export const deletePaper = (id: string) => withStore('readwrite', store => store.delete(id));
+
+export const searchPapers = (entries: LibraryEntry[], query: string): LibraryEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return entries;
+  return entries.filter(entry => {
+    const haystack = [
+      entry.name,
+      entry.paper.title,
+      entry.paper.subtitle,
+      entry.paper.journal,
+      ...entry.paper.authors.map(a => a.name),
+      ...entry.paper.concepts.map(c => c.title)
+    ].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, KeyConcept, PaperData } from '../types';
+import { AnalysisProvider, ChatOptions } from './providers';
+import { DocumentText } from './documentSections';
+import { buildChatInstructions } from './analysisSchema';
+
+export interface Passage {
+  page?: number; // Absent for unpaginated (pasted) text
+  text: string;
+}
+
+export type ReplyBlock =
+  | { kind: 'text'; text: string }
+  | { kind: 'quote'; text: string; page?: number };
+
+const PASSAGE_CHARS = 1200;
+// About 3k tokens of excerpts per question
+const CONTEXT_CHARS = 12000;
+// Older turns stay in the saved conversation but aren't sent again
+const HISTORY_MESSAGES = 10;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'has', 'have', 'her', 'his', 'how', 'its',
+  'our', 'out', 'was', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'this', 'that', 'these',
+  'those', 'from', 'into', 'does', 'did', 'about', 'than', 'then', 'them', 'they', 'their', 'there', 'also',
+  'paper', 'authors', 'work', 'use', 'used', 'using'
+]);
+
+const PAGE_REF = /\[p\.\s*(\d+)\]/g;
+
+const termsOf = (text: string): string[] => {
+  const words: string[] = text.toLowerCase().match(/[a-z0-9]+(?:-[a-z0-9]+)*/g) || [];
+  return words.filter(word => word.length > 2 && !STOP_WORDS.has(word));
+};
+
+// Splits every page into passages of roughly PASSAGE_CHARS, breaking between lines
+export const splitPassages = (doc: DocumentText): Passage[] => {
+  const passages: Passage[] = [];
+  doc.pages.forEach((pageText, i) => {
+    const page = doc.paginated ? i + 1 : undefined;
+    let current = "";
+    const flush = () => {
+      if (current.trim()) passages.push({ page, text: current.trim() });
+      current = "";
+    };
+    pageText.split('\n').forEach(line => {
+      if (current.length + line.length > PASSAGE_CHARS) flush();
+      current += line + '\n';
+    });
+    flush();
+  });
+  return passages;
+};
+
+// Ranks passages by the query terms they contain, rare terms counting most, and keeps the best that fit
+// in `budget` characters, in document order. When nothing matches, the opening passages are used.
+export const selectPassages = (passages: Passage[], query: string, budget = CONTEXT_CHARS): Passage[] => {
+  const queryTerms = [...new Set(termsOf(query))];
+  const passageTerms = passages.map(p => new Set(termsOf(p.text)));
+  const weights = new Map(queryTerms.map(term => {
+    const frequency = passageTerms.filter(terms => terms.has(term)).length;
+    return [term, Math.log(1 + passages.length / (1 + frequency))];
+  }));
+
+  const scored = passages.map((_, i) => ({
+    index: i,
+    score: queryTerms.reduce((sum, term) => sum + (passageTerms[i].has(term) ? weights.get(term)! : 0), 0)
+  }));
+  const ranked = scored.some(s => s.score > 0)
+    ? scored.filter(s => s.score > 0).sort((a, b) => b.score - a.score)
+    : scored;
+
+  const chosen: number[] = [];
+  let used = 0;
+  for (const { index } of ranked) {
+    const length = passages[index].text.length;
+    if (used + length > budget && chosen.length > 0) continue;
+    chosen.push(index);
+    used += length;
+  }
+  return chosen.sort((a, b) => a - b).map(i => passages[i]);
+};
+
+// Streams an answer to the last message. The previous question is part of the search as well,
+// so short follow-ups ("what about its limits?") still find the right passages.
+export const askPaper = (
+  provider: AnalysisProvider,
+  paper: PaperData,
+  doc: DocumentText | null,
+  messages: ChatMessage[],
+  options: ChatOptions
+): Promise<string> => {
+  let history = messages.slice(-HISTORY_MESSAGES);
+  if (history[0]?.role === 'assistant') history = history.slice(1);
+  const query = messages.filter(m => m.role === 'user').slice(-2).map(m => m.content).join(' ');
+  const excerpts = doc ? selectPassages(splitPassages(doc), query) : [];
+  return provider.chat(buildChatInstructions(paper, excerpts, doc?.paginated ?? false), history, options);
+};
+
+const QUESTION_BY_TYPE: Record<KeyConcept['type'], (title: string) => string> = {
+  process: title => `How does ${title} work, step by step?`,
+  structure: title => `How is ${title} put together?`,
+  abstract: title => `Why does ${title} matter in this paper?`
+};
+
+// Starter questions for an empty conversation, built from the paper's concepts and their relations
+export const suggestQuestions = (paper: PaperData, count = 4): string[] => {
+  const questions = paper.concepts.slice(0, count - 1).map(c => QUESTION_BY_TYPE[c.type](c.title));
+  const linked = paper.concepts.find(c => c.relations?.length);
+  if (linked) questions.push(`How does ${linked.title} relate to ${linked.relations![0].target}?`);
+  if (questions.length < count) questions.push("What are the main limitations of this work?");
+  return questions.slice(0, count);
+};
+
+// Splits a reply into paragraphs and "> " quote lines. A quote's trailing [p. N] becomes its page.
+export const parseReply = (reply: string): ReplyBlock[] => {
+  const blocks: ReplyBlock[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ kind: 'text', text: paragraph.join(' ') });
+    paragraph = [];
+  };
+
+  reply.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('>')) {
+      flush();
+      let text = trimmed.replace(/^>\s*/, '');
+      const pages = [...text.matchAll(PAGE_REF)].map(m => Number(m[1]));
+      text = text.replace(PAGE_REF, '').trim().replace(/^["“]|["”]$/g, '').trim();
+      if (text) blocks.push({ kind: 'quote', text, ...(pages.length > 0 ? { page: pages[pages.length - 1] } : {}) });
+    } else if (trimmed === "") {
+      flush();
+    } else {
+      paragraph.push(trimmed);
+    }
+  });
+  flush();
+  return blocks;
+};
+
+// Text interleaved with the page numbers of its [p. N] references
+export const splitPageRefs = (text: string): (string | number)[] =>
+  text.split(/\[p\.\s*(\d+)\]/).map((part, i) => i % 2 === 1 ? Number(part) : part).filter(part => part !== "");
+
+// Joins words hyphenated across lines and ignores case, quote marks and spacing
+const normalizeForSearch = (text: string) =>
+  text.replace(/-\s*\n\s*/g, '').toLowerCase().replace(/["“”‘’']/g, '').replace(/\s+/g, ' ').trim();
+
+// Where a quote appears in the document, or null if it can't be found. Elided parts ("...") may be anything,
+// but the pieces must all be on the same page.
+export const locateQuote = (quote: string, doc: DocumentText): { page?: number } | null => {
+  const fragments = quote.split(/\.\.\.|…/)
+    .map(fragment => normalizeForSearch(fragment).replace(/^[\s.,;:]+|[\s.,;:]+$/g, ''))
+    .filter(fragment => fragment.length > 0);
+  if (fragments.length === 0) return null;
+  const index = doc.pages.findIndex(page => {
+    const text = normalizeForSearch(page);
+    return fragments.every(fragment => text.includes(fragment));
+  });
+  if (index < 0) return null;
+  return doc.paginated ? { page: index + 1 } : {};
+};
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PaperData } from '../types';
+import { PaperValidationError, validatePaperData } from './validatePaper';
+
+// File format for exchanging visualizations. Documented in docs/PAPER_FORMAT.md.
+export const PAPER_FORMAT_ID = 'scholarlens.paper';
+export const PAPER_FORMAT_VERSION = 1;
+
+export interface PaperDocument {
+  format: typeof PAPER_FORMAT_ID;
+  version: number;
+  exportedAt: string; // ISO 8601
+  paper: PaperData;
+}
+
+// Each entry upgrades a document from version `key` to `key + 1`.
+// Version 0 is a bare PaperData object, as written by exported sites (paper.json) before this format existed.
+const MIGRATIONS: Record<number, (doc: any) => any> = {
+  0: (paper) => ({ format: PAPER_FORMAT_ID, version: 1, exportedAt: new Date(0).toISOString(), paper })
+};
+
+const detectVersion = (doc: any): number => {
+  if (doc?.format === PAPER_FORMAT_ID) {
+    if (!Number.isInteger(doc.version) || doc.version < 1) throw new Error(`Unknown format version "${doc.version}".`);
+    return doc.version;
+  }
+  if (doc && typeof doc === 'object' && 'title' in doc) return 0;
+  throw new Error("This file isn't a ScholarLens paper.");
+};
+
+export const migratePaperDocument = (doc: unknown): PaperDocument => {
+  let version = detectVersion(doc);
+  if (version > PAPER_FORMAT_VERSION) {
+    throw new Error(`This file uses format version ${version}, which is newer than this app supports (${PAPER_FORMAT_VERSION}). Please update ScholarLens.`);
+  }
+  let current: any = doc;
+  while (version < PAPER_FORMAT_VERSION) {
+    current = MIGRATIONS[version](current);
+    version++;
+  }
+  return current;
+};
+
+export const serializePaper = (paper: PaperData): string => {
+  const doc: PaperDocument = {
+    format: PAPER_FORMAT_ID,
+    version: PAPER_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    paper
+  };
+  return JSON.stringify(doc, null, 2);
+};
+
+// Parses, migrates and validates an imported file. Errors carry a message suitable for the UI.
+export const parsePaperDocument = (text: string): PaperData => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON.");
+  }
+
+  const doc = migratePaperDocument(raw);
+  const result = validatePaperData(doc.paper);
+  if (result.errors.length > 0) {
+    throw new PaperValidationError(`This file isn't a valid paper: ${result.errors.join(' ')}`, result.errors);
+  }
+  if (result.repaired.length > 0) console.warn("Repaired fields in imported paper:", result.repaired.join(', '));
+  return result.data;
+};
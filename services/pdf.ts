@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as pdfjsLib from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { DocumentSection, isLikelyHeading } from './documentSections';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = workerUrl;
+
+export interface ExtractedPdf {
+  pageCount: number;
+  pages: string[]; // Plain text per page, pages[0] is page 1
+  sections: DocumentSection[];
+}
+
+interface PdfLine {
+  text: string;
+  size: number;
+  page: number;
+}
+
+// The subset of pdf.js' TextItem that we read
+interface PositionedText {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  hasEOL: boolean;
+}
+
+export const loadPdfDocument = async (file: Blob) => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  return pdfjsLib.getDocument({ data }).promise;
+};
+
+export type PdfDocument = Awaited<ReturnType<typeof loadPdfDocument>>;
+
+export const renderPage = async (pdf: PdfDocument, pageNumber: number, scale: number): Promise<HTMLCanvasElement> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+  page.cleanup();
+  return canvas;
+};
+
+// Part of a page as fractions of its width and height, so it can be drawn over the page at any scale
+export interface PageRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const IGNORED_CHARS = /[\s"“”‘’'-]/;
+
+// Where a quote's words are on a page, as one rectangle per text run they touch; empty if not found.
+// Matching ignores case, quote marks, whitespace and hyphens, and each "..."-separated fragment is
+// looked up on its own.
+export const findTextOnPage = async (pdf: PdfDocument, pageNumber: number, quote: string): Promise<PageRect[]> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+  const items = content.items.filter(item => 'str' in item) as PositionedText[];
+
+  // The page text without the characters matching ignores, with the text run and offset each remaining
+  // character came from. Runs don't reliably mark the spaces or line breaks between them, so whitespace
+  // and hyphens (which may be a word broken across lines) are left out of the comparison.
+  let text = "";
+  const owners: { item: number; offset: number }[] = [];
+  items.forEach((item, i) => {
+    for (let offset = 0; offset < item.str.length; offset++) {
+      if (IGNORED_CHARS.test(item.str[offset])) continue;
+      text += item.str[offset].toLowerCase();
+      owners.push({ item: i, offset });
+    }
+  });
+
+  // Matched character range within each run
+  const spans = new Map<number, { from: number; to: number }>();
+  const fragments = quote.split(/\.\.\.|…/)
+    .map(fragment => fragment.toLowerCase().replace(/[\s"“”‘’'-]/g, '').replace(/^[.,;:]+|[.,;:]+$/g, ''))
+    .filter(fragment => fragment.length > 0);
+  for (const fragment of fragments) {
+    const start = text.indexOf(fragment);
+    if (start < 0) continue;
+    for (let i = start; i < start + fragment.length; i++) {
+      const { item, offset } = owners[i];
+      const span = spans.get(item);
+      spans.set(item, span ? { from: Math.min(span.from, offset), to: Math.max(span.to, offset + 1) } : { from: offset, to: offset + 1 });
+    }
+  }
+
+  // Runs carry no per-character positions, so the matched part's width is taken in proportion
+  const rects = [...spans.entries()].sort((a, b) => a[0] - b[0]).map(([i, span]) => {
+    const item = items[i];
+    const [, , c, d, x, y] = item.transform;
+    const size = Math.hypot(c, d) || item.height;
+    const length = item.str.length || 1;
+    const start = x + item.width * span.from / length;
+    const end = x + item.width * span.to / length;
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([start, y - size * 0.2, end, y + size * 0.9]);
+    return {
+      left: Math.min(x1, x2) / viewport.width,
+      top: Math.min(y1, y2) / viewport.height,
+      width: Math.abs(x2 - x1) / viewport.width,
+      height: Math.abs(y2 - y1) / viewport.height
+    };
+  });
+  page.cleanup();
+  return rects;
+};
+
+// pdf.js returns positioned text runs; rebuild them into lines so headings can be spotted.
+const readLines = (items: PositionedText[], page: number): PdfLine[] => {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+  let baseline = 0;
+  let lineEnd = 0;
+
+  for (const item of items) {
+    const [, , c, d, x, y] = item.transform;
+    const size = Math.hypot(c, d) || item.height;
+
+    if (current && Math.abs(y - baseline) < size * 0.5) {
+      const gap = x - lineEnd;
+      const needsSpace = gap > size * 0.15 && !current.text.endsWith(' ') && !item.str.startsWith(' ');
+      current.text += (needsSpace ? ' ' : '') + item.str;
+      current.size = Math.max(current.size, size);
+    } else {
+      if (current && current.text.trim()) lines.push(current);
+      current = { text: item.str, size, page };
+      baseline = y;
+    }
+    lineEnd = x + item.width;
+
+    if (item.hasEOL) {
+      if (current.text.trim()) lines.push(current);
+      current = null;
+    }
+  }
+  if (current && current.text.trim()) lines.push(current);
+
+  return lines;
+};
+
+// The most common font size (weighted by characters) is taken to be body text.
+const bodyFontSize = (lines: PdfLine[]): number => {
+  const weights = new Map<number, number>();
+  lines.forEach(line => {
+    const key = Math.round(line.size * 2) / 2;
+    weights.set(key, (weights.get(key) || 0) + line.text.length);
+  });
+  let best = 0;
+  let bestWeight = -1;
+  weights.forEach((weight, size) => {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  });
+  return best;
+};
+
+const isHeadingLine = (line: PdfLine, bodySize: number): boolean => {
+  const text = line.text.trim();
+  if (text.length < 3 || text.length > 100 || !/[A-Za-z]{3}/.test(text)) return false;
+  if (line.size >= bodySize * 1.15) return true;
+  return line.size >= bodySize * 0.95 && isLikelyHeading(text);
+};
+
+export const extractPdfText = async (
+  file: Blob,
+  onPage?: (parsed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<ExtractedPdf> => {
+  const pdf = await loadPdfDocument(file);
+  const pages: string[] = [];
+  const lines: PdfLine[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      signal?.throwIfAborted();
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const textItems = content.items.filter(item => 'str' in item) as PositionedText[];
+      const pageLines = readLines(textItems, pageNumber);
+      pages.push(pageLines.map(l => l.text).join('\n'));
+      lines.push(...pageLines);
+      page.cleanup();
+      onPage?.(pageNumber, pdf.numPages);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  const bodySize = bodyFontSize(lines);
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { heading: "Front Matter", text: "", pageStart: 1, pageEnd: 1 };
+
+  lines.forEach(line => {
+    // The title on page one is usually the largest text; keep it with the front matter.
+    if (isHeadingLine(line, bodySize) && (sections.length > 0 || current.text.length > 200)) {
+      if (current.text.trim()) sections.push(current);
+      current = { heading: line.text.trim(), text: "", pageStart: line.page, pageEnd: line.page };
+    } else {
+      current.text += line.text + '\n';
+      current.pageEnd = line.page;
+    }
+  });
+  if (current.text.trim()) sections.push(current);
+
+  return { pageCount: pages.length, pages, sections };
+};
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PaperData } from '../types';
+import { createPermalink, decodePaper, encodePaper, isPermalink, PermalinkStore, readPermalink, setPermalinkStore } from './permalink';
+import { PaperValidationError } from './validatePaper';
+
+// encodePaper only accepts papers this app produced; a crafted link is whatever JSON someone compressed
+const craftLink = async (json: object) => {
+  const stream = new Blob([JSON.stringify(json)]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  return `#paper=v1.${Buffer.from(bytes).toString('base64url')}`;
+};
+
+const paper = {
+  title: "Learning high-accuracy error decoding for quantum processors",
+  subtitle: "",
+  summary: "A neural decoder for the surface code.",
+  authors: [{ name: "Johannes Bausch", role: "" }],
+  concepts: [],
+  impact: "",
+  figures: [{ id: "fig-1", label: "Figure 1", caption: "The decoder.", page: 2, image: "data:image/jpeg;base64,AAAA" }]
+} as unknown as PaperData;
+
+// An in-memory stand-in for a key-value service
+const memoryStore = (): PermalinkStore & { saved: Map<string, PaperData> } => {
+  const saved = new Map<string, PaperData>();
+  return {
+    saved,
+    save: async (paper) => {
+      const id = `id ${saved.size + 1}`;
+      saved.set(id, paper);
+      return id;
+    },
+    load: async (id) => {
+      const paper = saved.get(id);
+      if (!paper) throw new Error(`No paper stored under ${id}.`);
+      return paper;
+    }
+  };
+};
+
+describe('permalinks', () => {
+  // Vitest sets the unset PERMALINK_STORE_URL define to the string "undefined", which would configure a store
+  beforeEach(() => setPermalinkStore(null));
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('round-trips a paper through an inline link, without figure images', async () => {
+    vi.stubGlobal('window', { location: { href: "https://example.com/app/#old" } });
+    const link = await createPermalink(paper);
+    expect(link.startsWith("https://example.com/app/#paper=v1.")).toBe(true);
+
+    const hash = link.slice(link.indexOf('#'));
+    expect(isPermalink(hash)).toBe(true);
+    const read = await readPermalink(hash);
+    expect(read?.title).toBe(paper.title);
+    expect(read?.summary).toBe(paper.summary);
+    expect(read?.figures).toEqual([{ id: "fig-1", label: "Figure 1", caption: "The decoder.", page: 2 }]);
+  });
+
+  it('saves to and loads from the configured store', async () => {
+    vi.stubGlobal('window', { location: { href: "https://example.com/app/" } });
+    const store = memoryStore();
+    setPermalinkStore(store);
+
+    const link = await createPermalink(paper);
+    expect(link).toBe("https://example.com/app/#p=id%201");
+    expect(store.saved.get("id 1")?.figures?.[0].image).toBeUndefined();
+    expect((await readPermalink("#p=id%201"))?.title).toBe(paper.title);
+  });
+
+  it('needs a store to open a short link', async () => {
+    await expect(readPermalink("#p=id%201")).rejects.toThrow("none is configured");
+  });
+
+  it('rejects unsupported format versions', async () => {
+    const encoded = await encodePaper(paper);
+    await expect(decodePaper(encoded.replace(/^v1\./, 'v2.'))).rejects.toThrow('Unsupported permalink format "v2"');
+    await expect(readPermalink("#paper=v1")).rejects.toThrow('Unsupported permalink format');
+  });
+
+  it('ignores other fragments', async () => {
+    expect(isPermalink("#science")).toBe(false);
+    expect(await readPermalink("#science")).toBeNull();
+  });
+
+  it('validates crafted links like model output', async () => {
+    await expect(readPermalink(await craftLink({ summary: "No title." }))).rejects.toBeInstanceOf(PaperValidationError);
+    const read = await readPermalink(await craftLink({ ...paper, url: "javascript:alert(1)" }));
+    expect(read?.url).toBe("#");
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PaperData } from '../types';
+import { PaperValidationError, validatePaperData } from './validatePaper';
+
+// Fragments never reach the server, so inline links work on any static host.
+const INLINE_PREFIX = '#paper=';
+const STORED_PREFIX = '#p=';
+const FORMAT_VERSION = 'v1';
+
+// Resolves short ids to papers, e.g. a small key-value service behind PERMALINK_STORE_URL.
+export interface PermalinkStore {
+  save: (paper: PaperData) => Promise<string>;
+  load: (id: string) => Promise<PaperData>;
+}
+
+// POSTs the paper as JSON and expects { id }; GETs <baseUrl>/<id> to read it back.
+export const createHttpPermalinkStore = (baseUrl: string): PermalinkStore => {
+  const root = baseUrl.replace(/\/+$/, '');
+  return {
+    save: async (paper) => {
+      const response = await fetch(root, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(paper)
+      });
+      if (!response.ok) throw new Error(`Permalink store returned ${response.status} ${response.statusText}.`);
+      const { id } = await response.json();
+      if (typeof id !== 'string' || !id) throw new Error("Permalink store did not return an id.");
+      return id;
+    },
+    load: async (id) => {
+      const response = await fetch(`${root}/${encodeURIComponent(id)}`);
+      if (!response.ok) throw new Error(`Permalink store returned ${response.status} ${response.statusText}.`);
+      return response.json();
+    }
+  };
+};
+
+let store: PermalinkStore | null = process.env.PERMALINK_STORE_URL
+  ? createHttpPermalinkStore(process.env.PERMALINK_STORE_URL)
+  : null;
+
+// Passing null switches back to self-contained links.
+export const setPermalinkStore = (next: PermalinkStore | null) => {
+  store = next;
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Cropped figure images are data URLs that would dwarf the rest of the document; links keep captions only.
+const stripForLink = (paper: PaperData): PaperData => ({
+  ...paper,
+  figures: paper.figures?.map(({ image, ...figure }) => figure)
+});
+
+export const encodePaper = async (paper: PaperData): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(stripForLink(paper)));
+  return `${FORMAT_VERSION}.${toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')))}`;
+};
+
+export const decodePaper = async (encoded: string): Promise<unknown> => {
+  const [version, payload] = encoded.split('.');
+  if (version !== FORMAT_VERSION || !payload) throw new Error(`Unsupported permalink format "${version}".`);
+  const json = await pipeBytes(fromBase64Url(payload), new DecompressionStream('deflate-raw'));
+  return JSON.parse(new TextDecoder().decode(json));
+};
+
+// Absolute URL that reopens this paper; uses the configured store when there is one.
+export const createPermalink = async (paper: PaperData): Promise<string> => {
+  const base = window.location.href.split('#')[0];
+  if (store) return `${base}${STORED_PREFIX}${encodeURIComponent(await store.save(stripForLink(paper)))}`;
+  return `${base}${INLINE_PREFIX}${await encodePaper(paper)}`;
+};
+
+export const isPermalink = (hash: string) => hash.startsWith(INLINE_PREFIX) || hash.startsWith(STORED_PREFIX);
+
+// Reads a paper from a location hash. Links are untrusted input, so the result is validated like model output.
+export const readPermalink = async (hash: string): Promise<PaperData | null> => {
+  let raw: unknown;
+  if (hash.startsWith(INLINE_PREFIX)) {
+    raw = await decodePaper(hash.slice(INLINE_PREFIX.length));
+  } else if (hash.startsWith(STORED_PREFIX)) {
+    if (!store) throw new Error("This link needs a permalink store, but none is configured.");
+    raw = await store.load(decodeURIComponent(hash.slice(STORED_PREFIX.length)));
+  } else {
+    return null;
+  }
+
+  const result = validatePaperData(raw);
+  if (result.errors.length > 0) throw new PaperValidationError("This link doesn't contain a valid paper.", result.errors);
+  return result.data;
+};
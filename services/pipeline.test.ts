@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { DiagramSpec, KeyConcept, PaperData } from '../types';
+import { derivePipeline, diagramsFor } from './pipeline';
+
+const process = (title: string, relations?: KeyConcept['relations']): KeyConcept =>
+  ({ title, description: `${title} step.`, type: 'process', ...(relations ? { relations } : {}) });
+
+const stages = [process("Measure"), process("Decode"), process("Correct")];
+
+describe('derivePipeline', () => {
+  it('needs at least three process concepts', () => {
+    expect(derivePipeline([process("Measure"), process("Decode"), { title: "Qubit", description: "", type: 'structure' }])).toBeUndefined();
+  });
+
+  it('chains the stages in order when they have no relations', () => {
+    const pipeline = derivePipeline([...stages, { title: "Qubit", description: "", type: 'structure' }]);
+    expect(pipeline?.nodes).toEqual([
+      { id: "Measure", label: "Measure", detail: "Measure step." },
+      { id: "Decode", label: "Decode", detail: "Decode step." },
+      { id: "Correct", label: "Correct", detail: "Correct step." }
+    ]);
+    expect(pipeline?.edges).toEqual([{ from: "Measure", to: "Decode" }, { from: "Decode", to: "Correct" }]);
+  });
+
+  it('follows produces and depends-on relations between stages', () => {
+    const pipeline = derivePipeline([
+      process("Measure", [{ target: "Decode", type: 'produces', explanation: "" }]),
+      process("Decode"),
+      process("Correct", [
+        { target: "Decode", type: 'depends-on', explanation: "" },
+        { target: "Qubit", type: 'depends-on', explanation: "" },
+        { target: "Measure", type: 'contrasts-with', explanation: "" }
+      ]),
+      process("Calibrate", [{ target: "Decode", type: 'produces', explanation: "" }, { target: "Decode", type: 'produces', explanation: "" }])
+    ]);
+    expect(pipeline?.edges).toEqual([
+      { from: "Measure", to: "Decode" },
+      { from: "Decode", to: "Correct" },
+      { from: "Calibrate", to: "Decode" }
+    ]);
+  });
+});
+
+describe('diagramsFor', () => {
+  const paper = (diagrams?: DiagramSpec[]) => ({ concepts: stages, diagrams }) as PaperData;
+  const chart: DiagramSpec = { kind: 'bar-chart', title: "Error rates", labels: ["d=3"], series: [{ name: "MWPM", values: [0.03] }] };
+
+  it('puts a derived pipeline before the paper\'s own diagrams', () => {
+    const diagrams = diagramsFor(paper([chart]));
+    expect(diagrams.map(d => d.kind)).toEqual(['pipeline', 'bar-chart']);
+  });
+
+  it('keeps the paper\'s own pipeline', () => {
+    const own: DiagramSpec = { kind: 'pipeline', title: "Own", nodes: [], edges: [] };
+    expect(diagramsFor(paper([own, chart]))).toEqual([own, chart]);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DiagramEdge, DiagramSpec, KeyConcept, PaperData } from '../types';
+
+// Methods-heavy papers have several process concepts; fewer than this reads better as cards.
+const MIN_PIPELINE_STAGES = 3;
+
+// Builds a pipeline from the process-type concepts for papers that came without one (older saves,
+// or a model that skipped it). "A produces B" and "B depends on A" both become A -> B; with no such
+// relations the concepts are chained in the order the model listed them.
+export const derivePipeline = (concepts: KeyConcept[]): DiagramSpec | undefined => {
+  const stages = concepts.filter(c => c.type === 'process');
+  if (stages.length < MIN_PIPELINE_STAGES) return undefined;
+
+  const titles = new Set(stages.map(s => s.title));
+  const edges: DiagramEdge[] = [];
+  const link = (from: string, to: string) => {
+    if (!edges.some(e => e.from === from && e.to === to)) edges.push({ from, to });
+  };
+  stages.forEach(stage => (stage.relations || []).forEach(relation => {
+    if (!titles.has(relation.target)) return;
+    if (relation.type === 'produces') link(stage.title, relation.target);
+    if (relation.type === 'depends-on') link(relation.target, stage.title);
+  }));
+  if (edges.length === 0) {
+    stages.slice(1).forEach((stage, i) => edges.push({ from: stages[i].title, to: stage.title }));
+  }
+
+  return {
+    kind: 'pipeline',
+    title: "Method Pipeline",
+    nodes: stages.map(s => ({ id: s.title, label: s.title, detail: s.description })),
+    edges
+  };
+};
+
+// The diagrams to draw for a paper: its own specs, plus a derived pipeline when it has none.
+export const diagramsFor = (paper: PaperData): DiagramSpec[] => {
+  const diagrams = paper.diagrams || [];
+  if (diagrams.some(d => d.kind === 'pipeline')) return diagrams;
+  const pipeline = derivePipeline(paper.concepts);
+  return pipeline ? [pipeline, ...diagrams] : diagrams;
+};
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A failure the provider can explain (bad key, rate limit, unreachable server, missing settings).
+// Its message is meant for the user, unlike unexpected exceptions, which get a generic one.
+export class ProviderError extends Error {
+  status?: number; // HTTP status, when the request reached the server
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
+
+// Servers put their own explanation in the body, usually as OpenAI-style {error: {message}}
+const detailOf = (body: string): string => {
+  const trimmed = body.trim();
+  try {
+    const parsed = JSON.parse(trimmed.substring(trimmed.indexOf('{')));
+    const message = parsed?.error?.message ?? parsed?.message ?? parsed?.error;
+    if (typeof message === 'string') return message.trim();
+  } catch {
+    // Not JSON; use the text as-is
+  }
+  return trimmed.substring(0, 300);
+};
+
+export const httpError = (status: number, statusText: string, body: string): ProviderError => {
+  const detail = detailOf(body);
+  const suffix = detail ? ` The server said: ${detail}` : "";
+  if (status === 401 || status === 403) {
+    return new ProviderError(`The model endpoint rejected the API key (${status}). Check the key in Settings.${suffix}`, status);
+  }
+  if (status === 404) {
+    return new ProviderError(`The model endpoint or model wasn't found (404). Check the base URL and model in Settings.${suffix}`, status);
+  }
+  if (status === 429) {
+    return new ProviderError(`The model endpoint is rate limiting requests (429). Wait a moment and try again.${suffix}`, status);
+  }
+  return new ProviderError(`Model endpoint returned ${status}${statusText ? ` ${statusText}` : ""}.${suffix}`, status);
+};
+
+export const requireModel = (model: string) => {
+  if (!model.trim()) throw new ProviderError("No model is selected. Choose one in Settings.");
+};
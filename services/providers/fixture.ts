@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Schema, Type } from '@google/genai';
+import { AnalysisProvider } from './types';
+import { PaperData } from '../../types';
+import { createStreamTracker } from '../streaming';
+
+// Small pause so the InputModal progress steps are visible when running offline.
+const pause = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+const STREAM_CHUNK_CHARS = 64;
+
+const FIXTURE_PAPER: PaperData = {
+  title: "Fixture Paper",
+  subtitle: "Deterministic Output for Offline Runs",
+  journal: "ScholarLens Fixtures",
+  introTitle: "A Predictable Starting Point",
+  summary: "This visualization was produced by the fixture provider, which never contacts a model. It returns the same document every time so the full analysis flow can be exercised offline.\nSwitch to the Gemini or OpenAI-compatible provider in Settings to analyze real papers.",
+  authors: [
+    { name: "Ada Example", role: "Fixture Lab" },
+    { name: "Grace Sample", role: "Fixture Lab" }
+  ],
+  theme: 'general',
+  concepts: [
+    { title: "Input Capture", description: "The pasted text or uploaded file is accepted exactly as it would be for a real provider.", type: 'process', relations: [
+      { target: "Fixed Schema", type: 'produces', explanation: "Every captured input is answered with a document in the fixed schema." }
+    ] },
+    { title: "Fixed Schema", description: "The returned document follows the same PaperData shape the model providers produce.", type: 'structure', relations: [
+      { target: "Reproducibility", type: 'part-of', explanation: "A stable output shape is one half of what makes runs repeatable." }
+    ] },
+    { title: "Reproducibility", description: "Identical inputs always yield identical visualizations, which makes UI work and demos repeatable.", type: 'abstract', relations: [
+      { target: "Input Capture", type: 'depends-on', explanation: "Outputs only repeat if inputs are taken exactly as given." }
+    ] }
+  ],
+  diagrams: [
+    {
+      kind: 'pipeline',
+      title: "Fixture Analysis Pipeline",
+      caption: "Each request passes through the same stages as a real provider, minus the model call.",
+      nodes: [
+        { id: "input", label: "Input", detail: "Pasted text or an uploaded file.", shape: "text" },
+        { id: "stream", label: "Stream Replay", detail: "The canned document is streamed back in chunks so progress and cancellation work.", shape: "JSON" },
+        { id: "validate", label: "Validation", detail: "The output goes through the same validator as model responses.", shape: "PaperData" },
+        { id: "render", label: "Render", detail: "The visualization is drawn from the validated PaperData." }
+      ],
+      edges: [
+        { from: "input", to: "stream" },
+        { from: "stream", to: "validate", label: "JSON" },
+        { from: "validate", to: "render", label: "PaperData" }
+      ]
+    }
+  ],
+  methodology: [
+    { title: "Capture the Input", description: "The request's text or file is read the same way a model provider would read it.", inputs: ["Pasted text", "Uploaded file"], outputs: ["Captured input"], concept: "Input Capture" },
+    { title: "Replay the Document", description: "A canned PaperData document is streamed back in chunks.", inputs: ["Captured input"], outputs: ["JSON stream"], concept: "Fixed Schema" },
+    { title: "Validate and Render", description: "The streamed JSON is validated and rendered exactly like a model response.", inputs: ["JSON stream"], outputs: ["Visualization"], concept: "Reproducibility" }
+  ],
+  equations: [
+    {
+      title: "Expected Render Time",
+      latex: "T = t_{\\text{stream}} + n \\cdot t_{\\text{chunk}}",
+      description: "Illustrative only: the fixture's time to first render grows linearly with the number of streamed chunks.",
+      symbols: [
+        { latex: "T", meaning: "Time to first render" },
+        { latex: "t_{\\text{stream}}", meaning: "Fixed cost of opening the stream" },
+        { latex: "n", meaning: "Number of chunks" },
+        { latex: "t_{\\text{chunk}}", meaning: "Time to parse one chunk" }
+      ]
+    }
+  ],
+  glossary: [
+    { term: "fixture provider", definition: "A stand-in for a real model that always returns the same prepared document.", aliases: ["fixture"] },
+    { term: "offline", definition: "Running without any network requests to a model service.", aliases: [] },
+    { term: "provider", definition: "The model service that analyzes a paper, chosen in Settings.", aliases: [] }
+  ],
+  results: [
+    {
+      title: "Time to First Render",
+      caption: "Illustrative numbers only.",
+      metric: "Time to first render",
+      unit: "s",
+      lowerIsBetter: true,
+      conditionName: "Input",
+      conditions: ["Abstract", "Full paper"],
+      series: [
+        { name: "Model provider", values: [6, 24] },
+        { name: "Fixture", values: [0.4, 0.9], isProposed: true }
+      ]
+    }
+  ],
+  impact: "Deterministic fixtures let contributors work on the visualization without an API key or network access.",
+  url: "#"
+};
+
+// Uses the first line of the input (or the file name) as the title so different inputs stay distinguishable.
+// Section markers added by the analysis pipeline ("## Heading") are skipped.
+const deriveTitle = (text: string, file: File | null): string => {
+  if (file) return file.name.replace(/\.[^.]+$/, '');
+  const firstLine = text.split('\n').map(l => l.trim()).find(l => l !== "" && !l.startsWith('#'));
+  return firstLine ? firstLine.substring(0, 80) : FIXTURE_PAPER.title;
+};
+
+// Builds the simplest value that satisfies a schema, so multi-pass analysis also runs offline.
+const sampleFromSchema = (schema: Schema): any => {
+  if (schema.enum?.length) return schema.enum[0];
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFromSchema(value)])
+      );
+    case Type.ARRAY:
+      return schema.items ? [sampleFromSchema(schema.items)] : [];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 0;
+    case Type.BOOLEAN:
+      return false;
+    default:
+      return "Fixture text.";
+  }
+};
+
+export const fixtureProvider: AnalysisProvider = {
+  id: 'fixture',
+  label: 'Offline fixture',
+  analyze: async (text, file, options) => {
+    const paper = { ...FIXTURE_PAPER, title: deriveTitle(text, file) };
+
+    // Replay the document as a stream so partial previews and cancellation behave like a real provider.
+    const json = JSON.stringify(paper);
+    const tracker = createStreamTracker(text.length, options);
+    for (let i = 0; i < json.length; i += STREAM_CHUNK_CHARS) {
+      await pause(40, options.signal);
+      tracker.push(json.substring(i, i + STREAM_CHUNK_CHARS));
+    }
+
+    return paper;
+  },
+  generateJson: async (_prompt, schema, options) => {
+    await pause(250, options.signal);
+    return sampleFromSchema(schema);
+  },
+  // Doesn't read the paper; the reply shows the quote and page format real providers are asked for.
+  chat: async (_system, messages, options) => {
+    const question = messages[messages.length - 1]?.content ?? "";
+    const reply = `The offline fixture provider doesn't read the paper, so this is a canned reply to "${question.substring(0, 80)}". ` +
+      `Real providers answer from the paper's text and quote it [p. 1]:\n\n> "Identical inputs always yield identical visualizations." [p. 1]`;
+    for (let i = 0; i < reply.length; i += STREAM_CHUNK_CHARS / 4) {
+      await pause(40, options.signal);
+      options.onDelta?.(reply.substring(i, i + STREAM_CHUNK_CHARS / 4));
+    }
+    return reply;
+  }
+};
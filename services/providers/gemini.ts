@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError, GoogleGenAI, Schema } from '@google/genai';
+import { AnalysisOptions, AnalysisProvider } from './types';
+import { ProviderError, httpError, requireModel } from './errors';
+import { buildAnalysisInstructions, buildPaperResponseSchema } from '../analysisSchema';
+import { createStreamTracker } from '../streaming';
+
+// Helper to convert File to Base64 for Gemini
+const fileToBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      const result = reader.result as string;
+      const base64Data = result.split(',')[1];
+      resolve(base64Data);
+    };
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+// The SDK reports HTTP failures as ApiError, with the server's JSON body inside its message
+const providerErrorOf = (e: unknown, signal?: AbortSignal): unknown => {
+  if (signal?.aborted || e instanceof ProviderError) return e;
+  if (e instanceof ApiError) return httpError(e.status, "", e.message);
+  if (e instanceof TypeError) return new ProviderError("Couldn't reach the Gemini API. Check your connection and try again.");
+  return e;
+};
+
+// Runs a whole request, streamed or not, so failures while reading the stream are reported the same way
+const guarded = async <T,>(options: AnalysisOptions, run: () => Promise<T>): Promise<T> => {
+  requireModel(options.model);
+  try {
+    return await run();
+  } catch (e) {
+    throw providerErrorOf(e, options.signal);
+  }
+};
+
+export const createGeminiProvider = (apiKey: string): AnalysisProvider => {
+  if (!apiKey) {
+    const missingKey = async (): Promise<never> => {
+      throw new ProviderError("No Gemini API key is configured. Set API_KEY in the environment, or choose another provider in Settings.");
+    };
+    return { id: 'gemini', label: 'Google Gemini', analyze: missingKey, generateJson: missingKey, chat: missingKey };
+  }
+  const ai = new GoogleGenAI({ apiKey });
+
+  const buildRequest = (contents: any[], schema: Schema, options: AnalysisOptions) => ({
+    model: options.model,
+    contents,
+    config: {
+      temperature: options.temperature,
+      maxOutputTokens: options.maxTokens,
+      responseMimeType: 'application/json',
+      responseSchema: schema,
+      abortSignal: options.signal
+    }
+  });
+
+  const generate = (contents: any[], schema: Schema, options: AnalysisOptions) => guarded(options, async () => {
+    const response = await ai.models.generateContent(buildRequest(contents, schema, options));
+    return JSON.parse(response.text || "{}");
+  });
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    analyze: (text, file, options) => guarded(options, async () => {
+      let contentsPayload: any[] = [];
+
+      // Files are only passed through when they have no extractable text (e.g. scanned PDFs).
+      if (file) {
+        const base64Data = await fileToBase64(file);
+        contentsPayload.push({
+          inlineData: { mimeType: 'application/pdf', data: base64Data }
+        });
+        contentsPayload.push({ text: buildAnalysisInstructions(options.language) + "\n\nUser Notes: " + text });
+      } else {
+        contentsPayload.push({ text: buildAnalysisInstructions(options.language) + "\n\nPaper Text:\n" + text });
+      }
+
+      const tracker = createStreamTracker(JSON.stringify(contentsPayload).length, options);
+      const stream = await ai.models.generateContentStream(buildRequest(contentsPayload, buildPaperResponseSchema(), options));
+      for await (const chunk of stream) {
+        tracker.push(chunk.text || "", chunk.usageMetadata?.candidatesTokenCount);
+      }
+
+      return JSON.parse(tracker.text() || "{}");
+    }),
+    generateJson: (prompt, schema, options, images = []) => generate(
+      [...images.map(image => ({ inlineData: image })), { text: prompt }],
+      schema,
+      options
+    ),
+    chat: (system, messages, options) => guarded(options, async () => {
+      const stream = await ai.models.generateContentStream({
+        model: options.model,
+        contents: messages.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+        config: {
+          systemInstruction: system,
+          temperature: options.temperature,
+          maxOutputTokens: options.maxTokens,
+          abortSignal: options.signal
+        }
+      });
+      let reply = "";
+      for await (const chunk of stream) {
+        const text = chunk.text || "";
+        reply += text;
+        if (text) options.onDelta?.(text);
+      }
+      return reply;
+    })
+  };
+};
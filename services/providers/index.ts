@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AnalysisProvider, ProviderConfig, ProviderId } from './types';
+import { createGeminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openai';
+import { fixtureProvider } from './fixture';
+
+export * from './types';
+export * from './errors';
+
+const STORAGE_KEY = 'analysisSettings';
+
+export const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai', 'fixture'];
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+  fixture: 'fixture'
+};
+
+const envProvider = process.env.ANALYSIS_PROVIDER as ProviderId;
+const defaultProvider: ProviderId = PROVIDER_IDS.includes(envProvider) ? envProvider : 'gemini';
+
+// Build-time defaults come from the environment (see vite.config.ts); the settings panel overrides them.
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  provider: defaultProvider,
+  model: process.env.ANALYSIS_MODEL || DEFAULT_MODELS[defaultProvider],
+  temperature: 0.4,
+  maxTokens: 8192,
+  maxRetries: 2,
+  baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+  apiKey: process.env.OPENAI_API_KEY || ''
+};
+
+export const loadProviderConfig = (): ProviderConfig => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { ...DEFAULT_PROVIDER_CONFIG, ...JSON.parse(saved) };
+  } catch (e) {
+    console.warn("Ignoring unreadable analysis settings", e);
+  }
+  return DEFAULT_PROVIDER_CONFIG;
+};
+
+export const saveProviderConfig = (config: ProviderConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+export const getProvider = (config: ProviderConfig): AnalysisProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(config.baseUrl, config.apiKey);
+    case 'fixture':
+      return fixtureProvider;
+    case 'gemini':
+    default:
+      return createGeminiProvider(process.env.API_KEY || '');
+  }
+};
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Schema } from '@google/genai';
+import { AnalysisOptions, AnalysisProvider, ImageInput } from './types';
+import { buildAnalysisInstructions, buildPaperResponseSchema, toJsonSchema } from '../analysisSchema';
+import { createStreamTracker } from '../streaming';
+import { ProviderError, httpError, requireModel } from './errors';
+
+// Reads an OpenAI-style server-sent event stream, passing each content delta to onDelta.
+// Lines that aren't valid JSON (keep-alives, proxy noise) are skipped rather than ending the stream.
+const readEventStream = async (response: Response, onDelta: (text: string) => void) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+
+  const handleLine = (line: string) => {
+    const data = line.replace(/^data:\s*/, '').trim();
+    if (!line.startsWith('data:') || data === '' || data === '[DONE]') return;
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      console.warn("Skipping malformed stream event", data);
+      return;
+    }
+    const delta = event?.choices?.[0]?.delta?.content;
+    if (delta) onDelta(delta);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+
+    const lines = pending.split('\n');
+    pending = lines.pop() || "";
+    lines.forEach(handleLine);
+  }
+
+  // The last event may arrive without a trailing newline
+  pending += decoder.decode();
+  pending.split('\n').forEach(handleLine);
+};
+
+// Works with any server exposing the OpenAI chat completions API
+// (OpenAI, vLLM, LM Studio, Ollama's /v1 endpoint, ...).
+export const createOpenAICompatibleProvider = (baseUrl: string, apiKey: string): AnalysisProvider => {
+  const post = async (payload: object, signal?: AbortSignal) => {
+    if (!baseUrl.trim()) {
+      throw new ProviderError("No base URL is set for the OpenAI-compatible provider. Add one in Settings.");
+    }
+    const body = JSON.stringify(payload);
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+        },
+        body,
+        signal
+      });
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      // fetch only rejects when no response came back: wrong host, server down or blocked by CORS
+      throw new ProviderError(`Couldn't reach the model endpoint at ${baseUrl}. Check the base URL in Settings and that the server is running and allows requests from this page.`);
+    }
+
+    if (!response.ok) {
+      throw httpError(response.status, response.statusText, await response.text().catch(() => ""));
+    }
+    return { response, bytesUploaded: body.length };
+  };
+
+  const request = (instructions: string, input: string, schema: Schema, options: AnalysisOptions, images: ImageInput[], stream: boolean) => {
+    requireModel(options.model);
+    const systemPrompt = instructions +
+      "\n\nRespond with a single JSON object matching this JSON Schema:\n" +
+      JSON.stringify(toJsonSchema(schema));
+
+    return post({
+      model: options.model,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      response_format: { type: 'json_object' },
+      stream,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        {
+          role: 'user',
+          // Vision-capable servers accept images as data URLs alongside the text
+          content: images.length === 0 ? input : [
+            { type: 'text', text: input },
+            ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }))
+          ]
+        }
+      ]
+    }, options.signal);
+  };
+
+  const generate = async (instructions: string, input: string, schema: Schema, options: AnalysisOptions, images: ImageInput[] = []) => {
+    const { response } = await request(instructions, input, schema, options, images, false);
+    const body = await response.json();
+    return JSON.parse(body.choices?.[0]?.message?.content || "{}");
+  };
+
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    analyze: async (text, file, options) => {
+      if (file) {
+        throw new ProviderError("This PDF has no extractable text. Scanned documents are only supported by the Gemini provider.");
+      }
+
+      const { response, bytesUploaded } = await request(buildAnalysisInstructions(options.language), "Paper Text:\n" + text, buildPaperResponseSchema(), options, [], true);
+      const tracker = createStreamTracker(bytesUploaded, options);
+      await readEventStream(response, delta => tracker.push(delta));
+
+      return JSON.parse(tracker.text() || "{}");
+    },
+    generateJson: (prompt, schema, options, images) => generate("You extract structured information from research papers.", prompt, schema, options, images),
+    chat: async (system, messages, options) => {
+      const { response } = await post({
+        model: options.model,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        stream: true,
+        messages: [{ role: 'system', content: system }, ...messages]
+      }, options.signal);
+      let reply = "";
+      await readEventStream(response, delta => {
+        reply += delta;
+        options.onDelta?.(delta);
+      });
+      return reply;
+    }
+  };
+};
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Schema } from '@google/genai';
+import { ChatMessage, PaperData } from '../../types';
+
+export type ProviderId = 'gemini' | 'openai' | 'fixture';
+
+// Mirrors the steps shown on the InputModal loading screen.
+export type AnalysisStep = 'uploading' | 'reading' | 'analyzing' | 'generating';
+
+// What the current step is doing. Worded by the loading screen (input.details in the locale tables).
+export type ProgressDetail =
+  | { key: 'parsedPages'; parsed: number; total: number }
+  | { key: 'locatingFigures'; page: number }
+  | { key: 'noTextLayer' }
+  | { key: 'summarizingPart'; part: number; total: number }
+  | { key: 'mergingSummaries' }
+  | { key: 'findingQuotes' }
+  | { key: 'retrying'; attempt: number; attempts: number };
+
+export interface AnalysisProgress {
+  step: AnalysisStep;
+  current?: number; // Units completed within the step (pages parsed, chunks summarized, ...)
+  total?: number;
+  detail?: ProgressDetail;
+  bytesUploaded?: number; // Size of the request currently being sent
+  tokensReceived?: number; // Streamed so far for the final analysis request
+  partial?: Partial<PaperData>; // Fields parsed from the incomplete response
+}
+
+export interface AnalysisOptions {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal;
+  maxRetries?: number; // Extra attempts when the model's response fails validation
+  language?: string; // Language code generated text is written in; English when absent
+}
+
+export interface ChatOptions {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  onDelta?: (text: string) => void; // Each piece of the reply as it streams in
+  signal?: AbortSignal;
+}
+
+// Base64 image attached to a request (rendered PDF pages, cropped figures)
+export interface ImageInput {
+  mimeType: string;
+  data: string;
+}
+
+export interface AnalysisProvider {
+  id: ProviderId;
+  label: string;
+  // Returns the parsed response as-is; callers run it through validatePaperData.
+  analyze: (text: string, file: File | null, options: AnalysisOptions) => Promise<PaperData>;
+  // Free-form structured request used by multi-pass analysis (e.g. summarizing one chunk of a long paper).
+  generateJson: <T = any>(prompt: string, schema: Schema, options: AnalysisOptions, images?: ImageInput[]) => Promise<T>;
+  // Plain-text conversation; resolves with the whole reply once the stream ends.
+  chat: (system: string, messages: ChatMessage[], options: ChatOptions) => Promise<string>;
+}
+
+// Connection details plus the generation settings exposed in the settings panel.
+export interface ProviderConfig {
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  maxRetries: number;
+  baseUrl: string;
+  apiKey: string;
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PaperData } from '../types';
+import { AnalysisOptions } from './providers/types';
+import { buildPaperResponseSchema } from './analysisSchema';
+
+// Text fields worth previewing while the response is still arriving.
+const PREVIEW_FIELDS = ['title', 'subtitle', 'introTitle', 'summary'] as const;
+
+// Reads the (possibly unterminated) string value of a top-level key from incomplete JSON.
+const readPartialString = (buffer: string, key: string): string | undefined => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(buffer);
+  if (!match) return undefined;
+
+  let raw = "";
+  for (let i = match.index + match[0].length; i < buffer.length; i++) {
+    const char = buffer[i];
+    if (char === '\\') {
+      // Keep escapes intact; an escape cut off by the chunk boundary is dropped.
+      if (i + 1 >= buffer.length) break;
+      raw += char + buffer[i + 1];
+      i++;
+    } else if (char === '"') {
+      break;
+    } else {
+      raw += char;
+    }
+  }
+
+  try {
+    return JSON.parse(`"${raw.replace(/\\u[0-9a-fA-F]{0,3}$/, '')}"`);
+  } catch {
+    return raw;
+  }
+};
+
+export const readPartialFields = (buffer: string): Partial<PaperData> => {
+  const partial: Partial<PaperData> = {};
+  PREVIEW_FIELDS.forEach(key => {
+    const value = readPartialString(buffer, key);
+    if (value !== undefined) partial[key] = value;
+  });
+  return partial;
+};
+
+// Accumulates a streamed JSON response and reports tokens received and fields parsed so far.
+export const createStreamTracker = (bytesUploaded: number, options: AnalysisOptions) => {
+  const fieldNames = Object.keys(buildPaperResponseSchema().properties || {});
+  let buffer = "";
+  let tokensReceived = 0;
+
+  const emit = () => {
+    options.onProgress?.({
+      step: 'generating',
+      current: fieldNames.filter(name => buffer.includes(`"${name}"`)).length,
+      total: fieldNames.length,
+      bytesUploaded,
+      tokensReceived,
+      partial: readPartialFields(buffer)
+    });
+  };
+  emit();
+
+  return {
+    // tokenCount is the provider's cumulative count when it reports one; otherwise estimated at ~4 chars/token.
+    push: (text: string, tokenCount?: number) => {
+      buffer += text;
+      tokensReceived = tokenCount ?? Math.round(buffer.length / 4);
+      emit();
+    },
+    text: () => buffer
+  };
+};
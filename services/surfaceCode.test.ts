@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { applyNoise, checkLogicalError, createSurfaceCode, decodeGreedy, MAX_DISTANCE, measureSyndrome, multiplyPauli, Pauli } from './surfaceCode';
+
+const noErrors = (d: number): Pauli[] => new Array(d * d).fill('I');
+
+const residualAfterDecoding = (d: number, errors: Pauli[]) => {
+  const code = createSurfaceCode(d);
+  const { correction } = decodeGreedy(code, measureSyndrome(code, errors));
+  return { code, residual: errors.map((e, q) => multiplyPauli(e, correction[q])) };
+};
+
+describe('createSurfaceCode', () => {
+  it.each([3, 5, 7])('has d² - 1 stabilizers, half of each type, at distance %i', d => {
+    const code = createSurfaceCode(d);
+    expect(code.qubitCount).toBe(d * d);
+    expect(code.stabilizers).toHaveLength(d * d - 1);
+    expect(code.stabilizers.filter(s => s.type === 'X')).toHaveLength((d * d - 1) / 2);
+  });
+
+  it('clamps the distance to the supported range', () => {
+    expect(createSurfaceCode(1).distance).toBe(3);
+    expect(createSurfaceCode(40).distance).toBe(MAX_DISTANCE);
+  });
+
+  it('only has commuting stabilizers', () => {
+    const { stabilizers } = createSurfaceCode(5);
+    stabilizers.filter(s => s.type === 'X').forEach(x => stabilizers.filter(s => s.type === 'Z').forEach(z => {
+      expect(x.qubits.filter(q => z.qubits.includes(q)).length % 2).toBe(0);
+    }));
+  });
+});
+
+describe('measureSyndrome', () => {
+  it('is silent without errors and flags the checks next to a single error', () => {
+    const code = createSurfaceCode(3);
+    expect(measureSyndrome(code, noErrors(3)).some(Boolean)).toBe(false);
+
+    const errors = noErrors(3);
+    errors[4] = 'Y'; // Centre qubit: two X and two Z plaquettes
+    const fired = code.stabilizers.filter((_, i) => measureSyndrome(code, errors)[i]);
+    expect(fired.map(s => s.type).sort()).toEqual(['X', 'X', 'Z', 'Z']);
+  });
+});
+
+describe('decodeGreedy', () => {
+  it.each([3, 5])('corrects every single-qubit error at distance %i', d => {
+    for (let q = 0; q < d * d; q++) {
+      (['X', 'Y', 'Z'] as Pauli[]).forEach(pauli => {
+        const errors = noErrors(d);
+        errors[q] = pauli;
+        const { code, residual } = residualAfterDecoding(d, errors);
+        expect(measureSyndrome(code, residual).some(Boolean)).toBe(false);
+        expect(checkLogicalError(code, residual)).toEqual({ x: false, z: false });
+      });
+    }
+  });
+
+  it('leaves no defect behind for random noise', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    for (let round = 0; round < 20; round++) {
+      const { code, residual } = residualAfterDecoding(5, applyNoise(noErrors(5), 0.1, random));
+      expect(measureSyndrome(code, residual).some(Boolean)).toBe(false);
+    }
+  });
+});
+
+describe('checkLogicalError', () => {
+  it('ignores stabilizers but catches logical operators', () => {
+    const code = createSurfaceCode(3);
+    const stabilizer = noErrors(3);
+    code.stabilizers.find(s => s.type === 'X' && s.qubits.length === 4)!.qubits.forEach(q => { stabilizer[q] = 'X'; });
+    expect(checkLogicalError(code, stabilizer)).toEqual({ x: false, z: false });
+
+    const column = noErrors(3).map((p, q): Pauli => q % 3 === 0 ? 'X' : p);
+    expect(measureSyndrome(code, column).some(Boolean)).toBe(false);
+    expect(checkLogicalError(code, column)).toEqual({ x: true, z: false });
+
+    const row = noErrors(3).map((p, q): Pauli => q < 3 ? 'Z' : p);
+    expect(measureSyndrome(code, row).some(Boolean)).toBe(false);
+    expect(checkLogicalError(code, row)).toEqual({ x: false, z: true });
+  });
+});
+
+describe('applyNoise', () => {
+  it('splits the error rate evenly between X, Y and Z', () => {
+    const rolls = [0.01, 0.04, 0.08, 0.5];
+    expect(applyNoise(['I', 'I', 'I', 'X'], 0.09, () => rolls.shift()!)).toEqual(['X', 'Y', 'Z', 'X']);
+  });
+});
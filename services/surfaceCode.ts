@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type Pauli = 'I' | 'X' | 'Y' | 'Z';
+
+export interface Stabilizer {
+  id: number;
+  type: 'X' | 'Z';
+  // Plaquette corner in the (distance + 1) x (distance + 1) grid between data qubits
+  row: number;
+  col: number;
+  qubits: number[];
+}
+
+export interface SurfaceCode {
+  distance: number;
+  qubitCount: number;
+  stabilizers: Stabilizer[];
+}
+
+export interface DecodeResult {
+  correction: Pauli[];
+  matches: number; // Defect pairs (or defect-boundary pairs) the decoder joined
+}
+
+export const MIN_DISTANCE = 3;
+export const MAX_DISTANCE = 9;
+
+const hasX = (p: Pauli) => p === 'X' || p === 'Y';
+const hasZ = (p: Pauli) => p === 'Z' || p === 'Y';
+const fromParts = (x: boolean, z: boolean): Pauli => x ? (z ? 'Y' : 'X') : (z ? 'Z' : 'I');
+
+// Product of two Paulis, ignoring the global phase.
+export const multiplyPauli = (a: Pauli, b: Pauli): Pauli => fromParts(hasX(a) !== hasX(b), hasZ(a) !== hasZ(b));
+
+// Rotated surface code: d x d data qubits and d² - 1 stabilizers. Bulk plaquettes alternate X/Z in a
+// checkerboard; weight-2 X checks sit on the top and bottom edges and Z checks on the left and right.
+export const createSurfaceCode = (distance: number): SurfaceCode => {
+  const d = Math.max(MIN_DISTANCE, Math.min(MAX_DISTANCE, Math.round(distance)));
+  const stabilizers: Stabilizer[] = [];
+
+  for (let row = 0; row <= d; row++) {
+    for (let col = 0; col <= d; col++) {
+      const type = (row + col) % 2 === 0 ? 'X' : 'Z';
+      const onTopBottom = row === 0 || row === d;
+      const onLeftRight = col === 0 || col === d;
+      if (onTopBottom && onLeftRight) continue; // Corners
+      if (onTopBottom && type !== 'X') continue;
+      if (onLeftRight && type !== 'Z') continue;
+
+      const qubits = [[row - 1, col - 1], [row - 1, col], [row, col - 1], [row, col]]
+        .filter(([r, c]) => r >= 0 && r < d && c >= 0 && c < d)
+        .map(([r, c]) => r * d + c);
+      stabilizers.push({ id: stabilizers.length, type, row, col, qubits });
+    }
+  }
+
+  return { distance: d, qubitCount: d * d, stabilizers };
+};
+
+// A stabilizer fires when it anticommutes with an odd number of the errors on its qubits.
+export const measureSyndrome = (code: SurfaceCode, errors: Pauli[]): boolean[] =>
+  code.stabilizers.map(stabilizer => {
+    const flips = stabilizer.qubits.filter(q => stabilizer.type === 'X' ? hasZ(errors[q]) : hasX(errors[q])).length;
+    return flips % 2 === 1;
+  });
+
+// Depolarizing noise: each qubit independently picks up X, Y or Z with probability rate / 3 each.
+export const applyNoise = (errors: Pauli[], rate: number, random: () => number = Math.random): Pauli[] =>
+  errors.map(error => {
+    const roll = random();
+    if (roll >= rate) return error;
+    const pauli: Pauli = roll < rate / 3 ? 'X' : roll < (rate * 2) / 3 ? 'Y' : 'Z';
+    return multiplyPauli(error, pauli);
+  });
+
+// Matching graph for one stabilizer type: nodes are the stabilizers plus a virtual boundary node,
+// edges are data qubits. A qubit touching a single stabilizer of the type connects it to the boundary.
+const buildMatchingGraph = (code: SurfaceCode, type: 'X' | 'Z') => {
+  const checks = code.stabilizers.filter(s => s.type === type);
+  const boundary = checks.length;
+  const index = new Map(checks.map((s, i) => [s.id, i]));
+  const adjacency: { to: number; qubit: number }[][] = Array.from({ length: checks.length + 1 }, () => []);
+
+  for (let q = 0; q < code.qubitCount; q++) {
+    const touching = checks.filter(s => s.qubits.includes(q)).map(s => index.get(s.id)!);
+    const [a, b = boundary] = touching;
+    adjacency[a].push({ to: b, qubit: q });
+    adjacency[b].push({ to: a, qubit: q });
+  }
+  return { checks, boundary, adjacency };
+};
+
+// Breadth-first search from one node; returns distances and, per node, the qubits on a shortest path to it.
+const shortestPaths = (adjacency: { to: number; qubit: number }[][], start: number) => {
+  const distance = new Array(adjacency.length).fill(Infinity);
+  const via: ({ from: number; qubit: number } | null)[] = new Array(adjacency.length).fill(null);
+  distance[start] = 0;
+  const queue = [start];
+  while (queue.length) {
+    const node = queue.shift()!;
+    adjacency[node].forEach(edge => {
+      if (distance[edge.to] !== Infinity) return;
+      distance[edge.to] = distance[node] + 1;
+      via[edge.to] = { from: node, qubit: edge.qubit };
+      queue.push(edge.to);
+    });
+  }
+  const pathTo = (node: number) => {
+    const qubits: number[] = [];
+    for (let step = via[node]; step; step = via[step.from]) qubits.push(step.qubit);
+    return qubits;
+  };
+  return { distance, pathTo };
+};
+
+// Greedy matching: repeatedly joins the closest pair of defects (or a defect and the boundary)
+// and flips the qubits on the shortest path between them. Not optimal like MWPM, but never leaves a defect.
+const decodeType = (code: SurfaceCode, syndrome: boolean[], type: 'X' | 'Z', correction: Pauli[]) => {
+  const { checks, boundary, adjacency } = buildMatchingGraph(code, type);
+  const defects = checks.map((s, i) => syndrome[s.id] ? i : -1).filter(i => i >= 0);
+  const paths = new Map(defects.map(d => [d, shortestPaths(adjacency, d)]));
+
+  const candidates: { a: number; b: number; cost: number }[] = [];
+  defects.forEach((a, i) => {
+    candidates.push({ a, b: boundary, cost: paths.get(a)!.distance[boundary] });
+    defects.slice(i + 1).forEach(b => candidates.push({ a, b, cost: paths.get(a)!.distance[b] }));
+  });
+  // On ties, pairing two defects beats sending both to the boundary
+  candidates.sort((x, y) => x.cost - y.cost || Number(x.b === boundary) - Number(y.b === boundary));
+
+  // Errors on X checks are Z errors and vice versa
+  const fix: Pauli = type === 'X' ? 'Z' : 'X';
+  const matched = new Set<number>();
+  let matches = 0;
+  candidates.forEach(({ a, b }) => {
+    if (matched.has(a) || (b !== boundary && matched.has(b))) return;
+    matched.add(a);
+    if (b !== boundary) matched.add(b);
+    paths.get(a)!.pathTo(b).forEach(q => { correction[q] = multiplyPauli(correction[q], fix); });
+    matches++;
+  });
+  return matches;
+};
+
+export const decodeGreedy = (code: SurfaceCode, syndrome: boolean[]): DecodeResult => {
+  const correction: Pauli[] = new Array(code.qubitCount).fill('I');
+  const matches = decodeType(code, syndrome, 'X', correction) + decodeType(code, syndrome, 'Z', correction);
+  return { correction, matches };
+};
+
+// After correction the residual has no syndrome, so it is either a stabilizer (harmless) or a logical
+// operator. Logical X runs down a column and logical Z along a row; a residual that anticommutes with
+// the other one flipped the encoded qubit.
+export const checkLogicalError = (code: SurfaceCode, residual: Pauli[]): { x: boolean; z: boolean } => {
+  const d = code.distance;
+  let rowParity = 0, columnParity = 0;
+  for (let i = 0; i < d; i++) {
+    if (hasX(residual[i])) rowParity++; // Top row: Z logical
+    if (hasZ(residual[i * d])) columnParity++; // Left column: X logical
+  }
+  return { x: rowParity % 2 === 1, z: columnParity % 2 === 1 };
+};
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PaperData, PaperSources } from '../types';
+import { AnalysisOptions, AnalysisProvider } from './providers';
+import { buildPaperResponseSchema, buildTranslationPrompt } from './analysisSchema';
+import { PaperValidationError, validatePaperData } from './validatePaper';
+import { applyVariant } from './audience';
+import { paperLanguage } from '../i18n/languages';
+
+// Everything the model wrote. Authors, citation, figures and tables come from the paper itself and stay as they are.
+const TRANSLATED_FIELDS = [
+  'title', 'subtitle', 'journal', 'introTitle', 'summary', 'concepts', 'impact',
+  'sections', 'diagrams', 'results', 'methodology', 'equations', 'glossary'
+] as const satisfies readonly (keyof PaperData)[];
+
+const paragraphCount = (text: string) => text.split('\n').filter(p => p.trim() !== "").length;
+
+// Quotes stay in the paper's language; only the claims they belong to are renamed. Summary quotes are
+// matched by paragraph, so they are dropped if the translation split the summary differently.
+const carrySources = (sources: PaperSources, original: PaperData, translated: PaperData): PaperSources => ({
+  summary: paragraphCount(original.summary) === paragraphCount(translated.summary) ? sources.summary : [],
+  impact: sources.impact,
+  concepts: Object.fromEntries(translated.concepts.map((c, i) => [c.title, sources.concepts[original.concepts[i].title] ?? []]))
+});
+
+// Produces the paper in another language. The original reading level is translated, and the cached
+// rewrites for other levels are dropped since they are in the old language.
+export const translatePaper = async (
+  provider: AnalysisProvider,
+  paper: PaperData,
+  language: string,
+  options: AnalysisOptions
+): Promise<PaperData> => {
+  const original = paper.audience && paper.audienceVariants?.original
+    ? applyVariant(paper, 'original', paper.audienceVariants.original)
+    : paper;
+  const text = Object.fromEntries(TRANSLATED_FIELDS.filter(key => original[key] !== undefined).map(key => [key, original[key]]));
+
+  const raw = await provider.generateJson(
+    buildTranslationPrompt(JSON.stringify({ ...text, theme: original.theme }), language),
+    buildPaperResponseSchema(),
+    options
+  );
+  const { data: translated, errors } = validatePaperData(raw);
+  if (errors.length > 0) {
+    throw new PaperValidationError(`The translation was unusable: ${errors.join(' ')}`, errors);
+  }
+  if (translated.concepts.length !== original.concepts.length) {
+    const issue = `The translation has ${translated.concepts.length} concepts instead of ${original.concepts.length}.`;
+    throw new PaperValidationError(issue, [issue]);
+  }
+
+  return {
+    ...original,
+    ...Object.fromEntries(TRANSLATED_FIELDS.map(key => [key, translated[key] ?? original[key]])),
+    sources: original.sources && carrySources(original.sources, original, translated),
+    audience: undefined,
+    audienceVariants: undefined,
+    language: paperLanguage(language)
+  };
+};
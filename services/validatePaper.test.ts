@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { FALLBACK_THEME } from '../themes';
+import { validateConcept, validateFigure, validatePaperData, validateTable } from './validatePaper';
+
+const paper = {
+  title: "Learning high-accuracy error decoding for quantum processors",
+  subtitle: "",
+  summary: "A neural decoder for the surface code.",
+  authors: [{ name: "Johannes Bausch", role: "Google DeepMind" }],
+  theme: FALLBACK_THEME,
+  concepts: [{ title: "Surface code", description: "A grid of qubits.", type: 'structure' }],
+  impact: "",
+  url: "https://www.nature.com/articles/s41586-024-08148-8"
+};
+
+describe('validatePaperData', () => {
+  it('accepts a well-formed paper without repairs', () => {
+    const { data, repaired, errors } = validatePaperData(paper);
+    expect(errors).toEqual([]);
+    expect(repaired).toEqual([]);
+    expect(data).toEqual(paper);
+  });
+
+  it('rejects input without a title or summary', () => {
+    expect(validatePaperData("not a paper").errors).toEqual(["Response is not a JSON object."]);
+    const { errors } = validatePaperData({ ...paper, title: " ", summary: undefined });
+    expect(errors).toEqual(["title is missing or empty.", "summary is missing or empty."]);
+  });
+
+  it('coerces loosely typed fields and records what it repaired', () => {
+    const { data, repaired, errors } = validatePaperData({
+      title: "Decoding",
+      summary: ["First paragraph.", "Second paragraph."],
+      authors: ["Johannes Bausch", { name: "Andrew Senior" }, 42],
+      theme: "not-a-theme",
+      concepts: "Surface code"
+    });
+
+    expect(errors).toEqual([]);
+    expect(data.summary).toBe("First paragraph.\nSecond paragraph.");
+    expect(data.subtitle).toBe("");
+    expect(data.impact).toBe("");
+    expect(data.theme).toBe(FALLBACK_THEME);
+    expect(data.authors).toEqual([{ name: "Johannes Bausch", role: "" }, { name: "Andrew Senior", role: "" }]);
+    expect(data.concepts).toEqual([]);
+    expect(repaired).toEqual(expect.arrayContaining(['summary', 'subtitle', 'impact', 'theme', 'authors[0]', 'authors[1].role', 'authors[2]', 'concepts']));
+  });
+
+  it('only keeps web links', () => {
+    expect(validatePaperData({ ...paper, url: "javascript:alert(1)" }).data.url).toBe("#");
+  });
+
+  it('drops fields it does not validate', () => {
+    const { data } = validatePaperData({
+      ...paper,
+      onload: "alert(1)",
+      concepts: [{ ...paper.concepts[0], html: "<img src=x>" }],
+      sections: [{ heading: "Methods", summary: "How it works.", pageStart: "4", pageEnd: 6, style: "color: red" }]
+    });
+    expect(data).not.toHaveProperty('onload');
+    expect(data.concepts[0]).not.toHaveProperty('html');
+    expect(data.sections).toEqual([{ heading: "Methods", summary: "How it works.", pageStart: 4, pageEnd: 6 }]);
+  });
+});
+
+describe('validateConcept', () => {
+  it('turns a bare string into an abstract concept', () => {
+    const repaired: string[] = [];
+    expect(validateConcept("Syndrome", 'concepts[0]', repaired)).toEqual({ title: "Syndrome", description: "", type: 'abstract' });
+    expect(repaired).toEqual(['concepts[0]']);
+  });
+
+  it('defaults unknown types and drops malformed relations', () => {
+    const repaired: string[] = [];
+    const concept = validateConcept({
+      title: "Decoder",
+      description: "Reads syndromes.",
+      type: 'algorithm',
+      relations: [{ target: "Syndrome", type: 'depends-on', explanation: "Its input." }, { target: "Qubit", type: 'likes' }]
+    }, 'concepts[0]', repaired);
+
+    expect(concept).toEqual({
+      title: "Decoder",
+      description: "Reads syndromes.",
+      type: 'abstract',
+      relations: [{ target: "Syndrome", type: 'depends-on', explanation: "Its input." }]
+    });
+    expect(repaired).toEqual(['concepts[0].type', 'concepts[0].relations[1]']);
+  });
+
+  it('drops relations to concepts the paper does not have', () => {
+    const { data, repaired } = validatePaperData({
+      ...paper,
+      concepts: [
+        { title: "Decoder", description: "", type: 'process', relations: [{ target: "surface CODE", type: 'depends-on' }, { target: "Missing", type: 'produces' }] },
+        { title: "Surface code", description: "", type: 'structure' }
+      ]
+    });
+    expect(data.concepts[0].relations).toEqual([{ target: "Surface code", type: 'depends-on', explanation: "" }]);
+    expect(repaired).toContain('concepts[0].relations[1]');
+  });
+});
+
+describe('validateFigure', () => {
+  it('repairs loosely typed fields and drops figures without an id or page', () => {
+    const repaired: string[] = [];
+    expect(validateFigure({ id: "fig-1", label: "Figure 1", caption: { text: "not a string" }, page: "3", explanation: 42 }, 'figures[0]', repaired))
+      .toEqual({ id: "fig-1", label: "Figure 1", caption: "", page: 3, explanation: "42" });
+    expect(repaired).toEqual(['figures[0].caption']);
+    expect(validateFigure({ id: "fig-2", label: "Figure 2", caption: "", page: null }, 'figures[1]', repaired)).toBeNull();
+    expect(validateFigure("not a figure", 'figures[2]', repaired)).toBeNull();
+  });
+
+  it('only keeps inline images', () => {
+    const imageOf = (image: string) => validateFigure({ id: "fig-1", label: "Figure 1", caption: "", page: 1, image }, 'figures[0]', [])?.image;
+    expect(imageOf("https://example.com/tracker.png")).toBeUndefined();
+    expect(imageOf("javascript:alert(1)")).toBeUndefined();
+    expect(imageOf("data:image/jpeg;base64,AAAA")).toBe("data:image/jpeg;base64,AAAA");
+  });
+});
+
+describe('validateTable', () => {
+  it('stringifies cells and drops rows that are not arrays', () => {
+    const repaired: string[] = [];
+    expect(validateTable({ id: "table-1", label: "Table 1", caption: "", columns: ["Distance", 3], rows: [["d=3", null], "not a row", 7] }, 'tables[0]', repaired))
+      .toEqual({ id: "table-1", label: "Table 1", caption: "", columns: ["Distance", "3"], rows: [["d=3", ""]] });
+    expect(repaired).toEqual(['tables[0].columns[1]', 'tables[0].rows[0][1]', 'tables[0].rows[1]', 'tables[0].rows[2]']);
+  });
+
+  it('drops tables without an id or any cells', () => {
+    expect(validateTable({ id: "table-2", label: "Table 2", columns: "Distance", rows: { d: 3 } }, 'tables[1]', [])).toBeNull();
+    expect(validateTable({ label: "No id", columns: ["A"], rows: [["1"]] }, 'tables[2]', [])).toBeNull();
+  });
+});
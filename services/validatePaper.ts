@@ -0,0 +1,728 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AudienceKey, AudienceVariant, BoundingBox, ConceptRelation, DiagramEdge, DiagramNode, DiagramSeries, DiagramSpec, EquationSymbol, GlossaryEntry, KeyConcept, MethodStep, PaperCitation, PaperData, PaperEquation, PaperFigure, PaperResult, PaperSources, PaperTable, ResultSeries, SectionSummary, SourceQuote } from '../types';
+import { AUDIENCE_LEVELS, DIAGRAM_KINDS, RELATION_TYPES } from './analysisSchema';
+import { FALLBACK_THEME, hasTheme } from '../themes';
+import { isSupportedLanguage, paperLanguage } from '../i18n/languages';
+import { normalizeDoi } from './citation';
+
+export interface ValidationResult {
+  data: PaperData;
+  repaired: string[]; // Fields that were coerced or filled with defaults
+  errors: string[]; // Problems that can't be repaired; the data is unusable
+}
+
+export class PaperValidationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.name = 'PaperValidationError';
+    this.issues = issues;
+  }
+}
+
+const CONCEPT_TYPES: KeyConcept['type'][] = ['process', 'structure', 'abstract'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Strings pass through; numbers are stringified; string arrays are joined. Anything else is undefined.
+const toText = (value: unknown, separator = '\n'): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value) && value.every(v => typeof v === 'string')) return value.join(separator);
+  return undefined;
+};
+
+const toArray = (value: unknown): unknown[] | undefined => {
+  if (Array.isArray(value)) return value;
+  if (isObject(value)) return [value];
+  return undefined;
+};
+
+export const validateConcept = (raw: unknown, path: string, repaired: string[]): KeyConcept | null => {
+  if (typeof raw === 'string' && raw.trim()) {
+    repaired.push(path);
+    return { title: raw.trim(), description: "", type: 'abstract' };
+  }
+  if (!isObject(raw)) return null;
+
+  const title = toText(raw.title)?.trim();
+  if (!title) return null;
+
+  let description = toText(raw.description, ' ');
+  if (description === undefined) {
+    description = "";
+    repaired.push(`${path}.description`);
+  }
+
+  let type = raw.type;
+  if (!CONCEPT_TYPES.includes(type)) {
+    type = 'abstract';
+    repaired.push(`${path}.type`);
+  }
+
+  const concept: KeyConcept = { title, description, type };
+  if (raw.relations !== undefined) {
+    const relations = (toArray(raw.relations) || []).flatMap((relation, i): ConceptRelation[] => {
+      const target = isObject(relation) ? toText(relation.target)?.trim() : undefined;
+      if (!isObject(relation) || !target || !RELATION_TYPES.includes(relation.type)) {
+        repaired.push(`${path}.relations[${i}]`);
+        return [];
+      }
+      return [{ target, type: relation.type, explanation: toText(relation.explanation, ' ')?.trim() || "" }];
+    });
+    concept.relations = relations.length > 0 ? relations : undefined;
+  }
+  return concept;
+};
+
+// Drops relations pointing at concepts that don't exist (or at themselves). Titles are matched case-insensitively
+// and rewritten to the exact concept title so the graph can key on them.
+const linkRelations = (concepts: KeyConcept[], repaired: string[]): KeyConcept[] => {
+  const titles = new Map(concepts.map(c => [c.title.toLowerCase(), c.title]));
+  return concepts.map((concept, i) => {
+    if (!concept.relations) return concept;
+    const relations = concept.relations.flatMap((relation, j) => {
+      const target = titles.get(relation.target.toLowerCase());
+      if (!target || target === concept.title) {
+        repaired.push(`concepts[${i}].relations[${j}]`);
+        return [];
+      }
+      return [{ ...relation, target }];
+    });
+    return { ...concept, relations: relations.length > 0 ? relations : undefined };
+  });
+};
+
+const validateSection = (raw: unknown): SectionSummary | null => {
+  if (!isObject(raw)) return null;
+  const heading = toText(raw.heading)?.trim();
+  const summary = toText(raw.summary, ' ')?.trim();
+  if (!heading || !summary) return null;
+  const section: SectionSummary = { heading, summary };
+  const pageStart = toPage(raw.pageStart);
+  const pageEnd = toPage(raw.pageEnd);
+  if (pageStart !== undefined) section.pageStart = pageStart;
+  if (pageEnd !== undefined && pageStart !== undefined && pageEnd >= pageStart) section.pageEnd = pageEnd;
+  return section;
+};
+
+const validateCitation = (raw: unknown, repaired: string[]): PaperCitation | undefined => {
+  if (!isObject(raw)) {
+    repaired.push('citation');
+    return undefined;
+  }
+  const citation: PaperCitation = {};
+
+  if (raw.doi) {
+    const doi = normalizeDoi(String(raw.doi));
+    if (doi) citation.doi = doi;
+    else repaired.push('citation.doi');
+  }
+  if (raw.year !== undefined && raw.year !== null && raw.year !== "") {
+    const year = parseInt(String(raw.year), 10);
+    if (year > 1000 && year < 3000) citation.year = year;
+    else repaired.push('citation.year');
+  }
+  (['venue', 'volume', 'issue', 'pages'] as const).forEach(key => {
+    const value = toText(raw[key])?.trim();
+    if (value) citation[key] = value;
+  });
+
+  return Object.keys(citation).length > 0 ? citation : undefined;
+};
+
+// Keeps the renderers readable: anything larger is truncated.
+const MAX_DIAGRAM_ITEMS = 12;
+const MAX_DIAGRAM_SERIES = 5;
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' ? parseFloat(value.replace(/[,%\s]/g, '')) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+const toStringList = (value: unknown): string[] =>
+  (toArray(value) || []).map(v => toText(v, ' ')?.trim()).filter((v): v is string => !!v);
+
+const validateDiagramGraph = (raw: Record<string, any>, spec: DiagramSpec, path: string, repaired: string[]): boolean => {
+  const nodes: DiagramNode[] = [];
+  (toArray(raw.nodes) || []).forEach((node, i) => {
+    const label = typeof node === 'string' ? node.trim() : isObject(node) ? toText(node.label ?? node.id, ' ')?.trim() : undefined;
+    if (!label) {
+      repaired.push(`${path}.nodes[${i}]`);
+      return;
+    }
+    const id = (isObject(node) && toText(node.id)?.trim()) || label;
+    if (nodes.some(n => n.id === id)) {
+      repaired.push(`${path}.nodes[${i}]`);
+      return;
+    }
+    const detail = isObject(node) ? toText(node.detail, ' ')?.trim() : undefined;
+    const shape = isObject(node) ? toText(node.shape, ' ')?.trim() : undefined;
+    nodes.push({ id, label, ...(detail ? { detail } : {}), ...(shape ? { shape } : {}) });
+  });
+  if (nodes.length > MAX_DIAGRAM_ITEMS) repaired.push(`${path}.nodes`);
+  spec.nodes = nodes.slice(0, MAX_DIAGRAM_ITEMS);
+  if (spec.nodes.length < 2) return false;
+
+  // Edges may name nodes by id or by label
+  const ids = new Map<string, string>();
+  spec.nodes.forEach(n => { ids.set(n.label.toLowerCase(), n.id); ids.set(n.id.toLowerCase(), n.id); });
+  const resolve = (value: unknown) => ids.get((toText(value) || "").trim().toLowerCase());
+  const edges: DiagramEdge[] = [];
+  (toArray(raw.edges) || []).forEach((edge, i) => {
+    const from = isObject(edge) ? resolve(edge.from) : undefined;
+    const to = isObject(edge) ? resolve(edge.to) : undefined;
+    // Self-loops only make sense as state transitions
+    if (!isObject(edge) || !from || !to || (from === to && spec.kind !== 'state-machine')) {
+      repaired.push(`${path}.edges[${i}]`);
+      return;
+    }
+    const label = toText(edge.label, ' ')?.trim();
+    edges.push({ from, to, ...(label ? { label } : {}) });
+  });
+
+  // A pipeline without edges is read as its stages in order
+  if (edges.length === 0 && spec.kind === 'pipeline') {
+    spec.nodes.slice(1).forEach((node, i) => edges.push({ from: spec.nodes![i].id, to: node.id }));
+    repaired.push(`${path}.edges`);
+  }
+  spec.edges = edges;
+
+  if (spec.kind === 'state-machine') {
+    const initial = resolve(raw.initial);
+    if (!initial) repaired.push(`${path}.initial`);
+    spec.initial = initial || spec.nodes[0].id;
+  }
+  return edges.length > 0;
+};
+
+const validateDiagramChart = (raw: Record<string, any>, spec: DiagramSpec, path: string, repaired: string[]): boolean => {
+  const labels = toStringList(raw.labels).slice(0, MAX_DIAGRAM_ITEMS);
+  if (labels.length < (spec.kind === 'line-chart' ? 2 : 1)) return false;
+
+  const series: DiagramSeries[] = [];
+  (toArray(raw.series) || []).forEach((entry, i) => {
+    const values = isObject(entry) ? (toArray(entry.values) || []).map(toNumber) : [];
+    // Every label needs a value; extra values are ignored
+    if (values.length < labels.length || values.slice(0, labels.length).some(v => v === undefined)) {
+      repaired.push(`${path}.series[${i}]`);
+      return;
+    }
+    const name = (isObject(entry) && toText(entry.name, ' ')?.trim()) || `Series ${i + 1}`;
+    series.push({ name, values: values.slice(0, labels.length) as number[] });
+  });
+  if (series.length > MAX_DIAGRAM_SERIES) repaired.push(`${path}.series`);
+
+  spec.labels = labels;
+  spec.series = series.slice(0, MAX_DIAGRAM_SERIES);
+  const unit = toText(raw.unit, ' ')?.trim();
+  if (unit) spec.unit = unit;
+  return spec.series.length > 0;
+};
+
+const validateDiagramTable = (raw: Record<string, any>, spec: DiagramSpec, path: string, repaired: string[]): boolean => {
+  const columns = toStringList(raw.columns).slice(0, MAX_DIAGRAM_SERIES);
+  if (columns.length < 1) return false;
+
+  const rows = (toArray(raw.rows) || []).flatMap((row, i) => {
+    const label = isObject(row) ? toText(row.label, ' ')?.trim() : undefined;
+    if (!isObject(row) || !label) {
+      repaired.push(`${path}.rows[${i}]`);
+      return [];
+    }
+    const values = (toArray(row.values) || []).map(v => toText(v, ' ')?.trim() || "");
+    if (values.length !== columns.length) repaired.push(`${path}.rows[${i}].values`);
+    return [{ label, values: columns.map((_, c) => values[c] || "") }];
+  });
+
+  spec.columns = columns;
+  spec.rows = rows.slice(0, MAX_DIAGRAM_ITEMS);
+  return spec.rows.length > 0;
+};
+
+// Returns null when the spec can't be drawn; the section then falls back to the concept cards.
+export const validateDiagram = (raw: unknown, path: string, repaired: string[]): DiagramSpec | null => {
+  if (!isObject(raw) || !DIAGRAM_KINDS.includes(raw.kind)) return null;
+
+  const title = toText(raw.title, ' ')?.trim();
+  if (!title) repaired.push(`${path}.title`);
+  const caption = toText(raw.caption, ' ')?.trim();
+  const spec: DiagramSpec = { kind: raw.kind, title: title || "", ...(caption ? { caption } : {}) };
+
+  switch (spec.kind) {
+    case 'flowchart':
+    case 'pipeline':
+    case 'state-machine':
+      return validateDiagramGraph(raw, spec, path, repaired) ? spec : null;
+    case 'bar-chart':
+    case 'line-chart':
+      return validateDiagramChart(raw, spec, path, repaired) ? spec : null;
+    case 'comparison-table':
+      return validateDiagramTable(raw, spec, path, repaired) ? spec : null;
+  }
+};
+
+const toBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return undefined;
+};
+
+// Returns null when there is nothing to plot.
+export const validateResult = (raw: unknown, path: string, repaired: string[]): PaperResult | null => {
+  if (!isObject(raw)) return null;
+
+  const metric = toText(raw.metric, ' ')?.trim() || toText(raw.title, ' ')?.trim();
+  if (!metric) return null;
+  const title = toText(raw.title, ' ')?.trim() || metric;
+
+  let lowerIsBetter = toBoolean(raw.lowerIsBetter);
+  if (lowerIsBetter === undefined) {
+    lowerIsBetter = false;
+    repaired.push(`${path}.lowerIsBetter`);
+  }
+
+  const rawSeries = toArray(raw.series) || [];
+  let conditions = toStringList(raw.conditions);
+  // A single reported number per method needs no condition selector
+  if (conditions.length === 0 && rawSeries.every(entry => isObject(entry) && (toArray(entry.values) || []).length === 1)) {
+    conditions = ["Overall"];
+    repaired.push(`${path}.conditions`);
+  }
+  if (conditions.length > MAX_DIAGRAM_ITEMS) repaired.push(`${path}.conditions`);
+  conditions = conditions.slice(0, MAX_DIAGRAM_ITEMS);
+  if (conditions.length === 0) return null;
+
+  const series: ResultSeries[] = [];
+  rawSeries.forEach((entry, i) => {
+    const name = isObject(entry) ? toText(entry.name, ' ')?.trim() : undefined;
+    const values = isObject(entry) ? (toArray(entry.values) || []).map(v => toNumber(v) ?? null) : [];
+    if (!isObject(entry) || !name || values.every(v => v === null)) {
+      repaired.push(`${path}.series[${i}]`);
+      return;
+    }
+    if (values.length !== conditions.length) repaired.push(`${path}.series[${i}].values`);
+    series.push({
+      name,
+      values: conditions.map((_, c) => values[c] ?? null),
+      ...(toBoolean(entry.isProposed) ? { isProposed: true } : {})
+    });
+  });
+  if (series.length === 0) return null;
+  if (series.length > MAX_DIAGRAM_SERIES) repaired.push(`${path}.series`);
+
+  const result: PaperResult = { title, metric, lowerIsBetter, conditions, series: series.slice(0, MAX_DIAGRAM_SERIES) };
+  (['unit', 'conditionName', 'source', 'caption'] as const).forEach(key => {
+    const value = toText(raw[key], ' ')?.trim();
+    if (value) result[key] = value;
+  });
+  return result;
+};
+
+const MAX_METHOD_STEPS = 12;
+
+// A bare string is taken as the step's title. Links to concepts that don't exist are dropped.
+export const validateMethodStep = (raw: unknown, path: string, repaired: string[], conceptTitles: string[]): MethodStep | null => {
+  if (typeof raw === 'string') {
+    if (!raw.trim()) return null;
+    repaired.push(path);
+    return { title: raw.trim(), description: "", inputs: [], outputs: [] };
+  }
+  if (!isObject(raw)) return null;
+
+  const title = toText(raw.title, ' ')?.trim();
+  if (!title) return null;
+
+  let description = toText(raw.description, ' ');
+  if (description === undefined) {
+    description = "";
+    repaired.push(`${path}.description`);
+  }
+
+  const step: MethodStep = { title, description, inputs: toStringList(raw.inputs), outputs: toStringList(raw.outputs) };
+  const concept = toText(raw.concept, ' ')?.trim();
+  if (concept) {
+    const match = conceptTitles.find(t => t.toLowerCase() === concept.toLowerCase());
+    if (match) step.concept = match;
+    else repaired.push(`${path}.concept`);
+  }
+  return step;
+};
+
+const MAX_EQUATIONS = 5;
+const MAX_EQUATION_SYMBOLS = 12;
+
+// Models sometimes keep the math delimiters ($$...$$, \[...\] or $...$) around the LaTeX
+const stripMathDelimiters = (latex: string): string =>
+  latex.trim()
+    .replace(/^\$\$([\s\S]*)\$\$$/, '$1')
+    .replace(/^\\\[([\s\S]*)\\\]$/, '$1')
+    .replace(/^\$([\s\S]*)\$$/, '$1')
+    .trim();
+
+// Returns null without any LaTeX. Symbols missing either their LaTeX or their meaning are dropped.
+export const validateEquation = (raw: unknown, path: string, repaired: string[]): PaperEquation | null => {
+  if (!isObject(raw)) return null;
+
+  const source = toText(raw.latex, ' ')?.trim();
+  if (!source) return null;
+  const latex = stripMathDelimiters(source);
+  if (!latex) return null;
+  if (latex !== source) repaired.push(`${path}.latex`);
+
+  let description = toText(raw.description, ' ');
+  if (description === undefined) {
+    description = "";
+    repaired.push(`${path}.description`);
+  }
+
+  const rawSymbols = toArray(raw.symbols);
+  if (!rawSymbols) repaired.push(`${path}.symbols`);
+  const symbols: EquationSymbol[] = [];
+  (rawSymbols || []).forEach((entry, i) => {
+    const symbol = isObject(entry) ? stripMathDelimiters(toText(entry.latex, ' ') || "") : "";
+    const meaning = isObject(entry) ? toText(entry.meaning, ' ')?.trim() : undefined;
+    if (!symbol || !meaning) {
+      repaired.push(`${path}.symbols[${i}]`);
+      return;
+    }
+    symbols.push({ latex: symbol, meaning });
+  });
+  if (symbols.length > MAX_EQUATION_SYMBOLS) repaired.push(`${path}.symbols`);
+
+  const equation: PaperEquation = { latex, description, symbols: symbols.slice(0, MAX_EQUATION_SYMBOLS) };
+  const title = toText(raw.title, ' ')?.trim();
+  if (title) equation.title = title;
+  return equation;
+};
+
+const MAX_GLOSSARY_ENTRIES = 20;
+
+export const validateGlossaryEntry = (raw: unknown, path: string, repaired: string[]): GlossaryEntry | null => {
+  if (!isObject(raw)) return null;
+  const term = toText(raw.term, ' ')?.trim();
+  const definition = toText(raw.definition, ' ')?.trim();
+  if (!term || !definition) return null;
+  const aliases = toStringList(raw.aliases).filter(alias => alias.toLowerCase() !== term.toLowerCase());
+  if (raw.aliases !== undefined && !Array.isArray(raw.aliases)) repaired.push(`${path}.aliases`);
+  return { term, definition, aliases };
+};
+
+// Fractions of the page, as written by services/figures.ts
+const validateBoundingBox = (raw: unknown): BoundingBox | undefined => {
+  if (!isObject(raw)) return undefined;
+  const [x, y, width, height] = [raw.x, raw.y, raw.width, raw.height];
+  if (![x, y, width, height].every(v => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 1)) return undefined;
+  return { x, y, width, height };
+};
+
+const toPage = (value: unknown): number | undefined => {
+  const page = toNumber(value);
+  return page !== undefined && page >= 1 ? Math.round(page) : undefined;
+};
+
+// Figures and tables come from the PDF rather than the model, so they only arrive through imported files
+// and shared links. Images must be inline data URLs; anything else could load from or run on another origin.
+export const validateFigure = (raw: unknown, path: string, repaired: string[]): PaperFigure | null => {
+  if (!isObject(raw)) return null;
+  const id = toText(raw.id, ' ')?.trim();
+  const page = toPage(raw.page);
+  if (!id || page === undefined) return null;
+
+  const label = toText(raw.label, ' ')?.trim();
+  if (!label) repaired.push(`${path}.label`);
+  const caption = toText(raw.caption, ' ');
+  if (caption === undefined) repaired.push(`${path}.caption`);
+  const figure: PaperFigure = { id, label: label || `Figure on page ${page}`, caption: caption || "", page };
+
+  if (raw.box !== undefined) {
+    const box = validateBoundingBox(raw.box);
+    if (box) figure.box = box;
+    else repaired.push(`${path}.box`);
+  }
+  if (raw.image !== undefined) {
+    if (typeof raw.image === 'string' && /^data:image\//i.test(raw.image)) figure.image = raw.image;
+    else repaired.push(`${path}.image`);
+  }
+  if (raw.explanation !== undefined) {
+    const explanation = toText(raw.explanation);
+    if (explanation) figure.explanation = explanation;
+    else repaired.push(`${path}.explanation`);
+  }
+  return figure;
+};
+
+// Numeric cells are stringified and missing ones left blank; rows that aren't arrays are dropped
+export const validateTable = (raw: unknown, path: string, repaired: string[]): PaperTable | null => {
+  if (!isObject(raw)) return null;
+  const id = toText(raw.id, ' ')?.trim();
+  if (!id) return null;
+
+  const toCells = (value: unknown[], cellPath: string) => value.map((cell, i) => {
+    if (typeof cell === 'string') return cell;
+    repaired.push(`${cellPath}[${i}]`);
+    return toText(cell, ' ') ?? "";
+  });
+  if (raw.columns !== undefined && !Array.isArray(raw.columns)) repaired.push(`${path}.columns`);
+  const columns = Array.isArray(raw.columns) ? toCells(raw.columns, `${path}.columns`) : [];
+  if (raw.rows !== undefined && !Array.isArray(raw.rows)) repaired.push(`${path}.rows`);
+  const rows = (Array.isArray(raw.rows) ? raw.rows : []).flatMap((row, i) => {
+    if (Array.isArray(row)) return [toCells(row, `${path}.rows[${i}]`)];
+    repaired.push(`${path}.rows[${i}]`);
+    return [];
+  });
+  if (columns.length === 0 && rows.length === 0) return null;
+
+  const label = toText(raw.label, ' ')?.trim();
+  if (!label) repaired.push(`${path}.label`);
+  const caption = toText(raw.caption, ' ');
+  if (caption === undefined) repaired.push(`${path}.caption`);
+  const page = toPage(raw.page);
+  if (raw.page !== undefined && page === undefined) repaired.push(`${path}.page`);
+  return { id, label: label || "Table", caption: caption || "", ...(page !== undefined ? { page } : {}), columns, rows };
+};
+
+const validateSourceQuotes = (raw: unknown, path: string, repaired: string[]): SourceQuote[] =>
+  (toArray(raw) || []).flatMap((quote, i) => {
+    const text = isObject(quote) ? toText(quote.text, ' ')?.trim() : undefined;
+    if (!isObject(quote) || !text) {
+      repaired.push(`${path}[${i}]`);
+      return [];
+    }
+    const page = toNumber(quote.page);
+    return [{ text, ...(page !== undefined && page >= 1 ? { page: Math.round(page) } : {}), verified: toBoolean(quote.verified) ?? false }];
+  });
+
+// Quotes for concepts that no longer exist are dropped; concepts without an entry count as unsupported
+const validateSources = (raw: unknown, concepts: KeyConcept[], repaired: string[]): PaperSources | undefined => {
+  if (!isObject(raw)) {
+    repaired.push('sources');
+    return undefined;
+  }
+  const summary = (toArray(raw.summary) || []).map((quotes, i) => validateSourceQuotes(quotes, `sources.summary[${i}]`, repaired));
+  const rawConcepts = isObject(raw.concepts) ? raw.concepts : {};
+  if (raw.concepts !== undefined && !isObject(raw.concepts)) repaired.push('sources.concepts');
+  return {
+    summary,
+    impact: validateSourceQuotes(raw.impact, 'sources.impact', repaired),
+    concepts: Object.fromEntries(concepts
+      .filter(c => rawConcepts[c.title] !== undefined)
+      .map(c => [c.title, validateSourceQuotes(rawConcepts[c.title], `sources.concepts.${c.title}`, repaired)]))
+  };
+};
+
+const AUDIENCE_KEYS: AudienceKey[] = ['original', ...AUDIENCE_LEVELS];
+
+// Audience variants only come from files written by this app, so a malformed one is dropped rather than patched
+const validateAudienceVariant = (raw: unknown): AudienceVariant | null => {
+  if (!isObject(raw)) return null;
+  const summary = toText(raw.summary);
+  const impact = toText(raw.impact);
+  if (!summary || !impact || !isObject(raw.conceptDescriptions)) return null;
+  const conceptDescriptions = Object.fromEntries(Object.entries(raw.conceptDescriptions)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+  return { summary, impact, conceptDescriptions };
+};
+
+// Coerces model output into PaperData, filling safe defaults where possible.
+export const validatePaperData = (raw: unknown): ValidationResult => {
+  const repaired: string[] = [];
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    return { data: raw as PaperData, repaired, errors: ["Response is not a JSON object."] };
+  }
+
+  const title = toText(raw.title, ' ')?.trim();
+  if (!title) errors.push("title is missing or empty.");
+
+  const summary = toText(raw.summary)?.trim();
+  if (!summary) errors.push("summary is missing or empty.");
+  else if (typeof raw.summary !== 'string') repaired.push('summary');
+
+  let subtitle = toText(raw.subtitle, ' ');
+  if (subtitle === undefined) {
+    subtitle = "";
+    repaired.push('subtitle');
+  }
+
+  let impact = toText(raw.impact, ' ');
+  if (impact === undefined) {
+    impact = "";
+    repaired.push('impact');
+  }
+
+  let theme = raw.theme;
+  if (!hasTheme(theme)) {
+    theme = FALLBACK_THEME;
+    repaired.push('theme');
+  }
+
+  const rawAuthors = toArray(raw.authors);
+  if (!rawAuthors) repaired.push('authors');
+  const authors = (rawAuthors || []).flatMap((author, i) => {
+    if (typeof author === 'string' && author.trim()) {
+      repaired.push(`authors[${i}]`);
+      return [{ name: author.trim(), role: "" }];
+    }
+    if (isObject(author) && toText(author.name)?.trim()) {
+      const role = toText(author.role, ', ');
+      if (role === undefined) repaired.push(`authors[${i}].role`);
+      return [{ name: toText(author.name)!.trim(), role: role || "" }];
+    }
+    repaired.push(`authors[${i}]`);
+    return [];
+  });
+
+  const rawConcepts = toArray(raw.concepts);
+  if (!rawConcepts) repaired.push('concepts');
+  const concepts = (rawConcepts || []).flatMap((concept, i) => {
+    const valid = validateConcept(concept, `concepts[${i}]`, repaired);
+    if (!valid) repaired.push(`concepts[${i}]`);
+    return valid ? [valid] : [];
+  });
+
+  // Built from validated fields only; anything else in the input is dropped
+  const data: PaperData = {
+    title: title || "",
+    subtitle,
+    summary: summary || "",
+    authors,
+    theme,
+    concepts: linkRelations(concepts, repaired),
+    impact,
+    // Only web links survive; anything else (including javascript: URLs from imported files) becomes "#".
+    url: typeof raw.url === 'string' && /^https?:\/\//i.test(raw.url) ? raw.url : "#"
+  };
+
+  (['journal', 'introTitle', 'date'] as const).forEach(key => {
+    if (raw[key] === undefined || raw[key] === null) return;
+    const value = toText(raw[key], ' ');
+    if (value === undefined) repaired.push(key);
+    else data[key] = value;
+  });
+
+  if (raw.sections !== undefined) {
+    const sections = (toArray(raw.sections) || []).map(validateSection).filter((s): s is SectionSummary => s !== null);
+    if (sections.length !== (Array.isArray(raw.sections) ? raw.sections.length : -1)) repaired.push('sections');
+    data.sections = sections.length > 0 ? sections : undefined;
+  }
+
+  if (raw.citation !== undefined) {
+    data.citation = validateCitation(raw.citation, repaired);
+  }
+
+  if (raw.diagrams !== undefined) {
+    const diagrams = (toArray(raw.diagrams) || []).flatMap((diagram, i) => {
+      const valid = validateDiagram(diagram, `diagrams[${i}]`, repaired);
+      if (!valid) repaired.push(`diagrams[${i}]`);
+      return valid ? [valid] : [];
+    });
+    data.diagrams = diagrams.length > 0 ? diagrams : undefined;
+  }
+
+  if (raw.results !== undefined) {
+    const results = (toArray(raw.results) || []).flatMap((result, i) => {
+      const valid = validateResult(result, `results[${i}]`, repaired);
+      if (!valid) repaired.push(`results[${i}]`);
+      return valid ? [valid] : [];
+    });
+    data.results = results.length > 0 ? results : undefined;
+  }
+
+  if (raw.methodology !== undefined) {
+    const titles = data.concepts.map(c => c.title);
+    const steps = (toArray(raw.methodology) || []).flatMap((step, i) => {
+      const valid = validateMethodStep(step, `methodology[${i}]`, repaired, titles);
+      if (!valid) repaired.push(`methodology[${i}]`);
+      return valid ? [valid] : [];
+    });
+    if (steps.length > MAX_METHOD_STEPS) repaired.push('methodology');
+    data.methodology = steps.length > 0 ? steps.slice(0, MAX_METHOD_STEPS) : undefined;
+  }
+
+  if (raw.equations !== undefined) {
+    const equations = (toArray(raw.equations) || []).flatMap((equation, i) => {
+      const valid = validateEquation(equation, `equations[${i}]`, repaired);
+      if (!valid) repaired.push(`equations[${i}]`);
+      return valid ? [valid] : [];
+    });
+    if (equations.length > MAX_EQUATIONS) repaired.push('equations');
+    data.equations = equations.length > 0 ? equations.slice(0, MAX_EQUATIONS) : undefined;
+  }
+
+  if (raw.glossary !== undefined) {
+    const seen = new Set<string>();
+    const glossary = (toArray(raw.glossary) || []).flatMap((entry, i) => {
+      const valid = validateGlossaryEntry(entry, `glossary[${i}]`, repaired);
+      // A term defined twice keeps its first definition
+      if (!valid || seen.has(valid.term.toLowerCase())) {
+        repaired.push(`glossary[${i}]`);
+        return [];
+      }
+      seen.add(valid.term.toLowerCase());
+      return [valid];
+    });
+    if (glossary.length > MAX_GLOSSARY_ENTRIES) repaired.push('glossary');
+    data.glossary = glossary.length > 0 ? glossary.slice(0, MAX_GLOSSARY_ENTRIES) : undefined;
+  }
+
+  if (raw.figures !== undefined) {
+    if (!toArray(raw.figures)) repaired.push('figures');
+    const figures = (toArray(raw.figures) || []).flatMap((figure, i) => {
+      const valid = validateFigure(figure, `figures[${i}]`, repaired);
+      if (!valid) repaired.push(`figures[${i}]`);
+      return valid ? [valid] : [];
+    });
+    data.figures = figures.length > 0 ? figures : undefined;
+  }
+
+  if (raw.tables !== undefined) {
+    if (!toArray(raw.tables)) repaired.push('tables');
+    const tables = (toArray(raw.tables) || []).flatMap((table, i) => {
+      const valid = validateTable(table, `tables[${i}]`, repaired);
+      if (!valid) repaired.push(`tables[${i}]`);
+      return valid ? [valid] : [];
+    });
+    data.tables = tables.length > 0 ? tables : undefined;
+  }
+
+  if (raw.sources !== undefined) {
+    data.sources = validateSources(raw.sources, data.concepts, repaired);
+  }
+
+  if (raw.audienceVariants !== undefined) {
+    const variants: Partial<Record<AudienceKey, AudienceVariant>> = {};
+    if (isObject(raw.audienceVariants)) {
+      Object.entries(raw.audienceVariants).forEach(([key, value]) => {
+        const variant = AUDIENCE_KEYS.includes(key as AudienceKey) ? validateAudienceVariant(value) : null;
+        if (variant) variants[key as AudienceKey] = variant;
+        else repaired.push(`audienceVariants.${key}`);
+      });
+    } else {
+      repaired.push('audienceVariants');
+    }
+    data.audienceVariants = Object.keys(variants).length > 0 ? variants : undefined;
+  }
+
+  // The text on the page is labelled with a level only if the original is kept to switch back to
+  if (raw.audience !== undefined) {
+    const valid = AUDIENCE_LEVELS.includes(raw.audience) && !!data.audienceVariants?.original;
+    if (!valid) repaired.push('audience');
+    data.audience = valid ? raw.audience : undefined;
+  }
+
+  // Only languages the interface has strings for are kept; anything else is shown as English
+  if (raw.language !== undefined) {
+    if (!isSupportedLanguage(raw.language)) repaired.push('language');
+    data.language = paperLanguage(isSupportedLanguage(raw.language) ? raw.language : undefined);
+  }
+
+  return { data, repaired, errors };
+};
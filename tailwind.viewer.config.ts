@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Config } from 'tailwindcss';
+
+// Stylesheet of the exported site. The app itself uses the Tailwind CDN, configured in index.html;
+// keep the theme here in step with it. Fonts are the variable builds bundled by viewer.css.
+export default {
+  content: ['./viewer.tsx', './components/**/*.{ts,tsx}', './themes/**/*.{ts,tsx}'],
+  darkMode: 'class',
+  theme: {
+    extend: {
+      fontFamily: {
+        serif: ['"Playfair Display Variable"', '"Playfair Display"', 'serif'],
+        sans: ['"Inter Variable"', '"Inter"', 'sans-serif'],
+      },
+      colors: {
+        nobel: {
+          gold: '#C5A059',
+          dark: '#1a1a1a',
+          cream: '#F9F8F4',
+        }
+      }
+    }
+  }
+} satisfies Config;
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { registerTheme } from './registry';
+import { QuantumLayer, AILayer, BiologyLayer, CosmosLayer, MaterialLayer } from './layers';
+import { ChemistryLayer, NeuroscienceLayer, EarthLayer, MathematicsLayer, MedicineLayer, GeneralLayer } from './domainLayers';
+
+registerTheme({
+  id: 'quantum',
+  label: 'quantum physics',
+  colors: { primary: '#C5A059', secondary: '#4F46E5', bg: '#000' },
+  Layer: QuantumLayer,
+  promptHint: 'quantum computing, quantum information and quantum physics'
+});
+
+registerTheme({
+  id: 'ai',
+  label: 'artificial intelligence',
+  colors: { primary: '#10B981', secondary: '#EC4899', bg: '#111' },
+  Layer: AILayer,
+  promptHint: 'machine learning, AI and computer science'
+});
+
+registerTheme({
+  id: 'biology',
+  label: 'biology',
+  colors: { primary: '#84CC16', secondary: '#06B6D4', bg: '#0f172a' },
+  Layer: BiologyLayer,
+  promptHint: 'molecular, cell and evolutionary biology, genetics and ecology'
+});
+
+registerTheme({
+  id: 'cosmos',
+  label: 'the cosmos',
+  colors: { primary: '#F59E0B', secondary: '#6366F1', bg: '#000' },
+  Layer: CosmosLayer,
+  promptHint: 'astronomy, astrophysics, cosmology and planetary science',
+  denseStars: true
+});
+
+registerTheme({
+  id: 'material',
+  label: 'materials science',
+  colors: { primary: '#EF4444', secondary: '#64748B', bg: '#1c1917' },
+  Layer: MaterialLayer,
+  promptHint: 'materials science, condensed matter and engineering'
+});
+
+registerTheme({
+  id: 'chemistry',
+  label: 'chemistry',
+  colors: { primary: '#38BDF8', secondary: '#F472B6', bg: '#0c0a09' },
+  Layer: ChemistryLayer,
+  promptHint: 'chemistry, chemical synthesis, catalysis and molecular modelling'
+});
+
+registerTheme({
+  id: 'neuroscience',
+  label: 'neuroscience',
+  colors: { primary: '#FACC15', secondary: '#A855F7', bg: '#0f0a1a' },
+  Layer: NeuroscienceLayer,
+  promptHint: 'neuroscience, brain imaging and cognitive science'
+});
+
+registerTheme({
+  id: 'earth',
+  label: 'climate and earth science',
+  colors: { primary: '#0E7490', secondary: '#86EFAC', bg: '#020617' },
+  Layer: EarthLayer,
+  promptHint: 'climate science, meteorology, oceanography, geology and earth observation'
+});
+
+registerTheme({
+  id: 'mathematics',
+  label: 'mathematics',
+  colors: { primary: '#E2E8F0', secondary: '#C5A059', bg: '#0c0a09' },
+  Layer: MathematicsLayer,
+  promptHint: 'pure and applied mathematics, statistics and theoretical computer science'
+});
+
+registerTheme({
+  id: 'medicine',
+  label: 'medicine',
+  colors: { primary: '#E11D48', secondary: '#2DD4BF', bg: '#111' },
+  Layer: MedicineLayer,
+  promptHint: 'medicine, clinical trials, epidemiology, pharmacology and public health'
+});
+
+registerTheme({
+  id: 'general',
+  label: 'this field',
+  colors: { primary: '#78716C', secondary: '#1C1917', bg: '#1c1917' },
+  Layer: GeneralLayer,
+  promptHint: 'papers that fit none of the other themes'
+});
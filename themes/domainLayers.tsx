@@ -0,0 +1,325 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Float, MeshDistortMaterial, Sphere, Torus, TorusKnot, Tetrahedron, Octahedron, Dodecahedron, Icosahedron, Capsule, Box, Line, Sparkles } from '@react-three/drei';
+import * as THREE from 'three';
+import { ThemeLayerProps } from './registry';
+import { useParticleCount } from '../components/SceneCanvas';
+
+type Vec3 = [number, number, number];
+
+// --- CHEMISTRY LAYER (Ball-and-Stick Molecules) ---
+const Molecule = ({ atoms, bonds, color, bondColor }: { atoms: { pos: Vec3, size: number }[], bonds: [number, number][], color: string, bondColor: string }) => (
+    <group>
+        {bonds.map(([a, b], i) => (
+            <Line key={i} points={[atoms[a].pos, atoms[b].pos]} color={bondColor} lineWidth={3} transparent opacity={0.6} />
+        ))}
+        {atoms.map((atom, i) => (
+            <Sphere key={i} args={[atom.size, 24, 24]} position={atom.pos}>
+                <meshStandardMaterial color={color} metalness={0.3} roughness={0.3} />
+            </Sphere>
+        ))}
+    </group>
+);
+
+export const ChemistryLayer: React.FC<ThemeLayerProps> = ({ primary, secondary }) => {
+  const sparkleCount = useParticleCount(30);
+  // Six-membered ring with a hydrogen pointing out from every carbon
+  const ring = useMemo(() => {
+    const atoms: { pos: Vec3, size: number }[] = [];
+    const bonds: [number, number][] = [];
+    for (let i = 0; i < 6; i++) {
+        const a = (i / 6) * Math.PI * 2;
+        atoms.push({ pos: [Math.cos(a) * 1.4, Math.sin(a) * 1.4, 0], size: 0.32 });
+        bonds.push([i, (i + 1) % 6]);
+    }
+    for (let i = 0; i < 6; i++) {
+        const a = (i / 6) * Math.PI * 2;
+        atoms.push({ pos: [Math.cos(a) * 2.4, Math.sin(a) * 2.4, 0], size: 0.16 });
+        bonds.push([i, i + 6]);
+    }
+    return { atoms, bonds };
+  }, []);
+
+  const water = useMemo(() => ({
+    atoms: [{ pos: [0, 0, 0] as Vec3, size: 0.25 }, { pos: [0.45, 0.3, 0] as Vec3, size: 0.13 }, { pos: [-0.45, 0.3, 0] as Vec3, size: 0.13 }],
+    bonds: [[0, 1], [0, 2]] as [number, number][]
+  }), []);
+
+  const groupRef = useRef<THREE.Group>(null);
+  useFrame((state) => {
+      if (groupRef.current) {
+          const t = state.clock.getElapsedTime();
+          groupRef.current.rotation.z = t * 0.15;
+          groupRef.current.rotation.x = Math.sin(t * 0.3) * 0.4;
+      }
+  });
+
+  return (
+    <group>
+      <group ref={groupRef}>
+        <Molecule atoms={ring.atoms} bonds={ring.bonds} color={primary} bondColor={secondary} />
+      </group>
+
+      <Float speed={2} rotationIntensity={1.5} floatIntensity={1}>
+        <group position={[-3.2, 1.6, -1]}>
+            <Molecule atoms={water.atoms} bonds={water.bonds} color={secondary} bondColor={primary} />
+        </group>
+        <group position={[3.2, -1.4, -2]} rotation={[0, 0, 2]}>
+            <Molecule atoms={water.atoms} bonds={water.bonds} color={secondary} bondColor={primary} />
+        </group>
+      </Float>
+
+      <Sparkles count={sparkleCount} scale={8} size={2} speed={0.6} opacity={0.5} color={secondary} />
+    </group>
+  );
+};
+
+// --- NEUROSCIENCE LAYER (Neurons & Action Potentials) ---
+const Spike = ({ from, to, color, speed, offset }: { from: Vec3, to: Vec3, color: string, speed: number, offset: number }) => {
+    const ref = useRef<THREE.Mesh>(null);
+    const start = useMemo(() => new THREE.Vector3(...from), [from]);
+    const end = useMemo(() => new THREE.Vector3(...to), [to]);
+    useFrame((state) => {
+        if (ref.current) {
+            // Travel along the axon, then rest before firing again
+            const phase = (state.clock.getElapsedTime() * speed + offset) % 2;
+            ref.current.visible = phase < 1;
+            ref.current.position.lerpVectors(start, end, Math.min(phase, 1));
+        }
+    });
+    return (
+        <Sphere ref={ref} args={[0.07, 12, 12]}>
+            <meshBasicMaterial color={color} />
+        </Sphere>
+    );
+};
+
+export const NeuroscienceLayer: React.FC<ThemeLayerProps> = ({ primary, secondary }) => {
+  const network = useMemo(() => {
+    const neurons = Array.from({ length: 10 }).map(() => [
+        (Math.random() - 0.5) * 8,
+        (Math.random() - 0.5) * 5,
+        (Math.random() - 0.5) * 3
+    ] as Vec3);
+    // Each neuron synapses onto its two nearest neighbours
+    const synapses: [number, number][] = [];
+    neurons.forEach((a, i) => {
+        neurons
+            .map((b, j) => ({ j, d: new THREE.Vector3(...a).distanceTo(new THREE.Vector3(...b)) }))
+            .filter(n => n.j !== i)
+            .sort((x, y) => x.d - y.d)
+            .slice(0, 2)
+            .forEach(({ j }) => synapses.push([i, j]));
+    });
+    return { neurons, synapses };
+  }, []);
+
+  return (
+    <group>
+      <Float speed={1} rotationIntensity={0.1} floatIntensity={0.3}>
+        {network.synapses.map(([a, b], i) => (
+            <Line key={i} points={[network.neurons[a], network.neurons[b]]} color={secondary} lineWidth={1} transparent opacity={0.25} />
+        ))}
+        {network.synapses.map(([a, b], i) => (
+            <Spike key={i} from={network.neurons[a]} to={network.neurons[b]} color={primary} speed={0.4 + (i % 3) * 0.15} offset={i * 0.37} />
+        ))}
+        {network.neurons.map((pos, i) => (
+            <Sphere key={i} args={[0.22, 24, 24]} position={pos}>
+                <MeshDistortMaterial color={i % 3 === 0 ? primary : secondary} speed={3} distort={0.35} roughness={0.3} />
+            </Sphere>
+        ))}
+      </Float>
+    </group>
+  );
+};
+
+// --- CLIMATE / EARTH SCIENCE LAYER (Rotating Globe & Atmosphere) ---
+export const EarthLayer: React.FC<ThemeLayerProps> = ({ primary, secondary }) => {
+  const sparkleCount = useParticleCount(40);
+  const globeRef = useRef<THREE.Group>(null);
+  const bandRef = useRef<THREE.Mesh>(null);
+
+  useFrame((state) => {
+      const t = state.clock.getElapsedTime();
+      if (globeRef.current) globeRef.current.rotation.y = t * 0.1;
+      if (bandRef.current) {
+          // Jet stream wobbling around the globe
+          bandRef.current.rotation.z = t * 0.3;
+          bandRef.current.rotation.x = 1.2 + Math.sin(t * 0.5) * 0.15;
+      }
+  });
+
+  return (
+    <group rotation={[0.4, 0, 0.2]}>
+      <group ref={globeRef}>
+        <Sphere args={[1.8, 64, 64]}>
+            <meshStandardMaterial color={primary} roughness={0.8} />
+        </Sphere>
+        {/* Latitude/longitude grid */}
+        <Sphere args={[1.83, 24, 16]}>
+            <meshBasicMaterial color={secondary} wireframe transparent opacity={0.15} />
+        </Sphere>
+      </group>
+      {/* Atmosphere */}
+      <Sphere args={[2.1, 48, 48]}>
+          <MeshDistortMaterial color={secondary} speed={1} distort={0.15} transparent opacity={0.15} />
+      </Sphere>
+      <Torus ref={bandRef} args={[2.6, 0.02, 16, 120]}>
+          <meshStandardMaterial color={secondary} emissive={secondary} emissiveIntensity={0.6} transparent opacity={0.6} />
+      </Torus>
+      <Sparkles count={sparkleCount} scale={6} size={2} speed={0.3} opacity={0.6} color="#fff" />
+    </group>
+  );
+};
+
+// --- MATHEMATICS LAYER (Knots & Platonic Solids) ---
+export const MathematicsLayer: React.FC<ThemeLayerProps> = ({ primary, secondary }) => {
+  const knotRef = useRef<THREE.Mesh>(null);
+  const solidsRef = useRef<THREE.Group>(null);
+
+  // Lissajous curve threaded behind the knot
+  const curve = useMemo(() => Array.from({ length: 200 }).map((_, i) => {
+      const t = (i / 199) * Math.PI * 2;
+      return [Math.sin(3 * t) * 4, Math.sin(2 * t) * 2.5, -2] as Vec3;
+  }), []);
+
+  useFrame((state) => {
+      const t = state.clock.getElapsedTime();
+      if (knotRef.current) {
+          knotRef.current.rotation.x = t * 0.15;
+          knotRef.current.rotation.y = t * 0.2;
+      }
+      if (solidsRef.current) solidsRef.current.rotation.z = t * 0.1;
+  });
+
+  return (
+    <group>
+      <TorusKnot ref={knotRef} args={[1.1, 0.3, 128, 16, 2, 3]}>
+          <meshStandardMaterial color={primary} emissive={primary} emissiveIntensity={0.2} metalness={0.6} roughness={0.3} wireframe />
+      </TorusKnot>
+
+      <Line points={curve} color={secondary} lineWidth={1} transparent opacity={0.3} />
+
+      <group ref={solidsRef}>
+        <Float speed={2} rotationIntensity={2} floatIntensity={0.5}>
+          <Tetrahedron args={[0.5, 0]} position={[3, 1, -1]}>
+              <meshStandardMaterial color={secondary} wireframe />
+          </Tetrahedron>
+          <Octahedron args={[0.5, 0]} position={[-3, -1, -1]}>
+              <meshStandardMaterial color={secondary} wireframe />
+          </Octahedron>
+          <Dodecahedron args={[0.45, 0]} position={[-2, 2, -2]}>
+              <meshStandardMaterial color={primary} wireframe />
+          </Dodecahedron>
+          <Icosahedron args={[0.45, 0]} position={[2, -2, -2]}>
+              <meshStandardMaterial color={primary} wireframe />
+          </Icosahedron>
+        </Float>
+      </group>
+    </group>
+  );
+};
+
+// --- MEDICINE LAYER (Heartbeat, ECG Trace & Capsules) ---
+const ECG_BEAT = [0, 0, 0.1, 0, 0, -0.2, 1.4, -0.5, 0, 0, 0.25, 0.3, 0, 0, 0];
+
+export const MedicineLayer: React.FC<ThemeLayerProps> = ({ primary, secondary }) => {
+  const heartRef = useRef<THREE.Mesh>(null);
+  const pulseRef = useRef<THREE.Mesh>(null);
+
+  // Three beats of an ECG trace across the scene
+  const trace = useMemo(() => {
+    const values = [...ECG_BEAT, ...ECG_BEAT, ...ECG_BEAT];
+    return values.map((v, i) => [(i / (values.length - 1)) * 10 - 5, v - 2.2, 0.5] as Vec3);
+  }, []);
+
+  useFrame((state) => {
+      const t = state.clock.getElapsedTime();
+      if (heartRef.current) {
+          // "Lub-dub": two quick swells per one-second beat
+          const beat = t % 1;
+          const s = 1 + Math.exp(-Math.pow((beat - 0.1) * 20, 2)) * 0.12 + Math.exp(-Math.pow((beat - 0.3) * 20, 2)) * 0.07;
+          heartRef.current.scale.set(s, s, s);
+      }
+      if (pulseRef.current) {
+          // Marker rides along the trace at the same rate as the heartbeat
+          const f = ((t / 3) % 1) * (trace.length - 1);
+          const i = Math.floor(f);
+          const a = trace[i], b = trace[Math.min(i + 1, trace.length - 1)];
+          pulseRef.current.position.set(a[0] + (b[0] - a[0]) * (f - i), a[1] + (b[1] - a[1]) * (f - i), a[2]);
+      }
+  });
+
+  return (
+    <group>
+      <Float speed={1} rotationIntensity={0.2} floatIntensity={0.4}>
+        <Sphere ref={heartRef} args={[1.2, 48, 48]} position={[0, 0.4, 0]}>
+            <MeshDistortMaterial color={primary} speed={2} distort={0.3} roughness={0.3} metalness={0.1} />
+        </Sphere>
+      </Float>
+
+      <Line points={trace} color={secondary} lineWidth={2} transparent opacity={0.7} />
+      <Sphere ref={pulseRef} args={[0.08, 12, 12]}>
+          <meshBasicMaterial color="#fff" />
+      </Sphere>
+
+      <Float speed={2} rotationIntensity={1.5} floatIntensity={1}>
+        <Capsule args={[0.18, 0.5, 8, 16]} position={[-3, 1.5, -1]} rotation={[0, 0, 0.8]}>
+            <meshStandardMaterial color={secondary} roughness={0.3} />
+        </Capsule>
+        <Capsule args={[0.18, 0.5, 8, 16]} position={[3, 1.2, -2]} rotation={[0, 0, -0.6]}>
+            <meshStandardMaterial color={primary} roughness={0.3} />
+        </Capsule>
+        <Capsule args={[0.15, 0.4, 8, 16]} position={[2.5, -0.5, -1]} rotation={[0.5, 0, 1.2]}>
+            <meshStandardMaterial color="#fff" roughness={0.3} />
+        </Capsule>
+      </Float>
+    </group>
+  );
+};
+
+// --- GENERAL LAYER (Layered Geometry & Drifting Pages) ---
+export const GeneralLayer: React.FC<ThemeLayerProps> = ({ primary, secondary }) => {
+  const coreRef = useRef<THREE.Group>(null);
+  const pages = useMemo(() => Array.from({ length: 8 }).map((_, i) => {
+      const a = (i / 8) * Math.PI * 2;
+      return { pos: [Math.cos(a) * 3.5, Math.sin(a) * 2, -1 - (i % 3)] as Vec3, tilt: a };
+  }), []);
+
+  useFrame((state) => {
+      if (coreRef.current) {
+          const t = state.clock.getElapsedTime();
+          coreRef.current.rotation.y = t * 0.15;
+          coreRef.current.rotation.x = Math.sin(t * 0.2) * 0.3;
+      }
+  });
+
+  return (
+    <group>
+      <group ref={coreRef}>
+        <Icosahedron args={[1.3, 1]}>
+            <meshStandardMaterial color={primary} wireframe transparent opacity={0.6} />
+        </Icosahedron>
+        <Torus args={[2, 0.02, 16, 100]} rotation={[Math.PI / 2, 0, 0]}>
+            <meshStandardMaterial color={primary} transparent opacity={0.4} />
+        </Torus>
+        <Torus args={[2.4, 0.02, 16, 100]} rotation={[Math.PI / 3, 0.4, 0]}>
+            <meshStandardMaterial color={primary} transparent opacity={0.25} />
+        </Torus>
+      </group>
+
+      <Float speed={1.5} rotationIntensity={0.6} floatIntensity={0.8}>
+        {pages.map((page, i) => (
+            <Box key={i} args={[0.5, 0.7, 0.01]} position={page.pos} rotation={[0.2, page.tilt, 0.1]}>
+                <meshStandardMaterial color={i % 2 === 0 ? '#e7e5e4' : secondary} transparent opacity={0.5} />
+            </Box>
+        ))}
+      </Float>
+    </group>
+  );
+};
@@ -0,0 +1,9 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Importing the registry through this module guarantees the built-in themes are registered first.
+import './builtin';
+
+export * from './registry';
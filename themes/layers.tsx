@@ -0,0 +1,361 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Float, MeshDistortMaterial, Sphere, Torus, Cone, Icosahedron, Box, Line, Sparkles } from '@react-three/drei';
+import * as THREE from 'three';
+import { ThemeLayerProps } from './registry';
+import { useParticleCount } from '../components/SceneCanvas';
+
+// --- 1. QUANTUM LAYER (Waves, Particles & Interference) ---
+const QuantumParticles = ({ color }: { color: string }) => {
+  const count = useParticleCount(40);
+  const mesh = useRef<THREE.InstancedMesh>(null);
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+  
+  // Initialize particle data
+  const particles = useMemo(() => {
+    return new Array(count).fill(0).map(() => ({
+      t: Math.random() * 100,
+      factor: Math.random() * 20 + 10,
+      speed: Math.random() * 0.01 + 0.005,
+      xFactor: Math.random() * 20 - 10,
+      yFactor: Math.random() * 20 - 10,
+      zFactor: Math.random() * 20 - 10,
+      mx: 0, my: 0
+    }))
+  }, [count]);
+
+  useFrame((state) => {
+    if (!mesh.current) return;
+    particles.forEach((particle, i) => {
+      let { t, factor, speed, xFactor, yFactor, zFactor } = particle;
+      t = particle.t += speed / 2;
+      const a = Math.cos(t) + Math.sin(t * 1) / 10;
+      const b = Math.sin(t) + Math.cos(t * 2) / 10;
+      const s = Math.cos(t) * 0.5 + 0.5;
+      
+      // Gentle mouse attraction
+      particle.mx += (state.pointer.x * 5 - particle.mx) * 0.05;
+      particle.my += (-state.pointer.y * 5 - particle.my) * 0.05;
+
+      dummy.position.set(
+        (particle.mx / 10) * a + xFactor + Math.cos((t / 10) * factor) + (Math.sin(t * 1) * factor) / 10,
+        (particle.my / 10) * b + yFactor + Math.sin((t / 10) * factor) + (Math.cos(t * 2) * factor) / 10,
+        (particle.my / 10) * b + zFactor + Math.cos((t / 10) * factor) + (Math.sin(t * 3) * factor) / 10
+      );
+      dummy.scale.set(s, s, s);
+      dummy.rotation.set(s * 5, s * 5, s * 5);
+      dummy.updateMatrix();
+      mesh.current!.setMatrixAt(i, dummy.matrix);
+    });
+    mesh.current.instanceMatrix.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh ref={mesh} args={[undefined, undefined, count]}>
+      <dodecahedronGeometry args={[0.05, 0]} />
+      <meshBasicMaterial color={color} transparent opacity={0.6} />
+    </instancedMesh>
+  );
+}
+
+export const QuantumLayer: React.FC<ThemeLayerProps> = ({ primary, secondary }) => {
+  const waveRef = useRef<THREE.Mesh>(null);
+  
+  useFrame((state) => {
+    if (waveRef.current) {
+      const t = state.clock.getElapsedTime();
+      waveRef.current.rotation.x = Math.sin(t * 0.2) * 0.2 + 1.57;
+      waveRef.current.rotation.y = t * 0.1;
+      // Slight scale pulse
+      const s = 1 + Math.sin(t * 1.5) * 0.02;
+      waveRef.current.scale.set(s, s, s);
+    }
+  });
+
+  return (
+    <group>
+      <Float speed={1.5} rotationIntensity={0.2} floatIntensity={0.5}>
+        <Sphere args={[1, 32, 32]} position={[0, 0, 0]} scale={1.2}>
+           <MeshDistortMaterial color={secondary} speed={2} distort={0.4} metalness={0.5} roughness={0.2} />
+        </Sphere>
+        <Torus ref={waveRef} args={[3.5, 0.05, 16, 100]} rotation={[Math.PI / 2, 0, 0]}>
+           <meshStandardMaterial color={primary} emissive={primary} emissiveIntensity={0.5} transparent opacity={0.4} wireframe />
+        </Torus>
+      </Float>
+      
+      <QuantumParticles color={primary} />
+
+      <Float speed={2} rotationIntensity={0.5} floatIntensity={1}>
+        <Sphere args={[0.5, 32, 32]} position={[-3, 1, -2]}>
+             <meshStandardMaterial color={primary} metalness={0.8} roughness={0.2} />
+        </Sphere>
+        <Sphere args={[0.6, 32, 32]} position={[3, -1, -3]}>
+             <meshStandardMaterial color={secondary} metalness={0.8} roughness={0.2} />
+        </Sphere>
+      </Float>
+    </group>
+  );
+};
+
+// --- 2. AI LAYER (Neural Grid / Pulsing Connections) ---
+const PulsingNode = ({ position, color, delay }: { position: [number, number, number], color: string, delay: number }) => {
+    const meshRef = useRef<THREE.Mesh>(null);
+    useFrame((state) => {
+        if(meshRef.current) {
+            const t = state.clock.getElapsedTime();
+            // Pulse scale
+            const scale = 0.8 + Math.sin(t * 2 + delay) * 0.2;
+            meshRef.current.scale.set(scale, scale, scale);
+            // Pulse opacity/emissive
+            const intensity = 0.2 + Math.max(0, Math.sin(t * 2 + delay)) * 0.5;
+            (meshRef.current.material as THREE.MeshStandardMaterial).emissiveIntensity = intensity;
+        }
+    });
+
+    return (
+        <Box ref={meshRef} args={[0.5, 0.5, 0.5]} position={position}>
+            <meshStandardMaterial 
+                color={color} 
+                emissive={color}
+                emissiveIntensity={0.2}
+                transparent 
+                opacity={0.8}
+                wireframe
+            />
+        </Box>
+    );
+};
+
+const ConnectionLines = ({ nodes, color }: { nodes: any[], color: string }) => {
+    const lineGeo = useMemo(() => {
+        const points = [];
+        // Connect nodes that are close enough
+        for(let i=0; i<nodes.length; i++) {
+            for(let j=i+1; j<nodes.length; j++) {
+                const v1 = new THREE.Vector3(...nodes[i].pos);
+                const v2 = new THREE.Vector3(...nodes[j].pos);
+                if(v1.distanceTo(v2) < 4.5) {
+                    points.push(v1);
+                    points.push(v2);
+                }
+            }
+        }
+        return points;
+    }, [nodes]);
+
+    // Animate opacity of lines (simulating data flow)? 
+    // Simplified: Just render clean lines.
+    return (
+        <Line 
+            points={lineGeo} 
+            color={color} 
+            lineWidth={1} 
+            transparent 
+            opacity={0.15} 
+        />
+    )
+}
+
+export const AILayer: React.FC<ThemeLayerProps> = ({ primary, secondary }) => {
+  const nodes = useMemo(() => {
+    return Array.from({ length: 15 }).map(() => ({
+      pos: [
+        (Math.random() - 0.5) * 8,
+        (Math.random() - 0.5) * 6,
+        (Math.random() - 0.5) * 4
+      ] as [number, number, number],
+      delay: Math.random() * Math.PI
+    }));
+  }, []);
+
+  return (
+    <group>
+      <Float speed={1.5} rotationIntensity={0.1} floatIntensity={0.2}>
+        {nodes.map((node, i) => (
+          <PulsingNode 
+            key={i} 
+            position={node.pos} 
+            color={i % 2 === 0 ? primary : secondary} 
+            delay={node.delay} 
+          />
+        ))}
+        <ConnectionLines nodes={nodes} color={primary} />
+      </Float>
+      
+      {/* Central Core */}
+      <Float speed={1} rotationIntensity={1}>
+         <Icosahedron args={[1.2, 0]} position={[0,0,-2]}>
+             <meshStandardMaterial color="#222" wireframe emissive={secondary} emissiveIntensity={0.2} />
+         </Icosahedron>
+      </Float>
+    </group>
+  );
+};
+
+// --- 3. BIOLOGY LAYER (Organic Breathing Cells) ---
+const BreathingCell = ({ position, color, size, speed }: { position: [number, number, number], color: string, size: number, speed: number }) => {
+    const meshRef = useRef<THREE.Mesh>(null);
+    useFrame((state) => {
+        if(meshRef.current) {
+            const t = state.clock.getElapsedTime();
+            // Breathing scale
+            const s = size + Math.sin(t * speed) * (size * 0.1);
+            meshRef.current.scale.set(s, s, s);
+        }
+    });
+
+    return (
+         <Sphere ref={meshRef} args={[1, 32, 32]} position={position}>
+              <MeshDistortMaterial 
+                color={color} 
+                speed={speed * 1.5} 
+                distort={0.4} 
+                radius={1}
+                transparent
+                opacity={0.6}
+                roughness={0.2}
+                metalness={0.1}
+              />
+         </Sphere>
+    );
+};
+
+const FloatingParticle = ({ primary, secondary }: { primary: string, secondary: string }) => {
+    const ref = useRef<THREE.Group>(null);
+    useFrame((state) => {
+        if(ref.current) {
+            const t = state.clock.getElapsedTime();
+            // Complex orbital path
+            ref.current.position.x = Math.sin(t * 0.5) * 3;
+            ref.current.position.y = Math.cos(t * 0.3) * 2;
+            ref.current.position.z = Math.sin(t * 0.2) * 2;
+            ref.current.rotation.z = t * 0.2;
+        }
+    });
+
+    return (
+        <group ref={ref}>
+            <Sphere args={[0.2, 16, 16]} position={[1, 0, 0]}>
+                 <meshStandardMaterial color={secondary} transparent opacity={0.8} />
+            </Sphere>
+             <Sphere args={[0.15, 16, 16]} position={[-1, 0.5, 0]}>
+                 <meshStandardMaterial color={primary} transparent opacity={0.8} />
+            </Sphere>
+        </group>
+    );
+};
+
+export const BiologyLayer: React.FC<ThemeLayerProps> = ({ primary, secondary }) => {
+  const sparkleCount = useParticleCount(20);
+  return (
+    <group>
+       <Float speed={1} rotationIntensity={0.2} floatIntensity={0.5}>
+         <BreathingCell position={[0, 0, 0]} color={primary} size={1.8} speed={1.5} />
+       </Float>
+
+       <FloatingParticle primary={primary} secondary={secondary} />
+
+       <Float speed={2} rotationIntensity={0.5} floatIntensity={1}>
+          <BreathingCell position={[2.5, 1.5, -1]} color={secondary} size={0.6} speed={2} />
+          <BreathingCell position={[-2.5, -1.5, 1]} color={secondary} size={0.5} speed={2.5} />
+       </Float>
+       
+       <Sparkles count={sparkleCount} scale={4} size={4} speed={0.4} opacity={0.5} color={secondary} />
+    </group>
+  );
+};
+
+// --- 4. COSMOS LAYER (Orbits & Twinkling) ---
+const OrbitingPlanet = ({ radius, speed, size, color, offset = 0 }: { radius: number, speed: number, size: number, color: string, offset?: number }) => {
+    const ref = useRef<THREE.Mesh>(null);
+    useFrame((state) => {
+        if(ref.current) {
+            const t = state.clock.getElapsedTime();
+            ref.current.position.x = Math.sin(t * speed + offset) * radius;
+            ref.current.position.z = Math.cos(t * speed + offset) * radius;
+            // Axial tilt rotation
+            ref.current.rotation.y += 0.01;
+        }
+    });
+    return (
+        <Sphere ref={ref} args={[size, 32, 32]}>
+            <meshStandardMaterial color={color} roughness={0.7} />
+        </Sphere>
+    );
+}
+
+export const CosmosLayer: React.FC<ThemeLayerProps> = ({ primary, secondary }) => {
+  const sparkleCount = useParticleCount(50);
+  const ringRef = useRef<THREE.Mesh>(null);
+  const groupRef = useRef<THREE.Group>(null);
+
+  useFrame((state) => {
+     if (ringRef.current) {
+         ringRef.current.rotation.z = state.clock.getElapsedTime() * 0.05;
+     }
+     if (groupRef.current) {
+         // Slow sway of entire system
+         groupRef.current.rotation.z = Math.sin(state.clock.getElapsedTime() * 0.1) * 0.1;
+     }
+  });
+
+  return (
+    <group ref={groupRef}>
+       <Float speed={0.5} rotationIntensity={0.1} floatIntensity={0.2}>
+         <Sphere args={[2, 64, 64]} position={[0, 0, 0]}>
+            <meshStandardMaterial color={primary} roughness={0.8} />
+         </Sphere>
+         <Torus ref={ringRef} args={[3.2, 0.05, 64, 100]} rotation={[1.2, 0, 0]}>
+            <meshStandardMaterial color={secondary} emissive={secondary} emissiveIntensity={0.8} />
+         </Torus>
+       </Float>
+       
+       {/* Orbits */}
+       <group rotation={[0.5, 0, 0]}>
+           <OrbitingPlanet radius={3.5} speed={0.4} size={0.3} color="#fff" />
+           <OrbitingPlanet radius={4.5} speed={0.3} size={0.2} color={secondary} offset={2} />
+       </group>
+
+       {/* Enhanced Star Field */}
+       <Sparkles count={sparkleCount} scale={10} size={2} speed={1} opacity={0.8} color="#fff" />
+    </group>
+  );
+};
+
+// --- 5. MATERIAL LAYER (Lattice Structure) ---
+export const MaterialLayer: React.FC<ThemeLayerProps> = ({ primary, secondary }) => {
+  const lattice = useMemo(() => {
+    const items = [];
+    for(let x=-1; x<=1; x++) {
+        for(let y=-1; y<=1; y++) {
+             items.push({ pos: [x*1.5, y*1.5, 0] as [number, number, number] });
+        }
+    }
+    return items;
+  }, []);
+
+  const groupRef = useRef<THREE.Group>(null);
+  useFrame((state) => {
+      if(groupRef.current) {
+          groupRef.current.rotation.z = state.clock.getElapsedTime() * 0.1;
+          groupRef.current.rotation.y = Math.sin(state.clock.getElapsedTime() * 0.2) * 0.2;
+      }
+  });
+
+  return (
+     <group ref={groupRef}>
+        {lattice.map((item, i) => (
+            <group key={i} position={item.pos}>
+                <Cone args={[0.5, 1, 4]} rotation={[0, 0, Math.PI]}>
+                    <meshStandardMaterial color={i % 2 === 0 ? primary : secondary} metalness={0.8} roughness={0.2} />
+                </Cone>
+            </group>
+        ))}
+     </group>
+  );
+};
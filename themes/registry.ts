@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ComponentType } from 'react';
+
+export interface ThemeColors {
+  primary: string;
+  secondary: string;
+  bg: string;
+}
+
+// Props every theme layer receives from HeroScene
+export interface ThemeLayerProps {
+  primary: string;
+  secondary: string;
+}
+
+export interface ThemeDefinition {
+  id: string;
+  // Human-readable name of the field, used in prose ("our understanding of ...")
+  label?: string;
+  colors: ThemeColors;
+  // React Three Fiber content rendered in the hero scene. Size particle counts with useParticleCount
+  // (components/SceneCanvas) so they drop on slow devices.
+  Layer: ComponentType<ThemeLayerProps>;
+  // Tells the analysis model which papers belong to this theme
+  promptHint: string;
+  // Dense, coloured star field behind the layer instead of the faint default
+  denseStars?: boolean;
+}
+
+export const FALLBACK_THEME = 'general';
+
+const themes = new Map<string, ThemeDefinition>();
+
+// Registering an id that already exists replaces it, so plugins can restyle built-in themes.
+export const registerTheme = (theme: ThemeDefinition): void => {
+  if (!/^[a-z][a-z0-9-]*$/.test(theme.id)) {
+    throw new Error(`Invalid theme id "${theme.id}": use lower-case letters, digits and dashes.`);
+  }
+  themes.set(theme.id, theme);
+};
+
+export const hasTheme = (id: unknown): id is string => typeof id === 'string' && themes.has(id);
+
+// Unknown ids resolve to the fallback theme, so stored papers keep rendering if a plugin goes away.
+export const getTheme = (id: string): ThemeDefinition => themes.get(id) || themes.get(FALLBACK_THEME)!;
+
+export const listThemes = (): ThemeDefinition[] => [...themes.values()];
+
+export const themeLabel = (id: string): string => {
+  const theme = getTheme(id);
+  return theme.label || theme.id;
+};
@@ -6,12 +6,176 @@
 
 import React from 'react';
 
-export type PaperTheme = 'quantum' | 'ai' | 'biology' | 'cosmos' | 'material' | 'general';
+// Id of a theme in the registry (themes/registry.ts); built-ins include 'quantum', 'ai', 'medicine' and 'general'
+export type PaperTheme = string;
+
+export type RelationType = 'depends-on' | 'produces' | 'contrasts-with' | 'part-of';
+
+// Directed edge from the concept that owns it to another concept, referenced by title
+export interface ConceptRelation {
+  target: string;
+  type: RelationType;
+  explanation: string;
+}
 
 export interface KeyConcept {
   title: string;
   description: string;
   type: 'process' | 'structure' | 'abstract';
+  relations?: ConceptRelation[];
+}
+
+// A passage from the paper backing one of the generated claims
+export interface SourceQuote {
+  text: string;
+  page?: number; // Absent for pasted text
+  verified: boolean; // Found in the document's text layer
+}
+
+// Supporting quotes for the generated prose. A claim without a verified quote is flagged as unsupported.
+export interface PaperSources {
+  summary: SourceQuote[][]; // One list per summary paragraph
+  impact: SourceQuote[];
+  concepts: Record<string, SourceQuote[]>; // By concept title
+}
+
+export interface SectionSummary {
+  heading: string;
+  summary: string;
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+// Normalized (0-1) region of a PDF page
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PaperFigure {
+  id: string;
+  label: string; // e.g. "Figure 2"
+  caption: string;
+  page: number;
+  box?: BoundingBox;
+  image?: string; // JPEG data URL cropped from the rendered page
+  explanation?: string; // "What this figure shows", generated on demand
+}
+
+export interface PaperTable {
+  id: string;
+  label: string;
+  caption: string;
+  page?: number;
+  columns: string[];
+  rows: string[][];
+}
+
+// Bibliographic details used by the Cite menu
+export interface PaperCitation {
+  doi?: string; // Bare DOI, e.g. "10.1038/s41586-024-08148-8"
+  year?: number;
+  venue?: string; // Journal or conference name without the date
+  volume?: string;
+  issue?: string;
+  pages?: string; // e.g. "759-764" or an article number
+}
+
+export type DiagramKind = 'flowchart' | 'pipeline' | 'bar-chart' | 'line-chart' | 'comparison-table' | 'state-machine';
+
+export interface DiagramNode {
+  id: string;
+  label: string;
+  detail?: string; // Shown when the node is selected
+  shape?: string; // Pipeline stages: the data handed to the next stage, e.g. "tokens × 512"
+}
+
+export interface DiagramEdge {
+  from: string; // Node id
+  to: string;
+  label?: string;
+}
+
+export interface DiagramSeries {
+  name: string;
+  values: number[]; // One value per entry in DiagramSpec.labels
+}
+
+// Declarative diagram extracted by the model. Which fields are used depends on `kind`:
+// flowchart / pipeline / state-machine use nodes + edges, the charts use labels + series,
+// comparison-table uses columns + rows.
+export interface DiagramSpec {
+  kind: DiagramKind;
+  title: string;
+  caption?: string;
+  nodes?: DiagramNode[];
+  edges?: DiagramEdge[];
+  initial?: string; // Start state for state machines
+  labels?: string[];
+  series?: DiagramSeries[];
+  unit?: string;
+  columns?: string[];
+  rows?: { label: string; values: string[] }[];
+}
+
+export interface ResultSeries {
+  name: string; // Method or model
+  values: (number | null)[]; // One per condition; null where the paper reports nothing
+  isProposed?: boolean; // The paper's own method, drawn highlighted
+}
+
+// A quantitative comparison from the paper's results, e.g. error rate per method across code distances
+export interface PaperResult {
+  title: string;
+  metric: string;
+  unit?: string;
+  lowerIsBetter: boolean;
+  conditionName?: string; // What varies between conditions, e.g. "Distance"
+  conditions: string[];
+  series: ResultSeries[];
+  source?: string; // Where the numbers come from, e.g. "Table 2"
+  caption?: string;
+}
+
+// One step of the paper's method, in the order it is carried out
+export interface MethodStep {
+  title: string;
+  description: string;
+  inputs: string[];
+  outputs: string[];
+  concept?: string; // Title of the KeyConcept the step relates to
+}
+
+// A symbol used in an equation, written as it appears in the equation's LaTeX
+export interface EquationSymbol {
+  latex: string; // e.g. "\hat{H}" or "p_L"
+  meaning: string;
+}
+
+export interface PaperEquation {
+  latex: string; // Display-mode LaTeX without surrounding $$ or \[ \]
+  title?: string; // e.g. "Logical error per round"
+  description: string; // What the equation says and why it matters
+  symbols: EquationSymbol[];
+}
+
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+  aliases: string[]; // Other spellings or abbreviations that should link to the same definition
+}
+
+export type AudienceLevel = 'high-school' | 'undergraduate' | 'practitioner' | 'expert';
+
+// The reader-facing prose of a paper written for one audience. 'original' is the text from the analysis.
+export type AudienceKey = AudienceLevel | 'original';
+
+export interface AudienceVariant {
+  summary: string;
+  impact: string;
+  conceptDescriptions: Record<string, string>; // By concept title
 }
 
 export interface PaperData {
@@ -26,6 +190,25 @@ export interface PaperData {
   concepts: KeyConcept[];
   impact: string; // The "Impact" text
   url?: string;
+  sections?: SectionSummary[]; // Per-section digest of the full paper
+  figures?: PaperFigure[];
+  tables?: PaperTable[];
+  citation?: PaperCitation;
+  diagrams?: DiagramSpec[];
+  results?: PaperResult[];
+  methodology?: MethodStep[];
+  equations?: PaperEquation[];
+  glossary?: GlossaryEntry[];
+  sources?: PaperSources; // Absent when the paper's text wasn't available to check against
+  audience?: AudienceLevel; // Who summary, impact and concept descriptions are currently written for; absent for the original text
+  audienceVariants?: Partial<Record<AudienceKey, AudienceVariant>>; // Every version generated so far, including the original
+  language?: string; // Language code of the generated text (see i18n/languages.ts); absent for English
+}
+
+// One turn of a conversation about the paper; assistant replies quote the source as "> ..." lines with [p. N] references
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
 }
 
 export interface SectionProps {
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Entry point of the exported static site (see services/exportSite.ts).
+// Renders one paper read-only from the JSON embedded in the page; nothing here talks to a model.
+
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { ConceptNetwork } from './components/GenericVisualizer';
+import { DiagramRenderer } from './components/DiagramRenderer';
+import { BenchmarkChart } from './components/BenchmarkChart';
+import { EquationsPanel } from './components/EquationsPanel';
+import { PaperHero, IntroductionSection, MethodologySection, AnalysisSection, ImpactSection, AuthorsSection } from './components/PaperSections';
+import { GlossarySection } from './components/Glossary';
+import { SceneProvider } from './components/SceneCanvas';
+import { PaperData } from './types';
+import { diagramsFor } from './services/pipeline';
+import { LocaleProvider, languageOf, stringsFor } from './i18n';
+import './viewer.css';
+
+const StaticPaper: React.FC<{ paperData: PaperData }> = ({ paperData }) => (
+  <div className="min-h-screen bg-[#F9F8F4] dark:bg-stone-900 text-stone-800 dark:text-stone-200 selection:bg-purple-200 dark:selection:bg-purple-900 selection:text-stone-900">
+    <PaperHero paperData={paperData} isCustom />
+
+    <main>
+      <IntroductionSection paperData={paperData} isCustom />
+      {paperData.methodology && paperData.methodology.length > 0 && <MethodologySection paperData={paperData} />}
+      {(paperData.concepts.length > 0 || paperData.diagrams || paperData.results || paperData.equations) && (
+        <AnalysisSection>
+          <div className="max-w-6xl mx-auto space-y-12">
+            {diagramsFor(paperData).map((spec, i) => <DiagramRenderer key={i} spec={spec} />)}
+            {paperData.results?.map((result, i) => <BenchmarkChart key={i} result={result} />)}
+            {paperData.equations && <EquationsPanel equations={paperData.equations} />}
+            <ConceptNetwork concepts={paperData.concepts} theme={paperData.theme} sources={paperData.sources} />
+          </div>
+        </AnalysisSection>
+      )}
+      <ImpactSection paperData={paperData} isCustom />
+      {paperData.glossary && paperData.glossary.length > 0 && <GlossarySection glossary={paperData.glossary} />}
+      <AuthorsSection authors={paperData.authors} />
+    </main>
+
+    <footer className="bg-stone-900 dark:bg-black text-stone-400 py-16 border-t border-stone-800">
+      <div className="container mx-auto px-6 text-center">
+        <p className="text-sm opacity-60">{stringsFor(paperData.language).app.visualizing(paperData.title)}</p>
+        <div className="mt-4 text-xs text-stone-600 dark:text-stone-500 font-mono">Made with ScholarLens AI</div>
+      </div>
+    </footer>
+  </div>
+);
+
+const dataElement = document.getElementById('paper-data');
+const rootElement = document.getElementById('root');
+if (!dataElement || !rootElement) {
+  throw new Error("Could not find the embedded paper data or root element");
+}
+
+if (window.matchMedia('(prefers-color-scheme: dark)').matches) {
+  document.documentElement.classList.add('dark');
+}
+
+const paperData: PaperData = JSON.parse(dataElement.textContent || "{}");
+const language = languageOf(paperData.language);
+document.documentElement.lang = language.code;
+document.documentElement.dir = language.dir;
+
+ReactDOM.createRoot(rootElement).render(
+  <React.StrictMode>
+    <SceneProvider>
+      <LocaleProvider language={language.code}>
+        <StaticPaper paperData={paperData} />
+      </LocaleProvider>
+    </SceneProvider>
+  </React.StrictMode>
+);
@@ -0,0 +1,43 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+import tailwindConfig from './tailwind.viewer.config';
+
+// Library builds inline every asset. KaTeX lists WOFF and TrueType fallbacks after each WOFF2 font;
+// every browser that runs the viewer reads WOFF2, so the fallbacks would only bloat the stylesheet.
+const woff2Only = {
+  postcssPlugin: 'woff2-only',
+  Declaration: {
+    src: (decl: { value: string; parent?: { type: string; name?: string } }) => {
+      if (decl.parent?.type !== 'atrule' || decl.parent.name !== 'font-face') return;
+      const sources = decl.value.split(/,(?=\s*url\()/).filter(source => source.includes('woff2'));
+      if (sources.length > 0) decl.value = sources.join(',');
+    }
+  }
+};
+
+// Builds the exported-site viewer as one classic script and one stylesheet (Tailwind, fonts and KaTeX,
+// all inlined), so the exported index.html also works offline and when opened straight from disk (file://).
+export default defineConfig({
+    plugins: [react()],
+    define: {
+      'process.env.NODE_ENV': JSON.stringify('production')
+    },
+    css: {
+      postcss: {
+        plugins: [tailwindcss(tailwindConfig), woff2Only]
+      }
+    },
+    publicDir: false,
+    build: {
+      outDir: 'public/viewer',
+      emptyOutDir: true,
+      lib: {
+        entry: 'viewer.tsx',
+        name: 'ScholarLensViewer',
+        formats: ['iife'],
+        fileName: () => 'viewer.js',
+        cssFileName: 'viewer'
+      }
+    }
+});